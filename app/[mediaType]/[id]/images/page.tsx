@@ -0,0 +1,57 @@
+// app/[mediaType]/[id]/images/page.tsx
+// Server Component: The Images tab of a title. Every poster, backdrop and logo is fetched here;
+// filtering and the lightbox happen in ImageGallery.
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import MediaTabs from '@/components/media/MediaTabs';
+import ImageGallery from '@/components/media/ImageGallery';
+import { getMediaImages } from '@/lib/server/tmdb-api';
+import { getTranslator } from '@/lib/server/i18n';
+import { getCurrentTmdbOptions } from '@/lib/server/session';
+import { TmdbImages, TmdbMovieDetails, TmdbTvShowDetails } from '@/lib/types/tmdb';
+import { loadMedia, parseMediaParams, MediaParams } from '../media';
+
+export async function generateMetadata({ params }: { params: MediaParams }): Promise<Metadata> {
+  const { mediaType, id } = parseMediaParams(await params);
+  const [media, { t }] = await Promise.all([loadMedia(mediaType, id), getTranslator()]);
+  const title = (media.media_type === 'movie' ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name) ?? '';
+
+  return {
+    title: `${t('images.metaTitle', { title })}`,
+    description: t('images.metaDescription', { title }),
+  };
+}
+
+export default async function MediaImagesPage({ params }: { params: MediaParams }) {
+  const { mediaType, id } = parseMediaParams(await params);
+  const [media, { locale, t, localize }] = await Promise.all([loadMedia(mediaType, id), getTranslator()]);
+  const title = (media.media_type === 'movie' ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name) ?? '';
+
+  let images: TmdbImages | null = null;
+  let error: string | null = null;
+
+  try {
+    images = await getMediaImages(mediaType, id, await getCurrentTmdbOptions());
+  } catch (err: any) {
+    console.error("Error fetching images:", err);
+    error = t('details.imagesFailed');
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-900 text-white">
+      <div className="container mx-auto p-4 md:p-8 pt-20 md:pt-24">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-4 leading-tight">
+          <Link href={localize(`/${mediaType}/${id}`)} className="hover:text-blue-400 transition-colors duration-200">{title}</Link>
+        </h1>
+        <MediaTabs mediaType={mediaType} id={id} active="images" locale={locale} />
+
+        {error || !images ? (
+          <p className="text-center text-red-500 text-lg">{error}</p>
+        ) : (
+          <ImageGallery title={title || t('common.untitled')} images={images} />
+        )}
+      </div>
+    </main>
+  );
+}
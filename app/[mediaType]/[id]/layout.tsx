@@ -0,0 +1,19 @@
+// app/[mediaType]/[id]/layout.tsx
+// Server Component: Resolves the title before anything streams, so unknown IDs and media types
+// get a real 404 status. The page below it streams in behind loading.tsx.
+
+import { loadMedia, parseMediaParams, MediaParams } from './media';
+
+export default async function MediaDetailLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: MediaParams;
+}) {
+  const { mediaType, id } = parseMediaParams(await params);
+  // Throws notFound() for unknown IDs. The result is reused by the page through React's cache().
+  await loadMedia(mediaType, id);
+
+  return children;
+}
@@ -0,0 +1,10 @@
+// app/[mediaType]/[id]/loading.tsx
+// Shown while the detail page is fetching from TMDB on the server.
+
+export default function MediaDetailLoading() {
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+      <p className="text-xl animate-pulse">Loading details...</p>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// app/[mediaType]/[id]/media.ts
+// Shared by the detail layout, page and metadata: route param validation and the details fetch.
+
+import { cache } from 'react';
+import { notFound } from 'next/navigation';
+import { getMediaDetails } from '@/lib/server/tmdb-api';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { getCurrentTmdbOptions } from '@/lib/server/session';
+
+export type MediaParams = Promise<{ mediaType: string; id: string }>;
+
+/**
+ * Validates the route params. Anything other than /movie/<number> or /tv/<number> is a 404.
+ */
+export function parseMediaParams({ mediaType, id }: { mediaType: string; id: string }) {
+  if ((mediaType !== 'movie' && mediaType !== 'tv') || !/^\d+$/.test(id)) {
+    notFound();
+  }
+  return { mediaType: mediaType as 'movie' | 'tv', id };
+}
+
+/**
+ * Fetches the media details in the user's language, turning an unknown ID into a 404.
+ * Wrapped in React's cache() so the layout, generateMetadata and the page share one request per render.
+ */
+export const loadMedia = cache(async (mediaType: 'movie' | 'tv', id: string) => {
+  try {
+    return await getMediaDetails(mediaType, id, await getCurrentTmdbOptions());
+  } catch (error) {
+    if (error instanceof TmdbNotFoundError) notFound();
+    throw error;
+  }
+});
@@ -1,11 +1,25 @@
 // app/[mediaType]/[id]/page.tsx
-'use client'; // This page needs client-side hooks
+// Server Component: Renders the detail page for a movie or TV show, fetched directly from TMDB.
 
-import { useState, useEffect } from 'react';
-import ClientImage from '@/components/common/ClientImage'; 
-import { useParams, notFound } from 'next/navigation';
-import { FaStar, FaCalendarAlt, FaClock, FaTag, FaInfoCircle, FaPlayCircle } from 'react-icons/fa';
-import { TmdbMovieDetails, TmdbTvShowDetails, TmdbVideo } from '@/lib/types/tmdb';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import ClientImage from '@/components/common/ClientImage';
+import { FaStar, FaCalendarAlt, FaClock, FaTag, FaInfoCircle } from 'react-icons/fa';
+import { CastSection, KeyCrew } from '@/components/media/CreditsSection';
+import EpisodeBanner from '@/components/media/EpisodeBanner';
+import MediaTabs from '@/components/media/MediaTabs';
+import RecentlyViewedTracker from '@/components/media/RecentlyViewedTracker';
+import WatchProviders from '@/components/media/WatchProviders';
+import VideoGallery from '@/components/media/VideoGallery';
+import MediaRow from '@/components/common/MediaRow';
+import WatchlistControls from '@/components/watchlist/WatchlistControls';
+import { getMediaVideos, getMediaCredits, getMediaRecommendations, getSimilarMedia, getMediaWatchProviders } from '@/lib/server/tmdb-api';
+import { getCurrentTmdbOptions, getTmdbOptions, getUserSettings } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { TmdbMovieDetails, TmdbTvShowDetails, TmdbVideo, TmdbCredits, TmdbMediaItem, TmdbWatchProviderRegion } from '@/lib/types/tmdb';
+import { pickFeaturedTrailer } from '@/lib/videos';
+import { formatNumber, formatRating, formatYear } from '@/lib/utils';
+import { loadMedia, parseMediaParams, MediaParams } from './media';
 
 const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
 
@@ -13,103 +27,154 @@ const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
 const getImageUrl = (path: string | null | undefined, size: string = 'original') =>
   path ? `${TMDB_IMAGE_BASE_URL}${size}${path}` : `https://placehold.co/png/500x750/1f2937/FFFFFF?text=No+Image`;
 
-export default function MediaDetailPage() {
-  const params = useParams();
-  const mediaType = params.mediaType as 'movie' | 'tv';
-  const id = params.id as string;
-
-  const [media, setMedia] = useState<TmdbMovieDetails | TmdbTvShowDetails | null>(null);
-  const [videos, setVideos] = useState<TmdbVideo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!mediaType || !id) {
-      notFound();
-      return;
-    }
-
-    const fetchMediaAndVideos = async () => {
-      setLoading(true);
-      setError(null);
-
-      try {
-        const mediaResponse = await fetch(`/api/media-details?mediaType=${mediaType}&id=${id}`);
-        if (!mediaResponse.ok) throw new Error((await mediaResponse.json()).error || 'Failed to fetch media details');
-        const mediaData = await mediaResponse.json();
-        setMedia(mediaData);
-
-        const videosResponse = await fetch(`/api/media-details?mediaType=${mediaType}&id=${id}&videos=true`);
-        if (videosResponse.ok) {
-          const videosData = await videosResponse.json();
-          setVideos(videosData.results || []);
-        } else {
-          console.error("Failed to fetch videos:", await videosResponse.json());
-          setVideos([]);
-        }
-      } catch (err: any) {
-        console.error("Error fetching media details or videos:", err);
-        setError(err.message || 'An unexpected error occurred.');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchMediaAndVideos();
-  }, [mediaType, id]);
-
-  // Pick the most relevant trailer
-  const mainTrailer =
-    videos.find(v => v.site === 'YouTube' && v.type === 'Trailer' && v.official) ||
-    videos.find(v => v.site === 'YouTube' && v.type === 'Trailer') ||
-    videos.find(v => v.site === 'YouTube' && v.type === 'Teaser');
-
-  if (loading) return (
-    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
-      <p className="text-xl">Loading details...</p>
-    </div>
-  );
+// The language part of a settings language tag, e.g. "fr-FR" -> "fr"
+const toVideoLanguage = (language: string) => language.split('-')[0];
 
-  if (error) return (
-    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
-      <p className="text-xl text-red-500">Error: {error}</p>
-    </div>
-  );
+/**
+ * Fetches the videos for a title in the user's language and the title's original language, plus videos
+ * without a language. Videos are optional, so failures render the "no trailer" state.
+ */
+async function loadVideos(mediaType: 'movie' | 'tv', id: string): Promise<TmdbVideo[]> {
+  try {
+    // Both are cached for the request, so this doesn't refetch what the page already loads.
+    const [media, settings] = await Promise.all([loadMedia(mediaType, id), getUserSettings()]);
+    const languages = [...new Set([toVideoLanguage(settings.language), media.original_language, 'null'])];
+    const videosData = await getMediaVideos(mediaType, id, languages, getTmdbOptions(settings));
+    return videosData.results || [];
+  } catch (error) {
+    console.error("Failed to fetch videos:", error);
+    return [];
+  }
+}
+
+/**
+ * Fetches the cast and crew for a title. Credits are optional, so failures just hide the cast sections.
+ */
+async function loadCredits(mediaType: 'movie' | 'tv', id: string): Promise<TmdbCredits | null> {
+  try {
+    return await getMediaCredits(mediaType, id, await getCurrentTmdbOptions());
+  } catch (error) {
+    console.error("Failed to fetch credits:", error);
+    return null;
+  }
+}
+
+/**
+ * Fetches where a title can be watched, per region. Availability is optional, so failures just hide the section.
+ */
+async function loadWatchProviders(mediaType: 'movie' | 'tv', id: string): Promise<Record<string, TmdbWatchProviderRegion> | null> {
+  try {
+    return (await getMediaWatchProviders(mediaType, id, await getCurrentTmdbOptions())).results;
+  } catch (error) {
+    console.error("Failed to fetch watch providers:", error);
+    return null;
+  }
+}
+
+/**
+ * Fetches recommended and similar titles. Both rows are optional, so a failure just hides that row.
+ */
+async function loadRelated(mediaType: 'movie' | 'tv', id: string): Promise<{ recommended: TmdbMediaItem[]; similar: TmdbMediaItem[] }> {
+  const options = await getCurrentTmdbOptions();
+  const [recommended, similar] = await Promise.allSettled([
+    getMediaRecommendations(mediaType, id, 1, options),
+    getSimilarMedia(mediaType, id, 1, options),
+  ]);
+  if (recommended.status === 'rejected') console.error("Failed to fetch recommendations:", recommended.reason);
+  if (similar.status === 'rejected') console.error("Failed to fetch similar titles:", similar.reason);
+  return {
+    recommended: recommended.status === 'fulfilled' ? recommended.value.results : [],
+    similar: similar.status === 'fulfilled' ? similar.value.results : [],
+  };
+}
+
+export async function generateMetadata({ params }: { params: MediaParams }): Promise<Metadata> {
+  const { mediaType, id } = parseMediaParams(await params);
+  const [media, { language, t }] = await Promise.all([loadMedia(mediaType, id), getTranslator()]);
+
+  const title = (media.media_type === 'movie' ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name) ?? '';
+  const date = media.media_type === 'movie' ? (media as TmdbMovieDetails).release_date : (media as TmdbTvShowDetails).first_air_date;
+  const releaseYear = formatYear(date, language);
+  const year = releaseYear ? ` (${releaseYear})` : '';
+  const description = media.overview ? media.overview.slice(0, 200) : t('details.metaDescription', { title });
+
+  // Backdrop first: its landscape ratio is what link previews expect. The poster is a fallback.
+  const images = [
+    media.backdrop_path && { url: getImageUrl(media.backdrop_path, 'w1280'), width: 1280, height: 720, alt: t('details.backdropAlt', { title }) },
+    media.poster_path && { url: getImageUrl(media.poster_path, 'w780'), width: 780, height: 1170, alt: t('details.posterAlt', { title }) },
+  ].filter(image => !!image);
+
+  return {
+    title: `${title}${year}`,
+    description,
+    openGraph: {
+      title: `${title}${year}`,
+      description,
+      type: mediaType === 'movie' ? 'video.movie' : 'video.tv_show',
+      images,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: `${title}${year}`,
+      description,
+      images: images.map(image => image.url),
+    },
+  };
+}
+
+export default async function MediaDetailPage({ params }: { params: MediaParams }) {
+  const { mediaType, id } = parseMediaParams(await params);
 
-  if (!media) notFound();
+  const [media, videos, credits, related, watchProviders, settings, { locale, language, t, localize }] = await Promise.all([
+    loadMedia(mediaType, id),
+    loadVideos(mediaType, id),
+    loadCredits(mediaType, id),
+    loadRelated(mediaType, id),
+    loadWatchProviders(mediaType, id),
+    getUserSettings(),
+    getTranslator(),
+  ]);
 
-  const title = media.media_type === 'movie' ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name;
+  // Feature the trailer in the language the user prefers (dubbed or original)
+  const featuredTrailer = pickFeaturedTrailer(
+    videos,
+    settings.trailerLanguage,
+    toVideoLanguage(settings.language),
+    media.original_language
+  );
+
+  const title = (media.media_type === 'movie' ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name) ?? '';
   const posterPath = media.poster_path;
   const backdropPath = media.backdrop_path;
   const overview = media.overview;
-  const rating = media.vote_average ? media.vote_average.toFixed(1) : 'N/A';
-  const genres = media.genres?.map(g => g.name).join(', ') || 'N/A';
+  const notAvailable = t('common.notAvailable');
+  const rating = media.vote_average ? formatRating(media.vote_average, language) : notAvailable;
+  const genres = media.genres?.map(g => g.name).join(', ') || notAvailable;
 
   let releaseInfo = '';
   let durationInfo = '';
   if (media.media_type === 'movie') {
     const movie = media as TmdbMovieDetails;
-    releaseInfo = movie.release_date ? new Date(movie.release_date).getFullYear().toString() : 'N/A';
-    durationInfo = movie.runtime ? `${movie.runtime} mins` : 'N/A';
+    releaseInfo = formatYear(movie.release_date, language) ?? notAvailable;
+    durationInfo = movie.runtime ? t('details.runtime', { count: formatNumber(movie.runtime, language) }) : notAvailable;
   } else {
     const tvShow = media as TmdbTvShowDetails;
-    releaseInfo = tvShow.first_air_date ? new Date(tvShow.first_air_date).getFullYear().toString() : 'N/A';
-    durationInfo = tvShow.number_of_seasons ? `${tvShow.number_of_seasons} seasons` : 'N/A';
-    if (tvShow.number_of_episodes) {
-      durationInfo += tvShow.number_of_seasons
-        ? `, ${tvShow.number_of_episodes} episodes`
-        : `${tvShow.number_of_episodes} episodes`;
-    }
+    releaseInfo = formatYear(tvShow.first_air_date, language) ?? notAvailable;
+    const seasons = tvShow.number_of_seasons ? t('details.seasonsCount', { count: formatNumber(tvShow.number_of_seasons, language) }) : '';
+    const episodes = tvShow.number_of_episodes ? t('details.episodesCount', { count: formatNumber(tvShow.number_of_episodes, language) }) : '';
+    durationInfo = [seasons, episodes].filter(Boolean).join(', ') || notAvailable;
   }
 
   return (
     <div className="min-h-screen bg-gray-900 text-white relative">
+      <RecentlyViewedTracker mediaType={mediaType} id={media.id} title={title || t('common.untitled')} />
+
       {/* Backdrop */}
       {backdropPath && (
         <div className="absolute inset-0 w-full h-full">
           <ClientImage
             src={getImageUrl(backdropPath, 'original')}
-            alt={`${title} Backdrop`}
+            alt={t('details.backdropAlt', { title })}
             fill
             sizes="100vw"
             className="object-cover object-center opacity-20"
@@ -125,7 +190,7 @@ export default function MediaDetailPage() {
         <div className="flex-shrink-0 w-full md:w-1/2 lg:w-1/3 xl:w-1/4 mb-8 lg:mb-0 lg:mr-10">
           <ClientImage
             src={getImageUrl(posterPath, 'w500')}
-            alt={`${title} Poster`}
+            alt={t('details.posterAlt', { title })}
             width={500}
             height={750}
             className="rounded-lg shadow-2xl w-full h-auto object-cover"
@@ -137,6 +202,7 @@ export default function MediaDetailPage() {
         <div className="flex-grow">
           <h1 className="text-4xl md:text-5xl font-extrabold mb-4 leading-tight">{title}</h1>
           {media.tagline && <p className="text-xl text-gray-400 italic mb-6">"{media.tagline}"</p>}
+          <MediaTabs mediaType={mediaType} id={media.id} active="overview" locale={locale} />
 
           <div className="flex flex-wrap items-center text-lg text-gray-300 mb-6 gap-x-6 gap-y-3">
             <span className="flex items-center"><FaStar className="text-yellow-400 mr-2" />{rating} / 10</span>
@@ -145,14 +211,37 @@ export default function MediaDetailPage() {
             <span className="flex items-center"><FaTag className="text-purple-400 mr-2" />{genres}</span>
           </div>
 
+          <WatchlistControls mediaType={mediaType} id={media.id} />
+
+          {media.media_type === 'tv' && (
+            <EpisodeBanner
+              showId={media.id}
+              nextEpisode={(media as TmdbTvShowDetails).next_episode_to_air}
+              lastEpisode={(media as TmdbTvShowDetails).last_episode_to_air}
+              locale={locale}
+            />
+          )}
+
           <h2 className="text-2xl font-bold mb-3 text-gray-200 flex items-center">
-            <FaInfoCircle className="mr-2 text-blue-400" />Overview
+            <FaInfoCircle className="mr-2 text-blue-400" />{t('details.overview')}
           </h2>
-          <p className="text-gray-300 text-lg leading-relaxed mb-8">{overview || 'No overview available.'}</p>
+          <p className="text-gray-300 text-lg leading-relaxed mb-8">{overview || t('details.noOverview')}</p>
+
+          {credits && (
+            <KeyCrew
+              crew={credits.crew}
+              creators={media.media_type === 'tv' ? (media as TmdbTvShowDetails).created_by : undefined}
+              locale={locale}
+            />
+          )}
+
+          {watchProviders && (
+            <WatchProviders title={title || t('common.untitled')} providersByRegion={watchProviders} initialRegion={settings.region} />
+          )}
 
           {media.media_type === 'movie' && (media as TmdbMovieDetails).production_companies?.length > 0 && (
             <div className="mb-6">
-              <h3 className="text-xl font-bold mb-2 text-gray-200">Production Companies:</h3>
+              <h3 className="text-xl font-bold mb-2 text-gray-200">{t('details.productionCompanies')}</h3>
               <div className="flex flex-wrap gap-4">
                 {(media as TmdbMovieDetails).production_companies.map(company => (
                   <span key={company.id} className="bg-gray-700 text-gray-200 px-3 py-1 rounded-full text-sm">
@@ -165,44 +254,32 @@ export default function MediaDetailPage() {
 
           {media.media_type === 'tv' && (media as TmdbTvShowDetails).seasons?.length > 0 && (
             <div className="mb-6">
-              <h3 className="text-xl font-bold mb-2 text-gray-200">Seasons:</h3>
+              <h3 className="text-xl font-bold mb-2 text-gray-200">{t('details.seasons')}</h3>
               <div className="flex flex-wrap gap-4">
                 {(media as TmdbTvShowDetails).seasons.map(season => (
-                  <span key={season.id} className="bg-gray-700 text-gray-200 px-3 py-1 rounded-full text-sm">
-                    Season {season.season_number} ({season.episode_count} episodes)
-                  </span>
+                  <Link
+                    key={season.id}
+                    href={localize(`/tv/${media.id}/season/${season.season_number}`)}
+                    className="bg-gray-700 hover:bg-blue-600 text-gray-200 hover:text-white px-3 py-1 rounded-full text-sm transition-colors duration-200"
+                  >
+                    {season.season_number === 0 ? season.name : t('details.season', { number: season.season_number })}
+                    {' '}({t('details.episodesCount', { count: formatNumber(season.episode_count, language) })})
+                  </Link>
                 ))}
               </div>
             </div>
           )}
 
-          {/* Trailer */}
-          <div className="mb-8">
-            <h2 className="text-2xl font-bold mb-4 text-gray-200 flex items-center">
-              <FaPlayCircle className="mr-2 text-red-500" />Official Trailer
-            </h2>
-            {mainTrailer ? (
-              <div className="relative pt-[56.25%] bg-gray-800 rounded-lg overflow-hidden shadow-xl">
-                <iframe
-                  className="absolute top-0 left-0 w-full h-full"
-                  src={`https://www.youtube.com/embed/${mainTrailer.key}?autoplay=0&controls=1&modestbranding=1&rel=0`}
-                  title={`${title} Trailer`}
-                  frameBorder="0"
-                  allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                  allowFullScreen
-                ></iframe>
-              </div>
-            ) : (
-              <div className="bg-gray-800 p-6 rounded-lg shadow-inner flex flex-col items-center justify-center text-center h-48">
-                <p className="text-xl text-gray-400 mb-2">No official trailer available.</p>
-                <p className="text-sm text-gray-500">
-                  We're sorry, it looks like there isn't a trailer for this {mediaType === 'movie' ? 'movie' : 'TV show'} yet.
-                </p>
-              </div>
-            )}
-          </div>
+          <VideoGallery title={title || t('common.untitled')} videos={videos} featured={featuredTrailer} />
         </div>
       </div>
+
+      {/* Sections below the fold */}
+      <div className="container mx-auto px-4 md:px-8 pb-12 relative z-10">
+        {credits && <CastSection credits={credits} locale={locale} />}
+        <MediaRow title={t('details.recommended')} entries={related.recommended.map(item => ({ item }))} />
+        <MediaRow title={t('details.similar')} entries={related.similar.map(item => ({ item }))} />
+      </div>
     </div>
   );
 }
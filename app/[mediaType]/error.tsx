@@ -0,0 +1,33 @@
+// app/[mediaType]/error.tsx
+'use client'; // Error boundaries must be Client Components
+
+import { useEffect } from 'react';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+interface MediaDetailErrorProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+}
+
+/**
+ * Rendered when the detail page throws, e.g. when TMDB is down or rate limiting us.
+ * Unknown IDs don't end up here; they render app/not-found.tsx instead.
+ */
+export default function MediaDetailError({ error, reset }: MediaDetailErrorProps) {
+  const { t } = useLocale();
+  useEffect(() => {
+    console.error("Error rendering media details:", error);
+  }, [error]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center space-y-6 px-4 text-center">
+      <p className="text-xl text-red-500">{t('details.failed')}</p>
+      <button
+        onClick={reset}
+        className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-400"
+      >
+        {t('pagination.retry')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+// app/account/page.tsx
+// Server Component: The signed-in user's settings.
+
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getCurrentUser, getTmdbOptions } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { getWatchProviders } from '@/lib/server/tmdb-api';
+import { TmdbWatchProvider } from '@/lib/types/tmdb';
+import { UserSettings } from '@/lib/types/account';
+import SettingsForm from '@/components/account/SettingsForm';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: `${t('account.settings')}`,
+    description: t('settings.description'),
+  };
+}
+
+/**
+ * Fetches the streaming services to choose from. Without them the other settings still work, so failures are logged and ignored.
+ */
+async function loadProviders(settings: UserSettings): Promise<TmdbWatchProvider[]> {
+  try {
+    return await getWatchProviders(settings.region, getTmdbOptions(settings));
+  } catch (error) {
+    console.error("Failed to fetch watch providers:", error);
+    return [];
+  }
+}
+
+export default async function AccountPage() {
+  // The middleware only checks that a session cookie exists; an expired session ends up here.
+  const [user, { t, localize }] = await Promise.all([getCurrentUser(), getTranslator()]);
+  if (!user) {
+    redirect(localize(`/login?next=${localize('/account')}`));
+  }
+  const providers = await loadProviders(user.settings);
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section className="pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-2 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500
+                       drop-shadow-lg animate-fade-in-up">
+          {t('account.settings')}
+        </h1>
+        <p className="text-center text-gray-400 mb-8">{t('account.signedInAs', { username: user.username })}</p>
+        <SettingsForm settings={user.settings} providers={providers} />
+      </section>
+    </main>
+  );
+}
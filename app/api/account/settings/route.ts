@@ -0,0 +1,32 @@
+// app/api/account/settings/route.ts
+// API route replacing the signed-in user's settings.
+
+import { updateUserSettings, userSettingsSchema } from '@/lib/server/user-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function PUT(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  const body = userSettingsSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid settings.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const updated = await updateUserSettings(user.id, body.data);
+    if (!updated) {
+      return NextResponse.json({ error: 'Account not found.' }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error(`API Route Error saving settings for ${user.username}:`, error);
+    return NextResponse.json({ error: 'Failed to save settings.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/auth/login/route.ts
+// API route signing in with a username and password.
+
+import { verifyCredentials } from '@/lib/server/user-store';
+import { createSession } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// Login doesn't enforce the registration rules, so accounts stay usable if those rules change. The length
+// cap matches registration's, so nobody can make the server hash a huge password.
+const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1).max(200),
+});
+
+export async function POST(request: Request) {
+  const body = loginSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ error: 'Username and password are required.' }, { status: 400 });
+  }
+
+  try {
+    const user = await verifyCredentials(body.data.username, body.data.password);
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid username or password.' }, { status: 401 });
+    }
+
+    await createSession(user.id);
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("API Route Error signing in:", error);
+    return NextResponse.json({ error: 'Failed to sign in.' }, { status: 500 });
+  }
+}
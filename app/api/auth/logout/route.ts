@@ -0,0 +1,15 @@
+// app/api/auth/logout/route.ts
+// API route ending the current session.
+
+import { destroySession } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function POST() {
+  try {
+    await destroySession();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("API Route Error signing out:", error);
+    return NextResponse.json({ error: 'Failed to sign out.' }, { status: 500 });
+  }
+}
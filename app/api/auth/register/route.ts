@@ -0,0 +1,34 @@
+// app/api/auth/register/route.ts
+// API route creating a local account and signing it in.
+
+import { createUser, credentialsSchema } from '@/lib/server/user-store';
+import { createSession } from '@/lib/server/session';
+import { claimUnclaimedWatchlist } from '@/lib/server/watchlist-store';
+import { NextResponse } from 'next/server';
+
+export async function POST(request: Request) {
+  const body = credentialsSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid username or password.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const created = await createUser(body.data.username, body.data.password);
+    if (!created) {
+      return NextResponse.json({ error: `The username "${body.data.username}" is already taken.` }, { status: 409 });
+    }
+
+    // The first account inherits the watchlist saved before accounts existed.
+    const { user, isFirstUser } = created;
+    if (isFirstUser) await claimUnclaimedWatchlist(user.id);
+
+    await createSession(user.id);
+    return NextResponse.json(user, { status: 201 });
+  } catch (error) {
+    console.error("API Route Error creating an account:", error);
+    return NextResponse.json({ error: 'Failed to create the account.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/debug/tmdb-cache/route.ts
+// Debug endpoint exposing the TMDB response cache counters. Disabled in production unless TMDB_DEBUG_ROUTES=true.
+
+import { getTmdbCacheStats, clearTmdbCache } from '@/lib/server/tmdb-cache';
+import { getTmdbCircuitStatus } from '@/lib/server/tmdb-resilience';
+import { NextResponse } from 'next/server';
+
+// Never cache this route's own output.
+export const dynamic = 'force-dynamic';
+
+function isDebugEnabled() {
+  return process.env.NODE_ENV !== 'production' || process.env.TMDB_DEBUG_ROUTES === 'true';
+}
+
+export async function GET() {
+  if (!isDebugEnabled()) {
+    return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ...getTmdbCacheStats(), circuit: getTmdbCircuitStatus() });
+}
+
+export async function DELETE() {
+  if (!isDebugEnabled()) {
+    return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  }
+
+  // Clears all cached TMDB responses and resets the counters
+  clearTmdbCache();
+  return NextResponse.json(getTmdbCacheStats());
+}
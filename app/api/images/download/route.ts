@@ -0,0 +1,38 @@
+// app/api/images/download/route.ts
+// API route downloading a TMDB image at its original resolution (?path=/abc.jpg) as an attachment.
+
+import { NextResponse } from 'next/server';
+
+const TMDB_ORIGINAL_IMAGE_URL = "https://image.tmdb.org/t/p/original";
+
+// TMDB file paths look like "/d5NXSklXo0qyIYkgV94XAgMIckC.jpg"; anything else could point the proxy elsewhere.
+const FILE_PATH_PATTERN = /^\/[A-Za-z0-9_-]+\.(jpg|jpeg|png|svg)$/;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const path = searchParams.get('path') ?? '';
+
+  if (!FILE_PATH_PATTERN.test(path)) {
+    return NextResponse.json({ error: 'Expected ?path= with a TMDB image file path.' }, { status: 400 });
+  }
+
+  try {
+    const upstream = await fetch(`${TMDB_ORIGINAL_IMAGE_URL}${path}`);
+    if (upstream.status === 404) {
+      return NextResponse.json({ error: 'Image not found.' }, { status: 404 });
+    }
+    if (!upstream.ok || !upstream.body) {
+      throw new Error(`TMDB image request failed with status ${upstream.status}`);
+    }
+    return new NextResponse(upstream.body, {
+      headers: {
+        'Content-Type': upstream.headers.get('Content-Type') ?? 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${path.slice(1)}"`,
+        'Cache-Control': 'public, max-age=86400', // Image files never change for a given path
+      },
+    });
+  } catch (error) {
+    console.error(`API Route Error downloading image ${path}:`, error);
+    return NextResponse.json({ error: 'Failed to download the image.' }, { status: 502 });
+  }
+}
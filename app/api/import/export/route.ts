@@ -0,0 +1,35 @@
+// app/api/import/export/route.ts
+// API route downloading the signed-in user's watched log as a Letterboxd (?format=letterboxd) or IMDb (?format=imdb) CSV.
+
+import { exportWatchedLog } from '@/lib/server/rating-import';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse, type NextRequest } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  const format = request.nextUrl.searchParams.get('format');
+  if (format !== 'letterboxd' && format !== 'imdb') {
+    return NextResponse.json({ error: 'Expected ?format=letterboxd or ?format=imdb.' }, { status: 400 });
+  }
+
+  try {
+    const csv = await exportWatchedLog(user.id, format);
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="movie-explorer-${format}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error(`API Route Error exporting the watched log as ${format}:`, error);
+    return NextResponse.json({ error: 'Failed to export your watched log.' }, { status: 502 });
+  }
+}
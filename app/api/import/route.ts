@@ -0,0 +1,34 @@
+// app/api/import/route.ts
+// API route reading a Letterboxd or IMDb ratings CSV (sent as the request body) and matching its rows to TMDB.
+// Nothing is saved here; the client confirms the matches with /api/import/save.
+
+import { resolveRatingFile } from '@/lib/server/rating-import';
+import { MAX_RATING_FILE_BYTES, RatingFileError } from '@/lib/server/rating-files';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentTmdbOptions, getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_RATING_FILE_BYTES) {
+    return NextResponse.json({ error: `The file is too large; the limit is ${MAX_RATING_FILE_BYTES / 1024 / 1024} MB.` }, { status: 413 });
+  }
+
+  try {
+    return NextResponse.json(await resolveRatingFile(text, await getCurrentTmdbOptions()));
+  } catch (error) {
+    if (error instanceof RatingFileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error("API Route Error matching a ratings file:", error);
+    return NextResponse.json({ error: 'Failed to match the file against TMDB.' }, { status: 502 });
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/import/save/route.ts
+// API route saving confirmed matches from a ratings file to the signed-in user's watched log.
+
+import { importSaveSchema, saveImportedRatings } from '@/lib/server/rating-import';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  const body = importSaveSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid import.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await saveImportedRatings(user.id, body.data.items));
+  } catch (error) {
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error("API Route Error saving imported ratings:", error);
+    return NextResponse.json({ error: 'Failed to save the imported titles.' }, { status: 502 });
+  }
+}
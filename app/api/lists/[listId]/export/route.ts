@@ -0,0 +1,30 @@
+// app/api/lists/[listId]/export/route.ts
+// API route downloading one of the signed-in user's custom lists as a JSON file that /api/lists/import accepts.
+
+import { exportList, getUserList } from '@/lib/server/list-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ listId: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+  const { listId } = await params;
+
+  try {
+    const list = await getUserList(user.id, listId);
+    if (!list) {
+      return NextResponse.json({ error: `No list found with id ${listId}.` }, { status: 404 });
+    }
+    return new NextResponse(JSON.stringify(exportList(list), null, 2) + '\n', {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${list.slug}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error(`API Route Error exporting list ${listId}:`, error);
+    return NextResponse.json({ error: 'Failed to export the list.' }, { status: 500 });
+  }
+}
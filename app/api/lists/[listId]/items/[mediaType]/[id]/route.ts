@@ -0,0 +1,76 @@
+// app/api/lists/[listId]/items/[mediaType]/[id]/route.ts
+// API route adding a title to a custom list or editing its note (PUT), or removing it (DELETE).
+
+import { ListUpdateError, listItemUpdateSchema, removeListItem, saveListItem } from '@/lib/server/list-store';
+import { TmdbNotFoundError, TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ listId: string; mediaType: string; id: string }> };
+
+/**
+ * Checks the session and validates the route params, returning an error response if either fails.
+ */
+async function parseRequest(params: RouteParams['params']) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Sign in required.' }, { status: 401 }) };
+  }
+
+  const { listId, mediaType, id } = await params;
+  if ((mediaType !== 'movie' && mediaType !== 'tv') || !/^\d+$/.test(id)) {
+    return { error: NextResponse.json({ error: 'Expected /api/lists/{listId}/items/{movie|tv}/{numeric id}.' }, { status: 400 }) };
+  }
+  return { userId: user.id, listId, mediaType: mediaType as 'movie' | 'tv', id: Number(id) };
+}
+
+const listNotFound = (listId: string) => NextResponse.json({ error: `No list found with id ${listId}.` }, { status: 404 });
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  const parsed = await parseRequest(params);
+  if (parsed.error) return parsed.error;
+  const { userId, listId, mediaType, id } = parsed;
+
+  const body = listItemUpdateSchema.safeParse(await request.json().catch(() => ({})));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid list item.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const list = await saveListItem(userId, listId, mediaType, id, body.data);
+    return list ? NextResponse.json(list) : listNotFound(listId);
+  } catch (error) {
+    if (error instanceof ListUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof TmdbNotFoundError) {
+      return NextResponse.json({ error: `No ${mediaType} found with id ${id}.` }, { status: 404 });
+    }
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error(`API Route Error saving ${mediaType} ${id} to list ${listId}:`, error);
+    return NextResponse.json({ error: 'Failed to save to the list.' }, { status: 502 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  const parsed = await parseRequest(params);
+  if (parsed.error) return parsed.error;
+  const { userId, listId, mediaType, id } = parsed;
+
+  try {
+    const list = await removeListItem(userId, listId, mediaType, id);
+    if (list === null) return listNotFound(listId);
+    if (list === false) {
+      return NextResponse.json({ error: `${mediaType} ${id} is not on this list.` }, { status: 404 });
+    }
+    return NextResponse.json(list);
+  } catch (error) {
+    console.error(`API Route Error removing ${mediaType} ${id} from list ${listId}:`, error);
+    return NextResponse.json({ error: 'Failed to update the list.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/lists/[listId]/route.ts
+// API route reading (GET), updating (PATCH: name, description, item order) or deleting (DELETE) one of the
+// signed-in user's custom lists.
+
+import { deleteList, getUserList, listDetailsUpdateSchema, ListUpdateError, updateList } from '@/lib/server/list-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ listId: string }> };
+
+const notFound = (listId: string) => NextResponse.json({ error: `No list found with id ${listId}.` }, { status: 404 });
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+  const { listId } = await params;
+
+  try {
+    const list = await getUserList(user.id, listId);
+    return list ? NextResponse.json(list) : notFound(listId);
+  } catch (error) {
+    console.error(`API Route Error reading list ${listId}:`, error);
+    return NextResponse.json({ error: 'Failed to read the list.' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+  const { listId } = await params;
+
+  const body = listDetailsUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid list update.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const list = await updateList(user.id, listId, body.data);
+    return list ? NextResponse.json(list) : notFound(listId);
+  } catch (error) {
+    if (error instanceof ListUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`API Route Error updating list ${listId}:`, error);
+    return NextResponse.json({ error: 'Failed to update the list.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+  const { listId } = await params;
+
+  try {
+    return (await deleteList(user.id, listId)) ? new NextResponse(null, { status: 204 }) : notFound(listId);
+  } catch (error) {
+    console.error(`API Route Error deleting list ${listId}:`, error);
+    return NextResponse.json({ error: 'Failed to delete the list.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/lists/import/route.ts
+// API route creating a custom list from an exported JSON file.
+
+import { importList, listExportSchema } from '@/lib/server/list-store';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  const body = listExportSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'This is not a list export file.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await importList(user.id, body.data), { status: 201 });
+  } catch (error) {
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error("API Route Error importing a list:", error);
+    return NextResponse.json({ error: 'Failed to import the list.' }, { status: 502 });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/lists/route.ts
+// API route listing (GET) the signed-in user's custom lists and creating (POST) a new one.
+
+import { createList, listCreateSchema, listUserLists } from '@/lib/server/list-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ lists: await listUserLists(user.id) });
+  } catch (error) {
+    console.error("API Route Error reading lists:", error);
+    return NextResponse.json({ error: 'Failed to read your lists.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  const body = listCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid list.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await createList(user.id, body.data), { status: 201 });
+  } catch (error) {
+    console.error("API Route Error creating a list:", error);
+    return NextResponse.json({ error: 'Failed to create the list.' }, { status: 500 });
+  }
+}
@@ -1,7 +1,10 @@
 // app/api/media-details/route.ts
 // This is a Next.js API route, which runs on the server.
+// Deprecated in favour of /api/v1/movies/{id} and /api/v1/tv/{id} (see lib/server/api-v1-routes.ts);
+// kept for existing callers, and marked with a Deprecation header so they can find the replacement.
 
 import { getMediaDetails, getMediaVideos } from '@/lib/server/tmdb-api'; // Import getMediaVideos
+import { TmdbNotFoundError, TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
 import { NextResponse } from 'next/server';
 
 export async function GET(request: Request) {
@@ -18,18 +21,29 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Invalid mediaType. Must be "movie" or "tv".' }, { status: 400 });
   }
 
+  const deprecationHeaders = {
+    Deprecation: 'true',
+    Link: `</api/v1/${mediaType === 'movie' ? 'movies' : 'tv'}/${id}>; rel="successor-version"`,
+  };
+
   try {
     if (fetchVideos) {
       // If 'videos=true' is present, fetch videos
       const videosData = await getMediaVideos(mediaType, id);
-      return NextResponse.json(videosData);
+      return NextResponse.json(videosData, { headers: deprecationHeaders });
     } else {
       // Otherwise, fetch media details (default behavior)
       const data = await getMediaDetails(mediaType, id);
-      return NextResponse.json(data);
+      return NextResponse.json(data, { headers: deprecationHeaders });
     }
   } catch (error) {
+    if (error instanceof TmdbNotFoundError) {
+      return NextResponse.json({ error: `No ${mediaType} found with id ${id}.` }, { status: 404 });
+    }
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
     console.error(`API Route Error fetching media details/videos for ${mediaType} ${id}:`, error);
-    return NextResponse.json({ error: 'Failed to fetch media details or videos.' }, { status: 500 });
+    return NextResponse.json({ error: 'Failed to fetch media details or videos.' }, { status: 502 });
   }
 }
\ No newline at end of file
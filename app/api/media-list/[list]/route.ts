@@ -0,0 +1,37 @@
+// app/api/media-list/[list]/route.ts
+// API route serving one page of a browse list (see lib/server/media-lists.ts) to the "load more"
+// and infinite-scroll grids, in the signed-in user's language and region, with the grid's sort and
+// filters (see lib/grid-filters.ts) applied like the server-rendered page.
+
+import { parseGridParams } from '@/lib/grid-filters';
+import { getMediaListPage, isMediaListKey } from '@/lib/server/media-lists';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getTmdbOptions, getUserSettings, USER_SETTINGS_VARY } from '@/lib/server/session';
+import { TMDB_MAX_PAGE } from '@/lib/utils';
+import { NextResponse } from 'next/server';
+
+export async function GET(request: Request, { params }: { params: Promise<{ list: string }> }) {
+  const { list } = await params;
+  const { searchParams } = new URL(request.url);
+  const page = Number(searchParams.get('page') ?? '1');
+
+  if (!isMediaListKey(list)) {
+    return NextResponse.json({ error: `Unknown list "${list}".` }, { status: 404 });
+  }
+  if (!Number.isInteger(page) || page < 1 || page > TMDB_MAX_PAGE) {
+    return NextResponse.json({ error: `page must be a whole number from 1 to ${TMDB_MAX_PAGE}.` }, { status: 400 });
+  }
+
+  try {
+    const settings = await getUserSettings();
+    const data = await getMediaListPage(list, page, parseGridParams(Object.fromEntries(searchParams)), getTmdbOptions(settings));
+    // Lists change slowly, so let the browser reuse a page when the same grid is opened again soon.
+    return NextResponse.json(data, { headers: { 'Cache-Control': 'private, max-age=300', Vary: USER_SETTINGS_VARY } });
+  } catch (error) {
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error(`API Route Error fetching page ${page} of ${list}:`, error);
+    return NextResponse.json({ error: 'Failed to fetch more titles.' }, { status: 502 });
+  }
+}
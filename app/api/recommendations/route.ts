@@ -0,0 +1,29 @@
+// app/api/recommendations/route.ts
+// API route for the home page's "More like these" row: blends TMDB's recommendations for the titles
+// given in ?titles= (recently viewed keys such as "movie-438631,tv-1399", most recent first).
+
+import { blendRecommendations, parseRecommendationSeeds } from '@/lib/server/recommendations';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentTmdbOptions, USER_SETTINGS_VARY } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const seeds = parseRecommendationSeeds(searchParams.get('titles'));
+
+  if (seeds.length === 0) {
+    return NextResponse.json({ results: [] });
+  }
+
+  try {
+    const results = await blendRecommendations(seeds, await getCurrentTmdbOptions());
+    // Recommendations only change when the viewing history does, which changes the URL.
+    return NextResponse.json({ results }, { headers: { 'Cache-Control': 'private, max-age=600', Vary: USER_SETTINGS_VARY } });
+  } catch (error) {
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error(`API Route Error fetching recommendations for ${searchParams.get('titles')}:`, error);
+    return NextResponse.json({ error: 'Failed to fetch recommendations.' }, { status: 502 });
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/search-suggestions/route.ts
+// API route for the header typeahead: returns the top movie, TV and people matches for a partial query.
+
+import { searchMulti } from '@/lib/server/tmdb-api';
+import { TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentTmdbOptions, USER_SETTINGS_VARY } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { SearchSuggestion, TmdbMediaItem } from '@/lib/types/tmdb';
+import { NextResponse } from 'next/server';
+
+const MAX_SUGGESTIONS = 8;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Reduces a search result to what the dropdown shows.
+ * @param untitled The title shown for a result without one, in the request's locale.
+ */
+function toSuggestion(item: TmdbMediaItem, untitled: string): SearchSuggestion {
+  const date = item.media_type === 'movie' ? item.release_date : item.media_type === 'tv' ? item.first_air_date : undefined;
+  return {
+    id: item.id,
+    mediaType: item.media_type,
+    title: (item.media_type === 'movie' ? item.title : item.name) || untitled,
+    year: date ? date.slice(0, 4) : null,
+    imagePath: (item.media_type === 'person' ? item.profile_path : item.poster_path) ?? null,
+    department: item.media_type === 'person' ? item.known_for_department || null : null,
+    href: `/${item.media_type}/${item.id}`,
+  };
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('query')?.trim() ?? '';
+
+  if (query.length < MIN_QUERY_LENGTH) {
+    return NextResponse.json({ results: [] });
+  }
+
+  try {
+    const [options, { t }] = await Promise.all([getCurrentTmdbOptions(), getTranslator()]);
+    const data = await searchMulti(query, 1, options);
+    const results = data.results.slice(0, MAX_SUGGESTIONS).map(item => toSuggestion(item, t('common.untitled')));
+    // Suggestions change slowly, so let the browser reuse them while the user edits their query.
+    return NextResponse.json({ results }, { headers: { 'Cache-Control': 'private, max-age=300', Vary: USER_SETTINGS_VARY } });
+  } catch (error) {
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error(`API Route Error fetching search suggestions for "${query}":`, error);
+    return NextResponse.json({ error: 'Failed to fetch search suggestions.' }, { status: 502 });
+  }
+}
@@ -0,0 +1,7 @@
+// app/api/v1/discover/route.ts
+// GET /api/v1/discover: titles matching discover filters (declared in lib/server/api-v1-routes.ts).
+
+import { createApiHandler } from '@/lib/server/api-v1';
+import { discoverRoute } from '@/lib/server/api-v1-routes';
+
+export const GET = createApiHandler(discoverRoute);
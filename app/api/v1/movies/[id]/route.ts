@@ -0,0 +1,7 @@
+// app/api/v1/movies/[id]/route.ts
+// GET /api/v1/movies/{id}: a movie's details (declared in lib/server/api-v1-routes.ts).
+
+import { createApiHandler } from '@/lib/server/api-v1';
+import { movieRoute } from '@/lib/server/api-v1-routes';
+
+export const GET = createApiHandler(movieRoute);
@@ -0,0 +1,9 @@
+// app/api/v1/openapi.json/route.ts
+// Serves the OpenAPI document for /api/v1, generated from the route declarations (see lib/server/openapi.ts).
+
+import { buildOpenApiDocument } from '@/lib/server/openapi';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), { headers: { 'Cache-Control': 'public, max-age=3600' } });
+}
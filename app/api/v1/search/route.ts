@@ -0,0 +1,7 @@
+// app/api/v1/search/route.ts
+// GET /api/v1/search: movie, TV and people search (declared in lib/server/api-v1-routes.ts).
+
+import { createApiHandler } from '@/lib/server/api-v1';
+import { searchRoute } from '@/lib/server/api-v1-routes';
+
+export const GET = createApiHandler(searchRoute);
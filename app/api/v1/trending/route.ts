@@ -0,0 +1,7 @@
+// app/api/v1/trending/route.ts
+// GET /api/v1/trending: this week's trending movies or TV shows (declared in lib/server/api-v1-routes.ts).
+
+import { createApiHandler } from '@/lib/server/api-v1';
+import { trendingRoute } from '@/lib/server/api-v1-routes';
+
+export const GET = createApiHandler(trendingRoute);
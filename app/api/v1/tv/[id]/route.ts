@@ -0,0 +1,7 @@
+// app/api/v1/tv/[id]/route.ts
+// GET /api/v1/tv/{id}: a TV show's details (declared in lib/server/api-v1-routes.ts).
+
+import { createApiHandler } from '@/lib/server/api-v1';
+import { tvShowRoute } from '@/lib/server/api-v1-routes';
+
+export const GET = createApiHandler(tvShowRoute);
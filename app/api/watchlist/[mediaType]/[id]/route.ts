@@ -0,0 +1,69 @@
+// app/api/watchlist/[mediaType]/[id]/route.ts
+// API route saving (PUT) or removing (DELETE) a single title in the signed-in user's watchlist and watched log.
+
+import { saveWatchlistEntry, removeWatchlistEntry, watchlistUpdateSchema } from '@/lib/server/watchlist-store';
+import { TmdbNotFoundError, TmdbRateLimitError, tmdbRateLimitResponse } from '@/lib/server/tmdb-errors';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ mediaType: string; id: string }> };
+
+/**
+ * Checks the session and validates the route params, returning an error response if either fails.
+ */
+async function parseRequest(params: RouteParams['params']) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Sign in required.' }, { status: 401 }) };
+  }
+
+  const { mediaType, id } = await params;
+  if ((mediaType !== 'movie' && mediaType !== 'tv') || !/^\d+$/.test(id)) {
+    return { error: NextResponse.json({ error: 'Expected /api/watchlist/{movie|tv}/{numeric id}.' }, { status: 400 }) };
+  }
+  return { userId: user.id, mediaType: mediaType as 'movie' | 'tv', id: Number(id) };
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  const parsed = await parseRequest(params);
+  if (parsed.error) return parsed.error;
+  const { userId, mediaType, id } = parsed;
+
+  const body = watchlistUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json(
+      { error: 'Invalid watchlist update.', issues: body.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await saveWatchlistEntry(userId, mediaType, id, body.data));
+  } catch (error) {
+    if (error instanceof TmdbNotFoundError) {
+      return NextResponse.json({ error: `No ${mediaType} found with id ${id}.` }, { status: 404 });
+    }
+    if (error instanceof TmdbRateLimitError) {
+      return tmdbRateLimitResponse(error);
+    }
+    console.error(`API Route Error saving ${mediaType} ${id} to the watchlist:`, error);
+    return NextResponse.json({ error: 'Failed to save to the watchlist.' }, { status: 502 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  const parsed = await parseRequest(params);
+  if (parsed.error) return parsed.error;
+  const { userId, mediaType, id } = parsed;
+
+  try {
+    const removed = await removeWatchlistEntry(userId, mediaType, id);
+    if (!removed) {
+      return NextResponse.json({ error: `${mediaType} ${id} is not in the watchlist.` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`API Route Error removing ${mediaType} ${id} from the watchlist:`, error);
+    return NextResponse.json({ error: 'Failed to update the watchlist.' }, { status: 500 });
+  }
+}
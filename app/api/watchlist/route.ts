@@ -0,0 +1,22 @@
+// app/api/watchlist/route.ts
+// API route listing the signed-in user's watchlist and watched log.
+
+import { listWatchlistEntries } from '@/lib/server/watchlist-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ entries: await listWatchlistEntries(user.id) });
+  } catch (error) {
+    console.error("API Route Error reading the watchlist:", error);
+    return NextResponse.json({ error: 'Failed to read the watchlist.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+// app/discover/page.tsx
+// Server Component: Browse movies or TV shows with combinable filters. All filters live in the
+// query string (see lib/discover.ts), so every filtered view can be bookmarked and paginated.
+
+import type { Metadata } from 'next';
+import { discoverMedia, getMovieGenres, getTvGenres } from '@/lib/server/tmdb-api';
+import { getTmdbOptions, getUserSettings } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { formatNumber, parsePageParam } from '@/lib/utils';
+import { TmdbMediaItem, TmdbGenre, TmdbRequestOptions, PaginatedResponse, WatchProviderFilter } from '@/lib/types/tmdb';
+import { buildDiscoverParams, parseDiscoverParams } from '@/lib/discover';
+import MediaCard from '@/components/common/MediaCard';
+import PaginationControls from '@/components/common/PaginationControls';
+import DiscoverFilterForm from '@/components/discover/DiscoverFilterForm';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: `${t('discover.title')}`,
+    description: t('discover.description'),
+  };
+}
+
+/**
+ * Fetches a genre list for the filter form. Without genres the other filters still work, so failures are logged and ignored.
+ */
+async function loadGenres(load: (options: TmdbRequestOptions) => Promise<TmdbGenre[]>, options: TmdbRequestOptions): Promise<TmdbGenre[]> {
+  try {
+    return await load(options);
+  } catch (error) {
+    console.error("Failed to fetch genres:", error);
+    return [];
+  }
+}
+
+export default async function DiscoverPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const resolvedParams = await searchParams;
+  const filters = parseDiscoverParams(resolvedParams);
+  const currentPage = parsePageParam(resolvedParams?.page);
+
+  let results: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 1, total_results: 0 };
+  let error: string | null = null;
+
+  const [settings, { language, t }] = await Promise.all([getUserSettings(), getTranslator()]);
+  const options = getTmdbOptions(settings);
+  const [movieGenres, tvGenres] = await Promise.all([loadGenres(getMovieGenres, options), loadGenres(getTvGenres, options)]);
+
+  // "Only on my services" needs saved services; without them (e.g., signed out) the filter is ignored.
+  const watchProviders: WatchProviderFilter | undefined = filters.onMyServices && settings.streamingServices.length > 0
+    ? { region: settings.region, providerIds: settings.streamingServices }
+    : undefined;
+
+  try {
+    results = await discoverMedia(filters, currentPage, options, watchProviders);
+  } catch (err: any) {
+    console.error("Error discovering titles:", err);
+    error = t(filters.mediaType === 'movie' ? 'discover.moviesFailed' : 'discover.tvFailed');
+  }
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section id="discover-section" className="mb-12 pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-8 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-green-400
+                       drop-shadow-lg animate-fade-in-up">
+          {t('discover.title')}
+        </h1>
+
+        {/* Keyed on the filters so the form resets when they change through navigation (e.g., the back button) */}
+        <DiscoverFilterForm
+          key={buildDiscoverParams(filters).toString()}
+          filters={filters}
+          movieGenres={movieGenres}
+          tvGenres={tvGenres}
+        />
+
+        {error && <div className="text-center text-red-500 text-lg mb-8">{error}</div>}
+
+        {!error && (
+          <p className="text-center text-gray-400 mb-6">
+            {t(filters.mediaType === 'movie' ? 'discover.moviesFound' : 'discover.tvFound', { count: formatNumber(results.total_results, language) })}
+          </p>
+        )}
+
+        {results.results.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+            {results.results.map((item: TmdbMediaItem) => (
+              <MediaCard key={item.id} item={item} />
+            ))}
+          </div>
+        ) : (
+          !error && <p className="text-center text-xl text-gray-400">{t('discover.noMatches')}</p>
+        )}
+
+        <PaginationControls
+          currentPage={currentPage}
+          totalPages={results.total_pages}
+          basePath="/discover"
+          scrollToId="discover-section"
+        />
+      </section>
+    </main>
+  );
+}
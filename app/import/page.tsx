@@ -0,0 +1,61 @@
+// app/import/page.tsx
+// Server Component: Import Letterboxd or IMDb ratings into the watched log, and export the watched log back out.
+
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { FaDownload } from 'react-icons/fa';
+import { getCurrentUser } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { getWatchedLogExportUrl } from '@/lib/import-client';
+import ImportFlow from '@/components/import/ImportFlow';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: `${t('import.metaTitle')}`,
+    description: t('import.description'),
+  };
+}
+
+export default async function ImportPage() {
+  // The middleware only checks that a session cookie exists; an expired session ends up here.
+  const [user, { t, localize }] = await Promise.all([getCurrentUser(), getTranslator()]);
+  if (!user) {
+    redirect(localize(`/login?next=${localize('/import')}`));
+  }
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section className="mb-12 pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-4 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-green-400
+                       drop-shadow-lg animate-fade-in-up">
+          {t('import.title')}
+        </h1>
+        <p className="text-center text-gray-400 mb-8">
+          {t('import.intro')}
+        </p>
+        <ImportFlow />
+      </section>
+
+      <section className="max-w-3xl mx-auto border-t border-gray-800 pt-10">
+        <h2 className="text-2xl font-bold mb-2 text-gray-200">{t('import.exportTitle')}</h2>
+        <p className="text-gray-400 mb-4">
+          {t('import.exportHint')}
+        </p>
+        <div className="flex flex-wrap gap-3">
+          {(['letterboxd', 'imdb'] as const).map(format => (
+            <a
+              key={format}
+              href={getWatchedLogExportUrl(format)}
+              download
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold rounded-lg transition-colors duration-200 flex items-center"
+            >
+              <FaDownload className="mr-2" />{format === 'letterboxd' ? 'Letterboxd CSV' : 'IMDb CSV'}
+            </a>
+          ))}
+        </div>
+      </section>
+    </main>
+  );
+}
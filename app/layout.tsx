@@ -4,6 +4,10 @@ import { Geist, Geist_Mono } from "next/font/google";
 
 import "./globals.css";
 import Header from "@/components/layout/Header";
+import SessionProvider from "@/components/account/SessionProvider";
+import LocaleProvider from "@/components/layout/LocaleProvider";
+import { getCurrentUser } from "@/lib/server/session";
+import { getLocale, getTranslator } from "@/lib/server/i18n";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -15,32 +19,43 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Movie Explorer",
-  description: "Explore movies and TV shows built with Next.js and TMDB API",
-  icons: {
-    icon: {
-      url: '/favicon.png', // Correct root-relative path
-      type: 'image/png',
-      sizes: '32x32', // Explicitly state the size of your favicon.png
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: { default: t('app.name'), template: `%s | ${t('app.name')}` },
+    description: t('app.description'),
+    icons: {
+      icon: {
+        url: '/favicon.png', // Correct root-relative path
+        type: 'image/png',
+        sizes: '32x32', // Explicitly state the size of your favicon.png
+      },
+      // Optional: for Apple devices (assuming apple-icon.png is in public/)
+      apple: '/apple-icon.png',
     },
-    // Optional: for Apple devices (assuming apple-icon.png is in public/)
-    apple: '/apple-icon.png',
-  },
-};
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Resolved once here so every client component can tell who is signed in (see useSession).
+  const user = await getCurrentUser();
+  const locale = await getLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <Header />
-        {children}
+        <LocaleProvider locale={locale}>
+          <SessionProvider user={user}>
+            <Header />
+            {children}
+          </SessionProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
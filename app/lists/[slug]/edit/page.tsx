@@ -0,0 +1,40 @@
+// app/lists/[slug]/edit/page.tsx
+// Server Component: The editor for one of the signed-in user's lists.
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { listUserLists } from '@/lib/server/list-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import ListEditor from '@/components/lists/ListEditor';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return { title: `${t('lists.editTitle')}` };
+}
+
+export default async function EditListPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+
+  // The middleware only checks that a session cookie exists; an expired session ends up here.
+  const user = await getCurrentUser();
+  const { t, localize } = await getTranslator();
+  if (!user) redirect(localize(`/login?next=${localize(`/lists/${encodeURIComponent(slug)}/edit`)}`));
+
+  // Someone else's list is a 404 here, just like a missing one; its share page stays public.
+  const list = (await listUserLists(user.id)).find(candidate => candidate.slug === slug);
+  if (!list) notFound();
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section className="mb-12 pt-10">
+        <div className="max-w-3xl mx-auto flex justify-between text-sm mb-6">
+          <Link href={localize('/lists')} className="text-blue-400 hover:text-blue-300">&larr; {t('lists.allLists')}</Link>
+          <Link href={localize(`/lists/${list.slug}`)} className="text-blue-400 hover:text-blue-300">{t('lists.viewSharePage')} &rarr;</Link>
+        </div>
+        <ListEditor initialList={list} />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,86 @@
+// app/lists/[slug]/page.tsx
+// Server Component: The read-only share page of a custom list. Anyone with the link can view it.
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { FaEdit } from 'react-icons/fa';
+import MediaCard from '@/components/common/MediaCard';
+import { getPublicList, getUserList } from '@/lib/server/list-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { toMediaItem } from '@/lib/utils';
+
+type Params = Promise<{ slug: string }>;
+
+/**
+ * Fetches the list, turning an unknown slug into a 404.
+ * Wrapped in React's cache() so generateMetadata and the page share one read per render.
+ */
+const loadList = cache(async (slug: string) => {
+  const list = await getPublicList(slug);
+  if (!list) notFound();
+  return list;
+});
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { slug } = await params;
+  const [list, { t }] = await Promise.all([loadList(slug), getTranslator()]);
+  const description = list.description || t('lists.metaCurated', { count: list.items.length, owner: list.ownerName ?? t('lists.unknownOwner') });
+
+  return {
+    title: `${list.name}`,
+    description,
+    openGraph: { title: list.name, description, type: 'website' },
+  };
+}
+
+export default async function ListPage({ params }: { params: Params }) {
+  const { slug } = await params;
+  const list = await loadList(slug);
+
+  const [user, { t, localize }] = await Promise.all([getCurrentUser(), getTranslator()]);
+  const isOwner = user ? (await getUserList(user.id, list.id)) !== null : false;
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section className="mb-12 pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-4 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500
+                       drop-shadow-lg animate-fade-in-up">
+          {list.name}
+        </h1>
+        <p className="text-center text-gray-400 mb-2">
+          {t('lists.by', { owner: list.ownerName ?? t('lists.unknownOwner') })} · {t(list.items.length === 1 ? 'lists.titleCountOne' : 'lists.titleCountMany', { count: list.items.length })}
+        </p>
+        {list.description && (
+          <p className="max-w-3xl mx-auto text-center text-lg text-gray-300 whitespace-pre-line mb-4">{list.description}</p>
+        )}
+        {isOwner && (
+          <div className="flex justify-center mb-4">
+            <Link
+              href={localize(`/lists/${list.slug}/edit`)}
+              className="inline-flex items-center px-4 py-2 rounded-lg font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors duration-200"
+            >
+              <FaEdit className="mr-2" />{t('lists.editTitle')}
+            </Link>
+          </div>
+        )}
+
+        {list.items.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6 mt-8">
+            {list.items.map(item => (
+              <div key={`${item.mediaType}-${item.id}`}>
+                <MediaCard item={toMediaItem(item)} />
+                {item.note && <p className="mt-2 text-sm text-gray-300 whitespace-pre-line">{item.note}</p>}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-xl text-gray-400 mt-8">{t('lists.empty')}</p>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+// app/lists/page.tsx
+// Server Component: The signed-in user's custom lists, with forms to create and import lists.
+
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { listUserLists } from '@/lib/server/list-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { CustomList } from '@/lib/types/lists';
+import ListsManager from '@/components/lists/ListsManager';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: `${t('account.myLists')}`,
+    description: t('lists.metaDescription'),
+  };
+}
+
+export default async function ListsPage() {
+  // The middleware only checks that a session cookie exists; an expired session ends up here.
+  const [user, { t, localize }] = await Promise.all([getCurrentUser(), getTranslator()]);
+  if (!user) {
+    redirect(localize(`/login?next=${localize('/lists')}`));
+  }
+
+  let lists: CustomList[] = [];
+  let error: string | null = null;
+
+  try {
+    lists = await listUserLists(user.id);
+  } catch (err: any) {
+    console.error("Error reading lists:", err);
+    error = t('lists.loadFailed');
+  }
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section className="mb-12 pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-8 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500
+                       drop-shadow-lg animate-fade-in-up">
+          {t('account.myLists')}
+        </h1>
+
+        {error ? (
+          <div className="text-center text-red-500 text-lg mb-8">{error}</div>
+        ) : (
+          <ListsManager initialLists={lists} />
+        )}
+      </section>
+    </main>
+  );
+}
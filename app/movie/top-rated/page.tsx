@@ -0,0 +1,14 @@
+// app/movie/top-rated/page.tsx
+// Server Component for the highest rated movies (rendered by MediaListPage).
+
+import MediaListPage from '@/components/common/MediaListPage';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export default function TopRatedMoviesPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return <MediaListPage list="top-rated-movies" searchParams={searchParams} />;
+}
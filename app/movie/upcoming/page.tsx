@@ -0,0 +1,14 @@
+// app/movie/upcoming/page.tsx
+// Server Component for movies coming soon to theaters in the user's region (rendered by MediaListPage).
+
+import MediaListPage from '@/components/common/MediaListPage';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export default function UpcomingMoviesPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return <MediaListPage list="upcoming-movies" searchParams={searchParams} />;
+}
@@ -0,0 +1,22 @@
+// app/not-found.tsx
+// Rendered (with a 404 status) for unknown routes, unknown movie/TV IDs and media types other than movie/tv.
+
+import Link from 'next/link';
+import { getTranslator } from '@/lib/server/i18n';
+
+export default async function NotFound() {
+  const { t, localize } = await getTranslator();
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center space-y-6 px-4 text-center">
+      <h1 className="text-4xl md:text-5xl font-extrabold">{t('notFound.title')}</h1>
+      <p className="text-xl text-gray-400">{t('notFound.message')}</p>
+      <Link
+        href={localize('/')}
+        className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow-lg transition-colors duration-200"
+      >
+        {t('notFound.backHome')}
+      </Link>
+    </div>
+  );
+}
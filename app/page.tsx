@@ -1,11 +1,20 @@
 // app/page.tsx
-// Server Component: Fetches and renders trending movies, TV shows, and now-playing carousel.
+// Server Component: Fetches and renders trending movies, TV shows and everything (people included),
+// the now-playing carousel and the "More like these" row, in the order (and subset) chosen in the
+// signed-in user's settings.
 
-import { getTrendingMovies, getTrendingTvShows, getNowPlayingMovies } from '@/lib/server/tmdb-api';
-import { TmdbMediaItem } from '@/lib/types/tmdb';
-import MediaCard from '@/components/common/MediaCard';
+import { cookies } from 'next/headers';
+import { getTrendingMovies, getTrendingTvShows, getTrendingAll, getNowPlayingMovies } from '@/lib/server/tmdb-api';
+import { getTmdbOptions, getUserSettings } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { TmdbMediaItem, PaginatedResponse } from '@/lib/types/tmdb';
+import { TrendingFeed, getTrendingCookieName, getTrendingList, getTrendingWindowParam, resolveTrendingWindow } from '@/lib/trending';
+import { parsePageParam } from '@/lib/utils';
+import { HomeSection } from '@/lib/types/account';
 import MovieCarousel from '@/components/common/MovieCarousel';
-import PaginationControls from '@/components/common/PaginationControls';
+import MoreLikeThese from '@/components/home/MoreLikeThese';
+import TrendingWindowToggle from '@/components/home/TrendingWindowToggle';
+import PagedMediaGrid from '@/components/common/PagedMediaGrid';
 
 export default async function HomePage({
   searchParams,
@@ -15,30 +24,60 @@ export default async function HomePage({
   const resolvedParams = await searchParams;
 
   // Current page values from query params for pagination
-  const currentMoviePage = Number(resolvedParams?.moviePage ?? '1');
-  const currentTvPage = Number(resolvedParams?.tvPage ?? '1');
-  const currentCarouselPage = Number(resolvedParams?.carouselPage ?? '1');
-
-  // Fetch data concurrently
-  const [trendingMoviesData, trendingTvShowsData, nowPlayingMoviesData] = await Promise.all([
-    getTrendingMovies(currentMoviePage),
-    getTrendingTvShows(currentTvPage),
-    getNowPlayingMovies(currentCarouselPage),
+  const currentMoviePage = parsePageParam(resolvedParams?.moviePage);
+  const currentTvPage = parsePageParam(resolvedParams?.tvPage);
+  const currentAllPage = parsePageParam(resolvedParams?.allPage);
+  const currentCarouselPage = parsePageParam(resolvedParams?.carouselPage);
+
+  const [settings, { t }, cookieStore] = await Promise.all([getUserSettings(), getTranslator(), cookies()]);
+
+  // Each trending section shows the last day or week: ?movieWindow=day, else the section's cookie, else the week.
+  const getWindow = (feed: TrendingFeed) =>
+    resolveTrendingWindow(resolvedParams[getTrendingWindowParam(feed)], cookieStore.get(getTrendingCookieName(feed))?.value);
+  const movieWindow = getWindow('movie');
+  const tvWindow = getWindow('tv');
+  const allWindow = getWindow('all');
+
+  const options = getTmdbOptions(settings);
+  const emptyResponse: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 1, total_results: 0 };
+
+  // Only fetch the sections the user shows; hidden ones resolve to an empty page.
+  const whenShown = (section: HomeSection, load: () => Promise<PaginatedResponse<TmdbMediaItem>>) =>
+    settings.homeSections.includes(section) ? load() : Promise.resolve(emptyResponse);
+
+  // Fetch data concurrently. Each section degrades on its own, so one failing TMDB call
+  // doesn't take down the whole page.
+  const [trendingMoviesResult, trendingTvShowsResult, trendingAllResult, nowPlayingMoviesResult] = await Promise.allSettled([
+    whenShown('trendingMovies', () => getTrendingMovies(currentMoviePage, options, movieWindow)),
+    whenShown('trendingTv', () => getTrendingTvShows(currentTvPage, options, tvWindow)),
+    whenShown('trendingAll', () => getTrendingAll(currentAllPage, options, allWindow)),
+    whenShown('nowPlaying', () => getNowPlayingMovies(currentCarouselPage, options)),
   ]);
 
+  const trendingMoviesData = trendingMoviesResult.status === 'fulfilled' ? trendingMoviesResult.value : emptyResponse;
+  const trendingTvShowsData = trendingTvShowsResult.status === 'fulfilled' ? trendingTvShowsResult.value : emptyResponse;
+  const trendingAllData = trendingAllResult.status === 'fulfilled' ? trendingAllResult.value : emptyResponse;
+  const nowPlayingMoviesData = nowPlayingMoviesResult.status === 'fulfilled' ? nowPlayingMoviesResult.value : emptyResponse;
+
   const trendingMovies = trendingMoviesData.results;
   const trendingTvShows = trendingTvShowsData.results;
+  const trendingAll = trendingAllData.results;
   const nowPlayingMovies = nowPlayingMoviesData.results;
 
   const totalMoviePages = trendingMoviesData.total_pages || 1;
   const totalTvPages = trendingTvShowsData.total_pages || 1;
+  const totalAllPages = trendingAllData.total_pages || 1;
   const totalCarouselPages = nowPlayingMoviesData.total_pages || 1;
 
-  return (
-    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
-      {/* Now Playing Movies Carousel */}
-      <section className="mb-12">
-        <MovieCarousel movies={nowPlayingMovies} />
+  const sections: Record<HomeSection, React.ReactNode> = {
+    nowPlaying: (
+      /* Now Playing Movies Carousel */
+      <section key="nowPlaying" className="mb-12">
+        {nowPlayingMoviesResult.status === 'rejected' ? (
+          <p className="text-center text-red-500 text-lg pt-10">{t('home.nowPlayingFailed')}</p>
+        ) : (
+          <MovieCarousel movies={nowPlayingMovies} />
+        )}
         {/* Uncomment below if carousel pagination is needed */}
         {/*
         <PaginationControls
@@ -49,46 +88,91 @@ export default async function HomePage({
         />
         */}
       </section>
+    ),
+
+    moreLikeThese: (
+      /* Recommendations for titles recently opened in this browser; loads on the client */
+      <MoreLikeThese key="moreLikeThese" />
+    ),
+
+    trendingMovies: (
+      /* Trending Movies Section */
+      <section key="trendingMovies" id="trending-movies-section" className="mb-12">
+        <h2 className="text-4xl font-bold mb-6 text-center text-blue-300">{t('home.trendingMovies')}</h2>
+        <TrendingWindowToggle feed="movie" value={movieWindow} pageQueryParam="moviePage" />
+        {trendingMoviesResult.status === 'rejected' ? (
+          <p className="text-center text-red-500 text-lg">{t('home.trendingMoviesFailed')}</p>
+        ) : trendingMoviesData.results.length > 0 ? (
+          <PagedMediaGrid
+            list={getTrendingList('movie', movieWindow)}
+            items={trendingMovies}
+            currentPage={currentMoviePage}
+            totalPages={totalMoviePages}
+            mode={settings.paginationMode}
+            pageQueryParam="moviePage"
+            scrollToId="trending-movies-section"
+          />
+        ) : (
+          <p className="text-center text-gray-400">{t('home.noTrendingMovies')}</p>
+        )}
+      </section>
+    ),
 
-      {/* Trending Movies Section */}
-      <section id="trending-movies-section" className="mb-12">
-        <h2 className="text-4xl font-bold mb-8 text-center text-blue-300">Trending Movies</h2>
-        {trendingMovies.length > 0 ? (
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
-            {trendingMovies.map((movie: TmdbMediaItem) => (
-              <MediaCard key={movie.id} item={movie} />
-            ))}
-          </div>
+    trendingTv: (
+      /* Trending TV Shows Section */
+      <section key="trendingTv" id="trending-tv-shows-section" className="mb-12">
+        <h2 className="text-4xl font-bold mb-6 text-center text-purple-300">{t('home.trendingTv')}</h2>
+        <TrendingWindowToggle feed="tv" value={tvWindow} pageQueryParam="tvPage" />
+        {trendingTvShowsResult.status === 'rejected' ? (
+          <p className="text-center text-red-500 text-lg">{t('home.trendingTvFailed')}</p>
+        ) : trendingTvShowsData.results.length > 0 ? (
+          <PagedMediaGrid
+            list={getTrendingList('tv', tvWindow)}
+            items={trendingTvShows}
+            currentPage={currentTvPage}
+            totalPages={totalTvPages}
+            mode={settings.paginationMode}
+            pageQueryParam="tvPage"
+            scrollToId="trending-tv-shows-section"
+          />
         ) : (
-          <p className="text-center text-gray-400">No trending movies found.</p>
+          <p className="text-center text-gray-400">{t('home.noTrendingTv')}</p>
         )}
-        <PaginationControls
-          currentPage={currentMoviePage}
-          totalPages={totalMoviePages}
-          pageQueryParam="moviePage"
-          scrollToId="trending-movies-section"
-        />
       </section>
+    ),
 
-      {/* Trending TV Shows Section */}
-      <section id="trending-tv-shows-section">
-        <h2 className="text-4xl font-bold mb-8 text-center text-purple-300">Trending TV Shows</h2>
-        {trendingTvShows.length > 0 ? (
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
-            {trendingTvShows.map((tvShow: TmdbMediaItem) => (
-              <MediaCard key={tvShow.id} item={tvShow} />
-            ))}
-          </div>
+    trendingAll: (
+      /* Trending Movies, TV Shows and People Section */
+      <section key="trendingAll" id="trending-all-section" className="mb-12">
+        <h2 className="text-4xl font-bold mb-6 text-center text-teal-300">{t('home.trendingAll')}</h2>
+        <TrendingWindowToggle feed="all" value={allWindow} pageQueryParam="allPage" />
+        {trendingAllResult.status === 'rejected' ? (
+          <p className="text-center text-red-500 text-lg">{t('home.trendingAllFailed')}</p>
+        ) : trendingAllData.results.length > 0 ? (
+          <PagedMediaGrid
+            list={getTrendingList('all', allWindow)}
+            items={trendingAll}
+            currentPage={currentAllPage}
+            totalPages={totalAllPages}
+            mode={settings.paginationMode}
+            pageQueryParam="allPage"
+            scrollToId="trending-all-section"
+          />
         ) : (
-          <p className="text-center text-gray-400">No trending TV shows found.</p>
+          <p className="text-center text-gray-400">{t('home.noTrendingAll')}</p>
         )}
-        <PaginationControls
-          currentPage={currentTvPage}
-          totalPages={totalTvPages}
-          pageQueryParam="tvPage"
-          scrollToId="trending-tv-shows-section"
-        />
       </section>
+    ),
+  };
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      {settings.homeSections.map(section => sections[section])}
+      {settings.homeSections.length === 0 && (
+        <p className="text-center text-gray-400 text-xl pt-10">
+          {t('home.allSectionsHidden')}
+        </p>
+      )}
     </main>
   );
 }
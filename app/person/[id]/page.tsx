@@ -0,0 +1,148 @@
+// app/person/[id]/page.tsx
+// Server Component: Renders a person's biography and their combined movie/TV filmography.
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ClientImage from '@/components/common/ClientImage';
+import MediaCard from '@/components/common/MediaCard';
+import { FaBirthdayCake, FaMapMarkerAlt, FaBriefcase } from 'react-icons/fa';
+import { getPersonDetails, getPersonCombinedCredits } from '@/lib/server/tmdb-api';
+import { getCurrentTmdbOptions } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { TmdbPersonCredit } from '@/lib/types/tmdb';
+import { formatDate } from '@/lib/utils';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+// Build full TMDB image URL or return a placeholder
+const getImageUrl = (path: string | null | undefined, size: string = 'original') =>
+  path ? `${TMDB_IMAGE_BASE_URL}${size}${path}` : `https://placehold.co/png/500x750/1f2937/FFFFFF?text=No+Photo`;
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * Fetches the person, turning a malformed or unknown ID into a 404.
+ * Wrapped in React's cache() so generateMetadata and the page share one request per render.
+ */
+const loadPerson = cache(async (id: string) => {
+  if (!/^\d+$/.test(id)) notFound();
+  try {
+    return await getPersonDetails(id, await getCurrentTmdbOptions());
+  } catch (error) {
+    if (error instanceof TmdbNotFoundError) notFound();
+    throw error;
+  }
+});
+
+/**
+ * Merges cast and crew credits into one filmography, newest first.
+ * A title appears once even if the person both acted in and e.g. directed it.
+ * Titles without a date (usually unannounced projects) go last.
+ */
+function buildFilmography(cast: TmdbPersonCredit[], crew: TmdbPersonCredit[]): TmdbPersonCredit[] {
+  const byTitle = new Map<string, TmdbPersonCredit>();
+  for (const credit of [...cast, ...crew]) {
+    if (credit.media_type !== 'movie' && credit.media_type !== 'tv') continue;
+    const key = `${credit.media_type}-${credit.id}`;
+    if (!byTitle.has(key)) byTitle.set(key, credit);
+  }
+
+  const getDate = (credit: TmdbPersonCredit) => (credit.media_type === 'movie' ? credit.release_date : credit.first_air_date) || '';
+  return [...byTitle.values()].sort((a, b) => {
+    const dateA = getDate(a);
+    const dateB = getDate(b);
+    if (!dateA || !dateB) return dateA ? -1 : dateB ? 1 : 0;
+    return dateB.localeCompare(dateA);
+  });
+}
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { id } = await params;
+  const [person, { t }] = await Promise.all([loadPerson(id), getTranslator()]);
+  const description = person.biography ? person.biography.slice(0, 200) : t('person.metaDescription', { name: person.name });
+
+  return {
+    title: `${person.name}`,
+    description,
+    openGraph: {
+      title: person.name,
+      description,
+      type: 'profile',
+      images: person.profile_path ? [{ url: getImageUrl(person.profile_path, 'h632'), alt: person.name }] : [],
+    },
+  };
+}
+
+export default async function PersonPage({ params }: { params: Params }) {
+  const { id } = await params;
+
+  const [options, { language, t }] = await Promise.all([getCurrentTmdbOptions(), getTranslator()]);
+  const [person, credits] = await Promise.all([
+    loadPerson(id),
+    getPersonCombinedCredits(id, options).catch(error => {
+      console.error("Failed to fetch person credits:", error);
+      return null;
+    }),
+  ]);
+
+  const filmography = credits ? buildFilmography(credits.cast, credits.crew) : [];
+  const birthday = formatDate(person.birthday, 'long', language);
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <div className="container mx-auto flex flex-col lg:flex-row items-start py-8 md:py-12">
+        {/* Profile photo */}
+        <div className="flex-shrink-0 w-full md:w-1/2 lg:w-1/4 mb-8 lg:mb-0 lg:mr-10">
+          <ClientImage
+            src={getImageUrl(person.profile_path, 'h632')}
+            alt={person.name}
+            width={421}
+            height={632}
+            className="rounded-lg shadow-2xl w-full h-auto object-cover"
+            priority
+          />
+        </div>
+
+        {/* Biography */}
+        <div className="flex-grow">
+          <h1 className="text-4xl md:text-5xl font-extrabold mb-6 leading-tight">{person.name}</h1>
+
+          <div className="flex flex-wrap items-center text-lg text-gray-300 mb-6 gap-x-6 gap-y-3">
+            {person.known_for_department && (
+              <span className="flex items-center"><FaBriefcase className="text-purple-400 mr-2" />{person.known_for_department}</span>
+            )}
+            {birthday && (
+              <span className="flex items-center"><FaBirthdayCake className="text-yellow-400 mr-2" />{birthday}</span>
+            )}
+            {person.place_of_birth && (
+              <span className="flex items-center"><FaMapMarkerAlt className="text-red-400 mr-2" />{person.place_of_birth}</span>
+            )}
+          </div>
+
+          <h2 className="text-2xl font-bold mb-3 text-gray-200">{t('person.biography')}</h2>
+          <div className="text-gray-300 text-lg leading-relaxed space-y-4">
+            {person.biography
+              ? person.biography.split('\n').filter(Boolean).map((paragraph, index) => <p key={index}>{paragraph}</p>)
+              : <p>{t('person.noBiography')}</p>}
+          </div>
+        </div>
+      </div>
+
+      {/* Filmography */}
+      <section className="container mx-auto mb-12">
+        <h2 className="text-3xl font-bold mb-6 text-blue-300">{t('person.filmography')}</h2>
+        {!credits && <p className="text-center text-red-500 text-lg">{t('person.filmographyFailed')}</p>}
+        {credits && filmography.length === 0 && <p className="text-center text-gray-400">{t('person.noCredits')}</p>}
+        {filmography.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+            {filmography.map(credit => (
+              <MediaCard key={`${credit.media_type}-${credit.id}`} item={credit} />
+            ))}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,41 @@
+// app/register/page.tsx
+// Server Component: Create account page. Signed-in users are sent straight on to their destination.
+
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getTranslator } from '@/lib/server/i18n';
+import { getCurrentUser } from '@/lib/server/session';
+import { getSafeRedirect } from '@/lib/account';
+import AuthForm from '@/components/account/AuthForm';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: `${t('auth.registerTitle')}`,
+    description: t('auth.registerDescription'),
+  };
+}
+
+export default async function RegisterPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { t, localize } = await getTranslator();
+  // Without ?next= sign-in returns to the home page in the current language
+  const next = getSafeRedirect((await searchParams).next ?? localize('/'));
+  if (await getCurrentUser()) redirect(next);
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section className="pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-8 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500
+                       drop-shadow-lg animate-fade-in-up">
+          {t('auth.registerTitle')}
+        </h1>
+        <AuthForm mode="register" next={next} />
+      </section>
+    </main>
+  );
+}
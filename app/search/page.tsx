@@ -1,11 +1,34 @@
 // app/search/page.tsx
-// This is a Server Component. It fetches data based on URL search parameters for query and pagination.
+// This is a Server Component. It fetches data based on URL search parameters for query, tab, filters and pagination.
 
-import { searchMovies, searchTvShows } from '@/lib/server/tmdb-api';
-import { TmdbMediaItem, PaginatedResponse } from '@/lib/types/tmdb';
+import Link from 'next/link';
+import { searchMulti, searchMovies, searchTvShows, searchPeople } from '@/lib/server/tmdb-api';
+import { getCurrentTmdbOptions } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { MessageKey } from '@/lib/messages/en';
+import { TMDB_MAX_PAGE, formatNumber, parsePageParam } from '@/lib/utils';
+import { TmdbMediaItem, PaginatedResponse, SearchOptions } from '@/lib/types/tmdb';
 import MediaCard from '@/components/common/MediaCard';
+import PersonCard from '@/components/common/PersonCard';
 import PaginationControls from '@/components/common/PaginationControls';
 
+type SearchTab = 'all' | 'movie' | 'tv' | 'person';
+
+// Each tab runs its own search, so each has its own result count and page range.
+const SEARCH_TABS: {
+  type: SearchTab;
+  label: MessageKey;
+  empty: MessageKey; // Shown when the tab has no results
+  search: (query: string, page: number, options: SearchOptions) => Promise<PaginatedResponse<TmdbMediaItem>>;
+}[] = [
+  { type: 'all', label: 'search.tabAll', empty: 'search.noResults', search: searchMulti },
+  { type: 'movie', label: 'search.tabMovies', empty: 'search.noMovies', search: searchMovies },
+  { type: 'tv', label: 'search.tabTv', empty: 'search.noTv', search: searchTvShows },
+  { type: 'person', label: 'search.tabPeople', empty: 'search.noPeople', search: searchPeople },
+];
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
 export default async function SearchPage({
   searchParams,
 }: {
@@ -13,30 +36,52 @@ export default async function SearchPage({
 }) {
   const resolvedParams = await searchParams;
 
-  const searchQuery = (resolvedParams.query as string) || '';
-  const currentPage = parseInt((resolvedParams.page as string) || '1', 10);
+  const searchQuery = first(resolvedParams.query)?.trim() || '';
+  const activeTab = SEARCH_TABS.find(tab => tab.type === first(resolvedParams.type)) ?? SEARCH_TABS[0];
+  const currentPage = parsePageParam(resolvedParams.page);
+  const year = parseInt(first(resolvedParams.year) || '', 10);
+  const adult = first(resolvedParams.adult);
+  const [tmdbOptions, { language, t, localize }] = await Promise.all([getCurrentTmdbOptions(), getTranslator()]);
+  const options: SearchOptions = {
+    ...tmdbOptions,
+    year: year >= 1870 && year <= 2100 ? year : undefined,
+    // An explicit ?adult= wins; otherwise follow the user's setting
+    includeAdult: adult === 'true' || adult === 'false' ? adult === 'true' : !!tmdbOptions.includeAdult,
+  };
+
+  // The active tab loads the requested page; the others load page 1, which is cached and only needed for their counts.
+  const settled = searchQuery
+    ? await Promise.allSettled(
+        SEARCH_TABS.map(tab => tab.search(searchQuery, tab === activeTab ? currentPage : 1, options))
+      )
+    : [];
+  const totals = new Map<SearchTab, number>();
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') totals.set(SEARCH_TABS[index].type, result.value.total_results);
+  });
 
-  let moviesResponse: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 1, total_results: 0 };
-  let tvShowsResponse: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 1, total_results: 0 };
+  let response: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 1, total_results: 0 };
   let error: string | null = null;
 
-  if (searchQuery) {
-    try {
-      [moviesResponse, tvShowsResponse] = await Promise.all([
-        searchMovies(searchQuery, currentPage),
-        searchTvShows(searchQuery, currentPage),
-      ]);
-    } catch (err: any) {
-      console.error("Error fetching search results:", err);
-      error = "Failed to fetch search results. Please try again later.";
-    }
+  const activeResult = settled[SEARCH_TABS.indexOf(activeTab)];
+  if (activeResult?.status === 'fulfilled') {
+    response = activeResult.value;
+  } else if (activeResult?.status === 'rejected') {
+    console.error("Error fetching search results:", activeResult.reason);
+    error = t('search.failed');
   }
 
-  const movies = moviesResponse.results;
-  const tvShows = tvShowsResponse.results;
-  const hasResults = movies.length > 0 || tvShows.length > 0;
+  const results = response.results;
+  const totalPages = Math.min(response.total_pages, TMDB_MAX_PAGE);
 
-  const totalPages = Math.max(moviesResponse.total_pages, tvShowsResponse.total_pages);
+  // Builds a link to another tab, keeping the query and filters but starting over at page 1
+  const getTabHref = (type: SearchTab) => {
+    const params = new URLSearchParams({ query: searchQuery });
+    if (type !== 'all') params.set('type', type);
+    if (options.year !== undefined) params.set('year', String(options.year));
+    if (adult === 'true' || adult === 'false') params.set('adult', adult);
+    return localize(`/search?${params.toString()}`);
+  };
 
   return (
     <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white">
@@ -44,43 +89,88 @@ export default async function SearchPage({
         <h1 className="text-4xl md:text-5xl font-extrabold mb-4
                        bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-500
                        drop-shadow-lg animate-fade-in-up">
-          Search Results for "{searchQuery}"
+          {t('search.resultsFor', { query: searchQuery })}
         </h1>
         {searchQuery === '' && (
-          <p className="text-xl text-gray-400">Enter a search term in the header to find movies or TV shows.</p>
+          <p className="text-xl text-gray-400">{t('search.enterTerm')}</p>
         )}
       </section>
 
-      {error && <div className="text-center text-red-500 text-lg mb-8">{error}</div>}
+      {searchQuery && (
+        <section id="search-results" className="mb-8">
+          {/* Tabs */}
+          <nav className="flex flex-wrap justify-center gap-2 mb-6" aria-label={t('search.resultTypes')}>
+            {SEARCH_TABS.map(tab => (
+              <Link
+                key={tab.type}
+                href={getTabHref(tab.type)}
+                aria-current={tab === activeTab ? 'page' : undefined}
+                className={`px-5 py-2 rounded-full font-semibold transition-colors duration-200 ${
+                  tab === activeTab ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {t(tab.label)}
+                {totals.has(tab.type) && (
+                  <span className="ml-2 text-sm opacity-80">{formatNumber(totals.get(tab.type)!, language)}</span>
+                )}
+              </Link>
+            ))}
+          </nav>
 
-      {searchQuery && !hasResults && !error && (
-        <div className="text-center text-gray-400 text-xl mb-8">
-          No results found for "{searchQuery}". Try a different search term.
-        </div>
-      )}
+          {/* Filters: a plain GET form, so they work without JavaScript and stay in the URL */}
+          <form action={localize('/search')} method="get" className="flex flex-wrap items-center justify-center gap-4 mb-10 text-gray-300">
+            <input type="hidden" name="query" value={searchQuery} />
+            {activeTab.type !== 'all' && <input type="hidden" name="type" value={activeTab.type} />}
+            <label className="flex items-center gap-2">
+              <span>{t('search.year')}</span>
+              <input
+                type="number"
+                name="year"
+                min={1870}
+                max={2100}
+                defaultValue={options.year}
+                placeholder={t('search.anyYear')}
+                className="w-24 p-2 rounded-lg bg-gray-800 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" name="adult" value="true" defaultChecked={options.includeAdult} className="accent-blue-500" />
+              {/* Sent too when the box is unchecked, so unchecking overrides the user's setting. When checked,
+                  the checkbox comes first and wins, since only the first value of a param is read. */}
+              <input type="hidden" name="adult" value="false" />
+              <span>{t('search.includeAdult')}</span>
+            </label>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200"
+            >
+              {t('search.apply')}
+            </button>
+            {options.year !== undefined && (activeTab.type === 'all' || activeTab.type === 'person') && (
+              <p className="w-full text-center text-sm text-gray-500">
+                {t('search.yearIgnored')}
+              </p>
+            )}
+          </form>
 
-      {hasResults && (
-        <>
-          {movies.length > 0 && (
-            <section className="mb-12">
-              <h2 className="text-3xl font-bold mb-6 text-blue-300">Movies</h2>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
-                {movies.map((movie: TmdbMediaItem) => (
-                  <MediaCard key={movie.id} item={{ ...movie, media_type: 'movie' }} />
-                ))}
-              </div>
-            </section>
-          )}
+          {error && <div className="text-center text-red-500 text-lg mb-8">{error}</div>}
 
-          {tvShows.length > 0 && (
-            <section className="mb-12">
-              <h2 className="text-3xl font-bold mb-6 text-purple-300">TV Shows</h2>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
-                {tvShows.map((tvShow: TmdbMediaItem) => (
-                  <MediaCard key={tvShow.id} item={{ ...tvShow, media_type: 'tv' }} />
-                ))}
+          {results.length > 0 ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+              {results.map((item: TmdbMediaItem) =>
+                item.media_type === 'person' ? (
+                  <PersonCard key={`person-${item.id}`} person={item} subtitle={item.known_for_department} />
+                ) : (
+                  <MediaCard key={`${item.media_type}-${item.id}`} item={item} />
+                )
+              )}
+            </div>
+          ) : (
+            !error && (
+              <div className="text-center text-gray-400 text-xl mb-8">
+                {t(activeTab.empty, { query: searchQuery })}
               </div>
-            </section>
+            )
           )}
 
           {totalPages > 1 && (
@@ -88,9 +178,10 @@ export default async function SearchPage({
               currentPage={currentPage}
               totalPages={totalPages}
               basePath="/search"
+              scrollToId="search-results"
             />
           )}
-        </>
+        </section>
       )}
     </main>
   );
@@ -0,0 +1,128 @@
+// app/tv/[id]/season/[n]/episode/[e]/page.tsx
+// Server Component: Renders a single TV episode with its crew and guest stars.
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import ClientImage from '@/components/common/ClientImage';
+import PersonCard from '@/components/common/PersonCard';
+import { KeyCrew } from '@/components/media/CreditsSection';
+import { FaStar, FaCalendarAlt, FaClock, FaArrowLeft } from 'react-icons/fa';
+import { getMediaDetails, getTvEpisodeDetails } from '@/lib/server/tmdb-api';
+import { getCurrentTmdbOptions } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { TmdbTvShowDetails } from '@/lib/types/tmdb';
+import { formatDate, formatEpisodeCode } from '@/lib/utils';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+// Build full TMDB image URL or return a placeholder
+const getImageUrl = (path: string | null | undefined, size: string = 'original') =>
+  path ? `${TMDB_IMAGE_BASE_URL}${size}${path}` : `https://placehold.co/png/1280x720/1f2937/FFFFFF?text=No+Image`;
+
+type Params = Promise<{ id: string; n: string; e: string }>;
+
+/**
+ * Fetches the show and the episode, turning malformed or unknown IDs into a 404.
+ * Wrapped in React's cache() so generateMetadata and the page share one request per render.
+ */
+const loadEpisode = cache(async (id: string, n: string, e: string) => {
+  if (![id, n, e].every(param => /^\d+$/.test(param))) notFound();
+  try {
+    const options = await getCurrentTmdbOptions();
+    const [show, episode] = await Promise.all([
+      getMediaDetails('tv', id, options) as Promise<TmdbTvShowDetails>,
+      getTvEpisodeDetails(id, Number(n), Number(e), options),
+    ]);
+    return { show, episode };
+  } catch (error) {
+    if (error instanceof TmdbNotFoundError) notFound();
+    throw error;
+  }
+});
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { id, n, e } = await params;
+  const { show, episode } = await loadEpisode(id, n, e);
+  const code = formatEpisodeCode(episode.season_number, episode.episode_number);
+  const description = episode.overview || `${show.name} ${code}: ${episode.name}.`;
+
+  return {
+    title: `${show.name} ${code}: ${episode.name}`,
+    description,
+    openGraph: {
+      title: `${show.name} ${code}: ${episode.name}`,
+      description,
+      type: 'video.episode',
+      images: episode.still_path ? [{ url: getImageUrl(episode.still_path, 'w780') }] : [],
+    },
+  };
+}
+
+export default async function EpisodePage({ params }: { params: Params }) {
+  const { id, n, e } = await params;
+  const [{ show, episode }, { locale, language, t, localize }] = await Promise.all([loadEpisode(id, n, e), getTranslator()]);
+
+  const airDate = formatDate(episode.air_date, 'long', language);
+  const guestStars = [...episode.guest_stars].sort((a, b) => a.order - b.order);
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <div className="container mx-auto">
+        <Link
+          href={localize(`/tv/${show.id}/season/${episode.season_number}`)}
+          className="inline-flex items-center text-blue-300 hover:text-blue-400 mb-6 transition-colors duration-200"
+        >
+          <FaArrowLeft className="mr-2" />{t('episode.backTo', { show: show.name ?? '', number: episode.season_number })}
+        </Link>
+
+        <div className="flex flex-col lg:flex-row items-start mb-12">
+          {/* Still */}
+          <div className="relative w-full lg:w-1/2 aspect-video flex-shrink-0 mb-8 lg:mb-0 lg:mr-10 rounded-lg overflow-hidden shadow-2xl">
+            <ClientImage
+              src={getImageUrl(episode.still_path, 'w1280')}
+              alt={t('season.stillAlt', { name: episode.name })}
+              fill
+              sizes="(max-width: 1024px) 100vw, 50vw"
+              className="object-cover"
+              priority
+            />
+          </div>
+
+          {/* Details */}
+          <div className="flex-grow">
+            <p className="text-lg text-gray-400 mb-1">
+              <Link href={localize(`/tv/${show.id}`)} className="hover:text-blue-400 transition-colors duration-200">{show.name}</Link>
+              <span className="font-mono ml-3">{formatEpisodeCode(episode.season_number, episode.episode_number)}</span>
+            </p>
+            <h1 className="text-4xl md:text-5xl font-extrabold mb-6 leading-tight">{episode.name}</h1>
+
+            <div className="flex flex-wrap items-center text-lg text-gray-300 mb-6 gap-x-6 gap-y-3">
+              {episode.vote_average > 0 && <span className="flex items-center"><FaStar className="text-yellow-400 mr-2" />{episode.vote_average.toFixed(1)} / 10</span>}
+              {airDate && <span className="flex items-center"><FaCalendarAlt className="text-blue-400 mr-2" />{airDate}</span>}
+              {episode.runtime && <span className="flex items-center"><FaClock className="text-green-400 mr-2" />{t('details.runtime', { count: episode.runtime })}</span>}
+            </div>
+
+            <p className="text-gray-300 text-lg leading-relaxed mb-8">{episode.overview || t('details.noOverview')}</p>
+
+            <KeyCrew crew={episode.crew} locale={locale} />
+          </div>
+        </div>
+
+        {/* Guest stars */}
+        {guestStars.length > 0 && (
+          <section className="mb-12">
+            <h2 className="text-3xl font-bold mb-6 text-gray-200">{t('episode.guestStars')}</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              {guestStars.map(member => (
+                <PersonCard key={member.credit_id} person={member} subtitle={member.character} />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,160 @@
+// app/tv/[id]/season/[n]/page.tsx
+// Server Component: Lists every episode of a TV season with stills, air dates, runtimes and ratings.
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import ClientImage from '@/components/common/ClientImage';
+import { FaStar, FaCalendarAlt, FaClock, FaArrowLeft, FaArrowRight } from 'react-icons/fa';
+import { getMediaDetails, getTvSeasonDetails } from '@/lib/server/tmdb-api';
+import { getCurrentTmdbOptions } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { TmdbTvShowDetails } from '@/lib/types/tmdb';
+import { formatDate, formatYear } from '@/lib/utils';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+// Build full TMDB image URL or return a placeholder
+const getImageUrl = (path: string | null | undefined, size: string = 'original', placeholder: string = '500x750') =>
+  path ? `${TMDB_IMAGE_BASE_URL}${size}${path}` : `https://placehold.co/png/${placeholder}/1f2937/FFFFFF?text=No+Image`;
+
+type Params = Promise<{ id: string; n: string }>;
+
+/**
+ * Fetches the show and the season, turning malformed or unknown IDs into a 404.
+ * Wrapped in React's cache() so generateMetadata and the page share one request per render.
+ */
+const loadSeason = cache(async (id: string, n: string) => {
+  if (!/^\d+$/.test(id) || !/^\d+$/.test(n)) notFound();
+  try {
+    const options = await getCurrentTmdbOptions();
+    const [show, season] = await Promise.all([
+      getMediaDetails('tv', id, options) as Promise<TmdbTvShowDetails>,
+      getTvSeasonDetails(id, Number(n), options),
+    ]);
+    return { show, season };
+  } catch (error) {
+    if (error instanceof TmdbNotFoundError) notFound();
+    throw error;
+  }
+});
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { id, n } = await params;
+  const [{ show, season }, { t }] = await Promise.all([loadSeason(id, n), getTranslator()]);
+  const description = season.overview || t('season.metaDescription', { show: show.name ?? '', season: season.name });
+
+  return {
+    title: `${show.name}: ${season.name}`,
+    description,
+    openGraph: {
+      title: `${show.name}: ${season.name}`,
+      description,
+      images: season.poster_path ? [{ url: getImageUrl(season.poster_path, 'w780') }] : [],
+    },
+  };
+}
+
+export default async function SeasonPage({ params }: { params: Params }) {
+  const { id, n } = await params;
+  const [{ show, season }, { language, t, localize }] = await Promise.all([loadSeason(id, n), getTranslator()]);
+
+  // Neighbouring seasons for the prev/next links, in the order TMDB lists them
+  const seasonIndex = show.seasons.findIndex(s => s.season_number === season.season_number);
+  const previousSeason = seasonIndex > 0 ? show.seasons[seasonIndex - 1] : null;
+  const nextSeason = seasonIndex >= 0 && seasonIndex < show.seasons.length - 1 ? show.seasons[seasonIndex + 1] : null;
+  const airYear = formatYear(season.air_date, language);
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <div className="container mx-auto">
+        <Link href={localize(`/tv/${show.id}`)} className="inline-flex items-center text-blue-300 hover:text-blue-400 mb-6 transition-colors duration-200">
+          <FaArrowLeft className="mr-2" />{t('season.backTo', { show: show.name ?? '' })}
+        </Link>
+
+        {/* Season header */}
+        <div className="flex flex-col md:flex-row items-start mb-12">
+          <div className="flex-shrink-0 w-48 md:w-56 mb-6 md:mb-0 md:mr-8">
+            <ClientImage
+              src={getImageUrl(season.poster_path || show.poster_path, 'w342')}
+              alt={t('season.posterAlt', { show: show.name ?? '', season: season.name })}
+              width={342}
+              height={513}
+              className="rounded-lg shadow-2xl w-full h-auto object-cover"
+              priority
+            />
+          </div>
+          <div className="flex-grow">
+            <h1 className="text-4xl md:text-5xl font-extrabold mb-2 leading-tight">{season.name}</h1>
+            <p className="text-xl text-gray-400 mb-4">
+              {show.name}{airYear ? ` · ${airYear}` : ''} · {t('details.episodesCount', { count: season.episodes.length })}
+            </p>
+            {season.vote_average > 0 && (
+              <p className="flex items-center text-lg text-gray-300 mb-4"><FaStar className="text-yellow-400 mr-2" />{season.vote_average.toFixed(1)} / 10</p>
+            )}
+            <p className="text-gray-300 text-lg leading-relaxed">{season.overview || t('details.noOverview')}</p>
+          </div>
+        </div>
+
+        {/* Episodes */}
+        <section className="mb-12">
+          <h2 className="text-3xl font-bold mb-6 text-purple-300">{t('season.episodes')}</h2>
+          {season.episodes.length === 0 ? (
+            <p className="text-center text-gray-400">{t('season.noEpisodes')}</p>
+          ) : (
+            <ol className="space-y-6">
+              {season.episodes.map(episode => {
+                const airDate = formatDate(episode.air_date, 'short', language);
+                return (
+                  <li key={episode.id}>
+                    <Link
+                      href={localize(`/tv/${show.id}/season/${season.season_number}/episode/${episode.episode_number}`)}
+                      className="flex flex-col sm:flex-row bg-gray-800 rounded-lg shadow-lg overflow-hidden hover:bg-gray-700 transition-colors duration-200"
+                    >
+                      <div className="relative w-full sm:w-64 flex-shrink-0 aspect-video">
+                        <ClientImage
+                          src={getImageUrl(episode.still_path, 'w300', '300x169')}
+                          alt={t('season.stillAlt', { name: episode.name })}
+                          fill
+                          sizes="(max-width: 640px) 100vw, 256px"
+                          className="object-cover"
+                        />
+                      </div>
+                      <div className="p-4 flex-grow">
+                        <h3 className="text-xl font-semibold mb-2">
+                          <span className="text-gray-400 mr-2">{episode.episode_number}.</span>{episode.name}
+                        </h3>
+                        <div className="flex flex-wrap items-center text-sm text-gray-400 gap-x-4 gap-y-1 mb-2">
+                          {airDate && <span className="flex items-center"><FaCalendarAlt className="text-blue-400 mr-1" />{airDate}</span>}
+                          {episode.runtime && <span className="flex items-center"><FaClock className="text-green-400 mr-1" />{t('details.runtime', { count: episode.runtime })}</span>}
+                          {episode.vote_average > 0 && <span className="flex items-center"><FaStar className="text-yellow-400 mr-1" />{episode.vote_average.toFixed(1)}</span>}
+                        </div>
+                        <p className="text-gray-300 line-clamp-3">{episode.overview || t('details.noOverview')}</p>
+                      </div>
+                    </Link>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </section>
+
+        {/* Season navigation */}
+        <nav className="flex justify-between items-center mb-8">
+          {previousSeason ? (
+            <Link href={localize(`/tv/${show.id}/season/${previousSeason.season_number}`)} className="px-4 py-2 bg-gray-700 hover:bg-blue-600 rounded-lg font-semibold flex items-center space-x-2 transition-colors duration-200">
+              <FaArrowLeft /><span>{previousSeason.name}</span>
+            </Link>
+          ) : <span />}
+          {nextSeason && (
+            <Link href={localize(`/tv/${show.id}/season/${nextSeason.season_number}`)} className="px-4 py-2 bg-gray-700 hover:bg-blue-600 rounded-lg font-semibold flex items-center space-x-2 transition-colors duration-200">
+              <span>{nextSeason.name}</span><FaArrowRight />
+            </Link>
+          )}
+        </nav>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+// app/tv/airing-today/page.tsx
+// Server Component for TV shows with an episode airing today (rendered by MediaListPage).
+
+import MediaListPage from '@/components/common/MediaListPage';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export default function AiringTodayTvShowsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return <MediaListPage list="airing-today-tv" searchParams={searchParams} />;
+}
@@ -0,0 +1,14 @@
+// app/tv/on-the-air/page.tsx
+// Server Component for TV shows with an episode airing in the next seven days (rendered by MediaListPage).
+
+import MediaListPage from '@/components/common/MediaListPage';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export default function OnTheAirTvShowsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return <MediaListPage list="on-the-air-tv" searchParams={searchParams} />;
+}
@@ -0,0 +1,14 @@
+// app/tv/top-rated/page.tsx
+// Server Component for the highest rated TV shows (rendered by MediaListPage).
+
+import MediaListPage from '@/components/common/MediaListPage';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export default function TopRatedTvShowsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return <MediaListPage list="top-rated-tv" searchParams={searchParams} />;
+}
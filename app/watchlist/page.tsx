@@ -0,0 +1,55 @@
+// app/watchlist/page.tsx
+// Server Component: Lists the saved watchlist and watched log. The entries are read from the store
+// here so the first render is complete; sorting and filtering happen in WatchlistView.
+
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { listWatchlistEntries } from '@/lib/server/watchlist-store';
+import { getCurrentUser } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { WatchlistEntry } from '@/lib/types/watchlist';
+import WatchlistView from '@/components/watchlist/WatchlistView';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslator();
+  return {
+    title: `${t('account.myWatchlist')}`,
+    description: t('watchlist.description'),
+  };
+}
+
+export default async function WatchlistPage() {
+  // The middleware only checks that a session cookie exists; an expired session ends up here.
+  const [user, { t, localize }] = await Promise.all([getCurrentUser(), getTranslator()]);
+  if (!user) {
+    redirect(localize(`/login?next=${localize('/watchlist')}`));
+  }
+
+  let entries: WatchlistEntry[] = [];
+  let error: string | null = null;
+
+  try {
+    entries = await listWatchlistEntries(user.id);
+  } catch (err: any) {
+    console.error("Error reading the watchlist:", err);
+    error = t('watchlist.loadFailed');
+  }
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section id="watchlist-section" className="mb-12 pt-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold mb-8 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-green-400
+                       drop-shadow-lg animate-fade-in-up">
+          {t('account.myWatchlist')}
+        </h1>
+
+        {error ? (
+          <div className="text-center text-red-500 text-lg mb-8">{error}</div>
+        ) : (
+          <WatchlistView initialEntries={entries} />
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,96 @@
+// components/account/AccountMenu.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { FaUserCircle, FaSignInAlt } from 'react-icons/fa';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { useSession } from './SessionProvider';
+
+/**
+ * AccountMenu shows a "Sign in" link for visitors, and for signed-in users a dropdown with
+ * their watchlist, lists, ratings import, settings and a sign-out button.
+ * @param variant "desktop" renders a dropdown; "mobile" renders the links inline for the mobile menu.
+ */
+export default function AccountMenu({ variant = 'desktop' }: { variant?: 'desktop' | 'mobile' }) {
+  const { user } = useSession();
+  const { t, localize } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Failed to sign out:", error);
+    }
+    // A full navigation drops client-side state that belonged to this user.
+    window.location.assign(localize('/'));
+  };
+
+  const linkClassName = "text-lg font-medium hover:text-blue-400 transition-colors duration-200";
+
+  if (!user) {
+    return (
+      <Link href={localize('/login')} className={`${linkClassName} font-semibold flex items-center`}>
+        <FaSignInAlt className="mr-2" />{t('account.signIn')}
+      </Link>
+    );
+  }
+
+  if (variant === 'mobile') {
+    return (
+      <>
+        <Link href={localize('/lists')} className={linkClassName}>{t('account.myLists')}</Link>
+        <Link href={localize('/import')} className={linkClassName}>{t('account.importExport')}</Link>
+        <Link href={localize('/account')} className={linkClassName}>{t('account.settingsFor', { username: user.username })}</Link>
+        <button type="button" onClick={signOut} className={linkClassName}>{t('account.signOut')}</button>
+      </>
+    );
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        className="flex items-center p-2 rounded-full bg-gray-800 hover:bg-blue-600 transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-blue-400"
+        aria-label={t('account.menuFor', { username: user.username })}
+      >
+        <FaUserCircle className="text-xl" />
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-2 w-48 bg-gray-800 rounded-lg shadow-2xl overflow-hidden">
+          <p className="px-4 py-2 text-sm text-gray-400 border-b border-gray-700 truncate">{t('account.signedInAs', { username: user.username })}</p>
+          <Link href={localize('/watchlist')} role="menuitem" onClick={() => setIsOpen(false)} className="block px-4 py-2 hover:bg-gray-700">
+            {t('account.myWatchlist')}
+          </Link>
+          <Link href={localize('/lists')} role="menuitem" onClick={() => setIsOpen(false)} className="block px-4 py-2 hover:bg-gray-700">
+            {t('account.myLists')}
+          </Link>
+          <Link href={localize('/import')} role="menuitem" onClick={() => setIsOpen(false)} className="block px-4 py-2 hover:bg-gray-700">
+            {t('account.importExport')}
+          </Link>
+          <Link href={localize('/account')} role="menuitem" onClick={() => setIsOpen(false)} className="block px-4 py-2 hover:bg-gray-700">
+            {t('account.settings')}
+          </Link>
+          <button type="button" role="menuitem" onClick={signOut} className="block w-full text-left px-4 py-2 hover:bg-gray-700">
+            {t('account.signOut')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// components/account/AuthForm.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { FaSignInAlt, FaUserPlus } from 'react-icons/fa';
+import { MIN_PASSWORD_LENGTH } from '@/lib/account';
+
+interface AuthFormProps {
+  mode: 'login' | 'register';
+  // Where to go after signing in; already checked to be a local path by the page
+  next: string;
+}
+
+const inputClassName =
+  "w-full p-3 rounded-lg bg-gray-800 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+/**
+ * AuthForm signs in or registers through the /api/auth routes, then reloads into the `next` page
+ * so the server renders it for the new session. Errors are shown by status code in the page's language.
+ */
+export default function AuthForm({ mode, next }: AuthFormProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { t, localize } = useLocale();
+
+  const isLogin = mode === 'login';
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!response.ok) {
+        setError(
+          response.status === 401 ? t('auth.invalidCredentials')
+            : response.status === 409 ? t('auth.usernameTaken', { username })
+            : response.status === 400 ? t('auth.requirements', { min: MIN_PASSWORD_LENGTH })
+            : t('auth.failed')
+        );
+        setIsSubmitting(false);
+        return;
+      }
+      // A full navigation resets client-side state (like the watchlist) that belonged to the previous visitor.
+      window.location.assign(next);
+    } catch (err) {
+      console.error(`Failed to ${mode}:`, err);
+      setError(t('auth.failed'));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto bg-gray-800/60 rounded-lg shadow-lg p-6 space-y-4">
+      <label className="block">
+        <span className="block text-sm font-semibold text-gray-300 mb-1">{t('auth.username')}</span>
+        <input
+          type="text"
+          autoComplete="username"
+          required
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block">
+        <span className="block text-sm font-semibold text-gray-300 mb-1">{t('auth.password')}</span>
+        <input
+          type="password"
+          autoComplete={isLogin ? 'current-password' : 'new-password'}
+          required
+          minLength={isLogin ? undefined : MIN_PASSWORD_LENGTH}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-5 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 flex items-center justify-center disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-400"
+      >
+        {isLogin ? <FaSignInAlt className="mr-2" /> : <FaUserPlus className="mr-2" />}
+        {isLogin ? t('account.signIn') : t('auth.createAccount')}
+      </button>
+
+      <p className="text-center text-gray-400 text-sm">
+        {isLogin ? t('auth.noAccount') : t('auth.haveAccount')}{' '}
+        <Link
+          href={localize(`/${isLogin ? 'register' : 'login'}?next=${encodeURIComponent(next)}`)}
+          className="text-blue-400 hover:underline"
+        >
+          {isLogin ? t('auth.createOne') : t('account.signIn')}
+        </Link>
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,27 @@
+// components/account/SessionProvider.tsx
+'use client';
+
+import { createContext, useContext, useState } from 'react';
+import { SessionUser } from '@/lib/types/account';
+
+interface SessionContextValue {
+  user: SessionUser | null;
+  setUser: (user: SessionUser | null) => void;
+}
+
+const SessionContext = createContext<SessionContextValue>({ user: null, setUser: () => {} });
+
+/**
+ * SessionProvider makes the signed-in user (resolved on the server by the root layout) available to client components.
+ */
+export default function SessionProvider({ user: initialUser, children }: { user: SessionUser | null; children: React.ReactNode }) {
+  const [user, setUser] = useState(initialUser);
+  return <SessionContext.Provider value={{ user, setUser }}>{children}</SessionContext.Provider>;
+}
+
+/**
+ * Returns the signed-in user (or null) and a setter for updating it after the settings change.
+ */
+export function useSession(): SessionContextValue {
+  return useContext(SessionContext);
+}
@@ -0,0 +1,248 @@
+// components/account/SettingsForm.tsx
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { FaArrowUp, FaArrowDown, FaSave } from 'react-icons/fa';
+import { HomeSection, SessionUser, UserSettings } from '@/lib/types/account';
+import { TmdbWatchProvider } from '@/lib/types/tmdb';
+import { HOME_SECTIONS, LANGUAGES, MAX_STREAMING_SERVICES, PAGINATION_MODES, REGIONS, TRAILER_LANGUAGES } from '@/lib/account';
+import { getDisplayName } from '@/lib/i18n';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { useSession } from './SessionProvider';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string | null | undefined, size: string = 'w92') => {
+  if (!path) {
+    return `https://placehold.co/png/92x92/1f2937/FFFFFF?text=?`;
+  }
+  return `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+};
+
+// Services shown before "Show all"; TMDB lists over a hundred in big regions, most of them niche.
+const TOP_SERVICES_COUNT = 24;
+
+const selectClassName =
+  "w-full p-2 rounded-lg bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+interface SettingsFormProps {
+  settings: UserSettings;
+  providers: TmdbWatchProvider[]; // Watch providers in the saved region, most prominent first
+}
+
+/**
+ * SettingsForm edits the signed-in user's preferences and saves them through /api/account/settings.
+ */
+export default function SettingsForm({ settings, providers }: SettingsFormProps) {
+  const router = useRouter();
+  const { setUser } = useSession();
+  const { language, t } = useLocale();
+  const [draft, setDraft] = useState(settings);
+  const [status, setStatus] = useState<'saved' | 'error' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showAllServices, setShowAllServices] = useState(false);
+
+  const update = (changes: Partial<UserSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setStatus(null);
+  };
+
+  const toggleSection = (section: HomeSection) =>
+    update({
+      homeSections: draft.homeSections.includes(section)
+        ? draft.homeSections.filter(s => s !== section)
+        : [...draft.homeSections, section],
+    });
+
+  const moveSection = (index: number, step: -1 | 1) => {
+    const sections = [...draft.homeSections];
+    [sections[index], sections[index + step]] = [sections[index + step], sections[index]];
+    update({ homeSections: sections });
+  };
+
+  const toggleService = (providerId: number) =>
+    update({
+      streamingServices: draft.streamingServices.includes(providerId)
+        ? draft.streamingServices.filter(id => id !== providerId)
+        : [...draft.streamingServices, providerId],
+    });
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/account/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Request failed with status ${response.status}`);
+      setUser(data as SessionUser);
+      setStatus('saved');
+      router.refresh(); // Re-render server components with the new settings
+    } catch (error: any) {
+      console.error("Failed to save settings:", error);
+      setStatus('error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Enabled sections in their chosen order, then the disabled ones
+  const orderedSections = [
+    ...draft.homeSections.map(value => HOME_SECTIONS.find(section => section.value === value)!),
+    ...HOME_SECTIONS.filter(section => !draft.homeSections.includes(section.value)),
+  ];
+
+  // The most prominent services, plus any chosen ones further down the list
+  const shownProviders = showAllServices
+    ? providers
+    : providers.filter((provider, index) => index < TOP_SERVICES_COUNT || draft.streamingServices.includes(provider.provider_id));
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-xl mx-auto bg-gray-800/60 rounded-lg shadow-lg p-6 space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('settings.region')}</span>
+          <select className={selectClassName} value={draft.region} onChange={(e) => update({ region: e.target.value })}>
+            {REGIONS.map(({ code }) => (
+              <option key={code} value={code}>{getDisplayName('region', code, language)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('settings.language')}</span>
+          <select className={selectClassName} value={draft.language} onChange={(e) => update({ language: e.target.value })}>
+            {LANGUAGES.map(({ code, name }) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="block text-sm font-semibold text-gray-300 mb-1">{t('settings.featuredTrailer')}</span>
+        <select
+          className={selectClassName}
+          value={draft.trailerLanguage}
+          onChange={(e) => update({ trailerLanguage: e.target.value as UserSettings['trailerLanguage'] })}
+        >
+          {TRAILER_LANGUAGES.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className="block text-sm font-semibold text-gray-300 mb-1">{t('settings.pagination')}</span>
+        <select
+          className={selectClassName}
+          value={draft.paginationMode}
+          onChange={(e) => update({ paginationMode: e.target.value as UserSettings['paginationMode'] })}
+        >
+          {PAGINATION_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 text-gray-300">
+        <input
+          type="checkbox"
+          checked={draft.includeAdult}
+          onChange={(e) => update({ includeAdult: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>{t('settings.includeAdult')}</span>
+      </label>
+
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-300 mb-2">{t('settings.homeSections')}</legend>
+        <ul className="space-y-2">
+          {orderedSections.map(section => {
+            const index = draft.homeSections.indexOf(section.value);
+            const enabled = index >= 0;
+            const label = t(section.label);
+            return (
+              <li key={section.value} className="flex items-center gap-3 bg-gray-800 rounded-lg px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => toggleSection(section.value)}
+                  className="accent-blue-500"
+                  aria-label={t('settings.showSection', { section: label })}
+                />
+                <span className={`flex-grow ${enabled ? 'text-gray-200' : 'text-gray-500'}`}>{label}</span>
+                {enabled && (
+                  <>
+                    <button type="button" disabled={index === 0} onClick={() => moveSection(index, -1)}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={t('settings.moveUp', { section: label })}>
+                      <FaArrowUp />
+                    </button>
+                    <button type="button" disabled={index === draft.homeSections.length - 1} onClick={() => moveSection(index, 1)}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={t('settings.moveDown', { section: label })}>
+                      <FaArrowDown />
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-300 mb-1">{t('settings.streamingServices')}</legend>
+        <p className="text-sm text-gray-400 mb-3">
+          {t('settings.servicesHint', { region: getDisplayName('region', settings.region, language) })}
+        </p>
+        {providers.length > 0 ? (
+          <>
+            <ul className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {shownProviders.map(provider => {
+                const checked = draft.streamingServices.includes(provider.provider_id);
+                return (
+                  <li key={provider.provider_id}>
+                    <label className={`flex items-center gap-2 rounded-lg px-2 py-1 cursor-pointer ${checked ? 'bg-green-900/40 text-white' : 'bg-gray-800 text-gray-300'}`}>
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={!checked && draft.streamingServices.length >= MAX_STREAMING_SERVICES}
+                        onChange={() => toggleService(provider.provider_id)}
+                        className="accent-green-500"
+                      />
+                      <span className="relative w-6 h-6 flex-shrink-0 rounded overflow-hidden bg-gray-700">
+                        <Image src={getImageUrl(provider.logo_path)} alt="" fill sizes="24px" className="object-cover" />
+                      </span>
+                      <span className="text-sm truncate">{provider.provider_name}</span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+            {providers.length > shownProviders.length && (
+              <button type="button" onClick={() => setShowAllServices(true)} className="mt-2 text-sm text-blue-400 hover:text-blue-300">
+                {t('settings.showAllServices', { count: providers.length })}
+              </button>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">{t('settings.servicesFailed')}</p>
+        )}
+      </fieldset>
+
+      {status && <p className={status === 'saved' ? 'text-green-400' : 'text-red-500'}>{t(status === 'saved' ? 'settings.saved' : 'settings.saveFailed')}</p>}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 flex items-center disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-400"
+      >
+        <FaSave className="mr-2" />{t('settings.save')}
+      </button>
+    </form>
+  );
+}
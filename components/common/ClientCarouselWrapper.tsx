@@ -3,15 +3,22 @@
 
 import dynamic from 'next/dynamic';
 import { TmdbMediaItem } from '@/lib/types/tmdb'; // Import types
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+// Placeholder shown while the carousel's code loads
+function CarouselLoading() {
+  const { t } = useLocale();
+  return (
+    <div className="h-[500px] md:h-[600px] lg:h-[700px] bg-gray-800 rounded-lg flex items-center justify-center text-gray-400 text-xl">
+      {t('home.carouselLoading')}
+    </div>
+  );
+}
 
 // Dynamically import MovieCarousel ONLY on the client
 const MovieCarousel = dynamic(() => import('./MovieCarousel'), {
   ssr: false, // This is now allowed because ClientCarouselWrapper is a Client Component
-  loading: () => (
-    <div className="h-[500px] md:h-[600px] lg:h-[700px] bg-gray-800 rounded-lg flex items-center justify-center text-gray-400 text-xl">
-      Loading Carousel...
-    </div>
-  ),
+  loading: CarouselLoading,
 });
 
 interface ClientCarouselWrapperProps {
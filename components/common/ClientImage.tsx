@@ -3,6 +3,7 @@
 
 import Image, { ImageProps } from 'next/image';
 import React from 'react';
+import { useLocale } from '@/components/layout/LocaleProvider';
 
 const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
 
@@ -34,6 +35,7 @@ interface ClientImageProps extends ImageProps {
 export default function ClientImage(props: ClientImageProps) {
   const [imgSrc, setImgSrc] = React.useState(props.src);
   const [imgAlt, setImgAlt] = React.useState(props.alt);
+  const { t } = useLocale();
 
   /**
    * Updates the image source to a placeholder and alt text if the image fails to load.
@@ -41,7 +43,7 @@ export default function ClientImage(props: ClientImageProps) {
    */
   const handleError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
     setImgSrc(getPlaceholderImageUrl(props.width, props.height));
-    setImgAlt("Image not available");
+    setImgAlt(t('common.imageUnavailable'));
 
     props.onError?.(e); // Call original onError if it exists
   };
@@ -0,0 +1,135 @@
+// components/common/GridToolbar.tsx
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { FaUndo } from 'react-icons/fa';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { DISCOVER_LANGUAGES } from '@/lib/discover';
+import { getDisplayName } from '@/lib/i18n';
+import {
+  DEFAULT_GRID_FILTERS,
+  GRID_FIRST_YEAR,
+  GRID_MIN_RATINGS,
+  GRID_SORT_OPTIONS,
+  buildGridParams,
+  getGridParamName,
+  getGridParamNames,
+  hasGridFilters,
+} from '@/lib/grid-filters';
+import { GridFilters, GridSort, TmdbGenre } from '@/lib/types/tmdb';
+
+interface GridToolbarProps {
+  filters: GridFilters; // As parsed on the server, which also applies them
+  genres: TmdbGenre[]; // Genres of the grid's media type
+  paramPrefix?: string; // See getGridParamName; needed when a page has more than one grid
+  pageQueryParam?: string; // Reset to the first page whenever the filters change
+}
+
+const selectClassName =
+  "p-2 rounded-lg bg-gray-800 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 cursor-pointer";
+
+// Reads an optional number from a select, treating the empty option as "no filter".
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+/**
+ * Sort and filter selects above a browse grid. Every change navigates to the URL with the new filters,
+ * where the server applies them. Without JavaScript the selects are a plain GET form with an Apply button.
+ */
+export default function GridToolbar({ filters, genres, paramPrefix = '', pageQueryParam = 'page' }: GridToolbarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { language, t } = useLocale();
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: currentYear + 1 - GRID_FIRST_YEAR + 1 }, (_, index) => currentYear + 1 - index);
+
+  const name = (field: Parameters<typeof getGridParamName>[1]) => getGridParamName(paramPrefix, field);
+
+  const applyFilters = (next: GridFilters) => {
+    const params = buildGridParams(next, paramPrefix, new URLSearchParams(searchParams.toString()));
+    params.delete(pageQueryParam);
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const update = (changes: Partial<GridFilters>) => applyFilters({ ...filters, ...changes });
+
+  // Params the no-JavaScript form has to carry along: everything except this grid's filters and page.
+  const ownParams = new Set([...getGridParamNames(paramPrefix), pageQueryParam]);
+  const otherParams = [...searchParams.entries()].filter(([key]) => !ownParams.has(key));
+
+  return (
+    <form method="get" action={pathname} aria-label={t('grid.toolbarLabel')} className="flex flex-wrap items-end justify-center gap-3 mb-8">
+      {otherParams.map(([key, value]) => (
+        <input key={key} type="hidden" name={key} value={value} />
+      ))}
+
+      <label className="flex flex-col text-xs text-gray-400 gap-1">
+        {t('grid.sortBy')}
+        <select name={name('sort')} value={filters.sort} onChange={(e) => update({ sort: e.target.value as GridSort })} className={selectClassName}>
+          {GRID_SORT_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs text-gray-400 gap-1">
+        {t('grid.genre')}
+        <select name={name('genre')} value={filters.genre ?? ''} onChange={(e) => update({ genre: toNumber(e.target.value) })} className={selectClassName}>
+          <option value="">{t('grid.anyGenre')}</option>
+          {genres.map(({ id, name: genreName }) => (
+            <option key={id} value={id}>{genreName}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs text-gray-400 gap-1">
+        {t('grid.minRating')}
+        <select name={name('minRating')} value={filters.minRating ?? ''} onChange={(e) => update({ minRating: toNumber(e.target.value) })} className={selectClassName}>
+          <option value="">{t('grid.anyRating')}</option>
+          {GRID_MIN_RATINGS.map(rating => (
+            <option key={rating} value={rating}>{t('grid.ratingAtLeast', { rating })}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs text-gray-400 gap-1">
+        {t('grid.year')}
+        <select name={name('year')} value={filters.year ?? ''} onChange={(e) => update({ year: toNumber(e.target.value) })} className={selectClassName}>
+          <option value="">{t('grid.anyYear')}</option>
+          {years.map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs text-gray-400 gap-1">
+        {t('grid.language')}
+        <select name={name('language')} value={filters.language ?? ''} onChange={(e) => update({ language: e.target.value || undefined })} className={selectClassName}>
+          <option value="">{t('grid.anyLanguage')}</option>
+          {DISCOVER_LANGUAGES.map(({ code }) => (
+            <option key={code} value={code}>{getDisplayName('language', code, language)}</option>
+          ))}
+        </select>
+      </label>
+
+      <noscript>
+        <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg">
+          {t('grid.apply')}
+        </button>
+      </noscript>
+
+      {hasGridFilters(filters) && (
+        <button
+          type="button"
+          onClick={() => applyFilters(DEFAULT_GRID_FILTERS)}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold rounded-lg
+                     transition-colors duration-200"
+        >
+          <FaUndo aria-hidden="true" />
+          {t('grid.reset')}
+        </button>
+      )}
+    </form>
+  );
+}
@@ -5,6 +5,9 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { TmdbMediaItem } from '@/lib/types/tmdb'; 
 import { FaStar } from 'react-icons/fa';
+import WatchlistToggle from '@/components/watchlist/WatchlistToggle';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { formatRating, formatYear } from '@/lib/utils';
 
 const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
 
@@ -20,10 +23,12 @@ interface MediaCardProps {
 }
 
 export default function MediaCard({ item }: MediaCardProps) {
+  const { language, t, localize } = useLocale();
   const title = item.media_type === 'movie' ? item.title : item.name;
   const releaseDate = item.media_type === 'movie' ? item.release_date : item.first_air_date;
-  const rating = item.vote_average ? item.vote_average.toFixed(1) : 'N/A';
-  const linkPath = `/${item.media_type}/${item.id}`;
+  const rating = item.vote_average ? formatRating(item.vote_average, language) : t('common.notAvailable');
+  const releaseYear = formatYear(releaseDate, language);
+  const linkPath = localize(`/${item.media_type}/${item.id}`);
 
   return (
     <Link href={linkPath} className="block group">
@@ -31,16 +36,17 @@ export default function MediaCard({ item }: MediaCardProps) {
         <div className="relative w-full h-72 sm:h-80 md:h-96">
           <Image
             src={getImageUrl(item.poster_path)}
-            alt={title || 'Media Poster'}
+            alt={title || t('common.poster')}
             fill
             sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
             className="object-cover transition-opacity duration-300 group-hover:opacity-80"
             onError={(e: React.SyntheticEvent<HTMLImageElement, Event>) => {
               const target = e.target as HTMLImageElement;
               target.src = getImageUrl(null);
-              target.alt = "Image not available";
+              target.alt = t('common.imageUnavailable');
             }}
           />
+          {item.media_type !== 'person' && <WatchlistToggle mediaType={item.media_type} id={item.id} title={title} />}
         </div>
         <div className="p-4">
           <h3 className="text-xl font-semibold text-white truncate mb-1">
@@ -49,7 +55,7 @@ export default function MediaCard({ item }: MediaCardProps) {
           <div className="flex items-center text-gray-400 text-sm">
             <FaStar className="text-yellow-400 mr-1" />
             <span>{rating}</span>
-            {releaseDate && <span className="ml-3">({new Date(releaseDate).getFullYear()})</span>}
+            {releaseYear && <span className="ml-3">({releaseYear})</span>}
           </div>
         </div>
       </div>
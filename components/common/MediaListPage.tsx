@@ -0,0 +1,86 @@
+// components/common/MediaListPage.tsx
+// Server Component rendering one browse list page (popular, top rated, upcoming, ...) with the grid toolbar and pagination.
+
+import { getMovieGenres, getTvGenres } from '@/lib/server/tmdb-api';
+import { getMediaListPage, isFilterable } from '@/lib/server/media-lists';
+import { getTmdbOptions, getUserSettings } from '@/lib/server/session';
+import { getTranslator } from '@/lib/server/i18n';
+import { MEDIA_LIST_PAGES } from '@/lib/media-list-pages';
+import { TmdbMediaItem, TmdbGenre, MediaListKey, PaginatedResponse } from '@/lib/types/tmdb';
+import { hasGridFilters, parseGridParams } from '@/lib/grid-filters';
+import { parsePageParam } from '@/lib/utils';
+import PagedMediaGrid from '@/components/common/PagedMediaGrid';
+import GridToolbar from '@/components/common/GridToolbar';
+
+interface MediaListPageProps {
+  list: MediaListKey; // Must have an entry in MEDIA_LIST_PAGES
+  searchParams: Promise<Record<string, string | string[] | undefined>>; // The page's own searchParams prop
+}
+
+/**
+ * Renders the list page defined in MEDIA_LIST_PAGES for a list: its title, the sort and filter toolbar,
+ * and the current page of titles in the user's pagination mode. Each route's page.tsx only picks the list.
+ */
+export default async function MediaListPage({ list, searchParams }: MediaListPageProps) {
+  const page = MEDIA_LIST_PAGES.find(definition => definition.list === list);
+  if (!page) throw new Error(`No list page is defined for "${list}".`);
+
+  const resolvedParams = await searchParams; // Await because it's a Promise
+  const currentPage = parsePageParam(resolvedParams?.page);
+  const filters = parseGridParams(resolvedParams);
+  const [settings, { t }] = await Promise.all([getUserSettings(), getTranslator()]);
+  const options = getTmdbOptions(settings);
+  const sectionId = `${list}-section`;
+
+  // The toolbar's genre filter; without genres the other controls still work.
+  const genresPromise = (page.mediaType === 'movie' ? getMovieGenres(options) : getTvGenres(options)).catch((err): TmdbGenre[] => {
+    console.error(`Error fetching ${page.mediaType} genres:`, err);
+    return [];
+  });
+
+  let listData: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 1, total_results: 0 };
+  let error: string | null = null;
+
+  try {
+    listData = await getMediaListPage(list, currentPage, filters, options);
+  } catch (err: any) {
+    console.error(`Error fetching ${list}:`, err);
+    error = t(page.failed);
+  }
+
+  const genres = await genresPromise;
+  // Filtered lists come back empty when nothing matches; the toolbar stays so the filters can be changed.
+  const showToolbar = isFilterable(list) && (listData.total_results > 0 || hasGridFilters(filters));
+
+  return (
+    <main className="w-full p-4 md:p-8 min-h-screen bg-gray-900 text-white pt-20">
+      <section id={sectionId} className="mb-12 pt-10">
+        <h1 className={`text-4xl md:text-5xl font-extrabold mb-8 text-center
+                       bg-clip-text text-transparent bg-gradient-to-r
+                       ${page.mediaType === 'movie' ? 'from-blue-400 to-green-400' : 'from-purple-400 to-blue-500'}
+                       drop-shadow-lg animate-fade-in-up`}>
+          {t(page.title)}
+        </h1>
+
+        {error && <div className="text-center text-red-500 text-lg mb-8">{error}</div>}
+
+        {showToolbar && <GridToolbar filters={filters} genres={genres} />}
+
+        {listData.results.length > 0 ? (
+          <PagedMediaGrid
+            list={list}
+            items={listData.results}
+            filters={filters}
+            currentPage={currentPage}
+            totalPages={listData.total_pages}
+            mode={settings.paginationMode}
+            basePath={page.path}
+            scrollToId={sectionId}
+          />
+        ) : (
+          !error && <p className="text-center text-xl text-gray-400">{t(showToolbar ? 'grid.noListMatches' : page.empty)}</p>
+        )}
+      </section>
+    </main>
+  );
+}
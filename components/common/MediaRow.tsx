@@ -0,0 +1,55 @@
+// components/common/MediaRow.tsx
+'use client';
+
+import { Swiper, SwiperSlide } from 'swiper/react';
+import { Navigation } from 'swiper/modules';
+import MediaCard from '@/components/common/MediaCard';
+import { TmdbMediaItem } from '@/lib/types/tmdb';
+
+import 'swiper/css';
+import 'swiper/css/navigation';
+
+export interface MediaRowEntry {
+  item: TmdbMediaItem;
+  caption?: string; // Shown under the card, e.g. why the title was suggested
+}
+
+interface MediaRowProps {
+  title: string;
+  entries: MediaRowEntry[];
+  titleClassName?: string;
+}
+
+/**
+ * A titled, horizontally scrolling row of media cards with previous/next arrows.
+ * Renders nothing when there are no entries.
+ */
+export default function MediaRow({ title, entries, titleClassName = 'text-gray-200' }: MediaRowProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="mb-12">
+      <h2 className={`text-3xl font-bold mb-6 ${titleClassName}`}>{title}</h2>
+      <Swiper
+        modules={[Navigation]}
+        navigation={true}
+        spaceBetween={24}
+        slidesPerView={2}
+        breakpoints={{
+          640: { slidesPerView: 3 },
+          768: { slidesPerView: 4 },
+          1024: { slidesPerView: 5 },
+          1280: { slidesPerView: 6 },
+        }}
+        className="!py-4"
+      >
+        {entries.map(({ item, caption }) => (
+          <SwiperSlide key={`${item.media_type}-${item.id}`}>
+            <MediaCard item={item} />
+            {caption && <p className="mt-2 text-sm text-gray-400 line-clamp-2">{caption}</p>}
+          </SwiperSlide>
+        ))}
+      </Swiper>
+    </section>
+  );
+}
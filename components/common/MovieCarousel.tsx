@@ -8,6 +8,8 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { TmdbMediaItem } from '@/lib/types/tmdb'; // <--- NEW IMPORT for types
 import { FaStar } from 'react-icons/fa';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { formatRating } from '@/lib/utils';
 
 // Import Swiper styles
 import 'swiper/css';
@@ -29,10 +31,12 @@ interface MovieCarouselProps {
 }
 
 export default function MovieCarousel({ movies }: MovieCarouselProps) {
+  const { language, t, localize } = useLocale();
+
   if (!movies || movies.length === 0) {
     return (
       <div className="text-center py-16 text-gray-400">
-        No movies available for the carousel.
+        {t('home.carouselEmpty')}
       </div>
     );
   }
@@ -55,10 +59,10 @@ export default function MovieCarousel({ movies }: MovieCarouselProps) {
       >
         {movies.map((movie) => (
           <SwiperSlide key={movie.id}>
-            <Link href={`/movie/${movie.id}`} className="block w-full h-full relative">
+            <Link href={localize(`/movie/${movie.id}`)} className="block w-full h-full relative">
               <Image
                 src={getImageUrl(movie.backdrop_path || movie.poster_path, 'w1280')}
-                alt={movie.title || movie.name || 'Movie Poster'}
+                alt={movie.title || movie.name || t('common.poster')}
                 fill
                 sizes="100vw"
                 className="object-cover object-center brightness-50 transition-all duration-500 ease-in-out hover:brightness-75"
@@ -66,7 +70,7 @@ export default function MovieCarousel({ movies }: MovieCarouselProps) {
                 onError={(e: React.SyntheticEvent<HTMLImageElement, Event>) => {
                   const target = e.target as HTMLImageElement;
                   target.src = getImageUrl(null);
-                  target.alt = "Image not available";
+                  target.alt = t('common.imageUnavailable');
                 }}
               />
               <div className="absolute inset-0 flex flex-col justify-end p-8 md:p-16 bg-gradient-to-t from-black/80 via-transparent to-transparent">
@@ -78,10 +82,10 @@ export default function MovieCarousel({ movies }: MovieCarouselProps) {
                 </p>
                 <div className="flex items-center text-yellow-400 text-lg md:text-xl mb-4 animate-fade-in-up delay-300">
                   <FaStar className="mr-2" />
-                  <span>{movie.vote_average ? movie.vote_average.toFixed(1) : 'N/A'} / 10</span>
+                  <span>{movie.vote_average ? formatRating(movie.vote_average, language) : t('common.notAvailable')} / 10</span>
                 </div>
                 <button className="self-start px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow-lg transition-all duration-300 transform hover:scale-105 animate-fade-in-up delay-400">
-                  View Details
+                  {t('common.viewDetails')}
                 </button>
               </div>
             </Link>
@@ -0,0 +1,247 @@
+// components/common/PagedMediaGrid.tsx
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import MediaCard from '@/components/common/MediaCard';
+import PersonCard from '@/components/common/PersonCard';
+import PaginationControls from '@/components/common/PaginationControls';
+import PaginationModePicker from '@/components/common/PaginationModePicker';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { buildGridParams, DEFAULT_GRID_FILTERS } from '@/lib/grid-filters';
+import { GridFilters, MediaListKey, PaginatedResponse, TmdbMediaItem } from '@/lib/types/tmdb';
+import { PaginationMode } from '@/lib/types/account';
+
+interface PagedMediaGridProps {
+  list: MediaListKey; // Where further pages come from (see /api/media-list/[list])
+  items: TmdbMediaItem[]; // The page rendered on the server
+  filters?: GridFilters; // Applied to appended pages too (see GridToolbar)
+  currentPage: number;
+  totalPages: number;
+  mode: PaginationMode; // From the user's settings or pagination cookie; the picker under the grid changes it
+  // Passed on to PaginationControls, which is also the fallback before hydration and without JavaScript
+  basePath?: string;
+  pageQueryParam?: string;
+  scrollToId?: string;
+}
+
+// What's kept in sessionStorage so going back to the grid restores what was loaded and where the user was.
+interface StoredGrid {
+  url: string; // The URL (with the last loaded page) the entry belongs to
+  firstPage: number;
+  lastPage: number;
+  items: TmdbMediaItem[];
+  scrollY: number;
+}
+
+const STORAGE_PREFIX = 'movie-explorer:grid:';
+
+// Infinite mode stops loading by itself after this many pages in a row added nothing (e.g. every title
+// on them was already shown) and offers "Load more" instead, rather than running through every page.
+const MAX_EMPTY_PAGES = 2;
+
+const itemKey = (item: TmdbMediaItem) => `${item.media_type}-${item.id}`;
+
+/**
+ * Reads the stored state of a grid, if it belongs to the given URL.
+ */
+function readStoredGrid(storageKey: string, url: string): StoredGrid | null {
+  try {
+    const stored: StoredGrid | null = JSON.parse(window.sessionStorage.getItem(storageKey) || 'null');
+    return stored?.url === url && Array.isArray(stored.items) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Grid of media cards that pages in the user's preferred way: numbered pages (PaginationControls),
+ * a "Load more" button, or loading the next page as the end of the grid scrolls into view.
+ * Appended pages update the page query param, so the URL can be shared and reloaded, and are kept in
+ * sessionStorage, so going back to the grid restores every loaded page and the scroll position.
+ */
+export default function PagedMediaGrid({
+  list,
+  items: initialItems,
+  filters = DEFAULT_GRID_FILTERS,
+  currentPage,
+  totalPages,
+  mode,
+  basePath,
+  pageQueryParam = 'page',
+  scrollToId,
+}: PagedMediaGridProps) {
+  const { t, localize, localeHeaders } = useLocale();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [grid, setGrid] = useState({ firstPage: currentPage, lastPage: currentPage, items: initialItems });
+  const [hydrated, setHydrated] = useState(false); // Until then the numbered links stay
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [emptyPages, setEmptyPages] = useState(0); // Appended pages in a row that added no items
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<number | null>(null);
+
+  const storageKey = `${STORAGE_PREFIX}${list}:${pathname}`;
+  const appending = mode !== 'pages';
+  const enhanced = hydrated && appending;
+
+  const createPageURL = useCallback((page: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (page > 1) params.set(pageQueryParam, String(page));
+    else params.delete(pageQueryParam);
+    const query = params.toString();
+    return `${basePath ? localize(basePath) : pathname}${query ? `?${query}` : ''}`;
+  }, [searchParams, pageQueryParam, basePath, localize, pathname]);
+
+  // A new server render (e.g. a different page in the URL) starts the grid over.
+  useEffect(() => {
+    setGrid({ firstPage: currentPage, lastPage: currentPage, items: initialItems });
+    setEmptyPages(0);
+    setError(null);
+  }, [currentPage, initialItems]);
+
+  // After hydration, and whenever the list, filters or page change: restore the pages loaded before the
+  // user navigated away, if they belong to this URL. The URL updates this component makes itself (see
+  // loadNextPage) never match, since the stored entry ends on a later page than the server rendered.
+  useEffect(() => {
+    setHydrated(true);
+    if (!appending) return;
+    const stored = readStoredGrid(storageKey, createPageURL(currentPage));
+    if (stored && stored.lastPage === currentPage) {
+      setGrid({ firstPage: stored.firstPage, lastPage: stored.lastPage, items: stored.items });
+      pendingScrollRef.current = stored.scrollY;
+    }
+  }, [appending, storageKey, createPageURL, currentPage]);
+
+  // Scroll back to where the user was once the restored items have rendered.
+  useEffect(() => {
+    if (pendingScrollRef.current === null) return;
+    window.scrollTo({ top: pendingScrollRef.current });
+    pendingScrollRef.current = null;
+  }, [grid]);
+
+  // Keep the stored state current. Only grids with appended pages are worth restoring.
+  useEffect(() => {
+    if (!appending || grid.lastPage === grid.firstPage) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const save = () => {
+      const entry: StoredGrid = { url: createPageURL(grid.lastPage), ...grid, scrollY: window.scrollY };
+      try {
+        window.sessionStorage.setItem(storageKey, JSON.stringify(entry));
+      } catch {
+        // Storage full or unavailable: going back just starts from the page in the URL.
+      }
+    };
+    const onScroll = () => {
+      clearTimeout(timer);
+      timer = setTimeout(save, 200);
+    };
+    save();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('scroll', onScroll);
+    };
+  }, [appending, grid, storageKey, createPageURL]);
+
+  const loadNextPage = useCallback(async () => {
+    if (loading || grid.lastPage >= totalPages) return;
+    const page = grid.lastPage + 1;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = buildGridParams(filters);
+      params.set('page', String(page));
+      const response = await fetch(`/api/media-list/${list}?${params}`, { headers: localeHeaders });
+      if (!response.ok) throw new Error(`Media list request failed with status ${response.status}`);
+      const data: PaginatedResponse<TmdbMediaItem> = await response.json();
+      // Lists shift while they're paged through, so a title can show up on two pages.
+      const seen = new Set(grid.items.map(itemKey));
+      const added = data.results.filter(item => !seen.has(itemKey(item)));
+      setGrid(current => ({ ...current, lastPage: page, items: [...current.items, ...added] }));
+      setEmptyPages(count => (added.length > 0 ? 0 : count + 1));
+      // Keep the URL shareable without a new navigation (Next.js syncs useSearchParams with it).
+      window.history.replaceState(null, '', createPageURL(page));
+    } catch (err) {
+      console.error(`Failed to load page ${page} of ${list}:`, err);
+      setError(t('pagination.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [loading, grid.lastPage, grid.items, totalPages, filters, list, localeHeaders, createPageURL, t]);
+
+  const stalled = emptyPages >= MAX_EMPTY_PAGES;
+
+  // Infinite mode: load the next page when the end of the grid comes near. Stops after an error until
+  // "Try again", and after MAX_EMPTY_PAGES empty pages until "Load more" brings in items again.
+  useEffect(() => {
+    if (mode !== 'infinite' || !enhanced || error || stalled || !sentinelRef.current) return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) loadNextPage();
+      },
+      { rootMargin: '600px 0px' }
+    );
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [mode, enhanced, error, stalled, loadNextPage]);
+
+  const hasMore = grid.lastPage < totalPages;
+
+  return (
+    <>
+      {/* Above the grid, so it stays in reach in infinite mode. Changing the mode needs JavaScript, so it waits for hydration. */}
+      {hydrated && <PaginationModePicker mode={mode} />}
+
+      {enhanced && grid.firstPage > 1 && (
+        <p className="text-center mb-6">
+          <Link href={createPageURL(1)} className="text-blue-400 hover:text-blue-300 underline">
+            {t('pagination.startOver')}
+          </Link>
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+        {grid.items.map(item =>
+          // The "all" trending feed mixes people in with the titles
+          item.media_type === 'person' ? (
+            <PersonCard key={itemKey(item)} person={item} subtitle={item.known_for_department} variant="grid" />
+          ) : (
+            <MediaCard key={itemKey(item)} item={item} />
+          )
+        )}
+      </div>
+
+      {!enhanced ? (
+        <PaginationControls
+          currentPage={currentPage}
+          totalPages={totalPages}
+          basePath={basePath}
+          pageQueryParam={pageQueryParam}
+          scrollToId={scrollToId}
+        />
+      ) : (
+        <div ref={sentinelRef} className="flex flex-col items-center gap-3 mt-8 mb-4" aria-live="polite">
+          {error && <p className="text-red-500 text-lg">{error}</p>}
+          {!error && stalled && hasMore && <p className="text-gray-400">{t('pagination.noNewMatches')}</p>}
+          {loading ? (
+            <p className="text-gray-400">{t('pagination.loading')}</p>
+          ) : hasMore && (mode === 'loadMore' || error || stalled) ? (
+            <button
+              type="button"
+              onClick={loadNextPage}
+              className="px-6 py-2 bg-gray-700 hover:bg-blue-600 text-white font-semibold rounded-lg shadow-md
+                         transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              {error ? t('pagination.retry') : t('pagination.loadMore')}
+            </button>
+          ) : !hasMore && grid.lastPage > grid.firstPage ? (
+            <p className="text-gray-400">{t('pagination.end')}</p>
+          ) : null}
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,15 +1,17 @@
 // components/common/PaginationControls.tsx
 'use client'; // This is a Client Component
 
-import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
 import { useCallback, useEffect } from 'react';
 import { FaArrowLeft, FaArrowRight } from 'react-icons/fa';
+import { useLocale } from '@/components/layout/LocaleProvider';
 
 interface PaginationControlsProps {
   currentPage: number;
   totalPages: number;
   // Optional: A base path if the pagination is for a specific route (e.g., /movie/popular)
-  // If not provided, it will use the current pathname.
+  // If not provided, it will use the current pathname. The locale prefix is added to it.
   basePath?: string;
   // Optional: A query parameter name for the page, defaults to 'page'
   pageQueryParam?: string;
@@ -18,9 +20,10 @@ interface PaginationControlsProps {
 }
 
 /**
- * PaginationControls component provides "Previous", "Next", and a range of page number buttons
+ * PaginationControls component provides "Previous", "Next", and a range of page number links
  * to navigate through paginated content. It updates the URL's query parameters.
  * It also scrolls to a specified element ID after navigation.
+ * The controls are plain links, so they keep working before hydration and without JavaScript.
  */
 export default function PaginationControls({
   currentPage,
@@ -29,17 +32,17 @@ export default function PaginationControls({
   pageQueryParam = 'page', // Default query param name is 'page'
   scrollToId, // Destructure the new prop
 }: PaginationControlsProps) {
-  const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
+  const { t, localize } = useLocale();
 
   // Memoized function to create a new URL with updated page number
   const createPageURL = useCallback((page: number) => {
     const params = new URLSearchParams(searchParams.toString());
     params.set(pageQueryParam, page.toString());
     // Use basePath if provided, otherwise use current pathname
-    return `${basePath || pathname}?${params.toString()}`;
-  }, [pathname, searchParams, basePath, pageQueryParam]);
+    return `${basePath ? localize(basePath) : pathname}?${params.toString()}`;
+  }, [pathname, searchParams, basePath, pageQueryParam, localize]);
 
   // Function to scroll to the specified element ID
   const scrollToElement = useCallback(() => {
@@ -52,17 +55,6 @@ export default function PaginationControls({
     }
   }, [scrollToId]);
 
-  // Handle navigation to a specific page
-  const goToPage = (page: number) => {
-    if (page >= 1 && page <= totalPages) {
-      // Crucial change: Add { scroll: false } to prevent Next.js from
-      // automatically scrolling to the top of the page on navigation.
-      router.push(createPageURL(page), { scroll: false }); // <--- MODIFIED HERE
-      // Then, manually scroll to the desired element
-      scrollToElement();
-    }
-  };
-
   // If the page loads with a specific scroll ID in the URL, scroll to it
   // This helps if the user navigates directly to a paginated URL (e.g., from a bookmark)
   useEffect(() => {
@@ -86,8 +78,9 @@ export default function PaginationControls({
         pageNumbers.push(i);
       }
     } else {
-      // Logic for showing a range with ellipsis
-      const startPage = Math.max(1, currentPage - Math.floor(maxPagesToShow / 2) + 1);
+      // Logic for showing a range with ellipsis: a window centred on the current page, shifted to stay
+      // within the list, so the last pages mirror the first ones (a page past the end counts as the last).
+      const startPage = Math.max(1, Math.min(currentPage - Math.floor(maxPagesToShow / 2), totalPages - maxPagesToShow + 1));
       const endPage = Math.min(totalPages, startPage + maxPagesToShow - 1);
 
       if (startPage > 1) {
@@ -118,56 +111,77 @@ export default function PaginationControls({
     return null;
   }
 
+  const stepClassName = `px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg shadow-md
+                         transition-colors duration-200 flex items-center space-x-2`;
+  const enabledStepClassName = `${stepClassName} hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-400`;
+  const disabledStepClassName = `${stepClassName} opacity-50 cursor-not-allowed`;
+
   return (
-    <div className="flex justify-center items-center space-x-2 mt-8 mb-4">
-      {/* Previous Button */}
-      <button
-        onClick={() => goToPage(currentPage - 1)}
-        disabled={currentPage <= 1}
-        className="px-4 py-2 bg-gray-700 hover:bg-blue-600 text-white font-semibold rounded-lg shadow-md
-                   transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed
-                   flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-blue-400"
-        aria-label="Previous page"
-      >
-        <FaArrowLeft />
-        <span className="hidden sm:inline">Previous</span>
-      </button>
-
-      {/* Page Number Buttons */}
+    <nav aria-label={t('pagination.label')} className="flex justify-center items-center space-x-2 mt-8 mb-4">
+      {/* Previous Link */}
+      {currentPage > 1 ? (
+        // scroll={false} stops Next.js from jumping to the top of the page; scrollToElement
+        // brings the paginated section into view instead.
+        <Link
+          href={createPageURL(currentPage - 1)}
+          scroll={false}
+          onClick={scrollToElement}
+          className={enabledStepClassName}
+          aria-label={t('pagination.previousPage')}
+        >
+          <FaArrowLeft />
+          <span className="hidden sm:inline">{t('pagination.previous')}</span>
+        </Link>
+      ) : (
+        <span className={disabledStepClassName} aria-disabled="true">
+          <FaArrowLeft />
+          <span className="hidden sm:inline">{t('pagination.previous')}</span>
+        </span>
+      )}
+
+      {/* Page Number Links */}
       {pageNumbersToDisplay.map((page, index) => (
         page === '...' ? (
           <span key={`ellipsis-${index}`} className="px-3 py-2 text-gray-400">
             {'...'}
           </span>
         ) : (
-          <button
+          <Link
             key={page}
-            onClick={() => goToPage(Number(page))}
+            href={createPageURL(Number(page))}
+            scroll={false}
+            onClick={scrollToElement}
             className={`px-4 py-2 rounded-lg font-semibold shadow-md transition-colors duration-200 cursor-pointer
                         ${Number(page) === currentPage
                           ? 'bg-blue-600 text-white shadow-lg' // Active page style
                           : 'bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white'}
                         focus:outline-none focus:ring-2 focus:ring-blue-400`}
             aria-current={Number(page) === currentPage ? 'page' : undefined}
-            aria-label={`Go to page ${page}`}
+            aria-label={t('pagination.goToPage', { page })}
           >
             {page}
-          </button>
+          </Link>
         )
       ))}
 
-      {/* Next Button */}
-      <button
-        onClick={() => goToPage(currentPage + 1)}
-        disabled={currentPage >= totalPages}
-        className="px-4 py-2 bg-gray-700 hover:bg-blue-600 text-white font-semibold rounded-lg shadow-md
-                   transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed
-                   flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-blue-400"
-        aria-label="Next page"
-      >
-        <span className="hidden sm:inline">Next</span>
-        <FaArrowRight />
-      </button>
-    </div>
+      {/* Next Link */}
+      {currentPage < totalPages ? (
+        <Link
+          href={createPageURL(currentPage + 1)}
+          scroll={false}
+          onClick={scrollToElement}
+          className={enabledStepClassName}
+          aria-label={t('pagination.nextPage')}
+        >
+          <span className="hidden sm:inline">{t('pagination.next')}</span>
+          <FaArrowRight />
+        </Link>
+      ) : (
+        <span className={disabledStepClassName} aria-disabled="true">
+          <span className="hidden sm:inline">{t('pagination.next')}</span>
+          <FaArrowRight />
+        </span>
+      )}
+    </nav>
   );
 }
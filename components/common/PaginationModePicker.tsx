@@ -0,0 +1,51 @@
+// components/common/PaginationModePicker.tsx
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from '@/components/account/SessionProvider';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { PAGINATION_MODES } from '@/lib/account';
+import { savePaginationPreference } from '@/lib/pagination-client';
+import { PaginationMode } from '@/lib/types/account';
+
+/**
+ * Small select above a browse grid for how it pages. The choice is saved like the region preference
+ * (settings when signed in, a cookie otherwise) and the page re-renders in the new mode.
+ */
+export default function PaginationModePicker({ mode }: { mode: PaginationMode }) {
+  const router = useRouter();
+  const { user, setUser } = useSession();
+  const { t } = useLocale();
+  const [failed, setFailed] = useState(false);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setFailed(false);
+    try {
+      const updated = await savePaginationPreference(e.target.value as PaginationMode, user);
+      if (updated) setUser(updated);
+      router.refresh();
+    } catch (err: any) {
+      console.error("Failed to save the pagination mode:", err);
+      setFailed(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1 mb-4">
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        <span>{t('pagination.mode')}</span>
+        <select
+          value={mode}
+          onChange={handleChange}
+          className="p-1 rounded-lg bg-gray-800 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+        >
+          {PAGINATION_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </label>
+      {failed && <p className="text-red-500 text-sm">{t('pagination.modeFailed')}</p>}
+    </div>
+  );
+}
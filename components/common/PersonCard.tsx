@@ -0,0 +1,60 @@
+// components/common/PersonCard.tsx
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string | null | undefined, size: string = 'w185') => {
+  if (!path) {
+    return `https://placehold.co/png/185x278/1f2937/FFFFFF?text=No+Photo`;
+  }
+  return `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+};
+
+interface PersonCardProps {
+  person: {
+    id: number;
+    name?: string;
+    profile_path?: string | null;
+  };
+  // Secondary line under the name, e.g. the character played or the department
+  subtitle?: string;
+  // "compact" for cast rows and people results; "grid" matches MediaCard's size, for grids that mix people with titles
+  variant?: 'compact' | 'grid';
+}
+
+/**
+ * PersonCard shows a person's profile photo and name, linking to their /person/[id] page.
+ */
+export default function PersonCard({ person, subtitle, variant = 'compact' }: PersonCardProps) {
+  const { t, localize } = useLocale();
+  const isGrid = variant === 'grid';
+
+  return (
+    <Link href={localize(`/person/${person.id}`)} className="block group">
+      <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden transform transition-transform duration-300 hover:scale-105 hover:shadow-2xl">
+        <div className={`relative w-full ${isGrid ? 'h-72 sm:h-80 md:h-96' : 'aspect-[2/3]'}`}>
+          <Image
+            src={getImageUrl(person.profile_path, isGrid ? 'w342' : 'w185')}
+            alt={person.name || t('common.profilePhoto')}
+            fill
+            sizes={isGrid ? "(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw" : "(max-width: 768px) 50vw, (max-width: 1200px) 25vw, 15vw"}
+            className="object-cover transition-opacity duration-300 group-hover:opacity-80"
+            onError={(e: React.SyntheticEvent<HTMLImageElement, Event>) => {
+              const target = e.target as HTMLImageElement;
+              target.src = getImageUrl(null);
+              target.alt = t('common.imageUnavailable');
+            }}
+          />
+        </div>
+        <div className={isGrid ? 'p-4' : 'p-3'}>
+          <h3 className={`${isGrid ? 'text-xl mb-1' : 'text-base'} font-semibold text-white truncate`}>{person.name}</h3>
+          {subtitle && <p className="text-sm text-gray-400 truncate">{subtitle}</p>}
+        </div>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,208 @@
+// components/discover/DiscoverFilterForm.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaCheck, FaBan, FaFilter, FaUndo } from 'react-icons/fa';
+import { DiscoverFilters, TmdbGenre } from '@/lib/types/tmdb';
+import { buildDiscoverParams, parseDiscoverParams, DISCOVER_LANGUAGES, DISCOVER_SORT_OPTIONS } from '@/lib/discover';
+import { getDisplayName } from '@/lib/i18n';
+import { useSession } from '@/components/account/SessionProvider';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+interface DiscoverFilterFormProps {
+  filters: DiscoverFilters;
+  movieGenres: TmdbGenre[];
+  tvGenres: TmdbGenre[];
+}
+
+type GenreState = 'include' | 'exclude' | undefined;
+
+const inputClassName =
+  "w-full p-2 rounded-lg bg-gray-800 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+// Reads an optional number from a form input, treating an empty field as "no filter".
+const toNumber = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+/**
+ * DiscoverFilterForm edits the /discover filters and applies them by navigating to the matching URL.
+ * Genre chips cycle through any → include → exclude on click.
+ */
+export default function DiscoverFilterForm({ filters, movieGenres, tvGenres }: DiscoverFilterFormProps) {
+  const router = useRouter();
+  const { language, t, localize } = useLocale();
+  const { user } = useSession();
+  const [draft, setDraft] = useState<DiscoverFilters>(filters);
+  const hasServices = (user?.settings.streamingServices.length ?? 0) > 0;
+
+  const genres = draft.mediaType === 'movie' ? movieGenres : tvGenres;
+
+  const update = (changes: Partial<DiscoverFilters>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const getGenreState = (id: number): GenreState =>
+    draft.includeGenres.includes(id) ? 'include' : draft.excludeGenres.includes(id) ? 'exclude' : undefined;
+
+  const cycleGenre = (id: number) => {
+    const state = getGenreState(id);
+    const includeGenres = draft.includeGenres.filter(g => g !== id);
+    const excludeGenres = draft.excludeGenres.filter(g => g !== id);
+    if (state === undefined) includeGenres.push(id);
+    if (state === 'include') excludeGenres.push(id);
+    update({ includeGenres, excludeGenres });
+  };
+
+  const applyFilters = (next: DiscoverFilters) => {
+    setDraft(next);
+    const query = buildDiscoverParams(next).toString();
+    router.push(localize(query ? `/discover?${query}` : '/discover'));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    applyFilters(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800/60 rounded-lg shadow-lg p-4 md:p-6 mb-10 space-y-6">
+      {/* Media type */}
+      <div className="flex justify-center gap-2">
+        {(['movie', 'tv'] as const).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => update({ mediaType: type, includeGenres: [], excludeGenres: [] })} // Genre IDs differ between movies and TV
+            className={`px-5 py-2 rounded-full font-semibold transition-colors duration-200 ${
+              draft.mediaType === type ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {t(type === 'movie' ? 'nav.movies' : 'nav.tvShows')}
+          </button>
+        ))}
+      </div>
+
+      {/* Genres */}
+      <fieldset>
+        <legend className="text-lg font-bold text-gray-200 mb-1">{t('discover.genres')}</legend>
+        <p className="text-sm text-gray-400 mb-3">{t('discover.genresHint')}</p>
+        <div className="flex flex-wrap gap-2">
+          {genres.map(genre => {
+            const state = getGenreState(genre.id);
+            return (
+              <button
+                key={genre.id}
+                type="button"
+                onClick={() => cycleGenre(genre.id)}
+                aria-pressed={state !== undefined}
+                className={`flex items-center px-3 py-1 rounded-full text-sm transition-colors duration-200 ${
+                  state === 'include'
+                    ? 'bg-green-600 text-white'
+                    : state === 'exclude'
+                      ? 'bg-red-700 text-white line-through'
+                      : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                }`}
+              >
+                {state === 'include' && <FaCheck className="mr-1" />}
+                {state === 'exclude' && <FaBan className="mr-1" />}
+                {genre.name}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t(draft.mediaType === 'movie' ? 'discover.releaseYear' : 'discover.firstAired')}</span>
+          <div className="flex items-center gap-2">
+            <input type="number" min={1870} max={2100} placeholder={t('discover.from')} aria-label={t('discover.fromYear')} className={inputClassName}
+              value={draft.yearFrom ?? ''} onChange={e => update({ yearFrom: toNumber(e.target.value) })} />
+            <span className="text-gray-400">–</span>
+            <input type="number" min={1870} max={2100} placeholder={t('discover.to')} aria-label={t('discover.toYear')} className={inputClassName}
+              value={draft.yearTo ?? ''} onChange={e => update({ yearTo: toNumber(e.target.value) })} />
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('discover.runtime')}</span>
+          <div className="flex items-center gap-2">
+            <input type="number" min={0} max={1000} placeholder={t('discover.min')} aria-label={t('discover.minRuntime')} className={inputClassName}
+              value={draft.minRuntime ?? ''} onChange={e => update({ minRuntime: toNumber(e.target.value) })} />
+            <span className="text-gray-400">–</span>
+            <input type="number" min={0} max={1000} placeholder={t('discover.max')} aria-label={t('discover.maxRuntime')} className={inputClassName}
+              value={draft.maxRuntime ?? ''} onChange={e => update({ maxRuntime: toNumber(e.target.value) })} />
+          </div>
+        </div>
+
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('discover.minRating', { rating: draft.minRating ?? t('discover.any') })}</span>
+          <input type="range" min={0} max={10} step={0.5} className="w-full accent-blue-500 mt-2"
+            value={draft.minRating ?? 0} onChange={e => update({ minRating: Number(e.target.value) || undefined })} />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('discover.minVotes')}</span>
+          <input type="number" min={0} placeholder={t('discover.any')} className={inputClassName}
+            value={draft.minVotes ?? ''} onChange={e => update({ minVotes: toNumber(e.target.value) })} />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('grid.language')}</span>
+          <select className={inputClassName} value={draft.language ?? ''} onChange={e => update({ language: e.target.value || undefined })}>
+            <option value="">{t('grid.anyLanguage')}</option>
+            {DISCOVER_LANGUAGES.map(({ code }) => (
+              <option key={code} value={code}>{getDisplayName('language', code, language)}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-1">{t('grid.sortBy')}</span>
+          <select className={inputClassName} value={draft.sort} onChange={e => update({ sort: e.target.value as DiscoverFilters['sort'] })}>
+            {DISCOVER_SORT_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="text-gray-300">
+        <label className={`inline-flex items-center gap-2 ${hasServices ? '' : 'opacity-60'}`}>
+          <input
+            type="checkbox"
+            checked={draft.onMyServices && hasServices}
+            disabled={!hasServices}
+            onChange={e => update({ onMyServices: e.target.checked })}
+            className="accent-blue-500"
+          />
+          <span>{t('discover.onMyServices')}</span>
+        </label>
+        {!hasServices && (
+          <p className="text-sm text-gray-400 mt-1">
+            {user ? (
+              <Link href={localize('/account')} className="text-blue-400 hover:text-blue-300">{t('discover.pickServices')}</Link>
+            ) : (
+              <Link href={localize(`/login?next=${localize('/account')}`)} className="text-blue-400 hover:text-blue-300">{t('discover.signInForServices')}</Link>
+            )}
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-center gap-4">
+        <button
+          type="submit"
+          className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 flex items-center focus:outline-none focus:ring-2 focus:ring-blue-400"
+        >
+          <FaFilter className="mr-2" />{t('discover.apply')}
+        </button>
+        <button
+          type="button"
+          onClick={() => applyFilters(parseDiscoverParams({ type: draft.mediaType }))} // Keep the media type, clear everything else
+          className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold rounded-lg transition-colors duration-200 flex items-center"
+        >
+          <FaUndo className="mr-2" />{t('grid.reset')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,70 @@
+// components/home/MoreLikeThese.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import MediaRow, { MediaRowEntry } from '@/components/common/MediaRow';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { Translate } from '@/lib/i18n';
+import { BlendedRecommendation } from '@/lib/types/tmdb';
+import { getRecentlyViewed, getRecentlyViewedKey } from '@/lib/recently-viewed';
+
+/**
+ * Explains a suggestion by naming the recently viewed titles it was recommended for.
+ * @param titles Seed titles, most recent first.
+ * @param t The message lookup of the page's locale.
+ */
+function describeReason(titles: string[], t: Translate): string {
+  if (titles.length === 1) return t('home.becauseOne', { first: titles[0] });
+  if (titles.length === 2) return t('home.becauseTwo', { first: titles[0], second: titles[1] });
+  return t('home.becauseMany', { first: titles[0], second: titles[1], count: titles.length - 2 });
+}
+
+/**
+ * Home page row of titles recommended for what was recently opened in this browser.
+ * The history lives in localStorage, so the row loads after hydration and stays hidden without any history.
+ */
+export default function MoreLikeThese() {
+  const [entries, setEntries] = useState<MediaRowEntry[]>([]);
+  const [failed, setFailed] = useState(false);
+  const { t, localeHeaders } = useLocale();
+
+  useEffect(() => {
+    const viewed = getRecentlyViewed();
+    if (viewed.length === 0) return;
+    const titlesByKey = new Map(viewed.map(title => [getRecentlyViewedKey(title), title.title]));
+    const controller = new AbortController();
+
+    (async () => {
+      try {
+        const keys = viewed.map(getRecentlyViewedKey).join(',');
+        const response = await fetch(`/api/recommendations?titles=${encodeURIComponent(keys)}`, {
+          signal: controller.signal,
+          headers: localeHeaders,
+        });
+        if (!response.ok) throw new Error(`Recommendations request failed with status ${response.status}`);
+        const data: { results: BlendedRecommendation[] } = await response.json();
+        setEntries(data.results.map(({ item, because }) => ({
+          item,
+          caption: describeReason(because.map(key => titlesByKey.get(key) ?? t('home.aRecentTitle')), t),
+        })));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to fetch recommendations:", err);
+        setFailed(true);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [t, localeHeaders]);
+
+  if (failed) {
+    return (
+      <section className="mb-12">
+        <h2 className="text-3xl font-bold mb-6 text-green-300">{t('home.moreLikeThese')}</h2>
+        <p className="text-red-500 text-lg">{t('home.moreLikeTheseFailed')}</p>
+      </section>
+    );
+  }
+
+  return <MediaRow title={t('home.moreLikeThese')} entries={entries} titleClassName="text-green-300" />;
+}
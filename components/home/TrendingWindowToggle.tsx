@@ -0,0 +1,52 @@
+// components/home/TrendingWindowToggle.tsx
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { TRENDING_WINDOWS, TrendingFeed, getTrendingWindowParam, saveTrendingWindow } from '@/lib/trending';
+import { TrendingWindow } from '@/lib/types/tmdb';
+
+interface TrendingWindowToggleProps {
+  feed: TrendingFeed;
+  value: TrendingWindow; // As resolved on the server from the URL or the cookie
+  pageQueryParam: string; // The section's page param, reset when the window changes
+}
+
+/**
+ * "Today" / "This week" switch above a trending section. The options are links that set the
+ * section's window param, so they work without JavaScript; a click also saves the choice in a cookie.
+ */
+export default function TrendingWindowToggle({ feed, value, pageQueryParam }: TrendingWindowToggleProps) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { t } = useLocale();
+
+  const createWindowURL = (timeWindow: TrendingWindow) => {
+    const params = new URLSearchParams(searchParams.toString());
+    // Always explicit, so the link shows this window even if the cookie says otherwise
+    params.set(getTrendingWindowParam(feed), timeWindow);
+    params.delete(pageQueryParam);
+    return `${pathname}?${params.toString()}`;
+  };
+
+  return (
+    <div role="group" aria-label={t('home.trendingWindow')} className="flex justify-center mb-6">
+      <div className="inline-flex rounded-full bg-gray-800 p-1">
+        {TRENDING_WINDOWS.map(({ value: timeWindow, label }) => (
+          <Link
+            key={timeWindow}
+            href={createWindowURL(timeWindow)}
+            scroll={false}
+            onClick={() => saveTrendingWindow(feed, timeWindow)}
+            aria-current={timeWindow === value ? 'true' : undefined}
+            className={`px-4 py-1 rounded-full text-sm font-semibold transition-colors duration-200
+                        ${timeWindow === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`}
+          >
+            {t(label)}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+// components/import/ImportFlow.tsx
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { FaFileUpload, FaStar, FaTimes } from 'react-icons/fa';
+import MediaCard from '@/components/common/MediaCard';
+import { TmdbMediaItem } from '@/lib/types/tmdb';
+import { ImportMatch, ImportResolution, ImportReview } from '@/lib/types/import';
+import { resolveImportFile, saveImport } from '@/lib/import-client';
+import { MessageKey } from '@/lib/messages/en';
+import { formatDate } from '@/lib/utils';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string | null | undefined, size: string = 'w92') => {
+  if (!path) {
+    return `https://placehold.co/png/92x138/1f2937/FFFFFF?text=?`;
+  }
+  return `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+};
+
+const FORMAT_LABELS = { letterboxd: 'Letterboxd', imdb: 'IMDb' } as const;
+
+const getTitle = (item: TmdbMediaItem) => (item.media_type === 'movie' ? item.title : item.name) || '';
+const getYear = (item: TmdbMediaItem) => (item.media_type === 'movie' ? item.release_date : item.first_air_date)?.slice(0, 4);
+
+type SortKey = 'file' | 'rating' | 'watched' | 'title';
+
+const SORT_OPTIONS: Record<SortKey, { label: MessageKey; compare: (a: ImportMatch, b: ImportMatch) => number }> = {
+  file: { label: 'import.sortFile', compare: () => 0 },
+  rating: { label: 'import.sortRating', compare: (a, b) => (b.row.rating ?? 0) - (a.row.rating ?? 0) },
+  watched: { label: 'import.sortWatched', compare: (a, b) => (b.row.watchedAt ?? '').localeCompare(a.row.watchedAt ?? '') },
+  title: { label: 'discover.sortTitle', compare: (a, b) => getTitle(a.item).localeCompare(getTitle(b.item)) },
+};
+
+const selectClassName =
+  "p-2 rounded-lg bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+/**
+ * ImportFlow walks through importing a Letterboxd or IMDb ratings CSV: upload the file, pick the right title
+ * for rows that matched several, browse the matched titles with their ratings, then save them to the watched log.
+ */
+export default function ImportFlow() {
+  const { language, t, localize } = useLocale();
+  const [resolution, setResolution] = useState<ImportResolution | null>(null);
+  const [matches, setMatches] = useState<ImportMatch[]>([]);
+  const [review, setReview] = useState<ImportReview[]>([]);
+  const [sort, setSort] = useState<SortKey>('file');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsBusy(true);
+    setError(null);
+    setSavedMessage(null);
+    try {
+      const result = await resolveImportFile(await file.text());
+      setResolution(result);
+      setMatches(result.matched);
+      setReview(result.review);
+    } catch (err: any) {
+      console.error("Failed to read the ratings file:", err);
+      setError('import.readFailed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const pickCandidate = (entry: ImportReview, item: TmdbMediaItem | null) => {
+    setReview(prev => prev.filter(other => other !== entry));
+    if (item) setMatches(prev => [...prev, { row: entry.row, item }]);
+  };
+
+  const removeMatch = (match: ImportMatch) => setMatches(prev => prev.filter(other => other !== match));
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { saved, skipped } = await saveImport(
+        matches.map(({ row, item }) => ({
+          mediaType: item.media_type as 'movie' | 'tv',
+          id: item.id,
+          rating: row.rating,
+          watchedAt: row.watchedAt,
+        }))
+      );
+      setSavedMessage(t(saved === 1 ? 'import.savedOne' : 'import.savedMany', { count: saved }) +
+        (skipped ? ` ${t('import.skipped', { count: skipped })}` : ''));
+      setResolution(null);
+      setMatches([]);
+      setReview([]);
+    } catch (err: any) {
+      console.error("Failed to save the import:", err);
+      setError('import.saveFailed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sortedMatches = [...matches].sort(SORT_OPTIONS[sort].compare);
+
+  return (
+    <div className="space-y-10">
+      <div className="max-w-3xl mx-auto text-center space-y-4">
+        <label className={`inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 cursor-pointer ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+          <FaFileUpload className="mr-2" />{t(isBusy && !resolution ? 'import.matching' : 'import.chooseFile')}
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} disabled={isBusy} className="hidden" />
+        </label>
+        <p className="text-gray-400 text-sm">
+          {t('import.letterboxdHint')} {t('import.imdbHint')}
+        </p>
+        {error && <p className="text-red-500">{t(error)}</p>}
+        {savedMessage && (
+          <p className="text-green-400">
+            {savedMessage} <Link href={localize('/watchlist?status=watched')} className="underline hover:text-green-300">{t('import.viewWatched')}</Link>
+          </p>
+        )}
+      </div>
+
+      {resolution && (
+        <>
+          <p className="text-center text-gray-300">
+            {t('import.summary', {
+              format: FORMAT_LABELS[resolution.format],
+              matched: matches.length,
+              review: review.length,
+              unmatched: resolution.unmatched.length,
+            })}
+            {resolution.ignored > 0 && ` · ${t('import.ignored', { count: resolution.ignored })}`}
+          </p>
+
+          {review.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-bold mb-4 text-yellow-300">{t('import.pickTitle')}</h2>
+              <ul className="space-y-4">
+                {review.map(entry => (
+                  <li key={entry.row.line} className="bg-gray-800 rounded-lg p-4">
+                    <p className="mb-3 text-gray-200">
+                      <span className="font-semibold">{entry.row.title}</span>
+                      {entry.row.year && ` (${entry.row.year})`}
+                      <span className="text-gray-500 text-sm"> · {t('import.row', { line: entry.row.line })}</span>
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                      {entry.candidates.map(item => (
+                        <button
+                          key={`${item.media_type}-${item.id}`}
+                          type="button"
+                          onClick={() => pickCandidate(entry, item)}
+                          className="flex items-center gap-2 p-2 pr-4 rounded-lg bg-gray-700 hover:bg-blue-600 text-left transition-colors duration-200"
+                        >
+                          <span className="relative w-8 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-600">
+                            <Image src={getImageUrl(item.poster_path)} alt="" fill sizes="32px" className="object-cover" />
+                          </span>
+                          <span className="text-sm">
+                            {getTitle(item) || t('common.untitled')}
+                            {getYear(item) && <span className="text-gray-400"> ({getYear(item)})</span>}
+                          </span>
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => pickCandidate(entry, null)}
+                        className="px-4 py-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+                      >
+                        {t('import.noneOfThese')}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {resolution.unmatched.length > 0 && (
+            <details className="bg-gray-800 rounded-lg p-4 text-gray-300">
+              <summary className="cursor-pointer font-semibold">
+                {t(resolution.unmatched.length === 1 ? 'import.notFoundOne' : 'import.notFoundMany', { count: resolution.unmatched.length })}
+              </summary>
+              <ul className="mt-3 space-y-1 text-sm">
+                {resolution.unmatched.map(row => (
+                  <li key={row.line}>{t('import.rowTitle', { line: row.line, title: row.title })}{row.year && ` (${row.year})`}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <h2 className="text-2xl font-bold text-blue-300">{t('import.matchedTitles')}</h2>
+              <div className="flex flex-wrap items-center gap-4 text-gray-300">
+                <label className="flex items-center gap-2">
+                  <span>{t('grid.sortBy')}</span>
+                  <select className={selectClassName} value={sort} onChange={(e) => setSort(e.target.value as SortKey)}>
+                    {(Object.keys(SORT_OPTIONS) as SortKey[]).map(key => (
+                      <option key={key} value={key}>{t(SORT_OPTIONS[key].label)}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={isBusy || matches.length === 0}
+                  className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors duration-200 disabled:opacity-50"
+                >
+                  {isBusy ? t('import.saving') : t('import.save', { count: matches.length })}
+                </button>
+              </div>
+            </div>
+
+            {sortedMatches.length > 0 ? (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+                {sortedMatches.map(match => (
+                  <div key={`${match.row.line}-${match.item.media_type}-${match.item.id}`}>
+                    <MediaCard item={match.item} />
+                    <div className="mt-2 flex items-start justify-between gap-2 text-sm text-gray-400">
+                      <p>
+                        {match.row.rating && (
+                          <span className="inline-flex items-center text-yellow-400 mr-2">
+                            <FaStar className="mr-1" />{match.row.rating}/10
+                          </span>
+                        )}
+                        {match.row.watchedAt && formatDate(match.row.watchedAt, 'short', language)}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => removeMatch(match)}
+                        className="p-1 hover:text-red-400"
+                        aria-label={t('import.skipTitle', { title: getTitle(match.item) || t('common.untitled') })}
+                        title={t('import.skip')}
+                      >
+                        <FaTimes />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-gray-400">{t('import.noMatches')}</p>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,12 @@ import { useState, useEffect, useRef, useCallback } from 'react'; // React hooks
 import Link from 'next/link'; // Next.js component for client-side navigation
 import { useRouter, usePathname } from 'next/navigation'; // Next.js hooks for routing information
 import { FaBars, FaTimes, FaSearch, FaFilm, FaTv, FaArrowRight } from 'react-icons/fa'; // React Icons for UI elements
+import SearchTypeahead from './SearchTypeahead'; // Search input with typeahead suggestions
+import { addRecentSearch } from '@/lib/recent-searches'; // Local history of submitted searches
+import AccountMenu from '@/components/account/AccountMenu'; // Sign-in link or the signed-in user's menu
+import LanguageSwitcher from './LanguageSwitcher'; // UI language select
+import NavMenu from './NavMenu'; // Movies and TV Shows menus of browse list pages
+import { useLocale } from './LocaleProvider'; // Active locale, translations and locale-prefixed links
 
 /**
  * Header component provides navigation, search functionality,
@@ -23,6 +29,8 @@ export default function Header() {
   const router = useRouter();
   // Next.js pathname hook to get the current route path
   const pathname = usePathname();
+  // Translated labels and locale-prefixed links (e.g. /fr/discover)
+  const { t, localize } = useLocale();
 
   // State for controlling the header's visibility based on scroll
   const [isVisible, setIsVisible] = useState(true); // Header is visible by default
@@ -79,15 +87,21 @@ export default function Header() {
     });
   }, [isMobileMenuOpen]); // Dependency: re-create this function if isMobileMenuOpen changes
 
+  // useCallback memoizes the closeSearchInput function, used after a search is submitted or a suggestion is picked.
+  const closeSearchInput = useCallback(() => {
+    setIsSearchInputVisible(false); // Hide the search input
+    setSearchTerm(''); // Clear the search term
+  }, []);
+
   // useCallback memoizes the handleSearchSubmit function.
   const handleSearchSubmit = useCallback((e) => {
     e.preventDefault(); // Prevent the default form submission (page reload)
     // Navigate to the search results page. The query parameter is URL-encoded.
     // The search page (app/search/page.tsx) handles displaying results or a "no query" message.
-    router.push(`/search?query=${encodeURIComponent(searchTerm.trim())}`);
-    setIsSearchInputVisible(false); // Hide the search input after submission
-    setSearchTerm(''); // Clear the search term
-  }, [searchTerm, router]); // Dependencies: re-create if searchTerm or router instance changes
+    router.push(localize(`/search?query=${encodeURIComponent(searchTerm.trim())}`));
+    addRecentSearch(searchTerm); // Remember the term for the typeahead's recent searches
+    closeSearchInput();
+  }, [searchTerm, router, closeSearchInput, localize]); // Dependencies: re-create if searchTerm, router, closeSearchInput or the locale change
 
   // useEffect hook to implement the scroll-based header visibility logic
   useEffect(() => {
@@ -129,7 +143,7 @@ export default function Header() {
     >
       <div className="container mx-auto flex justify-between items-center p-4"> {/* Main header content container with consistent padding */}
         {/* Logo/App Title - Links to the homepage */}
-        <Link href="/" className="flex items-center space-x-2 text-3xl font-extrabold tracking-tight group">
+        <Link href={localize('/')} className="flex items-center space-x-2 text-3xl font-extrabold tracking-tight group">
           {/* Film icon with hover animation */}
           <FaFilm className="text-blue-400 group-hover:scale-110 transition-transform duration-300" />
           {/* App title with gradient text and hover color transition */}
@@ -140,24 +154,32 @@ export default function Header() {
 
         {/* Desktop Navigation Links and Search Icon */}
         <nav className="hidden md:flex items-center space-x-6">
-          <Link href="/" className="text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer">
-            Home
+          <Link href={localize('/')} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer">
+            {t('nav.home')}
           </Link>
-          <Link href="/movie/popular" className="text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer">
-            Movies
+          <NavMenu mediaType="movie" label="nav.movies" menuLabel="nav.moviesMenu" />
+          <NavMenu mediaType="tv" label="nav.tvShows" menuLabel="nav.tvMenu" />
+          <Link href={localize('/discover')} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer">
+            {t('nav.discover')}
           </Link>
-          <Link href="/tv/popular" className="text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer">
-            TV Shows
+          <Link href={localize('/watchlist')} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer">
+            {t('nav.watchlist')}
           </Link>
 
           {/* Search Icon Button (Desktop) - Toggles search input visibility */}
           <button
             onClick={toggleSearchInput}
             className="p-2 rounded-full bg-gray-800 hover:bg-blue-600 hover:scale-110 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-blue-400 cursor-pointer"
-            aria-label="Toggle search input"
+            aria-label={t('nav.toggleSearch')}
           >
             <FaSearch className="text-xl" />
           </button>
+
+          {/* UI language (Desktop) */}
+          <LanguageSwitcher />
+
+          {/* Account menu (Desktop) - Sign-in link, or the signed-in user's dropdown */}
+          <AccountMenu />
         </nav>
 
         {/* Mobile-specific controls: Search Icon and Mobile Menu Button (Hamburger) */}
@@ -166,7 +188,7 @@ export default function Header() {
           <button
             onClick={toggleSearchInput}
             className="p-2 rounded-full bg-gray-800 hover:bg-blue-600 hover:scale-110 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-blue-400"
-            aria-label="Toggle search input"
+            aria-label={t('nav.toggleSearch')}
           >
             <FaSearch className="text-xl" />
           </button>
@@ -174,7 +196,7 @@ export default function Header() {
           <button
             onClick={toggleMobileMenu}
             className="p-2 rounded-full hover:bg-gray-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-400"
-            aria-label="Toggle mobile menu"
+            aria-label={t('nav.toggleMenu')}
           >
             {isMobileMenuOpen ? <FaTimes className="text-xl" /> : <FaBars className="text-xl" />}
           </button>
@@ -183,21 +205,18 @@ export default function Header() {
 
       {/* Search Input Section - Slides down from the header */}
       <div
-        className={`absolute left-0 w-full bg-gray-700 shadow-lg overflow-hidden transition-all duration-300 ease-in-out
-                    ${isSearchInputVisible ? 'max-h-20 opacity-100 py-4' : 'max-h-0 opacity-0 py-0'}
+        className={`absolute left-0 w-full bg-gray-700 shadow-lg transition-all duration-300 ease-in-out
+                    ${isSearchInputVisible ? 'max-h-20 opacity-100 py-4 overflow-visible' : 'max-h-0 opacity-0 py-0 overflow-hidden'}
                     ${isVisible ? 'top-[calc(100%+0px)]' : 'top-0'}`}
       >
         <form onSubmit={handleSearchSubmit} className="container mx-auto px-4 flex items-center space-x-2">
           <div className="relative flex-grow">
-            <input
-              id="header-search-input"
-              ref={searchInputRef} // Attach ref for focusing
-              type="text"
-              placeholder="Search movies or TV shows..."
+            {/* Search input with the suggestion and recent-search dropdown */}
+            <SearchTypeahead
+              inputRef={searchInputRef} // Attach ref for focusing
               value={searchTerm}
-              required // HTML5 validation: input is required
-              onChange={(e) => setSearchTerm(e.target.value)} // Update search term state on input change
-              className="w-full p-3 pl-10 rounded-lg bg-gray-800 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400 transition-all duration-200"
+              onChange={setSearchTerm} // Update search term state on input change
+              onNavigate={closeSearchInput} // Close the search bar once a suggestion is picked
             />
             <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
           </div>
@@ -205,9 +224,9 @@ export default function Header() {
           <button
             type="submit"
             className="px-5 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-blue-400"
-            aria-label="Go to search results"
+            aria-label={t('nav.goToResults')}
           >
-            <span>Go</span>
+            <span>{t('nav.go')}</span>
             <FaArrowRight />
           </button>
         </form>
@@ -216,19 +235,25 @@ export default function Header() {
       {/* Mobile Navigation Menu - Slides down from the header */}
       <nav
         className={`md:hidden bg-gray-700 shadow-lg overflow-hidden transition-all duration-300 ease-in-out
-                    ${isMobileMenuOpen ? 'max-h-60 opacity-100 py-4' : 'max-h-0 opacity-0 py-0'}
+                    ${isMobileMenuOpen ? 'max-h-[56rem] opacity-100 py-4' : 'max-h-0 opacity-0 py-0'}
                     ${isVisible ? 'top-[calc(100%+0px)]' : 'top-0'}`}
       >
         <div className="flex flex-col items-center space-y-4">
-          <Link href="/" className="text-lg font-medium hover:text-blue-400 transition-colors duration-200" onClick={toggleMobileMenu}>
-            Home
+          <Link href={localize('/')} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200" onClick={toggleMobileMenu}>
+            {t('nav.home')}
           </Link>
-          <Link href="/movie/popular" className="text-lg font-medium hover:text-blue-400 transition-colors duration-200" onClick={toggleMobileMenu}>
-            Movies
+          {/* Browse lists (Mobile), grouped per media type */}
+          <NavMenu mediaType="movie" label="nav.movies" menuLabel="nav.moviesMenu" variant="mobile" />
+          <NavMenu mediaType="tv" label="nav.tvShows" menuLabel="nav.tvMenu" variant="mobile" />
+          <Link href={localize('/discover')} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200" onClick={toggleMobileMenu}>
+            {t('nav.discover')}
           </Link>
-          <Link href="/tv/popular" className="text-lg font-medium hover:text-blue-400 transition-colors duration-200" onClick={toggleMobileMenu}>
-            TV Shows
+          <Link href={localize('/watchlist')} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200" onClick={toggleMobileMenu}>
+            {t('nav.watchlist')}
           </Link>
+          {/* Account links (Mobile) */}
+          <AccountMenu variant="mobile" />
+          <LanguageSwitcher />
         </div>
       </nav>
     </header>
@@ -0,0 +1,33 @@
+// components/layout/LanguageSwitcher.tsx
+'use client';
+
+import { usePathname } from 'next/navigation';
+import { LOCALES, Locale, localizePath, splitLocalePath } from '@/lib/i18n';
+import { useLocale } from './LocaleProvider';
+
+/**
+ * Select for the UI language. Switching loads the same page under the other locale's prefix.
+ */
+export default function LanguageSwitcher() {
+  const { locale, t } = useLocale();
+  const pathname = usePathname();
+
+  const switchLocale = (next: Locale) => {
+    const { pathname: unprefixed } = splitLocalePath(pathname);
+    // A full navigation, since the root layout (which provides the locale) doesn't re-render on client-side navigation.
+    window.location.assign(localizePath(unprefixed, next) + window.location.search);
+  };
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => switchLocale(e.target.value as Locale)}
+      aria-label={t('nav.language')}
+      className="p-2 rounded-lg bg-gray-800 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 cursor-pointer"
+    >
+      {LOCALES.map(({ code, name }) => (
+        <option key={code} value={code}>{name}</option>
+      ))}
+    </select>
+  );
+}
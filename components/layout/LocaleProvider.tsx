@@ -0,0 +1,39 @@
+// components/layout/LocaleProvider.tsx
+'use client';
+
+import { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_LOCALE, LOCALE_HEADER, Locale, Translate, createTranslator, getLocaleLanguage, localizePath } from '@/lib/i18n';
+
+interface LocaleContextValue {
+  locale: Locale;
+  language: string; // Language tag for formatDate and friends, e.g. "fr-FR"
+  t: Translate;
+  localize: (path: string) => string;
+  localeHeaders: Record<string, string>; // Headers for fetch() calls to /api routes, which have no locale prefix
+}
+
+const createLocaleValue = (locale: Locale): LocaleContextValue => ({
+  locale,
+  language: getLocaleLanguage(locale),
+  t: createTranslator(locale),
+  localize: (path: string) => localizePath(path, locale),
+  localeHeaders: { [LOCALE_HEADER]: locale },
+});
+
+const LocaleContext = createContext<LocaleContextValue>(createLocaleValue(DEFAULT_LOCALE));
+
+/**
+ * LocaleProvider makes the page's locale (resolved from the URL prefix by the middleware and passed down by
+ * the root layout) available to client components.
+ */
+export default function LocaleProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const value = useMemo(() => createLocaleValue(locale), [locale]);
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+/**
+ * Returns the active locale with its message lookup and a helper adding the locale prefix to links.
+ */
+export function useLocale(): LocaleContextValue {
+  return useContext(LocaleContext);
+}
@@ -0,0 +1,74 @@
+// components/layout/NavMenu.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { FaChevronDown } from 'react-icons/fa';
+import { getMediaListPages } from '@/lib/media-list-pages';
+import { MessageKey } from '@/lib/messages/en';
+import { useLocale } from './LocaleProvider';
+
+interface NavMenuProps {
+  mediaType: 'movie' | 'tv'; // Lists the browse pages of this media type (see MEDIA_LIST_PAGES)
+  label: MessageKey; // The menu's name in the header, e.g. "Movies"
+  menuLabel: MessageKey; // Accessible name of the dropdown
+  variant?: 'desktop' | 'mobile';
+}
+
+/**
+ * NavMenu groups the browse list pages of one media type (popular, top rated, ...) in the header.
+ * @param variant "desktop" renders a dropdown; "mobile" renders a heading with the links below it.
+ */
+export default function NavMenu({ mediaType, label, menuLabel, variant = 'desktop' }: NavMenuProps) {
+  const { t, localize } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const pages = getMediaListPages(mediaType);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  if (variant === 'mobile') {
+    return (
+      <div className="flex flex-col items-center space-y-2">
+        <p className="text-sm uppercase tracking-wide text-gray-400">{t(label)}</p>
+        {pages.map(page => (
+          <Link key={page.path} href={localize(page.path)} className="text-lg font-medium hover:text-blue-400 transition-colors duration-200">
+            {t(page.menuLabel)}
+          </Link>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        className="flex items-center gap-1 text-lg font-medium hover:text-blue-400 transition-colors duration-200 font-semibold cursor-pointer"
+      >
+        {t(label)}
+        <FaChevronDown aria-hidden="true" className={`text-xs transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div role="menu" aria-label={t(menuLabel)} className="absolute left-0 mt-2 w-48 bg-gray-800 rounded-lg shadow-2xl overflow-hidden">
+          {pages.map(page => (
+            <Link key={page.path} href={localize(page.path)} role="menuitem" onClick={() => setIsOpen(false)} className="block px-4 py-2 hover:bg-gray-700">
+              {t(page.menuLabel)}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
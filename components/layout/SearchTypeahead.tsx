@@ -0,0 +1,257 @@
+// components/layout/SearchTypeahead.tsx
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { FaHistory, FaSearch, FaTimes } from 'react-icons/fa';
+import { SearchSuggestion } from '@/lib/types/tmdb';
+import { MessageKey } from '@/lib/messages/en';
+import { addRecentSearch, getRecentSearches, removeRecentSearch } from '@/lib/recent-searches';
+import { useLocale } from './LocaleProvider';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string | null | undefined, size: string = 'w92') => {
+  if (!path) {
+    return `https://placehold.co/png/92x138/1f2937/FFFFFF?text=?`;
+  }
+  return `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+};
+
+// Wait for a pause in typing before asking the server, and skip queries too short to be useful.
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+const MEDIA_TYPE_LABELS: Record<SearchSuggestion['mediaType'], MessageKey> = { movie: 'common.movie', tv: 'common.tvShow', person: 'common.person' };
+
+// A row in the dropdown: a suggested title/person, a recent search, or the "see all results" link.
+type Option =
+  | { kind: 'suggestion'; key: string; href: string; suggestion: SearchSuggestion }
+  | { kind: 'recent'; key: string; href: string; term: string }
+  | { kind: 'all'; key: string; href: string; term: string };
+
+const getSearchHref = (term: string) => `/search?query=${encodeURIComponent(term)}`;
+
+interface SearchTypeaheadProps {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  // Called after the user picks an option, so the header can close the search bar
+  onNavigate: () => void;
+}
+
+/**
+ * SearchTypeahead is the header's search input with a suggestion dropdown.
+ * While typing it shows the top matches from /api/search-suggestions; with an empty input it shows recent searches.
+ * Arrow keys move through the options, Enter opens the highlighted one (or submits the form), and Escape closes the list.
+ */
+export default function SearchTypeahead({ value, onChange, inputRef, onNavigate }: SearchTypeaheadProps) {
+  const router = useRouter();
+  const listboxId = useId();
+  const { t, localize, localeHeaders } = useLocale();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  const query = value.trim();
+  const isQueryMode = query.length >= MIN_QUERY_LENGTH;
+
+  // Fetch suggestions after the user stops typing. Each new query aborts the previous request,
+  // so a slow response for "du" can never overwrite the results for "dune".
+  useEffect(() => {
+    setActiveIndex(-1);
+    if (!isQueryMode) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search-suggestions?query=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+          headers: localeHeaders, // Suggestions come back in the page's language
+        });
+        if (!response.ok) throw new Error(`Suggestions request failed with status ${response.status}`);
+        const data: { results: SearchSuggestion[] } = await response.json();
+        setSuggestions(data.results);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to fetch search suggestions:", error);
+        setSuggestions([]);
+      }
+      setIsLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, isQueryMode, localeHeaders]);
+
+  const options: Option[] = isQueryMode
+    ? [
+        ...suggestions.map(suggestion => ({
+          kind: 'suggestion' as const,
+          key: `${suggestion.mediaType}-${suggestion.id}`,
+          href: suggestion.href,
+          suggestion,
+        })),
+        { kind: 'all' as const, key: 'all', href: getSearchHref(query), term: query },
+      ]
+    : recentSearches.map(term => ({ kind: 'recent' as const, key: `recent-${term}`, href: getSearchHref(term), term }));
+
+  const showDropdown = isOpen && options.length > 0;
+
+  const open = () => {
+    setRecentSearches(getRecentSearches());
+    setIsOpen(true);
+  };
+
+  const selectOption = (option: Option) => {
+    // Picking a title counts as searching for what was typed; picking a recent search bumps it to the top.
+    addRecentSearch(option.kind === 'suggestion' ? query : option.term);
+    setIsOpen(false);
+    router.push(localize(option.href));
+    onNavigate();
+  };
+
+  const forgetRecentSearch = (term: string) => {
+    removeRecentSearch(term);
+    setRecentSearches(getRecentSearches());
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault(); // Keep the caret where it is
+      if (!isOpen) {
+        open();
+        return;
+      }
+      if (options.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // -1 means "nothing highlighted", i.e. Enter submits the typed text
+      setActiveIndex(prev => ((prev + step + 1 + options.length + 1) % (options.length + 1)) - 1);
+    } else if (e.key === 'Enter' && showDropdown && activeIndex >= 0 && options[activeIndex]) {
+      e.preventDefault(); // Open the highlighted option instead of submitting the form
+      selectOption(options[activeIndex]);
+    } else if (e.key === 'Escape' && isOpen) {
+      e.preventDefault();
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <>
+      <input
+        id="header-search-input"
+        ref={inputRef} // Attach ref for focusing
+        type="text"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={showDropdown && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+        autoComplete="off"
+        placeholder={t('typeahead.placeholder')}
+        value={value}
+        required // HTML5 validation: input is required
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={open}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="w-full p-3 pl-10 rounded-lg bg-gray-800 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400 transition-all duration-200"
+      />
+
+      {showDropdown && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={isQueryMode ? t('typeahead.suggestions') : t('typeahead.recent')}
+          // Keep focus in the input while clicking, so blur doesn't close the list before the click lands
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute left-0 right-0 top-full mt-2 bg-gray-800 rounded-lg shadow-2xl overflow-hidden z-50 max-h-[70vh] overflow-y-auto"
+        >
+          {!isQueryMode && (
+            <li className="px-4 pt-3 pb-1 text-xs uppercase tracking-wide text-gray-500" role="presentation">
+              {t('typeahead.recent')}
+            </li>
+          )}
+          {options.map((option, index) => (
+            <li
+              key={option.key}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onClick={() => selectOption(option)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center gap-3 px-4 py-2 cursor-pointer transition-colors duration-150 ${
+                index === activeIndex ? 'bg-blue-600 text-white' : 'text-gray-200'
+              }`}
+            >
+              {option.kind === 'suggestion' && (
+                <>
+                  <div className="relative w-8 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-700">
+                    <Image
+                      src={getImageUrl(option.suggestion.imagePath)}
+                      alt=""
+                      fill
+                      sizes="32px"
+                      className="object-cover"
+                    />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{option.suggestion.title}</p>
+                    <p className="text-sm opacity-70 truncate">
+                      {t(MEDIA_TYPE_LABELS[option.suggestion.mediaType])}
+                      {option.suggestion.year && ` · ${option.suggestion.year}`}
+                      {option.suggestion.department && ` · ${option.suggestion.department}`}
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {option.kind === 'all' && (
+                <>
+                  <FaSearch className="flex-shrink-0 opacity-70" />
+                  <span className="truncate">
+                    {t(isLoading && suggestions.length === 0 ? 'typeahead.searchingFor' : 'typeahead.seeAll', { term: option.term })}
+                  </span>
+                </>
+              )}
+
+              {option.kind === 'recent' && (
+                <>
+                  <FaHistory className="flex-shrink-0 opacity-70" />
+                  <span className="flex-grow truncate">{option.term}</span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation(); // Don't also run the search
+                      forgetRecentSearch(option.term);
+                    }}
+                    className="p-1 rounded-full opacity-70 hover:opacity-100 hover:bg-gray-700"
+                    aria-label={t('typeahead.removeRecent', { term: option.term })}
+                  >
+                    <FaTimes className="text-xs" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,158 @@
+// components/lists/AddToListMenu.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { FaCheck, FaListUl, FaPlus } from 'react-icons/fa';
+import { MessageKey } from '@/lib/messages/en';
+import { CustomList } from '@/lib/types/lists';
+import { MAX_LIST_NAME_LENGTH } from '@/lib/lists';
+import { createList, fetchLists, removeListItem, saveListItem } from '@/lib/lists-client';
+
+interface AddToListMenuProps {
+  mediaType: 'movie' | 'tv';
+  id: number;
+}
+
+/**
+ * AddToListMenu is the detail page's "Add to list" button. Its dropdown loads the signed-in user's lists,
+ * toggles this title on each of them, and can create a new list with the title already on it.
+ */
+export default function AddToListMenu({ mediaType, id }: AddToListMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { t, localize } = useLocale();
+  const [lists, setLists] = useState<CustomList[] | null>(null); // null until loaded
+  const [pendingListId, setPendingListId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // Reload the lists every time the menu opens, so lists edited in another tab show up.
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setError(null);
+    fetchLists()
+      .then(loaded => !cancelled && setLists(loaded))
+      .catch((err: Error) => {
+        console.error("Failed to load lists:", err);
+        if (!cancelled) setError('lists.loadFailed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const replaceList = (updated: CustomList) =>
+    setLists(prev => (prev ?? []).map(list => (list.id === updated.id ? updated : list)));
+
+  const run = async (listId: string, action: () => Promise<void>) => {
+    setPendingListId(listId);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error("Failed to update the list:", err);
+      setError('lists.updateFailed');
+    } finally {
+      setPendingListId(null);
+    }
+  };
+
+  const toggle = (list: CustomList, contains: boolean) =>
+    run(list.id, async () => {
+      replaceList(contains ? await removeListItem(list.id, mediaType, id) : await saveListItem(list.id, mediaType, id));
+    });
+
+  const createWithTitle = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newListName.trim();
+    if (!name) return;
+    run('new', async () => {
+      const created = await saveListItem((await createList(name)).id, mediaType, id);
+      setLists(prev => [created, ...(prev ?? [])]);
+      setNewListName('');
+    });
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="px-4 py-2 rounded-lg font-semibold flex items-center bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors duration-200"
+      >
+        <FaListUl className="mr-2" />{t('lists.addToList')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-gray-800 rounded-lg shadow-2xl z-40 overflow-hidden">
+          {lists === null && !error && <p className="px-4 py-3 text-gray-400">{t('lists.loading')}</p>}
+          {lists?.length === 0 && <p className="px-4 py-3 text-gray-400">{t('lists.none')}</p>}
+          {lists && lists.length > 0 && (
+            <ul className="max-h-64 overflow-y-auto">
+              {lists.map(list => {
+                const contains = list.items.some(item => item.mediaType === mediaType && item.id === id);
+                return (
+                  <li key={list.id}>
+                    <button
+                      type="button"
+                      disabled={pendingListId !== null}
+                      onClick={() => toggle(list, contains)}
+                      aria-pressed={contains}
+                      className="w-full flex items-center gap-3 px-4 py-2 text-left text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      <span className={`w-4 flex-shrink-0 ${contains ? 'text-green-400' : 'text-transparent'}`}>
+                        <FaCheck />
+                      </span>
+                      <span className="flex-grow truncate">{list.name}</span>
+                      <span className="text-sm text-gray-500">{list.items.length}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <form onSubmit={createWithTitle} className="flex gap-2 p-3 border-t border-gray-700">
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              maxLength={MAX_LIST_NAME_LENGTH}
+              placeholder={t('lists.newListName')}
+              aria-label={t('lists.newListName')}
+              className="flex-grow min-w-0 p-2 rounded-lg bg-gray-900 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+            <button
+              type="submit"
+              disabled={pendingListId !== null || !newListName.trim()}
+              className="p-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              aria-label={t('lists.createWithTitle')}
+            >
+              <FaPlus />
+            </button>
+          </form>
+
+          {error && <p className="px-4 pb-3 text-sm text-red-500">{t(error)}</p>}
+          <Link href={localize('/lists')} className="block px-4 py-2 text-sm text-blue-400 hover:bg-gray-700 border-t border-gray-700">
+            {t('lists.manage')}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+// components/lists/ListEditor.tsx
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { useRouter } from 'next/navigation';
+import { FaArrowDown, FaArrowUp, FaDownload, FaGripVertical, FaLink, FaTrash } from 'react-icons/fa';
+import { CustomList, ListItem } from '@/lib/types/lists';
+import { MAX_LIST_DESCRIPTION_LENGTH, MAX_LIST_NAME_LENGTH, MAX_LIST_NOTE_LENGTH, getListItemKey } from '@/lib/lists';
+import { deleteList, getListExportUrl, removeListItem, saveListItem, updateList } from '@/lib/lists-client';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string | null | undefined, size: string = 'w92') => {
+  if (!path) {
+    return `https://placehold.co/png/92x138/1f2937/FFFFFF?text=?`;
+  }
+  return `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+};
+
+const inputClassName =
+  "w-full p-3 rounded-lg bg-gray-800 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+/**
+ * Returns a copy of the items with one moved from one position to another.
+ */
+function moveItem(items: ListItem[], from: number, to: number): ListItem[] {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+interface ListEditorProps {
+  initialList: CustomList;
+}
+
+/**
+ * ListEditor lets a list's owner rename it, reorder its titles by drag and drop (or the arrow buttons),
+ * write a note per title, remove titles, copy the share link, export it, or delete it.
+ * Every change is saved right away.
+ */
+export default function ListEditor({ initialList }: ListEditorProps) {
+  const router = useRouter();
+  const { t, localize } = useLocale();
+  const [list, setList] = useState(initialList);
+  const [name, setName] = useState(initialList.name);
+  const [description, setDescription] = useState(initialList.description);
+  const [notes, setNotes] = useState<Record<string, string>>(() =>
+    Object.fromEntries(initialList.items.map(item => [getListItemKey(item), item.note]))
+  );
+  const [items, setItems] = useState(initialList.items); // Differs from list.items while dragging
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<{ type: 'info' | 'error'; message: string } | null>(null);
+  const savedItemsRef = useRef(initialList.items); // The order last saved, to revert a failed reorder
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error("Failed to update the list:", err);
+      setStatus({ type: 'error', message: t('lists.updateFailed') });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const applySaved = (saved: CustomList) => {
+    setList(saved);
+    setItems(saved.items);
+    savedItemsRef.current = saved.items;
+  };
+
+  const saveOrder = (ordered: ListItem[]) => {
+    const order = ordered.map(getListItemKey);
+    if (order.join() === savedItemsRef.current.map(getListItemKey).join()) return;
+    setItems(ordered);
+    run(async () => {
+      try {
+        applySaved(await updateList(list.id, { order }));
+      } catch (err) {
+        setItems(savedItemsRef.current);
+        throw err;
+      }
+    });
+  };
+
+  const saveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      applySaved(await updateList(list.id, { name: name.trim(), description: description.trim() }));
+      setStatus({ type: 'info', message: t('lists.detailsSaved') });
+      router.refresh();
+    });
+  };
+
+  const saveNote = (item: ListItem) => {
+    const key = getListItemKey(item);
+    const note = (notes[key] ?? '').trim();
+    if (note === item.note) return;
+    run(async () => {
+      applySaved(await saveListItem(list.id, item.mediaType, item.id, note));
+    });
+  };
+
+  const removeItem = (item: ListItem) =>
+    run(async () => {
+      applySaved(await removeListItem(list.id, item.mediaType, item.id));
+    });
+
+  const handleDelete = () => {
+    if (!window.confirm(t('lists.confirmDelete', { name: list.name }))) return;
+    run(async () => {
+      await deleteList(list.id);
+      router.push(localize('/lists'));
+    });
+  };
+
+  const copyShareLink = async () => {
+    const url = `${window.location.origin}/lists/${list.slug}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ type: 'info', message: t('lists.linkCopied') });
+    } catch {
+      setStatus({ type: 'info', message: t('lists.shareLink', { url }) });
+    }
+  };
+
+  // Drag and drop: the list reorders live while dragging and is saved on drop.
+  const handleDragOver = (e: React.DragEvent, overKey: string) => {
+    if (!draggedKey) return;
+    e.preventDefault();
+    if (overKey === draggedKey) return;
+    const from = items.findIndex(item => getListItemKey(item) === draggedKey);
+    const to = items.findIndex(item => getListItemKey(item) === overKey);
+    setItems(moveItem(items, from, to));
+  };
+
+  const handleDragEnd = () => {
+    setDraggedKey(null);
+    saveOrder(items);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <form onSubmit={saveDetails} className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          maxLength={MAX_LIST_NAME_LENGTH}
+          aria-label={t('lists.name')}
+          className={`${inputClassName} text-2xl font-bold`}
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={MAX_LIST_DESCRIPTION_LENGTH}
+          rows={3}
+          placeholder={t('lists.descriptionPlaceholder')}
+          aria-label={t('lists.description')}
+          className={inputClassName}
+        />
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="submit"
+            disabled={isBusy || !name.trim() || (name.trim() === list.name && description.trim() === list.description)}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 disabled:opacity-50"
+          >
+            {t('lists.saveDetails')}
+          </button>
+          <button type="button" onClick={copyShareLink}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold rounded-lg transition-colors duration-200 flex items-center">
+            <FaLink className="mr-2" />{t('lists.copyLink')}
+          </button>
+          <a href={getListExportUrl(list.id)} download
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold rounded-lg transition-colors duration-200 flex items-center">
+            <FaDownload className="mr-2" />{t('lists.exportJson')}
+          </a>
+          <button type="button" onClick={handleDelete} disabled={isBusy}
+            className="px-4 py-2 bg-gray-700 hover:bg-red-600 text-gray-200 font-semibold rounded-lg transition-colors duration-200 flex items-center disabled:opacity-50">
+            <FaTrash className="mr-2" />{t('lists.delete')}
+          </button>
+        </div>
+        {status && <p className={status.type === 'info' ? 'text-green-400 break-all' : 'text-red-500'}>{status.message}</p>}
+      </form>
+
+      {items.length === 0 ? (
+        <p className="text-center text-xl text-gray-400">
+          {t('lists.emptyEditor')}
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {items.map((item, index) => {
+            const key = getListItemKey(item);
+            const year = item.releaseDate?.slice(0, 4);
+            return (
+              <li
+                key={key}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedKey(key);
+                }}
+                onDragOver={(e) => handleDragOver(e, key)}
+                onDrop={(e) => e.preventDefault()}
+                onDragEnd={handleDragEnd}
+                className={`flex gap-3 bg-gray-800 rounded-lg p-3 transition-opacity ${draggedKey === key ? 'opacity-50' : ''}`}
+              >
+                <span className="self-center text-gray-500 cursor-grab" aria-hidden="true">
+                  <FaGripVertical />
+                </span>
+                <div className="relative w-12 h-18 flex-shrink-0 rounded overflow-hidden bg-gray-700">
+                  <Image src={getImageUrl(item.posterPath)} alt="" fill sizes="48px" className="object-cover" />
+                </div>
+                <div className="flex-grow min-w-0 space-y-2">
+                  <Link href={localize(`/${item.mediaType}/${item.id}`)} className="font-semibold text-white hover:text-blue-400">
+                    {index + 1}. {item.title}{year && <span className="text-gray-400 font-normal"> ({year})</span>}
+                  </Link>
+                  <textarea
+                    value={notes[key] ?? ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+                    onBlur={() => saveNote(item)}
+                    maxLength={MAX_LIST_NOTE_LENGTH}
+                    rows={2}
+                    placeholder={t('lists.notePlaceholder')}
+                    aria-label={t('lists.noteFor', { title: item.title })}
+                    className="w-full p-2 rounded-lg bg-gray-900 text-gray-200 placeholder-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  />
+                </div>
+                <div className="flex flex-col items-center gap-1">
+                  <button type="button" disabled={isBusy || index === 0} onClick={() => saveOrder(moveItem(items, index, index - 1))}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={t('lists.moveUp', { title: item.title })}>
+                    <FaArrowUp />
+                  </button>
+                  <button type="button" disabled={isBusy || index === items.length - 1} onClick={() => saveOrder(moveItem(items, index, index + 1))}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label={t('lists.moveDown', { title: item.title })}>
+                    <FaArrowDown />
+                  </button>
+                  <button type="button" disabled={isBusy} onClick={() => removeItem(item)}
+                    className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30" aria-label={t('lists.removeTitle', { title: item.title })}>
+                    <FaTrash />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+// components/lists/ListsManager.tsx
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { useRouter } from 'next/navigation';
+import { FaEdit, FaEye, FaFileImport, FaPlus } from 'react-icons/fa';
+import { MessageKey } from '@/lib/messages/en';
+import { CustomList } from '@/lib/types/lists';
+import { MAX_LIST_DESCRIPTION_LENGTH, MAX_LIST_NAME_LENGTH } from '@/lib/lists';
+import { createList, importList } from '@/lib/lists-client';
+import { formatDate } from '@/lib/utils';
+
+const inputClassName =
+  "w-full p-3 rounded-lg bg-gray-800 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+interface ListsManagerProps {
+  initialLists: CustomList[];
+}
+
+/**
+ * ListsManager shows the signed-in user's lists with links to view and edit each one,
+ * a form to create a new list, and an importer for list export files.
+ */
+export default function ListsManager({ initialLists }: ListsManagerProps) {
+  const router = useRouter();
+  const { language, t, localize } = useLocale();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [lists, setLists] = useState(initialLists);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<{ type: 'info' | 'error'; message: string } | null>(null);
+
+  const run = async (action: () => Promise<void>, failed: MessageKey) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error("Failed to update lists:", err);
+      setStatus({ type: 'error', message: t(failed) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const list = await createList(name.trim(), description.trim());
+      // Straight to the editor, since a new list is empty
+      router.push(localize(`/lists/${list.slug}/edit`));
+    }, 'lists.createFailed');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    run(async () => {
+      const { list, skipped } = await importList(JSON.parse(await file.text()));
+      setLists(prev => [list, ...prev]);
+      setStatus({
+        type: 'info',
+        message: t(list.items.length === 1 ? 'lists.importedOne' : 'lists.importedMany', { name: list.name, count: list.items.length }) +
+          (skipped ? ` ${t('lists.importSkipped', { count: skipped })}` : ''),
+      });
+    }, 'lists.importFailed');
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-10">
+      <form onSubmit={handleCreate} className="space-y-3 bg-gray-800/50 rounded-lg p-6">
+        <h2 className="text-2xl font-bold text-gray-200">{t('lists.create')}</h2>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          maxLength={MAX_LIST_NAME_LENGTH}
+          placeholder={t('lists.namePlaceholder')}
+          aria-label={t('lists.name')}
+          className={inputClassName}
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={MAX_LIST_DESCRIPTION_LENGTH}
+          rows={2}
+          placeholder={t('lists.descriptionPlaceholder')}
+          aria-label={t('lists.description')}
+          className={inputClassName}
+        />
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="submit"
+            disabled={isBusy || !name.trim()}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 flex items-center disabled:opacity-50"
+          >
+            <FaPlus className="mr-2" />{t('lists.createButton')}
+          </button>
+          <button
+            type="button"
+            disabled={isBusy}
+            onClick={() => fileInputRef.current?.click()}
+            className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold rounded-lg transition-colors duration-200 flex items-center disabled:opacity-50"
+          >
+            <FaFileImport className="mr-2" />{t('lists.importFile')}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+        {status && <p className={status.type === 'info' ? 'text-green-400' : 'text-red-500'}>{status.message}</p>}
+      </form>
+
+      <section>
+        <h2 className="text-2xl font-bold text-gray-200 mb-4">{t('lists.yourLists')}</h2>
+        {lists.length === 0 ? (
+          <p className="text-gray-400">
+            {t('lists.noListsYet')}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {lists.map(list => (
+              <li key={list.id} className="flex items-center gap-4 bg-gray-800 rounded-lg px-4 py-3">
+                <div className="flex-grow min-w-0">
+                  <Link href={localize(`/lists/${list.slug}`)} className="text-lg font-semibold text-white hover:text-blue-400 truncate block">
+                    {list.name}
+                  </Link>
+                  <p className="text-sm text-gray-400">
+                    {t(list.items.length === 1 ? 'lists.titleCountOne' : 'lists.titleCountMany', { count: list.items.length })} · {t('lists.updated', { date: formatDate(list.updatedAt.slice(0, 10), 'short', language) ?? '' })}
+                  </p>
+                </div>
+                <Link href={localize(`/lists/${list.slug}`)} className="p-2 text-gray-400 hover:text-white" aria-label={t('lists.viewName', { name: list.name })} title={t('lists.view')}>
+                  <FaEye />
+                </Link>
+                <Link href={localize(`/lists/${list.slug}/edit`)} className="p-2 text-gray-400 hover:text-white" aria-label={t('lists.editName', { name: list.name })} title={t('lists.edit')}>
+                  <FaEdit />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
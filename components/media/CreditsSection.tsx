@@ -0,0 +1,107 @@
+// components/media/CreditsSection.tsx
+// Server-renderable sections for the detail page: key crew (directors, writers, creators) and top-billed cast.
+
+import Link from 'next/link';
+import PersonCard from '@/components/common/PersonCard';
+import { TmdbCredits, TmdbCrewMember } from '@/lib/types/tmdb';
+import { DEFAULT_LOCALE, Locale, createTranslator, localizePath } from '@/lib/i18n';
+import { MessageKey } from '@/lib/messages/en';
+
+// How many cast members to show before cutting off
+const TOP_CAST_COUNT = 12;
+
+// Writing jobs worth surfacing; TMDB also lists e.g. "Novel" and "Characters" under Writing
+const WRITER_JOBS = ['Screenplay', 'Writer', 'Story', 'Teleplay', 'Author', 'Novel'];
+
+interface KeyPerson {
+  id: number;
+  name: string;
+}
+
+/**
+ * Removes duplicate people (someone credited for both "Screenplay" and "Story" appears once).
+ */
+function uniquePeople(people: KeyPerson[]): KeyPerson[] {
+  const seen = new Set<number>();
+  return people.filter(person => {
+    if (seen.has(person.id)) return false;
+    seen.add(person.id);
+    return true;
+  });
+}
+
+/**
+ * Picks the crew worth listing under the overview.
+ * @param crew The full crew list from TMDB.
+ * @param creators For TV shows, the `created_by` list from the show details.
+ * @returns Groups of people with their message keys, skipping empty ones.
+ */
+export function getKeyCrew(crew: TmdbCrewMember[], creators: KeyPerson[] = []) {
+  const directors = uniquePeople(crew.filter(member => member.job === 'Director'));
+  const writers = uniquePeople(crew.filter(member => WRITER_JOBS.includes(member.job)));
+  const groups: { label: MessageKey; people: KeyPerson[] }[] = [
+    { label: creators.length > 1 ? 'credits.creators' : 'credits.creator', people: uniquePeople(creators) },
+    { label: directors.length > 1 ? 'credits.directors' : 'credits.director', people: directors },
+    { label: writers.length > 1 ? 'credits.writers' : 'credits.writer', people: writers },
+  ];
+  return groups.filter(group => group.people.length > 0);
+}
+
+interface KeyCrewProps {
+  crew: TmdbCrewMember[];
+  creators?: KeyPerson[];
+  locale?: Locale; // For the labels and the person page links
+}
+
+/**
+ * Lists directors, writers and (for TV) creators, each linking to their person page.
+ */
+export function KeyCrew({ crew, creators, locale = DEFAULT_LOCALE }: KeyCrewProps) {
+  const groups = getKeyCrew(crew, creators);
+  if (groups.length === 0) return null;
+  const t = createTranslator(locale);
+
+  return (
+    <dl className="mb-8 grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3">
+      {groups.map(group => (
+        <div key={group.label}>
+          <dt className="text-sm uppercase tracking-wide text-gray-400">{t(group.label)}</dt>
+          <dd className="text-lg text-gray-200">
+            {group.people.map((person, index) => (
+              <span key={person.id}>
+                {index > 0 && ', '}
+                <Link href={localizePath(`/person/${person.id}`, locale)} className="hover:text-blue-400 transition-colors duration-200">
+                  {person.name}
+                </Link>
+              </span>
+            ))}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface CastSectionProps {
+  credits: TmdbCredits;
+  locale?: Locale;
+}
+
+/**
+ * Grid of the top-billed cast with the characters they play.
+ */
+export function CastSection({ credits, locale = DEFAULT_LOCALE }: CastSectionProps) {
+  const topCast = [...credits.cast].sort((a, b) => a.order - b.order).slice(0, TOP_CAST_COUNT);
+  if (topCast.length === 0) return null;
+
+  return (
+    <section className="mb-12">
+      <h2 className="text-3xl font-bold mb-6 text-gray-200">{createTranslator(locale)('credits.topCast')}</h2>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        {topCast.map(member => (
+          <PersonCard key={member.credit_id} person={member} subtitle={member.character} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+// components/media/EpisodeBanner.tsx
+// Highlights a TV show's next episode (or, for shows between seasons or ended, its latest one).
+
+import Link from 'next/link';
+import { FaCalendarAlt, FaBroadcastTower } from 'react-icons/fa';
+import { TmdbEpisode } from '@/lib/types/tmdb';
+import { formatDate, formatEpisodeCode } from '@/lib/utils';
+import { DEFAULT_LOCALE, Locale, createTranslator, getLocaleLanguage, localizePath } from '@/lib/i18n';
+
+interface EpisodeBannerProps {
+  showId: number;
+  nextEpisode: TmdbEpisode | null;
+  lastEpisode: TmdbEpisode | null;
+  locale?: Locale; // For the labels, the link prefix and the air date format
+}
+
+export default function EpisodeBanner({ showId, nextEpisode, lastEpisode, locale = DEFAULT_LOCALE }: EpisodeBannerProps) {
+  const episode = nextEpisode || lastEpisode;
+  if (!episode) return null;
+
+  const t = createTranslator(locale);
+  const isUpcoming = !!nextEpisode;
+  const airDate = formatDate(episode.air_date, 'long', getLocaleLanguage(locale));
+
+  return (
+    <Link
+      href={localizePath(`/tv/${showId}/season/${episode.season_number}/episode/${episode.episode_number}`, locale)}
+      className={`block mb-8 p-4 rounded-lg shadow-lg border transition-colors duration-200
+                  ${isUpcoming
+                    ? 'bg-blue-900/60 border-blue-500 hover:bg-blue-800/60'
+                    : 'bg-gray-800/80 border-gray-700 hover:bg-gray-700/80'}`}
+    >
+      <p className="text-sm uppercase tracking-wide font-semibold mb-1 flex items-center">
+        <FaBroadcastTower className={`mr-2 ${isUpcoming ? 'text-blue-300' : 'text-gray-400'}`} />
+        {t(isUpcoming ? 'episode.upcoming' : 'episode.latest')}
+      </p>
+      <p className="text-lg text-white">
+        <span className="font-mono text-gray-300 mr-2">{formatEpisodeCode(episode.season_number, episode.episode_number)}</span>
+        {episode.name}
+      </p>
+      {airDate && (
+        <p className="text-sm text-gray-300 flex items-center mt-1">
+          <FaCalendarAlt className="mr-2" />
+          {t(isUpcoming ? 'episode.airs' : 'episode.aired', { date: airDate })}
+        </p>
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,153 @@
+// components/media/ImageGallery.tsx
+'use client';
+
+import { useCallback, useState } from 'react';
+import Image from 'next/image';
+import { TmdbImages } from '@/lib/types/tmdb';
+import {
+  IMAGE_ASPECTS,
+  IMAGE_KINDS,
+  ImageAspect,
+  ImageKind,
+  THUMBNAIL_SIZES,
+  getImageAspect,
+  getImageKindName,
+  toGalleryImages,
+} from '@/lib/images';
+import { getDisplayName } from '@/lib/i18n';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import ImageLightbox from './ImageLightbox';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string, size: string) => `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+
+const ALL = 'all';
+// Select value for images without a language (TMDB sends null for textless art)
+const NO_TEXT = 'none';
+
+interface ImageGalleryProps {
+  title: string;
+  images: TmdbImages;
+}
+
+/**
+ * ImageGallery shows every poster, backdrop and logo TMDB has for a title, filterable by kind, language
+ * and aspect. Clicking a thumbnail opens it in the lightbox.
+ */
+export default function ImageGallery({ title, images }: ImageGalleryProps) {
+  const { language: uiLanguage, t } = useLocale();
+  const [kind, setKind] = useState<ImageKind>(images.backdrops.length > 0 ? 'backdrops' : 'posters');
+  const [language, setLanguage] = useState<string>(ALL);
+  const [aspect, setAspect] = useState<ImageAspect | typeof ALL>(ALL);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const closeLightbox = useCallback(() => setOpenIndex(null), []);
+
+  // Names an image's ISO 639-1 language, e.g. "fr" -> "French". Null means the image has no text on it.
+  const getLanguageName = useCallback(
+    (code: string | null) => (code ? getDisplayName('language', code, uiLanguage) : t('images.noText')),
+    [uiLanguage, t]
+  );
+
+  const ofKind = toGalleryImages(images).filter(image => image.kind === kind);
+  const languages = [...new Set(ofKind.map(image => image.iso_639_1 ?? NO_TEXT))].sort((a, b) =>
+    getLanguageName(a === NO_TEXT ? null : a).localeCompare(getLanguageName(b === NO_TEXT ? null : b))
+  );
+  const shown = ofKind.filter(image =>
+    (language === ALL || (image.iso_639_1 ?? NO_TEXT) === language) &&
+    (aspect === ALL || getImageAspect(image) === aspect)
+  );
+
+  const selectKind = (value: ImageKind) => {
+    setKind(value);
+    setLanguage(ALL); // Languages differ between kinds, so a kept filter could hide everything
+  };
+
+  const selectClassName =
+    "p-2 rounded-lg bg-gray-800 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {IMAGE_KINDS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => selectKind(value)}
+            aria-pressed={kind === value}
+            className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 ${
+              kind === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+            }`}
+          >
+            {t(label)} <span className="opacity-75">({images[value].length})</span>
+          </button>
+        ))}
+        <div className="ml-auto flex flex-wrap gap-2">
+          <select value={language} onChange={(e) => setLanguage(e.target.value)} aria-label={t('images.language')} className={selectClassName}>
+            <option value={ALL}>{t('images.allLanguages')}</option>
+            {languages.map(code => (
+              <option key={code} value={code}>{getLanguageName(code === NO_TEXT ? null : code)}</option>
+            ))}
+          </select>
+          <select
+            value={aspect}
+            onChange={(e) => setAspect(e.target.value as ImageAspect | typeof ALL)}
+            aria-label={t('images.shape')}
+            className={selectClassName}
+          >
+            <option value={ALL}>{t('images.anyShape')}</option>
+            {IMAGE_ASPECTS.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {shown.length > 0 ? (
+        <ul
+          className={`grid gap-4 ${
+            kind === 'posters' ? 'grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6' : 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3'
+          }`}
+        >
+          {shown.map((image, index) => (
+            <li key={image.file_path}>
+              <button
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                className={`group relative block w-full rounded-lg overflow-hidden shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-400 ${
+                  image.kind === 'logos' ? 'bg-gray-600' : 'bg-gray-800'
+                }`}
+                style={{ aspectRatio: image.aspect_ratio }}
+                aria-label={t('images.open', { kind: t(getImageKindName(image.kind)), number: index + 1, title })}
+              >
+                <Image
+                  src={getImageUrl(image.file_path, THUMBNAIL_SIZES[image.kind])}
+                  alt=""
+                  fill
+                  unoptimized={image.file_path.endsWith('.svg')} // The image optimizer refuses SVG logos
+                  sizes={image.kind === 'posters' ? '(max-width: 640px) 50vw, 16vw' : '(max-width: 640px) 100vw, 33vw'}
+                  className={`${image.kind === 'logos' ? 'object-contain p-4' : 'object-cover'} transition-opacity duration-300 group-hover:opacity-75`}
+                />
+              </button>
+              <p className="mt-1 text-xs text-gray-500">
+                {image.width}×{image.height} · {getLanguageName(image.iso_639_1)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400">{t('images.noMatches')}</p>
+      )}
+
+      {openIndex !== null && (
+        <ImageLightbox
+          images={shown}
+          index={openIndex}
+          onIndexChange={setOpenIndex}
+          onClose={closeLightbox}
+          getLanguageName={getLanguageName}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+// components/media/ImageLightbox.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { FaChevronLeft, FaChevronRight, FaDownload, FaTimes } from 'react-icons/fa';
+import { GalleryImage, IMAGE_SIZES, ImageKind, LIGHTBOX_SIZES, getImageDownloadUrl, getImageKindName } from '@/lib/images';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string, size: string) => `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+
+interface ImageLightboxProps {
+  images: GalleryImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  getLanguageName: (code: string | null) => string;
+}
+
+/**
+ * Full-screen viewer for the image gallery. Arrow keys (or the side buttons) move between images and
+ * Escape closes it. The chosen TMDB size is loaded as-is, and the original can be downloaded.
+ */
+export default function ImageLightbox({ images, index, onIndexChange, onClose, getLanguageName }: ImageLightboxProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const { t } = useLocale();
+  // The chosen size per kind, so flipping through posters keeps the poster size
+  const [sizes, setSizes] = useState<Record<ImageKind, string>>(LIGHTBOX_SIZES);
+
+  const image = images[index];
+  const size = sizes[image.kind];
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && index > 0) onIndexChange(index - 1);
+      if (e.key === 'ArrowRight' && index < images.length - 1) onIndexChange(index + 1);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [index, images.length, onIndexChange, onClose]);
+
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden'; // Keep the page from scrolling behind the overlay
+    closeButtonRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  const navButtonClassName =
+    "absolute top-1/2 -translate-y-1/2 p-3 rounded-full bg-black/60 text-white hover:bg-black/80 disabled:opacity-20 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/95 flex flex-col"
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('images.position', { number: index + 1, total: images.length })}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 text-sm text-gray-300">
+        <p>
+          {index + 1} / {images.length} · {image.width}×{image.height} · {getLanguageName(image.iso_639_1)}
+        </p>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2">
+            <span>{t('images.size')}</span>
+            <select
+              value={size}
+              onChange={(e) => setSizes(prev => ({ ...prev, [image.kind]: e.target.value }))}
+              className="p-1 rounded bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              {IMAGE_SIZES[image.kind].map(option => (
+                <option key={option} value={option}>{option === 'original' ? t('images.original') : t('images.width', { width: option.replace('w', '') })}</option>
+              ))}
+            </select>
+          </label>
+          <a
+            href={getImageDownloadUrl(image.file_path)}
+            className="flex items-center px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white font-semibold"
+          >
+            <FaDownload className="mr-2" />{t('images.download')}
+          </a>
+          <button
+            ref={closeButtonRef}
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-400 rounded"
+            aria-label={t('images.close')}
+          >
+            <FaTimes size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-grow mx-4 mb-4" onClick={onClose}>
+        <Image
+          key={`${image.file_path}-${size}`}
+          src={getImageUrl(image.file_path, size)}
+          alt={t('images.alt', { kind: t(getImageKindName(image.kind)), number: index + 1 })}
+          fill
+          unoptimized // Load exactly the TMDB size picked above
+          className="object-contain"
+          onClick={(e) => e.stopPropagation()}
+        />
+        <button
+          type="button"
+          disabled={!hasPrevious}
+          onClick={(e) => { e.stopPropagation(); onIndexChange(index - 1); }}
+          className={`${navButtonClassName} left-0`}
+          aria-label={t('images.previous')}
+        >
+          <FaChevronLeft size={20} />
+        </button>
+        <button
+          type="button"
+          disabled={!hasNext}
+          onClick={(e) => { e.stopPropagation(); onIndexChange(index + 1); }}
+          className={`${navButtonClassName} right-0`}
+          aria-label={t('images.next')}
+        >
+          <FaChevronRight size={20} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// components/media/MediaTabs.tsx
+// Tab links between a title's detail page and its sub-pages (currently the image gallery).
+
+import Link from 'next/link';
+import { DEFAULT_LOCALE, Locale, createTranslator, localizePath } from '@/lib/i18n';
+
+export type MediaTab = 'overview' | 'images';
+
+interface MediaTabsProps {
+  mediaType: 'movie' | 'tv';
+  id: number | string;
+  active: MediaTab;
+  locale?: Locale;
+}
+
+/**
+ * Renders the Overview / Images tabs for a title. Each tab is its own route, so tabs are plain links.
+ */
+export default function MediaTabs({ mediaType, id, active, locale = DEFAULT_LOCALE }: MediaTabsProps) {
+  const t = createTranslator(locale);
+  const tabs: { value: MediaTab; label: string; href: string }[] = [
+    { value: 'overview', label: t('details.tabOverview'), href: `/${mediaType}/${id}` },
+    { value: 'images', label: t('details.tabImages'), href: `/${mediaType}/${id}/images` },
+  ];
+
+  return (
+    <nav aria-label={t('details.tabsLabel')} className="flex gap-2 border-b border-gray-700 mb-6">
+      {tabs.map(tab => (
+        <Link
+          key={tab.value}
+          href={localizePath(tab.href, locale)}
+          aria-current={active === tab.value ? 'page' : undefined}
+          className={`px-4 py-2 -mb-px border-b-2 font-semibold transition-colors duration-200 ${
+            active === tab.value ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          {tab.label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,22 @@
+// components/media/RecentlyViewedTracker.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { addRecentlyViewed } from '@/lib/recently-viewed';
+
+interface RecentlyViewedTrackerProps {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  title: string;
+}
+
+/**
+ * Records the title of a detail page in this browser's recently viewed history. Renders nothing.
+ */
+export default function RecentlyViewedTracker({ mediaType, id, title }: RecentlyViewedTrackerProps) {
+  useEffect(() => {
+    addRecentlyViewed({ mediaType, id, title });
+  }, [mediaType, id, title]);
+
+  return null;
+}
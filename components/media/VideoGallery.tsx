@@ -0,0 +1,153 @@
+// components/media/VideoGallery.tsx
+'use client';
+
+import { useCallback, useState } from 'react';
+import Image from 'next/image';
+import { FaPlay, FaPlayCircle } from 'react-icons/fa';
+import { TmdbVideo } from '@/lib/types/tmdb';
+import { VIDEO_GROUP_LABELS, VideoGroup, getVideoThumbnailUrl, groupVideos } from '@/lib/videos';
+import { getDisplayName } from '@/lib/i18n';
+import { formatDate } from '@/lib/utils';
+import VideoPlayerModal from './VideoPlayerModal';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+const ALL = 'all';
+
+interface VideoGalleryProps {
+  title: string;
+  videos: TmdbVideo[];
+  featured?: TmdbVideo; // The trailer picked for the user's language preference (see pickFeaturedTrailer)
+}
+
+/**
+ * VideoGallery features one trailer and lists every other video, filterable by type and language.
+ * Thumbnails are plain images; the video itself only loads in a modal player after a click.
+ */
+export default function VideoGallery({ title, videos, featured }: VideoGalleryProps) {
+  const { language: uiLanguage, t } = useLocale();
+  const [group, setGroup] = useState<VideoGroup | typeof ALL>(ALL);
+  const [language, setLanguage] = useState<string>(ALL);
+  const [playing, setPlaying] = useState<TmdbVideo | null>(null);
+  const closePlayer = useCallback(() => setPlaying(null), []);
+
+  // Names a video's ISO 639-1 language, e.g. "fr" -> "French". TMDB uses "xx" for videos without speech.
+  const getLanguageName = (code: string) =>
+    !code || code === 'xx' ? t('videos.noLanguage') : getDisplayName('language', code, uiLanguage);
+
+  const languages = [...new Set(videos.map(video => video.iso_639_1))].sort((a, b) =>
+    getLanguageName(a).localeCompare(getLanguageName(b))
+  );
+  const groups = groupVideos(language === ALL ? videos : videos.filter(video => video.iso_639_1 === language));
+  const shown = groups.filter(entry => group === ALL || entry.group === group);
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-2xl font-bold mb-4 text-gray-200 flex items-center">
+        <FaPlayCircle className="mr-2 text-red-500" />{t('videos.title')}
+      </h2>
+
+      {featured ? (
+        <button
+          type="button"
+          onClick={() => setPlaying(featured)}
+          className="group relative block w-full pt-[56.25%] bg-gray-800 rounded-lg overflow-hidden shadow-xl mb-6"
+          aria-label={t('videos.play', { name: featured.name })}
+        >
+          <Image
+            src={getVideoThumbnailUrl(featured)}
+            alt=""
+            fill
+            sizes="(max-width: 1024px) 100vw, 66vw"
+            className="object-cover transition-opacity duration-300 group-hover:opacity-75"
+          />
+          <span className="absolute inset-0 flex items-center justify-center">
+            <span className="w-20 h-20 rounded-full bg-red-600 group-hover:bg-red-500 flex items-center justify-center shadow-2xl transition-colors duration-200">
+              <FaPlay className="text-white ml-1" size={28} />
+            </span>
+          </span>
+          <span className="absolute bottom-0 left-0 right-0 p-4 text-left bg-gradient-to-t from-black/80 to-transparent text-white font-semibold">
+            {featured.name}
+            {featured.iso_639_1 && <span className="ml-2 text-sm text-gray-300">({getLanguageName(featured.iso_639_1)})</span>}
+          </span>
+        </button>
+      ) : (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-inner flex flex-col items-center justify-center text-center h-48 mb-6">
+          <p className="text-xl text-gray-400 mb-2">{t('videos.noTrailer')}</p>
+          <p className="text-sm text-gray-500">{t('videos.noTrailerFor', { title })}</p>
+        </div>
+      )}
+
+      {videos.length > 1 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {[ALL, ...groupVideos(videos).map(entry => entry.group)].map(value => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setGroup(value as VideoGroup | typeof ALL)}
+                aria-pressed={group === value}
+                className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 ${
+                  group === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                }`}
+              >
+                {t(value === ALL ? 'videos.all' : VIDEO_GROUP_LABELS[value as VideoGroup])}
+              </button>
+            ))}
+            {languages.length > 1 && (
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                aria-label={t('videos.language')}
+                className="ml-auto p-2 rounded-lg bg-gray-800 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              >
+                <option value={ALL}>{t('images.allLanguages')}</option>
+                {languages.map(code => (
+                  <option key={code} value={code}>{getLanguageName(code)}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {shown.length > 0 ? (
+            shown.map(entry => (
+              <section key={entry.group} className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-300 mb-3">
+                  {t(VIDEO_GROUP_LABELS[entry.group])} <span className="text-gray-500 text-sm">({entry.videos.length})</span>
+                </h3>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {entry.videos.map(video => (
+                    <li key={video.id}>
+                      <button type="button" onClick={() => setPlaying(video)} className="group block w-full text-left">
+                        <span className="relative block pt-[56.25%] bg-gray-800 rounded-lg overflow-hidden">
+                          <Image
+                            src={getVideoThumbnailUrl(video)}
+                            alt=""
+                            fill
+                            sizes="(max-width: 640px) 100vw, 33vw"
+                            className="object-cover transition-opacity duration-300 group-hover:opacity-75"
+                          />
+                          <span className="absolute inset-0 flex items-center justify-center">
+                            <FaPlayCircle className="text-white/80 group-hover:text-white drop-shadow-lg" size={40} />
+                          </span>
+                        </span>
+                        <span className="block mt-2 text-sm text-gray-200 line-clamp-2">{video.name}</span>
+                        <span className="block text-xs text-gray-500">
+                          {getLanguageName(video.iso_639_1)}
+                          {formatDate(video.published_at, 'short', uiLanguage) && ` · ${formatDate(video.published_at, 'short', uiLanguage)}`}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))
+          ) : (
+            <p className="text-gray-400">{t('videos.noneInLanguage', { language: getLanguageName(language) })}</p>
+          )}
+        </>
+      )}
+
+      {playing && <VideoPlayerModal video={playing} onClose={closePlayer} />}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+// components/media/VideoPlayerModal.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { TmdbVideo } from '@/lib/types/tmdb';
+import { getVideoEmbedUrl } from '@/lib/videos';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+interface VideoPlayerModalProps {
+  video: TmdbVideo;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen overlay playing a video. The YouTube/Vimeo embed is only created while the modal is open,
+ * so nothing is loaded from those sites until the user presses play. Closes on Escape or a backdrop click.
+ */
+export default function VideoPlayerModal({ video, onClose }: VideoPlayerModalProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const { t } = useLocale();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden'; // Keep the page from scrolling behind the overlay
+    document.addEventListener('keydown', handleKeyDown);
+    closeButtonRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/90 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label={video.name}
+      onClick={onClose}
+    >
+      <div className="w-full max-w-5xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-2 gap-4">
+          <h3 className="text-lg font-semibold text-white truncate">{video.name}</h3>
+          <button
+            ref={closeButtonRef}
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-400 rounded"
+            aria-label={t('videos.close')}
+          >
+            <FaTimes size={20} />
+          </button>
+        </div>
+        <div className="relative pt-[56.25%] bg-black rounded-lg overflow-hidden shadow-xl">
+          <iframe
+            className="absolute top-0 left-0 w-full h-full"
+            src={getVideoEmbedUrl(video)}
+            title={video.name}
+            frameBorder="0"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+          ></iframe>
+        </div>
+      </div>
+    </div>
+  );
+}
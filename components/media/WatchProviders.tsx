@@ -0,0 +1,136 @@
+// components/media/WatchProviders.tsx
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { FaTv, FaExternalLinkAlt } from 'react-icons/fa';
+import { useSession } from '@/components/account/SessionProvider';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import { TmdbWatchProvider, TmdbWatchProviderRegion } from '@/lib/types/tmdb';
+import { getDisplayName } from '@/lib/i18n';
+import { MessageKey } from '@/lib/messages/en';
+import { REGIONS } from '@/lib/account';
+import { saveRegionPreference } from '@/lib/region-client';
+
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/";
+
+const getImageUrl = (path: string | null | undefined, size: string = 'w92') => {
+  if (!path) {
+    return `https://placehold.co/png/92x92/1f2937/FFFFFF?text=?`;
+  }
+  return `${TMDB_IMAGE_BASE_URL}${size}${path}`;
+};
+
+// Offer groups in display order. Free and ad-supported streaming are shown together.
+const OFFER_GROUPS: { label: MessageKey; kinds: ('flatrate' | 'free' | 'ads' | 'rent' | 'buy')[] }[] = [
+  { label: 'providers.stream', kinds: ['flatrate'] },
+  { label: 'providers.free', kinds: ['free', 'ads'] },
+  { label: 'providers.rent', kinds: ['rent'] },
+  { label: 'providers.buy', kinds: ['buy'] },
+];
+
+/**
+ * Merges a region's offers of the given kinds, listing each provider once, most prominent first.
+ */
+function getProviders(offers: TmdbWatchProviderRegion, kinds: (typeof OFFER_GROUPS)[number]['kinds']): TmdbWatchProvider[] {
+  const providers = new Map(kinds.flatMap(kind => offers[kind]).map(provider => [provider.provider_id, provider]));
+  return [...providers.values()].sort((a, b) => a.display_priority - b.display_priority);
+}
+
+interface WatchProvidersProps {
+  title: string;
+  providersByRegion: Record<string, TmdbWatchProviderRegion>;
+  initialRegion: string; // From the user's settings or region cookie
+}
+
+/**
+ * WatchProviders shows where a title can be streamed, rented or bought in a chosen region.
+ * Picking another region saves it as the user's region preference.
+ */
+export default function WatchProviders({ title, providersByRegion, initialRegion }: WatchProvidersProps) {
+  const { user, setUser } = useSession();
+  const { language, t } = useLocale();
+  const [region, setRegion] = useState(initialRegion);
+  const [failed, setFailed] = useState(false);
+
+  const myServices = new Set(user?.settings.streamingServices ?? []);
+  const offers = providersByRegion[region];
+  const regionName = getDisplayName('region', region, language);
+
+  const handleRegionChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextRegion = e.target.value;
+    setRegion(nextRegion);
+    setFailed(false);
+    try {
+      const updated = await saveRegionPreference(nextRegion, user);
+      if (updated) setUser(updated);
+    } catch (err: any) {
+      console.error("Failed to save the region:", err);
+      setFailed(true);
+    }
+  };
+
+  const groups = offers
+    ? OFFER_GROUPS.map(group => ({ label: group.label, providers: getProviders(offers, group.kinds) }))
+        .filter(group => group.providers.length > 0)
+    : [];
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h2 className="text-2xl font-bold text-gray-200 flex items-center">
+          <FaTv className="mr-2 text-green-400" />{t('providers.title')}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <span>{t('settings.region')}</span>
+          <select
+            value={region}
+            onChange={handleRegionChange}
+            className="p-2 rounded-lg bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+          >
+            {REGIONS.map(({ code }) => (
+              <option key={code} value={code}>{getDisplayName('region', code, language)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {failed && <p className="text-red-500 text-sm mb-3">{t('providers.regionFailed')}</p>}
+
+      {groups.length > 0 ? (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.label} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <span className="w-16 flex-shrink-0 text-sm uppercase tracking-wide text-gray-400">{t(group.label)}</span>
+              <ul className="flex flex-wrap gap-3">
+                {group.providers.map(provider => {
+                  const isMine = myServices.has(provider.provider_id);
+                  return (
+                    <li key={provider.provider_id}>
+                      <a
+                        href={offers.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={isMine ? t('providers.yours', { name: provider.provider_name }) : provider.provider_name}
+                        className={`block relative w-12 h-12 rounded-lg overflow-hidden bg-gray-700 transition-transform duration-200 hover:scale-110 ${isMine ? 'ring-2 ring-green-400' : ''}`}
+                      >
+                        <Image src={getImageUrl(provider.logo_path)} alt={provider.provider_name} fill sizes="48px" className="object-cover" />
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500 flex items-center">
+            {t('providers.attribution')}
+            <a href={offers.link} target="_blank" rel="noopener noreferrer" className="ml-2 inline-flex items-center hover:text-gray-300">
+              {t('providers.allOffers')} <FaExternalLinkAlt className="ml-1" />
+            </a>
+          </p>
+        </div>
+      ) : (
+        <p className="text-gray-400">{t('providers.unavailable', { title, region: regionName })}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+// components/watchlist/WatchlistControls.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { FaBookmark, FaRegBookmark, FaEye, FaTrash } from 'react-icons/fa';
+import { WatchlistUpdate } from '@/lib/types/watchlist';
+import { saveToWatchlist, removeFromWatchlist, useWatchlistEntry } from '@/lib/watchlist-client';
+import { useSession } from '@/components/account/SessionProvider';
+import { useLocale } from '@/components/layout/LocaleProvider';
+import AddToListMenu from '@/components/lists/AddToListMenu';
+
+interface WatchlistControlsProps {
+  mediaType: 'movie' | 'tv';
+  id: number;
+}
+
+const RATINGS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+/**
+ * WatchlistControls lets the detail page add a title to the watchlist or log it as watched,
+ * with the date it was watched and a personal 1-10 rating, and add it to custom lists. Visitors who aren't
+ * signed in see a sign-in link.
+ */
+export default function WatchlistControls(props: WatchlistControlsProps) {
+  const { user } = useSession();
+  const pathname = usePathname();
+  const { t, localize } = useLocale();
+
+  if (!user) {
+    return (
+      <div className="mb-8">
+        <Link
+          href={localize(`/login?next=${encodeURIComponent(pathname)}`)}
+          className="inline-flex items-center px-4 py-2 rounded-lg font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors duration-200"
+        >
+          <FaRegBookmark className="mr-2" />{t('watchlist.signIn')}
+        </Link>
+      </div>
+    );
+  }
+  return <SignedInControls {...props} />;
+}
+
+function SignedInControls({ mediaType, id }: WatchlistControlsProps) {
+  const entry = useWatchlistEntry(mediaType, id);
+  const { t } = useLocale();
+  const [isSaving, setIsSaving] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setFailed(false);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error("Failed to update the watchlist:", err);
+      setFailed(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = (update: WatchlistUpdate) => run(() => saveToWatchlist(mediaType, id, update));
+  const disabled = entry === null || isSaving; // null while the watchlist is loading
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => (entry?.status === 'watchlist' ? run(() => removeFromWatchlist(mediaType, id)) : save({ status: 'watchlist' }))}
+          className={`px-4 py-2 rounded-lg font-semibold flex items-center transition-colors duration-200 disabled:opacity-50 ${
+            entry?.status === 'watchlist' ? 'bg-yellow-500 text-gray-900 hover:bg-yellow-400' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+          }`}
+        >
+          {entry?.status === 'watchlist' ? <FaBookmark className="mr-2" /> : <FaRegBookmark className="mr-2" />}
+          {t(entry?.status === 'watchlist' ? 'watchlist.onWatchlist' : 'watchlist.add')}
+        </button>
+
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => save({ status: entry?.status === 'watched' ? 'watchlist' : 'watched' })}
+          className={`px-4 py-2 rounded-lg font-semibold flex items-center transition-colors duration-200 disabled:opacity-50 ${
+            entry?.status === 'watched' ? 'bg-green-600 text-white hover:bg-green-500' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+          }`}
+        >
+          <FaEye className="mr-2" />
+          {t(entry?.status === 'watched' ? 'watchlist.watched' : 'watchlist.markWatched')}
+        </button>
+
+        {entry && (
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => run(() => removeFromWatchlist(mediaType, id))}
+            className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors duration-200 disabled:opacity-50"
+            aria-label={t('watchlist.removeEverywhere')}
+            title={t('watchlist.remove')}
+          >
+            <FaTrash />
+          </button>
+        )}
+
+        <AddToListMenu mediaType={mediaType} id={id} />
+      </div>
+
+      {entry?.status === 'watched' && (
+        <div className="flex flex-wrap items-center gap-4 mt-4 text-gray-300">
+          <label className="flex items-center gap-2">
+            <span>{t('watchlist.watchedOnLabel')}</span>
+            <input
+              type="date"
+              value={entry.watchedAt ?? ''}
+              max={new Date().toISOString().slice(0, 10)}
+              disabled={disabled}
+              onChange={(e) => e.target.value && save({ status: 'watched', watchedAt: e.target.value })}
+              className="p-2 rounded-lg bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span>{t('import.sortRating')}</span>
+            <select
+              value={entry.rating ?? ''}
+              disabled={disabled}
+              onChange={(e) => save({ status: 'watched', rating: e.target.value ? Number(e.target.value) : null })}
+              className="p-2 rounded-lg bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              <option value="">{t('watchlist.notRated')}</option>
+              {RATINGS.map(rating => (
+                <option key={rating} value={rating}>{rating} / 10</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {failed && <p className="text-red-500 mt-3">{t('watchlist.updateFailed')}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+// components/watchlist/WatchlistToggle.tsx
+'use client';
+
+import { useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { FaBookmark, FaRegBookmark, FaEye, FaRegEye } from 'react-icons/fa';
+import { saveToWatchlist, removeFromWatchlist, useWatchlistEntry } from '@/lib/watchlist-client';
+import { useSession } from '@/components/account/SessionProvider';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+interface WatchlistToggleProps {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  title?: string;
+}
+
+const buttonClassName =
+  "p-2 rounded-full bg-gray-900/80 hover:bg-blue-600 text-white transition-colors duration-200 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+/**
+ * WatchlistToggle overlays a MediaCard poster with two buttons: save to the watchlist, and mark as watched.
+ * Unmarking a watched title puts it back on the watchlist; removing the bookmark forgets the title entirely.
+ * Visitors who aren't signed in get a single bookmark button that leads to the login page.
+ */
+export default function WatchlistToggle(props: WatchlistToggleProps) {
+  const { user } = useSession();
+  return user ? <SignedInToggle {...props} /> : <SignInPrompt title={props.title} />;
+}
+
+function SignInPrompt({ title }: { title?: string }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { t, localize } = useLocale();
+  return (
+    <div className="absolute top-2 right-2 z-10">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.preventDefault(); // The toggle sits inside the card's link
+          e.stopPropagation();
+          router.push(localize(`/login?next=${encodeURIComponent(pathname)}`));
+        }}
+        className={buttonClassName}
+        aria-label={t('watchlist.signInToAdd', { title: title || t('watchlist.thisTitle') })}
+        title={t('watchlist.signIn')}
+      >
+        <FaRegBookmark />
+      </button>
+    </div>
+  );
+}
+
+function SignedInToggle({ mediaType, id, title }: WatchlistToggleProps) {
+  const entry = useWatchlistEntry(mediaType, id);
+  const { t } = useLocale();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The toggle sits inside the card's link, so clicks must not also open the detail page.
+  const run = async (e: React.MouseEvent, action: () => Promise<unknown>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Failed to update the watchlist:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isSaved = !!entry;
+  const isWatched = entry?.status === 'watched';
+  const name = title || t('watchlist.thisTitle');
+
+  return (
+    <div className="absolute top-2 right-2 z-10 flex gap-2">
+      <button
+        type="button"
+        disabled={entry === null || isSaving} // null while the watchlist is loading
+        onClick={(e) => run(e, () => (isSaved ? removeFromWatchlist(mediaType, id) : saveToWatchlist(mediaType, id, { status: 'watchlist' })))}
+        className={buttonClassName}
+        aria-pressed={isSaved}
+        aria-label={t(isSaved ? 'watchlist.removeTitle' : 'watchlist.addTitle', { title: name })}
+        title={t(isSaved ? 'watchlist.removeShort' : 'watchlist.add')}
+      >
+        {isSaved ? <FaBookmark className="text-yellow-400" /> : <FaRegBookmark />}
+      </button>
+      <button
+        type="button"
+        disabled={entry === null || isSaving}
+        onClick={(e) => run(e, () => saveToWatchlist(mediaType, id, { status: isWatched ? 'watchlist' : 'watched' }))}
+        className={buttonClassName}
+        aria-pressed={isWatched}
+        aria-label={t(isWatched ? 'watchlist.markTitleNotWatched' : 'watchlist.markTitleWatched', { title: name })}
+        title={t(isWatched ? 'watchlist.markNotWatched' : 'watchlist.markWatched')}
+      >
+        {isWatched ? <FaEye className="text-green-400" /> : <FaRegEye />}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+// components/watchlist/WatchlistView.tsx
+'use client';
+
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import { FaStar } from 'react-icons/fa';
+import MediaCard from '@/components/common/MediaCard';
+import { WatchlistEntry } from '@/lib/types/watchlist';
+import { formatDate, toMediaItem } from '@/lib/utils';
+import { useWatchlistEntries } from '@/lib/watchlist-client';
+import { useLocale } from '@/components/layout/LocaleProvider';
+
+const SORT_OPTIONS = {
+  added: { label: 'watchlist.sortAdded', compare: (a: WatchlistEntry, b: WatchlistEntry) => b.addedAt.localeCompare(a.addedAt) },
+  watched: { label: 'import.sortWatched', compare: (a: WatchlistEntry, b: WatchlistEntry) => (b.watchedAt ?? '').localeCompare(a.watchedAt ?? '') },
+  rating: { label: 'import.sortRating', compare: (a: WatchlistEntry, b: WatchlistEntry) => (b.rating ?? 0) - (a.rating ?? 0) },
+  tmdb: { label: 'watchlist.sortTmdb', compare: (a: WatchlistEntry, b: WatchlistEntry) => b.voteAverage - a.voteAverage },
+  release: { label: 'watchlist.sortRelease', compare: (a: WatchlistEntry, b: WatchlistEntry) => (b.releaseDate ?? '').localeCompare(a.releaseDate ?? '') },
+  title: { label: 'discover.sortTitle', compare: (a: WatchlistEntry, b: WatchlistEntry) => a.title.localeCompare(b.title) },
+} as const;
+
+type SortKey = keyof typeof SORT_OPTIONS;
+
+const selectClassName =
+  "p-2 rounded-lg bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+interface WatchlistViewProps {
+  initialEntries: WatchlistEntry[];
+}
+
+/**
+ * WatchlistView shows saved titles in a MediaCard grid with type, status and genre filters and a sort order,
+ * all kept in the query string. It switches to the live client-side entries once they load, so toggling a card
+ * here updates the list immediately.
+ */
+export default function WatchlistView({ initialEntries }: WatchlistViewProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const liveEntries = useWatchlistEntries();
+  const { language, t } = useLocale();
+
+  const entries = liveEntries ? [...liveEntries.values()] : initialEntries;
+
+  const type = searchParams.get('type') ?? '';
+  const status = searchParams.get('status') ?? '';
+  const genre = Number(searchParams.get('genre')) || 0;
+  const sort: SortKey = (searchParams.get('sort') as SortKey) in SORT_OPTIONS ? (searchParams.get('sort') as SortKey) : 'added';
+
+  const setParam = (name: string, value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value) params.set(name, value);
+    else params.delete(name);
+    router.replace(params.size ? `${pathname}?${params.toString()}` : pathname, { scroll: false });
+  };
+
+  // Offer every genre that appears in the saved titles
+  const genres = [...new Map(entries.flatMap(entry => entry.genres).map(g => [g.id, g])).values()]
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const visible = entries
+    .filter(entry => !type || entry.mediaType === type)
+    .filter(entry => !status || entry.status === status)
+    .filter(entry => !genre || entry.genres.some(g => g.id === genre))
+    .sort(SORT_OPTIONS[sort].compare);
+
+  const watchedCount = entries.filter(entry => entry.status === 'watched').length;
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-center text-xl text-gray-400">
+        {t('watchlist.empty')}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <p className="text-center text-gray-400 mb-6">
+        {t('watchlist.counts', { toWatch: entries.length - watchedCount, watched: watchedCount })}
+      </p>
+
+      <div className="flex flex-wrap justify-center gap-4 mb-10 text-gray-300">
+        <label className="flex items-center gap-2">
+          <span>{t('watchlist.type')}</span>
+          <select className={selectClassName} value={type} onChange={(e) => setParam('type', e.target.value)}>
+            <option value="">{t('watchlist.all')}</option>
+            <option value="movie">{t('nav.movies')}</option>
+            <option value="tv">{t('nav.tvShows')}</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>{t('watchlist.status')}</span>
+          <select className={selectClassName} value={status} onChange={(e) => setParam('status', e.target.value)}>
+            <option value="">{t('watchlist.all')}</option>
+            <option value="watchlist">{t('watchlist.toWatch')}</option>
+            <option value="watched">{t('watchlist.watched')}</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>{t('grid.genre')}</span>
+          <select className={selectClassName} value={genre || ''} onChange={(e) => setParam('genre', e.target.value)}>
+            <option value="">{t('watchlist.all')}</option>
+            {genres.map(g => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>{t('grid.sortBy')}</span>
+          <select className={selectClassName} value={sort} onChange={(e) => setParam('sort', e.target.value === 'added' ? '' : e.target.value)}>
+            {(Object.keys(SORT_OPTIONS) as SortKey[]).map(key => (
+              <option key={key} value={key}>{t(SORT_OPTIONS[key].label)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {visible.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+          {visible.map(entry => (
+            <div key={`${entry.mediaType}-${entry.id}`}>
+              <MediaCard item={toMediaItem(entry)} />
+              {entry.status === 'watched' && (
+                <p className="mt-2 text-sm text-gray-400 flex items-center">
+                  {entry.watchedAt ? t('watchlist.watchedOn', { date: formatDate(entry.watchedAt, 'short', language) ?? '' }) : t('watchlist.watched')}
+                  {entry.rating && (
+                    <span className="ml-2 flex items-center text-yellow-400">
+                      <FaStar className="mr-1" />{entry.rating}/10
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-xl text-gray-400">{t('watchlist.noMatches')}</p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+// lib/account.ts
+// Account constants shared by the server, the middleware and client components.
+
+import { MessageKey } from './messages/en';
+import { HomeSection, PaginationMode, TrailerLanguage, UserSettings } from './types/account';
+
+// Usernames are 3-32 letters, digits, dots, dashes or underscores; compared case-insensitively.
+export const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Name of the cookie holding the session token. The middleware only checks that it exists;
+// the token itself is validated against the session store on the server.
+export const SESSION_COOKIE = 'movie_explorer_session';
+
+// Region picked by visitors without an account (e.g., in the where-to-watch section), kept for a year.
+export const REGION_COOKIE = 'movie_explorer_region';
+export const REGION_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // In seconds
+
+// How visitors without an account page through the browse grids (see PAGINATION_MODES), kept as long as the region.
+export const PAGINATION_COOKIE = 'movie_explorer_pagination';
+
+// Upper bound on saved streaming services; TMDB lists a few hundred providers per region.
+export const MAX_STREAMING_SERVICES = 50;
+
+export const HOME_SECTIONS: { value: HomeSection; label: MessageKey }[] = [
+  { value: 'nowPlaying', label: 'settings.sectionNowPlaying' },
+  { value: 'moreLikeThese', label: 'settings.sectionMoreLikeThese' },
+  { value: 'trendingMovies', label: 'settings.sectionTrendingMovies' },
+  { value: 'trendingTv', label: 'settings.sectionTrendingTv' },
+  { value: 'trendingAll', label: 'settings.sectionTrendingAll' },
+];
+
+export const TRAILER_LANGUAGES: { value: TrailerLanguage; label: MessageKey }[] = [
+  { value: 'dubbed', label: 'settings.trailerDubbed' },
+  { value: 'original', label: 'settings.trailerOriginal' },
+];
+
+export const PAGINATION_MODES: { value: PaginationMode; label: MessageKey }[] = [
+  { value: 'pages', label: 'settings.paginationPages' },
+  { value: 'loadMore', label: 'settings.paginationLoadMore' },
+  { value: 'infinite', label: 'settings.paginationInfinite' },
+];
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  region: 'US',
+  language: 'en-US',
+  includeAdult: false,
+  homeSections: HOME_SECTIONS.map(({ value }) => value),
+  streamingServices: [],
+  trailerLanguage: 'dubbed',
+  paginationMode: 'pages',
+};
+
+// Names are the English fallback; the UI names regions in its own language (see getDisplayName).
+export const REGIONS: { code: string; name: string }[] = [
+  { code: 'US', name: 'United States' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'IN', name: 'India' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'IT', name: 'Italy' },
+  { code: 'BR', name: 'Brazil' },
+  { code: 'MX', name: 'Mexico' },
+  { code: 'JP', name: 'Japan' },
+  { code: 'KR', name: 'South Korea' },
+];
+
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English' },
+  { code: 'es-ES', name: 'Español' },
+  { code: 'fr-FR', name: 'Français' },
+  { code: 'de-DE', name: 'Deutsch' },
+  { code: 'it-IT', name: 'Italiano' },
+  { code: 'pt-BR', name: 'Português (Brasil)' },
+  { code: 'ja-JP', name: '日本語' },
+  { code: 'ko-KR', name: '한국어' },
+  { code: 'hi-IN', name: 'हिन्दी' },
+];
+
+/**
+ * Checks that a region code is one of the REGIONS offered in settings.
+ */
+export const isSupportedRegion = (code: string | null | undefined): code is string =>
+  REGIONS.some(region => region.code === code);
+
+/**
+ * Checks that a value is one of the PAGINATION_MODES.
+ */
+export const isPaginationMode = (value: string | null | undefined): value is PaginationMode =>
+  PAGINATION_MODES.some(mode => mode.value === value);
+
+/**
+ * Returns a redirect target only if it is a path on this site, to avoid open redirects via ?next=.
+ * @param next The requested target, e.g. from the query string.
+ * @returns The path, or "/" if it is missing or points elsewhere.
+ */
+export function getSafeRedirect(next: string | string[] | undefined): string {
+  const target = Array.isArray(next) ? next[0] : next;
+  return target && target.startsWith('/') && !target.startsWith('//') ? target : '/';
+}
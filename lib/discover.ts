@@ -0,0 +1,103 @@
+// lib/discover.ts
+// Shared by the /discover page (server) and its filter form (client): converting between
+// DiscoverFilters and the URL query string, so every filtered view can be bookmarked.
+
+import { MessageKey } from './messages/en';
+import { DiscoverFilters, DiscoverSort } from './types/tmdb';
+
+export const DISCOVER_SORT_OPTIONS: { value: DiscoverSort; label: MessageKey }[] = [
+  { value: 'popularity', label: 'discover.sortPopularity' },
+  { value: 'rating', label: 'discover.sortRating' },
+  { value: 'date', label: 'discover.sortDate' },
+  { value: 'title', label: 'discover.sortTitle' },
+];
+
+// Original languages offered in the filter. TMDB supports many more; these cover most catalogues.
+// Names are the English fallback; the UI names languages in its own language (see getDisplayName).
+export const DISCOVER_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'te', name: 'Telugu' },
+  { code: 'ta', name: 'Tamil' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'da', name: 'Danish' },
+  { code: 'tr', name: 'Turkish' },
+];
+
+type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+/**
+ * Parses a positive integer (or decimal, if allowed) from a query param, ignoring junk.
+ */
+function parseNumber(value: string | string[] | undefined, { min = 0, max = Infinity, decimal = false } = {}): number | undefined {
+  const raw = first(value);
+  if (!raw) return undefined;
+  const parsed = decimal ? parseFloat(raw) : parseInt(raw, 10);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) return undefined;
+  return parsed;
+}
+
+/**
+ * Parses a comma-separated list of genre IDs ("28,12").
+ */
+function parseIdList(value: string | string[] | undefined): number[] {
+  const raw = Array.isArray(value) ? value.join(',') : value;
+  if (!raw) return [];
+  return [...new Set(raw.split(',').map(id => parseInt(id, 10)).filter(id => Number.isInteger(id) && id > 0))];
+}
+
+/**
+ * Reads discover filters from the page's search params. Invalid values are dropped rather than rejected,
+ * so a hand-edited URL still renders something sensible.
+ * @param params The resolved search params of the /discover page.
+ * @returns The filters to pass to discoverMedia.
+ */
+export function parseDiscoverParams(params: SearchParamsRecord): DiscoverFilters {
+  const sort = first(params.sort);
+  return {
+    mediaType: first(params.type) === 'tv' ? 'tv' : 'movie',
+    includeGenres: parseIdList(params.genres),
+    excludeGenres: parseIdList(params.excludeGenres),
+    yearFrom: parseNumber(params.yearFrom, { min: 1870, max: 2100 }),
+    yearTo: parseNumber(params.yearTo, { min: 1870, max: 2100 }),
+    minRating: parseNumber(params.minRating, { max: 10, decimal: true }),
+    minVotes: parseNumber(params.minVotes),
+    minRuntime: parseNumber(params.minRuntime, { max: 1000 }),
+    maxRuntime: parseNumber(params.maxRuntime, { max: 1000 }),
+    language: DISCOVER_LANGUAGES.some(({ code }) => code === first(params.language)) ? first(params.language) : undefined,
+    onMyServices: first(params.services) === 'mine',
+    sort: DISCOVER_SORT_OPTIONS.some(({ value }) => value === sort) ? (sort as DiscoverSort) : 'popularity',
+  };
+}
+
+/**
+ * Serializes discover filters back into a query string. Defaults are left out to keep URLs short.
+ * @param filters The filters to serialize.
+ * @returns A URLSearchParams without the page param (changing filters starts over at page 1).
+ */
+export function buildDiscoverParams(filters: DiscoverFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.mediaType !== 'movie') params.set('type', filters.mediaType);
+  if (filters.includeGenres.length) params.set('genres', filters.includeGenres.join(','));
+  if (filters.excludeGenres.length) params.set('excludeGenres', filters.excludeGenres.join(','));
+  if (filters.yearFrom !== undefined) params.set('yearFrom', String(filters.yearFrom));
+  if (filters.yearTo !== undefined) params.set('yearTo', String(filters.yearTo));
+  if (filters.minRating !== undefined) params.set('minRating', String(filters.minRating));
+  if (filters.minVotes !== undefined) params.set('minVotes', String(filters.minVotes));
+  if (filters.minRuntime !== undefined) params.set('minRuntime', String(filters.minRuntime));
+  if (filters.maxRuntime !== undefined) params.set('maxRuntime', String(filters.maxRuntime));
+  if (filters.language) params.set('language', filters.language);
+  if (filters.onMyServices) params.set('services', 'mine');
+  if (filters.sort !== 'popularity') params.set('sort', filters.sort);
+  return params;
+}
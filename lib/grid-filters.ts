@@ -0,0 +1,90 @@
+// lib/grid-filters.ts
+// Sorting and filtering for the browse list grids, shared by the pages and /api/media-list (server)
+// and the grid toolbar (client). TMDB's list endpoints take no filters, so a filtered list is fetched
+// from its discover equivalent instead (see getMediaListPage); the state lives in the query string so
+// every page link, appended page and shared URL uses the same filters.
+
+import { DISCOVER_LANGUAGES } from './discover';
+import { MessageKey } from './messages/en';
+import { GridFilters, GridSort } from './types/tmdb';
+
+export const GRID_SORT_OPTIONS: { value: GridSort; label: MessageKey }[] = [
+  { value: 'default', label: 'grid.sortDefault' },
+  { value: 'rating', label: 'grid.sortRating' },
+  { value: 'votes', label: 'grid.sortVotes' },
+  { value: 'date', label: 'grid.sortDate' },
+  { value: 'title', label: 'grid.sortTitle' },
+];
+
+export const GRID_MIN_RATINGS = [5, 6, 7, 8];
+
+// Earliest year offered in the year filter; early enough for the classics in the top rated lists.
+export const GRID_FIRST_YEAR = 1920;
+
+export const DEFAULT_GRID_FILTERS: GridFilters = { sort: 'default' };
+
+// Query param names, before the grid's prefix (only needed when a page has more than one grid, e.g. "movie").
+const PARAM_NAMES = ['sort', 'genre', 'minRating', 'year', 'language'] as const;
+
+type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+/**
+ * Returns the query param name for a grid setting, e.g. ("movie", "sort") -> "movieSort".
+ */
+export function getGridParamName(prefix: string, name: (typeof PARAM_NAMES)[number]): string {
+  return prefix ? `${prefix}${name[0].toUpperCase()}${name.slice(1)}` : name;
+}
+
+/**
+ * Returns every query param name a grid's filters use.
+ */
+export const getGridParamNames = (prefix: string = '') => PARAM_NAMES.map(name => getGridParamName(prefix, name));
+
+/**
+ * Reads grid filters from search params. Invalid values are dropped, like parseDiscoverParams does.
+ * @param params The resolved search params (or a URLSearchParams converted with Object.fromEntries).
+ * @param prefix The grid's param prefix; empty for pages with a single grid.
+ * @returns The filters to pass to getMediaListPage.
+ */
+export function parseGridParams(params: SearchParamsRecord, prefix: string = ''): GridFilters {
+  const get = (name: (typeof PARAM_NAMES)[number]) => first(params[getGridParamName(prefix, name)]);
+  const sort = get('sort');
+  const genre = Number(get('genre'));
+  const minRating = Number(get('minRating'));
+  const year = Number(get('year'));
+  const language = get('language');
+
+  return {
+    sort: GRID_SORT_OPTIONS.some(({ value }) => value === sort) ? (sort as GridSort) : 'default',
+    genre: Number.isInteger(genre) && genre > 0 ? genre : undefined,
+    minRating: GRID_MIN_RATINGS.includes(minRating) ? minRating : undefined,
+    year: Number.isInteger(year) && year >= GRID_FIRST_YEAR && year <= 2100 ? year : undefined,
+    language: DISCOVER_LANGUAGES.some(({ code }) => code === language) ? language : undefined,
+  };
+}
+
+/**
+ * Writes grid filters into a copy of the given params, replacing the grid's previous filters.
+ * Defaults are left out to keep URLs short.
+ * @param filters The filters to write.
+ * @param prefix The grid's param prefix.
+ * @param base Params to keep (e.g. the other grid's filters on the home page).
+ * @returns The updated params.
+ */
+export function buildGridParams(filters: GridFilters, prefix: string = '', base: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  const params = new URLSearchParams(base);
+  for (const name of getGridParamNames(prefix)) params.delete(name);
+  if (filters.sort !== 'default') params.set(getGridParamName(prefix, 'sort'), filters.sort);
+  if (filters.genre !== undefined) params.set(getGridParamName(prefix, 'genre'), String(filters.genre));
+  if (filters.minRating !== undefined) params.set(getGridParamName(prefix, 'minRating'), String(filters.minRating));
+  if (filters.year !== undefined) params.set(getGridParamName(prefix, 'year'), String(filters.year));
+  if (filters.language) params.set(getGridParamName(prefix, 'language'), filters.language);
+  return params;
+}
+
+/**
+ * Checks whether any filter or a non-default sort is set.
+ */
+export const hasGridFilters = (filters: GridFilters) => buildGridParams(filters).toString() !== '';
@@ -0,0 +1,95 @@
+// lib/i18n.ts
+// UI locales, locale-prefixed paths and the message lookup. Shared by the middleware, server and client
+// components, so nothing here may depend on Node or on React.
+
+import { MessageKey, messages as en } from './messages/en';
+import { messages as es } from './messages/es';
+import { messages as fr } from './messages/fr';
+import { messages as de } from './messages/de';
+
+export type Locale = 'en' | 'es' | 'fr' | 'de';
+
+// The UI languages. `language` is the tag sent to TMDB and used for date and number formatting.
+export const LOCALES: { code: Locale; name: string; language: string }[] = [
+  { code: 'en', name: 'English', language: 'en-US' },
+  { code: 'es', name: 'Español', language: 'es-ES' },
+  { code: 'fr', name: 'Français', language: 'fr-FR' },
+  { code: 'de', name: 'Deutsch', language: 'de-DE' },
+];
+
+// English pages live at the unprefixed paths (/movie/1); other locales under a prefix (/fr/movie/1).
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Request header carrying the active locale from the middleware to server components. Client-side
+// API calls send it too, since /api routes have no locale prefix.
+export const LOCALE_HEADER = 'x-movie-explorer-locale';
+
+// Untranslated keys fall back to English (see createTranslator).
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = { en, es, fr, de };
+
+export type Translate = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+/**
+ * Checks that a string is one of the supported LOCALES.
+ */
+export const isSupportedLocale = (code: string | null | undefined): code is Locale =>
+  LOCALES.some(locale => locale.code === code);
+
+/**
+ * The language tag for a locale, e.g. "fr" -> "fr-FR", for TMDB's language param and Intl formatting.
+ */
+export const getLocaleLanguage = (locale: Locale): string =>
+  LOCALES.find(entry => entry.code === locale)?.language ?? 'en-US';
+
+/**
+ * Splits the locale prefix off a path.
+ * @param pathname The request path, e.g. "/fr/movie/1".
+ * @returns The locale (or null without a prefix) and the path without the prefix, e.g. "/movie/1".
+ */
+export function splitLocalePath(pathname: string): { locale: Locale | null; pathname: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isSupportedLocale(first)) return { locale: null, pathname };
+  return { locale: first, pathname: `/${rest.join('/')}` };
+}
+
+/**
+ * Adds the locale prefix to a path on this site. The default locale, API routes and anything that isn't
+ * a site path (external URLs, "#top") are returned unchanged.
+ * @param path The unprefixed path, optionally with a query string, e.g. "/search?query=dune".
+ * @param locale The locale to link to.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/api/')) {
+    return path;
+  }
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * Creates the message lookup for a locale. `{name}` placeholders are filled from `values`, and keys
+ * the locale's catalog doesn't translate yet fall back to English.
+ */
+export function createTranslator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (key, values) => {
+    const template = catalog[key] ?? en[key];
+    if (!values) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+  };
+}
+
+/**
+ * Names a region or language in the UI language, e.g. ("region", "DE", "fr-FR") -> "Allemagne".
+ * @param type "region" for ISO 3166-1 codes, "language" for ISO 639-1 codes and language tags.
+ * @param code The code to name.
+ * @param language The UI language tag (see getLocaleLanguage).
+ * @returns The localized name, or the code itself where Intl.DisplayNames is missing or doesn't know it.
+ */
+export function getDisplayName(type: 'region' | 'language', code: string, language: string): string {
+  if (typeof Intl.DisplayNames !== 'function') return code;
+  try {
+    return new Intl.DisplayNames([language], { type, fallback: 'code' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,70 @@
+// lib/images.ts
+// Image gallery helpers shared by the images page (server) and the gallery and lightbox (client).
+
+import { MessageKey } from './messages/en';
+import { TmdbImage, TmdbImages } from './types/tmdb';
+
+export type ImageKind = 'posters' | 'backdrops' | 'logos';
+
+// `single` names one image of the kind, e.g. in "Open poster 3 of Dune"
+export const IMAGE_KINDS: { value: ImageKind; label: MessageKey; single: MessageKey }[] = [
+  { value: 'backdrops', label: 'images.backdrops', single: 'images.backdrop' },
+  { value: 'posters', label: 'images.posters', single: 'images.poster' },
+  { value: 'logos', label: 'images.logos', single: 'images.logo' },
+];
+
+// The sizes TMDB serves for each kind (see /configuration), smallest first.
+export const IMAGE_SIZES: Record<ImageKind, string[]> = {
+  posters: ['w92', 'w154', 'w185', 'w342', 'w500', 'w780', 'original'],
+  backdrops: ['w300', 'w780', 'w1280', 'original'],
+  logos: ['w45', 'w92', 'w154', 'w185', 'w300', 'w500', 'original'],
+};
+
+// Sizes used for grid thumbnails and as the lightbox default
+export const THUMBNAIL_SIZES: Record<ImageKind, string> = { posters: 'w342', backdrops: 'w780', logos: 'w300' };
+export const LIGHTBOX_SIZES: Record<ImageKind, string> = { posters: 'w780', backdrops: 'w1280', logos: 'w500' };
+
+export type ImageAspect = 'landscape' | 'portrait' | 'square';
+
+export const IMAGE_ASPECTS: { value: ImageAspect; label: MessageKey }[] = [
+  { value: 'landscape', label: 'images.landscape' },
+  { value: 'portrait', label: 'images.portrait' },
+  { value: 'square', label: 'images.square' },
+];
+
+/**
+ * Returns the message naming one image of a kind, e.g. "posters" -> "images.poster".
+ */
+export const getImageKindName = (kind: ImageKind): MessageKey =>
+  IMAGE_KINDS.find(({ value }) => value === kind)!.single;
+
+// A gallery image with the kind it came from
+export interface GalleryImage extends TmdbImage {
+  kind: ImageKind;
+}
+
+/**
+ * Classifies an image's shape. Within 10% of 1:1 counts as square.
+ */
+export function getImageAspect(image: TmdbImage): ImageAspect {
+  if (image.aspect_ratio > 1.1) return 'landscape';
+  if (image.aspect_ratio < 0.9) return 'portrait';
+  return 'square';
+}
+
+/**
+ * Flattens TMDB's images response into one list, best voted first within each kind.
+ */
+export function toGalleryImages(images: TmdbImages): GalleryImage[] {
+  return IMAGE_KINDS.flatMap(({ value: kind }) =>
+    [...images[kind]]
+      .sort((a, b) => b.vote_average - a.vote_average || b.vote_count - a.vote_count)
+      .map(image => ({ ...image, kind }))
+  );
+}
+
+/**
+ * The URL that downloads an image at its original resolution, through /api/images/download
+ * (TMDB's image host doesn't send a download header, and browsers ignore `download` on other origins).
+ */
+export const getImageDownloadUrl = (filePath: string) => `/api/images/download?path=${encodeURIComponent(filePath)}`;
@@ -0,0 +1,47 @@
+// lib/import-client.ts
+// Client-side calls to the rating file import and export API.
+
+import { ImportResolution, ImportSaveItem, RatingFileFormat } from './types/import';
+
+/**
+ * Reads an error message from a failed API response.
+ */
+async function getErrorMessage(response: Response): Promise<string> {
+  const data = await response.json().catch(() => null);
+  return data?.error || `Request failed with status ${response.status}`;
+}
+
+/**
+ * Uploads a ratings CSV and gets its rows matched to TMDB titles. Nothing is saved yet.
+ * @param text The file contents.
+ * @throws An Error with the API's message if the file can't be read or matched.
+ */
+export async function resolveImportFile(text: string): Promise<ImportResolution> {
+  const response = await fetch('/api/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: text,
+  });
+  if (!response.ok) throw new Error(await getErrorMessage(response));
+  return response.json();
+}
+
+/**
+ * Saves confirmed titles to the watched log.
+ * @returns How many titles were saved and how many TMDB no longer has.
+ * @throws An Error with the API's message if the request fails.
+ */
+export async function saveImport(items: ImportSaveItem[]): Promise<{ saved: number; skipped: number }> {
+  const response = await fetch('/api/import/save', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items }),
+  });
+  if (!response.ok) throw new Error(await getErrorMessage(response));
+  return response.json();
+}
+
+/**
+ * The URL that downloads the watched log in a rating file format.
+ */
+export const getWatchedLogExportUrl = (format: RatingFileFormat) => `/api/import/export?format=${format}`;
@@ -0,0 +1,86 @@
+// lib/lists-client.ts
+// Client-side calls to the custom lists API. Each call returns the list as saved on the server,
+// so editors can replace their local copy with it.
+
+import { CustomList, ListDetailsUpdate } from './types/lists';
+
+/**
+ * Reads an error message from a failed API response.
+ */
+async function getErrorMessage(response: Response): Promise<string> {
+  const data = await response.json().catch(() => null);
+  return data?.error || `Request failed with status ${response.status}`;
+}
+
+/**
+ * Sends a JSON request to the lists API.
+ * @throws An Error with the API's message if the request fails.
+ */
+async function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(await getErrorMessage(response));
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+const getItemUrl = (listId: string, mediaType: 'movie' | 'tv', id: number) =>
+  `/api/lists/${encodeURIComponent(listId)}/items/${mediaType}/${id}`;
+
+/**
+ * Fetches the signed-in user's lists, most recently updated first.
+ */
+export async function fetchLists(): Promise<CustomList[]> {
+  return (await request<{ lists: CustomList[] }>('/api/lists', 'GET')).lists;
+}
+
+/**
+ * Creates an empty list.
+ */
+export function createList(name: string, description = ''): Promise<CustomList> {
+  return request('/api/lists', 'POST', { name, description });
+}
+
+/**
+ * Renames a list, changes its description, or reorders its items (by item key, see getListItemKey).
+ */
+export function updateList(listId: string, update: ListDetailsUpdate): Promise<CustomList> {
+  return request(`/api/lists/${encodeURIComponent(listId)}`, 'PATCH', update);
+}
+
+/**
+ * Deletes a list.
+ */
+export function deleteList(listId: string): Promise<void> {
+  return request(`/api/lists/${encodeURIComponent(listId)}`, 'DELETE');
+}
+
+/**
+ * Adds a title to a list, or updates its note if it's already there.
+ */
+export function saveListItem(listId: string, mediaType: 'movie' | 'tv', id: number, note?: string): Promise<CustomList> {
+  return request(getItemUrl(listId, mediaType, id), 'PUT', note === undefined ? {} : { note });
+}
+
+/**
+ * Removes a title from a list.
+ */
+export function removeListItem(listId: string, mediaType: 'movie' | 'tv', id: number): Promise<CustomList> {
+  return request(getItemUrl(listId, mediaType, id), 'DELETE');
+}
+
+/**
+ * Creates a list from the contents of an export file.
+ * @param file The parsed JSON of the file (see ListExport); the server validates it.
+ * @returns The new list and how many titles couldn't be found on TMDB.
+ */
+export function importList(file: unknown): Promise<{ list: CustomList; skipped: number }> {
+  return request('/api/lists/import', 'POST', file);
+}
+
+/**
+ * The URL that downloads a list as an export file.
+ */
+export const getListExportUrl = (listId: string) => `/api/lists/${encodeURIComponent(listId)}/export`;
@@ -0,0 +1,14 @@
+// lib/lists.ts
+// Limits and helpers for custom lists, shared by the server and the client.
+
+export const MAX_LIST_NAME_LENGTH = 100;
+export const MAX_LIST_DESCRIPTION_LENGTH = 1000;
+export const MAX_LIST_NOTE_LENGTH = 500;
+export const MAX_LIST_ITEMS = 500;
+
+export const LIST_EXPORT_FORMAT = 'movie-explorer-list';
+
+/**
+ * Builds the key identifying a title on a list, as used in reorder requests (e.g., "movie-603").
+ */
+export const getListItemKey = (item: { mediaType: 'movie' | 'tv'; id: number }) => `${item.mediaType}-${item.id}`;
@@ -0,0 +1,87 @@
+// lib/media-list-pages.ts
+// The browse list pages (/movie/popular, /tv/top-rated, ...), shared by the pages themselves
+// (rendered by MediaListPage) and the Header's Movies and TV Shows menus, which list them in this order.
+
+import { MessageKey } from './messages/en';
+import { MediaListKey } from './types/tmdb';
+
+export interface MediaListPageDefinition {
+  list: MediaListKey; // The TMDB list it shows (see lib/server/media-lists.ts)
+  mediaType: 'movie' | 'tv'; // Picks the Header menu and the genres offered by the grid toolbar
+  path: string;
+  menuLabel: MessageKey; // Short label in the Header menu, e.g. "Top Rated"
+  title: MessageKey;
+  failed: MessageKey;
+  empty: MessageKey;
+}
+
+export const MEDIA_LIST_PAGES: MediaListPageDefinition[] = [
+  {
+    list: 'popular-movies',
+    mediaType: 'movie',
+    path: '/movie/popular',
+    menuLabel: 'nav.popular',
+    title: 'popular.movies',
+    failed: 'popular.moviesFailed',
+    empty: 'popular.noMovies',
+  },
+  {
+    list: 'top-rated-movies',
+    mediaType: 'movie',
+    path: '/movie/top-rated',
+    menuLabel: 'nav.topRated',
+    title: 'browse.topRatedMovies',
+    failed: 'browse.topRatedMoviesFailed',
+    empty: 'browse.noTopRatedMovies',
+  },
+  {
+    list: 'upcoming-movies',
+    mediaType: 'movie',
+    path: '/movie/upcoming',
+    menuLabel: 'nav.upcoming',
+    title: 'browse.upcomingMovies',
+    failed: 'browse.upcomingMoviesFailed',
+    empty: 'browse.noUpcomingMovies',
+  },
+  {
+    list: 'popular-tv',
+    mediaType: 'tv',
+    path: '/tv/popular',
+    menuLabel: 'nav.popular',
+    title: 'popular.tv',
+    failed: 'popular.tvFailed',
+    empty: 'popular.noTv',
+  },
+  {
+    list: 'top-rated-tv',
+    mediaType: 'tv',
+    path: '/tv/top-rated',
+    menuLabel: 'nav.topRated',
+    title: 'browse.topRatedTv',
+    failed: 'browse.topRatedTvFailed',
+    empty: 'browse.noTopRatedTv',
+  },
+  {
+    list: 'airing-today-tv',
+    mediaType: 'tv',
+    path: '/tv/airing-today',
+    menuLabel: 'nav.airingToday',
+    title: 'browse.airingTodayTv',
+    failed: 'browse.airingTodayTvFailed',
+    empty: 'browse.noAiringTodayTv',
+  },
+  {
+    list: 'on-the-air-tv',
+    mediaType: 'tv',
+    path: '/tv/on-the-air',
+    menuLabel: 'nav.onTheAir',
+    title: 'browse.onTheAirTv',
+    failed: 'browse.onTheAirTvFailed',
+    empty: 'browse.noOnTheAirTv',
+  },
+];
+
+/**
+ * Returns the list pages of one media type, in menu order.
+ */
+export const getMediaListPages = (mediaType: 'movie' | 'tv') => MEDIA_LIST_PAGES.filter(page => page.mediaType === mediaType);
@@ -0,0 +1,454 @@
+// lib/messages/de.ts
+// German UI strings. Missing keys fall back to English.
+
+import { MessageKey } from './en';
+
+export const messages: Partial<Record<MessageKey, string>> = {
+  'nav.home': 'Start',
+  'nav.movies': 'Filme',
+  'nav.tvShows': 'Serien',
+  'nav.discover': 'Entdecken',
+  'nav.watchlist': 'Merkliste',
+  'nav.language': 'Sprache',
+  'nav.toggleSearch': 'Suche ein- oder ausblenden',
+  'nav.toggleMenu': 'Menü öffnen oder schließen',
+  'nav.go': 'Los',
+  'nav.goToResults': 'Zu den Suchergebnissen',
+  'nav.moviesMenu': 'Filmlisten',
+  'nav.tvMenu': 'Serienlisten',
+  'nav.popular': 'Beliebt',
+  'nav.topRated': 'Am besten bewertet',
+  'nav.upcoming': 'Demnächst',
+  'nav.airingToday': 'Heute im TV',
+  'nav.onTheAir': 'Diese Woche im TV',
+
+  'account.signIn': 'Anmelden',
+  'account.signOut': 'Abmelden',
+  'account.signedInAs': 'Angemeldet als {username}',
+  'account.menuFor': 'Kontomenü von {username}',
+  'account.myWatchlist': 'Meine Merkliste',
+  'account.myLists': 'Meine Listen',
+  'account.importExport': 'Import & Export',
+  'account.settings': 'Einstellungen',
+  'account.settingsFor': 'Einstellungen ({username})',
+
+  'pagination.previous': 'Zurück',
+  'pagination.next': 'Weiter',
+  'pagination.previousPage': 'Vorherige Seite',
+  'pagination.nextPage': 'Nächste Seite',
+  'pagination.goToPage': 'Zu Seite {page}',
+  'pagination.label': 'Seitennavigation',
+  'pagination.loadMore': 'Mehr laden',
+  'pagination.loading': 'Wird geladen…',
+  'pagination.loadFailed': 'Weitere Titel konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'pagination.retry': 'Erneut versuchen',
+  'pagination.startOver': 'Zurück zu Seite 1',
+  'pagination.end': 'Du hast das Ende der Liste erreicht.',
+  'pagination.noNewMatches': 'Die letzten Seiten hatten keine neuen Treffer.',
+  'pagination.mode': 'Blättern mit',
+  'pagination.modeFailed': 'Deine Auswahl konnte nicht gespeichert werden. Bitte versuche es später erneut.',
+
+  'home.trendingMovies': 'Angesagte Filme',
+  'home.trendingTv': 'Angesagte Serien',
+  'home.trendingAll': 'Gerade angesagt',
+  'home.nowPlayingFailed': 'Die aktuellen Kinofilme konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'home.trendingMoviesFailed': 'Die angesagten Filme konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'home.trendingTvFailed': 'Die angesagten Serien konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'home.trendingAllFailed': 'Die Trends konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'home.noTrendingMovies': 'Keine angesagten Filme gefunden.',
+  'home.noTrendingTv': 'Keine angesagten Serien gefunden.',
+  'home.noTrendingAll': 'Gerade ist nichts angesagt.',
+  'home.trendingWindow': 'Zeitraum der Trends',
+  'home.today': 'Heute',
+  'home.thisWeek': 'Diese Woche',
+  'home.allSectionsHidden': 'Alle Bereiche der Startseite sind ausgeblendet. Wähle in deinen Kontoeinstellungen, was angezeigt werden soll.',
+  'home.moreLikeThese': 'Mehr in dieser Art',
+  'home.moreLikeTheseFailed': 'Die Empfehlungen konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'home.becauseOne': 'Weil du {first} angesehen hast',
+  'home.becauseTwo': 'Weil du {first} und {second} angesehen hast',
+  'home.becauseMany': 'Weil du {first}, {second} und {count} weitere angesehen hast',
+  'home.aRecentTitle': 'einen kürzlich angesehenen Titel',
+  'home.carouselLoading': 'Karussell wird geladen...',
+  'home.carouselEmpty': 'Keine Filme für das Karussell verfügbar.',
+
+  'popular.movies': 'Beliebte Filme',
+  'popular.tv': 'Beliebte Serien',
+  'popular.moviesFailed': 'Die beliebten Filme konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'popular.tvFailed': 'Die beliebten Serien konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'popular.noMovies': 'Keine beliebten Filme gefunden.',
+  'popular.noTv': 'Keine beliebten Serien gefunden.',
+
+  'browse.topRatedMovies': 'Am besten bewertete Filme',
+  'browse.upcomingMovies': 'Demnächst im Kino',
+  'browse.topRatedTv': 'Am besten bewertete Serien',
+  'browse.airingTodayTv': 'Heute im TV',
+  'browse.onTheAirTv': 'Diese Woche im TV',
+  'browse.topRatedMoviesFailed': 'Die am besten bewerteten Filme konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'browse.upcomingMoviesFailed': 'Die kommenden Filme konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'browse.topRatedTvFailed': 'Die am besten bewerteten Serien konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'browse.airingTodayTvFailed': 'Die heute laufenden Serien konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'browse.onTheAirTvFailed': 'Die diese Woche laufenden Serien konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'browse.noTopRatedMovies': 'Keine Filme gefunden.',
+  'browse.noUpcomingMovies': 'Keine kommenden Filme gefunden.',
+  'browse.noTopRatedTv': 'Keine Serien gefunden.',
+  'browse.noAiringTodayTv': 'Heute läuft keine Serie.',
+  'browse.noOnTheAirTv': 'Diese Woche läuft keine Serie.',
+
+  'search.resultsFor': 'Suchergebnisse für „{query}“',
+  'search.enterTerm': 'Gib oben einen Suchbegriff ein, um Filme, Serien oder Personen zu finden.',
+  'search.tabAll': 'Alle',
+  'search.tabMovies': 'Filme',
+  'search.tabTv': 'Serien',
+  'search.tabPeople': 'Personen',
+  'search.year': 'Jahr',
+  'search.anyYear': 'Alle',
+  'search.includeAdult': 'Inhalte für Erwachsene einbeziehen',
+  'search.apply': 'Anwenden',
+  'search.yearIgnored': 'TMDB kann nur Filme und Serien nach Jahr filtern, daher ignoriert dieser Tab das Jahr.',
+  'search.failed': 'Die Suchergebnisse konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'search.noResults': 'Keine Ergebnisse für „{query}“. Versuche einen anderen Suchbegriff.',
+  'search.noMovies': 'Keine Filme für „{query}“. Versuche einen anderen Suchbegriff.',
+  'search.noTv': 'Keine Serien für „{query}“. Versuche einen anderen Suchbegriff.',
+  'search.noPeople': 'Keine Personen für „{query}“. Versuche einen anderen Suchbegriff.',
+  'search.resultTypes': 'Ergebnistypen',
+
+  'discover.title': 'Entdecken',
+  'discover.moviesFound': '{count} Filme gefunden',
+  'discover.tvFound': '{count} Serien gefunden',
+  'discover.moviesFailed': 'Die Filme konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'discover.tvFailed': 'Die Serien konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'discover.noMatches': 'Nichts passt zu diesen Filtern. Versuche, sie zu lockern.',
+  'discover.sortPopularity': 'Am beliebtesten',
+  'discover.sortRating': 'Am besten bewertet',
+  'discover.sortDate': 'Neueste',
+  'discover.sortTitle': 'Titel (A-Z)',
+  'discover.description': 'Finde Filme und Serien nach Genre, Jahr, Bewertung, Laufzeit, Sprache und Streamingdienst.',
+  'discover.genres': 'Genres',
+  'discover.genresHint': 'Einmal klicken, um ein Genre vorauszusetzen, zweimal, um es auszuschließen, und noch einmal zum Zurücksetzen.',
+  'discover.releaseYear': 'Erscheinungsjahr',
+  'discover.firstAired': 'Erstausstrahlung',
+  'discover.from': 'Von',
+  'discover.to': 'Bis',
+  'discover.fromYear': 'Ab Jahr',
+  'discover.toYear': 'Bis Jahr',
+  'discover.runtime': 'Laufzeit (Minuten)',
+  'discover.min': 'Min.',
+  'discover.max': 'Max.',
+  'discover.minRuntime': 'Mindestlaufzeit',
+  'discover.maxRuntime': 'Höchstlaufzeit',
+  'discover.minRating': 'Mindestbewertung: {rating}',
+  'discover.any': 'Beliebig',
+  'discover.minVotes': 'Mindestanzahl an Stimmen',
+  'discover.onMyServices': 'Nur bei meinen Streamingdiensten',
+  'discover.pickServices': 'Wähle deine Dienste in den Einstellungen, um diesen Filter zu nutzen.',
+  'discover.signInForServices': 'Melde dich an und wähle deine Dienste, um diesen Filter zu nutzen.',
+  'discover.apply': 'Filter anwenden',
+
+  'details.overview': 'Handlung',
+  'details.noOverview': 'Keine Beschreibung verfügbar.',
+  'details.seasonsCount': '{count} Staffeln',
+  'details.episodesCount': '{count} Folgen',
+  'details.runtime': '{count} Min.',
+  'details.productionCompanies': 'Produktionsfirmen:',
+  'details.seasons': 'Staffeln:',
+  'details.season': 'Staffel {number}',
+  'details.recommended': 'Empfehlungen',
+  'details.similar': 'Ähnliche Titel',
+  'details.tabsLabel': 'Bereiche des Titels',
+  'details.tabOverview': 'Übersicht',
+  'details.tabImages': 'Bilder',
+  'details.imagesFailed': 'Die Bilder konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'details.failed': 'Die Details konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'details.metaDescription': 'Details zu {title} auf Movie Explorer.',
+  'details.backdropAlt': 'Hintergrundbild von {title}',
+  'details.posterAlt': 'Poster von {title}',
+
+  'grid.toolbarLabel': 'Titel sortieren und filtern',
+  'grid.sortBy': 'Sortieren nach',
+  'grid.sortDefault': 'Standardreihenfolge',
+  'grid.sortRating': 'Am besten bewertet',
+  'grid.sortVotes': 'Meiste Stimmen',
+  'grid.sortDate': 'Neueste',
+  'grid.sortTitle': 'Titel (A-Z)',
+  'grid.genre': 'Genre',
+  'grid.anyGenre': 'Alle Genres',
+  'grid.minRating': 'Bewertung',
+  'grid.anyRating': 'Alle Bewertungen',
+  'grid.ratingAtLeast': '{rating}+',
+  'grid.year': 'Jahr',
+  'grid.anyYear': 'Alle Jahre',
+  'grid.language': 'Originalsprache',
+  'grid.anyLanguage': 'Alle Sprachen',
+  'grid.apply': 'Anwenden',
+  'grid.reset': 'Zurücksetzen',
+  'grid.noListMatches': 'Keine Titel passen zu deinen Filtern.',
+
+  'person.biography': 'Biografie',
+  'person.noBiography': 'Keine Biografie verfügbar.',
+  'person.filmography': 'Filmografie',
+  'person.filmographyFailed': 'Die Filmografie konnte nicht geladen werden. Bitte versuche es später erneut.',
+  'person.noCredits': 'Keine Mitwirkungen gefunden.',
+  'person.metaDescription': 'Filmografie von {name} auf Movie Explorer.',
+
+  'notFound.title': 'Seite nicht gefunden',
+  'notFound.message': 'Wir konnten den Film, die Serie oder die Seite, die du suchst, nicht finden.',
+  'notFound.backHome': 'Zur Startseite',
+
+  'typeahead.placeholder': 'Filme, Serien oder Personen suchen...',
+  'typeahead.suggestions': 'Suchvorschläge',
+  'typeahead.recent': 'Letzte Suchen',
+  'typeahead.searchingFor': 'Suche nach „{term}“',
+  'typeahead.seeAll': 'Alle Ergebnisse für „{term}“',
+  'typeahead.removeRecent': '„{term}“ aus den letzten Suchen entfernen',
+
+  'auth.username': 'Benutzername',
+  'auth.password': 'Passwort',
+  'auth.createAccount': 'Konto erstellen',
+  'auth.noAccount': 'Noch kein Konto?',
+  'auth.haveAccount': 'Du hast schon ein Konto?',
+  'auth.createOne': 'Jetzt erstellen',
+  'auth.invalidCredentials': 'Benutzername oder Passwort ist falsch.',
+  'auth.usernameTaken': 'Der Benutzername „{username}“ ist schon vergeben.',
+  'auth.requirements': 'Benutzernamen bestehen aus 3 bis 32 Buchstaben, Ziffern, Punkten, Binde- oder Unterstrichen, Passwörter aus mindestens {min} Zeichen.',
+  'auth.failed': 'Etwas ist schiefgelaufen. Bitte versuche es später erneut.',
+  'auth.signInTitle': 'Anmelden',
+  'auth.signInDescription': 'Melde dich bei deinem Movie-Explorer-Konto an.',
+  'auth.registerTitle': 'Konto erstellen',
+  'auth.registerDescription': 'Erstelle ein Movie-Explorer-Konto für deine eigene Merkliste und Einstellungen.',
+
+  'settings.description': 'Wähle Region, Sprache, Streamingdienste, Trailersprache und die Bereiche der Startseite.',
+  'settings.region': 'Region',
+  'settings.language': 'Sprache',
+  'settings.featuredTrailer': 'Hervorgehobener Trailer',
+  'settings.trailerDubbed': 'In meiner Sprache, falls verfügbar',
+  'settings.trailerOriginal': 'In der Originalsprache',
+  'settings.pagination': 'Trends und Listen durchblättern',
+  'settings.paginationPages': 'Nummerierte Seiten',
+  'settings.paginationLoadMore': 'Eine Schaltfläche „Mehr laden“',
+  'settings.paginationInfinite': 'Beim Scrollen nachladen',
+  'settings.includeAdult': 'Titel für Erwachsene in Suche und Entdecken anzeigen',
+  'settings.homeSections': 'Bereiche der Startseite',
+  'settings.sectionNowPlaying': 'Karussell „Jetzt im Kino“',
+  'settings.sectionMoreLikeThese': 'Mehr wie zuletzt angesehen',
+  'settings.sectionTrendingMovies': 'Angesagte Filme',
+  'settings.sectionTrendingTv': 'Angesagte Serien',
+  'settings.sectionTrendingAll': 'Angesagte Filme, Serien und Personen',
+  'settings.showSection': '{section} anzeigen',
+  'settings.moveUp': '{section} nach oben',
+  'settings.moveDown': '{section} nach unten',
+  'settings.streamingServices': 'Meine Streamingdienste',
+  'settings.servicesHint': 'Werden auf Detailseiten hervorgehoben und vom Filter „Nur bei meinen Diensten“ in Entdecken genutzt. Das sind die Dienste in {region}; speichere eine andere Region, um ihre Dienste zu sehen.',
+  'settings.showAllServices': 'Alle {count} Dienste anzeigen',
+  'settings.servicesFailed': 'Die Streamingdienste konnten gerade nicht geladen werden.',
+  'settings.save': 'Einstellungen speichern',
+  'settings.saved': 'Einstellungen gespeichert.',
+  'settings.saveFailed': 'Die Einstellungen konnten nicht gespeichert werden. Bitte versuche es später erneut.',
+
+  'import.sortFile': 'Reihenfolge in der Datei',
+  'import.sortRating': 'Deine Bewertung',
+  'import.sortWatched': 'Zuletzt gesehen',
+  'import.readFailed': 'Die Datei konnte nicht gelesen werden. Prüfe, ob es ein Bewertungsexport von Letterboxd oder IMDb ist, und versuche es erneut.',
+  'import.saveFailed': 'Die importierten Titel konnten nicht gespeichert werden. Bitte versuche es später erneut.',
+  'import.savedOne': '{count} Titel in deinem Gesehen-Protokoll gespeichert.',
+  'import.savedMany': '{count} Titel in deinem Gesehen-Protokoll gespeichert.',
+  'import.skipped': '{count} gibt es auf TMDB nicht mehr.',
+  'import.matching': 'Titel werden abgeglichen...',
+  'import.chooseFile': 'CSV-Datei auswählen',
+  'import.letterboxdHint': 'Letterboxd: Settings → Import & Export → Export your data, dann ratings.csv oder diary.csv auswählen.',
+  'import.imdbHint': 'IMDb: Your Ratings → Export.',
+  'import.viewWatched': 'Dein Gesehen-Protokoll ansehen',
+  'import.summary': '{format}-Datei: {matched} zugeordnet · {review} zu prüfen · {unmatched} nicht gefunden',
+  'import.ignored': '{count} ignoriert (Episoden und andere Titel, die wir nicht erfassen)',
+  'import.pickTitle': 'Wähle den richtigen Titel',
+  'import.row': 'Zeile {line}',
+  'import.noneOfThese': 'Keiner davon',
+  'import.notFoundOne': '{count} Titel auf TMDB nicht gefunden',
+  'import.notFoundMany': '{count} Titel auf TMDB nicht gefunden',
+  'import.matchedTitles': 'Zugeordnete Titel',
+  'import.saving': 'Wird gespeichert...',
+  'import.save': '{count} im Gesehen-Protokoll speichern',
+  'import.skip': 'Nicht importieren',
+  'import.skipTitle': '{title} nicht importieren',
+  'import.noMatches': 'Noch keine zugeordneten Titel.',
+  'import.rowTitle': 'Zeile {line}: {title}',
+  'import.metaTitle': 'Bewertungen importieren und exportieren',
+  'import.description': 'Übernimm deine Letterboxd- oder IMDb-Bewertungen in dein Gesehen-Protokoll oder exportiere sie wieder.',
+  'import.title': 'Bewertungen importieren',
+  'import.intro': 'Lade eine CSV-Datei mit Letterboxd- oder IMDb-Bewertungen hoch. Jeder Titel wird TMDB zugeordnet und mit seiner Bewertung in deinem Gesehen-Protokoll gespeichert.',
+  'import.exportTitle': 'Dein Gesehen-Protokoll exportieren',
+  'import.exportHint': 'Die Letterboxd-Datei nutzt das Importformat von Letterboxd und enthält nur Filme. Die IMDb-Datei hat die Spalten des IMDb-Bewertungsexports.',
+
+  'lists.loadFailed': 'Deine Listen konnten nicht geladen werden. Bitte versuche es später erneut.',
+  'lists.updateFailed': 'Die Liste konnte nicht aktualisiert werden. Bitte versuche es später erneut.',
+  'lists.createFailed': 'Die Liste konnte nicht erstellt werden. Bitte versuche es später erneut.',
+  'lists.importFailed': 'Die Liste konnte nicht importiert werden. Prüfe, ob die Datei ein Movie-Explorer-Listenexport ist, und versuche es erneut.',
+  'lists.addToList': 'Zu Liste hinzufügen',
+  'lists.loading': 'Deine Listen werden geladen...',
+  'lists.none': 'Du hast noch keine Listen.',
+  'lists.newListName': 'Name der neuen Liste',
+  'lists.createWithTitle': 'Liste mit diesem Titel erstellen',
+  'lists.manage': 'Deine Listen verwalten',
+  'lists.detailsSaved': 'Listendetails gespeichert.',
+  'lists.confirmDelete': '„{name}“ löschen? Der Link zum Teilen funktioniert dann nicht mehr.',
+  'lists.linkCopied': 'Link zum Teilen kopiert.',
+  'lists.shareLink': 'Link zum Teilen: {url}',
+  'lists.name': 'Name der Liste',
+  'lists.description': 'Beschreibung der Liste',
+  'lists.descriptionPlaceholder': 'Beschreibung (optional)',
+  'lists.namePlaceholder': 'Name, z. B. „Horrorabend am Freitag“',
+  'lists.saveDetails': 'Details speichern',
+  'lists.copyLink': 'Link zum Teilen kopieren',
+  'lists.exportJson': 'Als JSON exportieren',
+  'lists.delete': 'Liste löschen',
+  'lists.emptyEditor': 'Diese Liste ist leer. Füge Filme oder Serien über die Schaltfläche „Zu Liste hinzufügen“ hinzu.',
+  'lists.notePlaceholder': 'Notiz hinzufügen (wird beim Verlassen des Felds gespeichert)',
+  'lists.noteFor': 'Notiz zu {title}',
+  'lists.moveUp': '{title} nach oben',
+  'lists.moveDown': '{title} nach unten',
+  'lists.removeTitle': '{title} von der Liste entfernen',
+  'lists.importedOne': '„{name}“ mit {count} Titel importiert.',
+  'lists.importedMany': '„{name}“ mit {count} Titeln importiert.',
+  'lists.importSkipped': '{count} wurden nicht gefunden oder waren doppelt.',
+  'lists.create': 'Liste erstellen',
+  'lists.createButton': 'Liste erstellen',
+  'lists.importFile': 'Aus Datei importieren',
+  'lists.yourLists': 'Deine Listen',
+  'lists.noListsYet': 'Noch keine Listen. Erstelle oben eine oder nutze die Schaltfläche „Zu Liste hinzufügen“ bei Filmen und Serien.',
+  'lists.titleCountOne': '{count} Titel',
+  'lists.titleCountMany': '{count} Titel',
+  'lists.updated': 'Aktualisiert am {date}',
+  'lists.view': 'Ansehen',
+  'lists.edit': 'Bearbeiten',
+  'lists.viewName': '{name} ansehen',
+  'lists.editName': '{name} bearbeiten',
+  'lists.metaDescription': 'Deine eigenen Listen mit Filmen und Serien.',
+  'lists.editTitle': 'Liste bearbeiten',
+  'lists.allLists': 'Alle Listen',
+  'lists.viewSharePage': 'Seite zum Teilen ansehen',
+  'lists.metaCurated': '{count} Titel, ausgewählt von {owner} auf Movie Explorer.',
+  'lists.by': 'Eine Liste von {owner}',
+  'lists.unknownOwner': 'Unbekannter Nutzer',
+  'lists.empty': 'Diese Liste ist leer.',
+
+  'watchlist.description': 'Titel, die du sehen willst, und alles, was du gesehen hast, mit deinen Bewertungen.',
+  'watchlist.loadFailed': 'Deine Merkliste konnte nicht geladen werden. Bitte versuche es später erneut.',
+  'watchlist.updateFailed': 'Die Merkliste konnte nicht aktualisiert werden. Bitte versuche es später erneut.',
+  'watchlist.empty': 'Noch nichts gespeichert. Nutze die Lesezeichen- und Augen-Schaltflächen bei Filmen und Serien, um deine Merkliste aufzubauen.',
+  'watchlist.counts': '{toWatch} zu sehen · {watched} gesehen',
+  'watchlist.type': 'Typ',
+  'watchlist.status': 'Status',
+  'watchlist.all': 'Alle',
+  'watchlist.toWatch': 'Zu sehen',
+  'watchlist.watched': 'Gesehen',
+  'watchlist.watchedOn': 'Gesehen am {date}',
+  'watchlist.watchedOnLabel': 'Gesehen am',
+  'watchlist.noMatches': 'Keine gespeicherten Titel passen zu diesen Filtern.',
+  'watchlist.sortAdded': 'Zuletzt hinzugefügt',
+  'watchlist.sortTmdb': 'TMDB-Bewertung',
+  'watchlist.sortRelease': 'Erscheinungsdatum',
+  'watchlist.signIn': 'Melde dich an, um deine Merkliste zu nutzen',
+  'watchlist.signInToAdd': 'Melde dich an, um {title} auf deine Merkliste zu setzen',
+  'watchlist.thisTitle': 'diesen Titel',
+  'watchlist.onWatchlist': 'Auf deiner Merkliste',
+  'watchlist.add': 'Auf die Merkliste',
+  'watchlist.addTitle': '{title} auf deine Merkliste setzen',
+  'watchlist.removeTitle': '{title} von deiner Merkliste entfernen',
+  'watchlist.removeShort': 'Von der Merkliste entfernen',
+  'watchlist.remove': 'Entfernen',
+  'watchlist.removeEverywhere': 'Von Merkliste und Gesehen-Verlauf entfernen',
+  'watchlist.markWatched': 'Als gesehen markieren',
+  'watchlist.markNotWatched': 'Als nicht gesehen markieren',
+  'watchlist.markTitleWatched': '{title} als gesehen markieren',
+  'watchlist.markTitleNotWatched': '{title} als nicht gesehen markieren',
+  'watchlist.notRated': 'Nicht bewertet',
+
+  'images.backdrops': 'Hintergründe',
+  'images.posters': 'Poster',
+  'images.logos': 'Logos',
+  'images.backdrop': 'Hintergrund',
+  'images.poster': 'Poster',
+  'images.logo': 'Logo',
+  'images.landscape': 'Querformat',
+  'images.portrait': 'Hochformat',
+  'images.square': 'Fast quadratisch',
+  'images.noText': 'Ohne Text',
+  'images.language': 'Sprache des Bilds',
+  'images.allLanguages': 'Alle Sprachen',
+  'images.shape': 'Bildformat',
+  'images.anyShape': 'Beliebiges Format',
+  'images.open': '{kind} {number} von {title} öffnen',
+  'images.noMatches': 'Keine Bilder passen zu diesen Filtern.',
+  'images.position': 'Bild {number} von {total}',
+  'images.size': 'Größe',
+  'images.original': 'Original',
+  'images.width': '{width} px breit',
+  'images.download': 'Original herunterladen',
+  'images.close': 'Ansicht schließen',
+  'images.alt': '{kind} {number}',
+  'images.previous': 'Vorheriges Bild',
+  'images.next': 'Nächstes Bild',
+  'images.metaTitle': 'Bilder: {title}',
+  'images.metaDescription': 'Poster, Hintergrundbilder und Logos von {title} auf Movie Explorer.',
+
+  'videos.title': 'Trailer & Videos',
+  'videos.play': '{name} abspielen',
+  'videos.noTrailer': 'Kein offizieller Trailer verfügbar.',
+  'videos.noTrailerFor': 'Leider gibt es für {title} noch keinen Trailer.',
+  'videos.all': 'Alle Videos',
+  'videos.language': 'Sprache des Videos',
+  'videos.noLanguage': 'Ohne Sprache',
+  'videos.noneInLanguage': 'Keine Videos dieser Art auf {language}.',
+  'videos.trailers': 'Trailer',
+  'videos.teasers': 'Teaser',
+  'videos.clips': 'Clips',
+  'videos.featurettes': 'Featurettes',
+  'videos.behindTheScenes': 'Hinter den Kulissen',
+  'videos.more': 'Mehr',
+  'videos.close': 'Video schließen',
+
+  'credits.creator': 'Idee',
+  'credits.creators': 'Idee',
+  'credits.director': 'Regie',
+  'credits.directors': 'Regie',
+  'credits.writer': 'Drehbuch',
+  'credits.writers': 'Drehbuch',
+  'credits.topCast': 'Hauptbesetzung',
+
+  'providers.title': 'Wo ansehen',
+  'providers.stream': 'Stream',
+  'providers.free': 'Gratis',
+  'providers.rent': 'Leihen',
+  'providers.buy': 'Kaufen',
+  'providers.regionFailed': 'Deine Region konnte nicht gespeichert werden. Bitte versuche es später erneut.',
+  'providers.yours': '{name} (einer deiner Dienste)',
+  'providers.attribution': 'Verfügbarkeitsdaten von JustWatch über TMDB.',
+  'providers.allOffers': 'Alle Angebote',
+  'providers.unavailable': '{title} ist in {region} gerade weder im Stream noch zum Leihen oder Kaufen verfügbar.',
+
+  'season.metaDescription': 'Alle Episoden von {show} {season}.',
+  'season.backTo': 'Zurück zu {show}',
+  'season.posterAlt': 'Poster von {show} {season}',
+  'season.episodes': 'Episoden',
+  'season.noEpisodes': 'Noch keine Episoden angekündigt.',
+  'season.stillAlt': 'Standbild aus {name}',
+
+  'episode.backTo': 'Zurück zu {show} Staffel {number}',
+  'episode.guestStars': 'Gaststars',
+  'episode.upcoming': 'Nächste Folge',
+  'episode.latest': 'Neueste Folge',
+  'episode.airs': 'Läuft am {date}',
+  'episode.aired': 'Lief am {date}',
+
+  'app.name': 'Movie Explorer',
+  'app.description': 'Entdecke Filme und Serien, gebaut mit Next.js und der TMDB-API',
+
+  'common.notAvailable': 'k. A.',
+  'common.movie': 'Film',
+  'common.tvShow': 'Serie',
+  'common.person': 'Person',
+  'common.untitled': 'Ohne Titel',
+  'common.poster': 'Poster',
+  'common.profilePhoto': 'Profilfoto',
+  'common.imageUnavailable': 'Bild nicht verfügbar',
+  'common.viewDetails': 'Details ansehen',
+};
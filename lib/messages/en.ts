@@ -0,0 +1,454 @@
+// lib/messages/en.ts
+// English UI strings. This catalog defines every message key; the other locales translate a subset.
+
+export const messages = {
+  'nav.home': 'Home',
+  'nav.movies': 'Movies',
+  'nav.tvShows': 'TV Shows',
+  'nav.discover': 'Discover',
+  'nav.watchlist': 'Watchlist',
+  'nav.language': 'Language',
+  'nav.toggleSearch': 'Toggle search input',
+  'nav.toggleMenu': 'Toggle mobile menu',
+  'nav.go': 'Go',
+  'nav.goToResults': 'Go to search results',
+  'nav.moviesMenu': 'Movie lists',
+  'nav.tvMenu': 'TV show lists',
+  'nav.popular': 'Popular',
+  'nav.topRated': 'Top Rated',
+  'nav.upcoming': 'Upcoming',
+  'nav.airingToday': 'Airing Today',
+  'nav.onTheAir': 'On TV This Week',
+
+  'account.signIn': 'Sign in',
+  'account.signOut': 'Sign out',
+  'account.signedInAs': 'Signed in as {username}',
+  'account.menuFor': 'Account menu for {username}',
+  'account.myWatchlist': 'My Watchlist',
+  'account.myLists': 'My Lists',
+  'account.importExport': 'Import & Export',
+  'account.settings': 'Settings',
+  'account.settingsFor': 'Settings ({username})',
+
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+  'pagination.previousPage': 'Previous page',
+  'pagination.nextPage': 'Next page',
+  'pagination.goToPage': 'Go to page {page}',
+  'pagination.label': 'Pagination',
+  'pagination.loadMore': 'Load more',
+  'pagination.loading': 'Loading…',
+  'pagination.loadFailed': 'Failed to load more titles. Please try again later.',
+  'pagination.retry': 'Try again',
+  'pagination.startOver': 'Back to page 1',
+  'pagination.end': "You've reached the end of the list.",
+  'pagination.noNewMatches': 'The last pages had no new matches.',
+  'pagination.mode': 'Browse by',
+  'pagination.modeFailed': 'Failed to save your choice. Please try again later.',
+
+  'home.trendingMovies': 'Trending Movies',
+  'home.trendingTv': 'Trending TV Shows',
+  'home.trendingAll': 'Trending Now',
+  'home.nowPlayingFailed': 'Failed to fetch now playing movies. Please try again later.',
+  'home.trendingMoviesFailed': 'Failed to fetch trending movies. Please try again later.',
+  'home.trendingTvFailed': 'Failed to fetch trending TV shows. Please try again later.',
+  'home.trendingAllFailed': 'Failed to fetch trending titles and people. Please try again later.',
+  'home.noTrendingMovies': 'No trending movies found.',
+  'home.noTrendingTv': 'No trending TV shows found.',
+  'home.noTrendingAll': 'Nothing is trending right now.',
+  'home.trendingWindow': 'Trending period',
+  'home.today': 'Today',
+  'home.thisWeek': 'This Week',
+  'home.allSectionsHidden': 'Every home page section is hidden. Choose what to show in your account settings.',
+  'home.moreLikeThese': 'More Like These',
+  'home.moreLikeTheseFailed': 'Failed to fetch recommendations. Please try again later.',
+  'home.becauseOne': 'Because you viewed {first}',
+  'home.becauseTwo': 'Because you viewed {first} and {second}',
+  'home.becauseMany': 'Because you viewed {first}, {second} and {count} more',
+  'home.aRecentTitle': 'a recent title',
+  'home.carouselLoading': 'Loading Carousel...',
+  'home.carouselEmpty': 'No movies available for the carousel.',
+
+  'popular.movies': 'Popular Movies',
+  'popular.tv': 'Popular TV Shows',
+  'popular.moviesFailed': 'Failed to fetch popular movies. Please try again later.',
+  'popular.tvFailed': 'Failed to fetch popular TV shows. Please try again later.',
+  'popular.noMovies': 'No popular movies found.',
+  'popular.noTv': 'No popular TV shows found.',
+
+  'browse.topRatedMovies': 'Top Rated Movies',
+  'browse.upcomingMovies': 'Upcoming Movies',
+  'browse.topRatedTv': 'Top Rated TV Shows',
+  'browse.airingTodayTv': 'TV Shows Airing Today',
+  'browse.onTheAirTv': 'On TV This Week',
+  'browse.topRatedMoviesFailed': 'Failed to fetch top rated movies. Please try again later.',
+  'browse.upcomingMoviesFailed': 'Failed to fetch upcoming movies. Please try again later.',
+  'browse.topRatedTvFailed': 'Failed to fetch top rated TV shows. Please try again later.',
+  'browse.airingTodayTvFailed': 'Failed to fetch TV shows airing today. Please try again later.',
+  'browse.onTheAirTvFailed': 'Failed to fetch TV shows on the air this week. Please try again later.',
+  'browse.noTopRatedMovies': 'No top rated movies found.',
+  'browse.noUpcomingMovies': 'No upcoming movies found.',
+  'browse.noTopRatedTv': 'No top rated TV shows found.',
+  'browse.noAiringTodayTv': 'No TV shows are airing today.',
+  'browse.noOnTheAirTv': 'No TV shows are airing this week.',
+
+  'search.resultsFor': 'Search Results for "{query}"',
+  'search.enterTerm': 'Enter a search term in the header to find movies, TV shows or people.',
+  'search.tabAll': 'All',
+  'search.tabMovies': 'Movies',
+  'search.tabTv': 'TV Shows',
+  'search.tabPeople': 'People',
+  'search.year': 'Year',
+  'search.anyYear': 'Any',
+  'search.includeAdult': 'Include adult titles',
+  'search.apply': 'Apply',
+  'search.yearIgnored': 'TMDB can only filter movies and TV shows by year, so this tab ignores it.',
+  'search.failed': 'Failed to fetch search results. Please try again later.',
+  'search.noResults': 'No results found for "{query}". Try a different search term.',
+  'search.noMovies': 'No movies found for "{query}". Try a different search term.',
+  'search.noTv': 'No TV shows found for "{query}". Try a different search term.',
+  'search.noPeople': 'No people found for "{query}". Try a different search term.',
+  'search.resultTypes': 'Result types',
+
+  'discover.title': 'Discover',
+  'discover.moviesFound': '{count} movies found',
+  'discover.tvFound': '{count} TV shows found',
+  'discover.moviesFailed': 'Failed to fetch movies. Please try again later.',
+  'discover.tvFailed': 'Failed to fetch TV shows. Please try again later.',
+  'discover.noMatches': 'Nothing matches these filters. Try loosening them.',
+  'discover.sortPopularity': 'Most Popular',
+  'discover.sortRating': 'Highest Rated',
+  'discover.sortDate': 'Newest',
+  'discover.sortTitle': 'Title (A-Z)',
+  'discover.description': 'Find movies and TV shows by genre, year, rating, runtime, language and streaming service.',
+  'discover.genres': 'Genres',
+  'discover.genresHint': 'Click once to require a genre, twice to exclude it, and again to clear.',
+  'discover.releaseYear': 'Release year',
+  'discover.firstAired': 'First aired',
+  'discover.from': 'From',
+  'discover.to': 'To',
+  'discover.fromYear': 'From year',
+  'discover.toYear': 'To year',
+  'discover.runtime': 'Runtime (minutes)',
+  'discover.min': 'Min',
+  'discover.max': 'Max',
+  'discover.minRuntime': 'Minimum runtime',
+  'discover.maxRuntime': 'Maximum runtime',
+  'discover.minRating': 'Minimum rating: {rating}',
+  'discover.any': 'Any',
+  'discover.minVotes': 'Minimum votes',
+  'discover.onMyServices': 'Only on my streaming services',
+  'discover.pickServices': 'Pick your services in settings to use this filter.',
+  'discover.signInForServices': 'Sign in and pick your services to use this filter.',
+  'discover.apply': 'Apply Filters',
+
+  'details.overview': 'Overview',
+  'details.noOverview': 'No overview available.',
+  'details.seasonsCount': '{count} seasons',
+  'details.episodesCount': '{count} episodes',
+  'details.runtime': '{count} mins',
+  'details.productionCompanies': 'Production Companies:',
+  'details.seasons': 'Seasons:',
+  'details.season': 'Season {number}',
+  'details.recommended': 'Recommended',
+  'details.similar': 'Similar',
+  'details.tabsLabel': 'Title sections',
+  'details.tabOverview': 'Overview',
+  'details.tabImages': 'Images',
+  'details.imagesFailed': 'Failed to fetch images. Please try again later.',
+  'details.failed': 'Failed to load details. Please try again later.',
+  'details.metaDescription': 'Details for {title} on Movie Explorer.',
+  'details.backdropAlt': '{title} Backdrop',
+  'details.posterAlt': '{title} Poster',
+
+  'grid.toolbarLabel': 'Sort and filter titles',
+  'grid.sortBy': 'Sort by',
+  'grid.sortDefault': 'Default order',
+  'grid.sortRating': 'Highest rated',
+  'grid.sortVotes': 'Most votes',
+  'grid.sortDate': 'Newest',
+  'grid.sortTitle': 'Title (A-Z)',
+  'grid.genre': 'Genre',
+  'grid.anyGenre': 'Any genre',
+  'grid.minRating': 'Rating',
+  'grid.anyRating': 'Any rating',
+  'grid.ratingAtLeast': '{rating}+',
+  'grid.year': 'Year',
+  'grid.anyYear': 'Any year',
+  'grid.language': 'Original language',
+  'grid.anyLanguage': 'Any language',
+  'grid.apply': 'Apply',
+  'grid.reset': 'Reset',
+  'grid.noListMatches': 'No titles match your filters.',
+
+  'person.biography': 'Biography',
+  'person.noBiography': 'No biography available.',
+  'person.filmography': 'Filmography',
+  'person.filmographyFailed': 'Failed to fetch filmography. Please try again later.',
+  'person.noCredits': 'No credits found.',
+  'person.metaDescription': 'Filmography of {name} on Movie Explorer.',
+
+  'notFound.title': 'Page not found',
+  'notFound.message': "We couldn't find the movie, TV show or page you were looking for.",
+  'notFound.backHome': 'Back to Home',
+
+  'typeahead.placeholder': 'Search movies, TV shows or people...',
+  'typeahead.suggestions': 'Search suggestions',
+  'typeahead.recent': 'Recent searches',
+  'typeahead.searchingFor': 'Searching for "{term}"',
+  'typeahead.seeAll': 'See all results for "{term}"',
+  'typeahead.removeRecent': 'Remove "{term}" from recent searches',
+
+  'auth.username': 'Username',
+  'auth.password': 'Password',
+  'auth.createAccount': 'Create account',
+  'auth.noAccount': "Don't have an account?",
+  'auth.haveAccount': 'Already have an account?',
+  'auth.createOne': 'Create one',
+  'auth.invalidCredentials': 'Invalid username or password.',
+  'auth.usernameTaken': 'The username "{username}" is already taken.',
+  'auth.requirements': 'Usernames are 3-32 letters, digits, dots, dashes or underscores, and passwords need at least {min} characters.',
+  'auth.failed': 'Something went wrong. Please try again later.',
+  'auth.signInTitle': 'Sign In',
+  'auth.signInDescription': 'Sign in to your Movie Explorer account.',
+  'auth.registerTitle': 'Create Account',
+  'auth.registerDescription': 'Create a Movie Explorer account to keep your own watchlist and settings.',
+
+  'settings.description': 'Choose your region, language, streaming services, trailer language and home page sections.',
+  'settings.region': 'Region',
+  'settings.language': 'Language',
+  'settings.featuredTrailer': 'Featured trailer',
+  'settings.trailerDubbed': 'In my language when available',
+  'settings.trailerOriginal': 'In the original language',
+  'settings.pagination': 'Browsing trending titles and lists',
+  'settings.paginationPages': 'Numbered pages',
+  'settings.paginationLoadMore': 'A "Load more" button',
+  'settings.paginationInfinite': 'Load more as I scroll',
+  'settings.includeAdult': 'Show adult titles in search and discover',
+  'settings.homeSections': 'Home page sections',
+  'settings.sectionNowPlaying': 'Now Playing carousel',
+  'settings.sectionMoreLikeThese': 'More like what you viewed recently',
+  'settings.sectionTrendingMovies': 'Trending Movies',
+  'settings.sectionTrendingTv': 'Trending TV Shows',
+  'settings.sectionTrendingAll': 'Trending movies, TV shows and people',
+  'settings.showSection': 'Show {section}',
+  'settings.moveUp': 'Move {section} up',
+  'settings.moveDown': 'Move {section} down',
+  'settings.streamingServices': 'My streaming services',
+  'settings.servicesHint': 'Highlighted on detail pages and used by Discover\'s "Only on my services" filter. These are the services in {region}; save a new region to see its services.',
+  'settings.showAllServices': 'Show all {count} services',
+  'settings.servicesFailed': "Streaming services couldn't be loaded right now.",
+  'settings.save': 'Save settings',
+  'settings.saved': 'Settings saved.',
+  'settings.saveFailed': 'Failed to save settings. Please try again later.',
+
+  'import.sortFile': 'File order',
+  'import.sortRating': 'Your rating',
+  'import.sortWatched': 'Recently watched',
+  'import.readFailed': "Failed to read the file. Check that it's a Letterboxd or IMDb ratings export, then try again.",
+  'import.saveFailed': 'Failed to save the imported titles. Please try again later.',
+  'import.savedOne': 'Saved {count} title to your watched log.',
+  'import.savedMany': 'Saved {count} titles to your watched log.',
+  'import.skipped': "{count} couldn't be found on TMDB anymore.",
+  'import.matching': 'Matching titles...',
+  'import.chooseFile': 'Choose a CSV file',
+  'import.letterboxdHint': 'Letterboxd: Settings → Import & Export → Export your data, then pick ratings.csv or diary.csv.',
+  'import.imdbHint': 'IMDb: Your Ratings → Export.',
+  'import.viewWatched': 'View your watched log',
+  'import.summary': '{format} file: {matched} matched · {review} to review · {unmatched} not found',
+  'import.ignored': "{count} ignored (episodes and other titles we don't track)",
+  'import.pickTitle': 'Pick the right title',
+  'import.row': 'row {line}',
+  'import.noneOfThese': 'None of these',
+  'import.notFoundOne': '{count} title not found on TMDB',
+  'import.notFoundMany': '{count} titles not found on TMDB',
+  'import.matchedTitles': 'Matched titles',
+  'import.saving': 'Saving...',
+  'import.save': 'Save {count} to watched log',
+  'import.skip': "Don't import",
+  'import.skipTitle': "Don't import {title}",
+  'import.noMatches': 'No matched titles yet.',
+  'import.rowTitle': 'Row {line}: {title}',
+  'import.metaTitle': 'Import & Export Ratings',
+  'import.description': 'Bring your Letterboxd or IMDb ratings into your watched log, or take them back out.',
+  'import.title': 'Import Ratings',
+  'import.intro': 'Upload a Letterboxd or IMDb ratings CSV. Each title is matched to TMDB and saved to your watched log with its rating.',
+  'import.exportTitle': 'Export your watched log',
+  'import.exportHint': "The Letterboxd file uses Letterboxd's import format and only includes movies. The IMDb file has the columns of IMDb's ratings export.",
+
+  'lists.loadFailed': 'Failed to load your lists. Please try again later.',
+  'lists.updateFailed': 'Failed to update the list. Please try again later.',
+  'lists.createFailed': 'Failed to create the list. Please try again later.',
+  'lists.importFailed': 'Failed to import the list. Check that the file is a Movie Explorer list export, then try again.',
+  'lists.addToList': 'Add to list',
+  'lists.loading': 'Loading your lists...',
+  'lists.none': "You don't have any lists yet.",
+  'lists.newListName': 'New list name',
+  'lists.createWithTitle': 'Create list with this title',
+  'lists.manage': 'Manage your lists',
+  'lists.detailsSaved': 'List details saved.',
+  'lists.confirmDelete': 'Delete "{name}"? Its share link will stop working.',
+  'lists.linkCopied': 'Share link copied.',
+  'lists.shareLink': 'Share link: {url}',
+  'lists.name': 'List name',
+  'lists.description': 'List description',
+  'lists.descriptionPlaceholder': 'Description (optional)',
+  'lists.namePlaceholder': 'Name, e.g. "Friday horror night"',
+  'lists.saveDetails': 'Save details',
+  'lists.copyLink': 'Copy share link',
+  'lists.exportJson': 'Export JSON',
+  'lists.delete': 'Delete list',
+  'lists.emptyEditor': 'This list is empty. Use the "Add to list" button on any movie or TV show to add it here.',
+  'lists.notePlaceholder': 'Add a note (saved when you click away)',
+  'lists.noteFor': 'Note for {title}',
+  'lists.moveUp': 'Move {title} up',
+  'lists.moveDown': 'Move {title} down',
+  'lists.removeTitle': 'Remove {title} from the list',
+  'lists.importedOne': 'Imported "{name}" with {count} title.',
+  'lists.importedMany': 'Imported "{name}" with {count} titles.',
+  'lists.importSkipped': "{count} couldn't be found or were duplicates.",
+  'lists.create': 'Create a list',
+  'lists.createButton': 'Create list',
+  'lists.importFile': 'Import from file',
+  'lists.yourLists': 'Your lists',
+  'lists.noListsYet': 'No lists yet. Create one above, or use the "Add to list" button on any movie or TV show.',
+  'lists.titleCountOne': '{count} title',
+  'lists.titleCountMany': '{count} titles',
+  'lists.updated': 'Updated {date}',
+  'lists.view': 'View',
+  'lists.edit': 'Edit',
+  'lists.viewName': 'View {name}',
+  'lists.editName': 'Edit {name}',
+  'lists.metaDescription': 'Your curated lists of movies and TV shows.',
+  'lists.editTitle': 'Edit list',
+  'lists.allLists': 'All lists',
+  'lists.viewSharePage': 'View share page',
+  'lists.metaCurated': '{count} titles curated by {owner} on Movie Explorer.',
+  'lists.by': 'A list by {owner}',
+  'lists.unknownOwner': 'Unknown user',
+  'lists.empty': 'This list is empty.',
+
+  'watchlist.description': 'Titles you want to watch and everything you have watched, with your ratings.',
+  'watchlist.loadFailed': 'Failed to load your watchlist. Please try again later.',
+  'watchlist.updateFailed': 'Failed to update the watchlist. Please try again later.',
+  'watchlist.empty': 'Nothing saved yet. Use the bookmark and eye buttons on any movie or TV show to build your watchlist.',
+  'watchlist.counts': '{toWatch} to watch · {watched} watched',
+  'watchlist.type': 'Type',
+  'watchlist.status': 'Status',
+  'watchlist.all': 'All',
+  'watchlist.toWatch': 'To watch',
+  'watchlist.watched': 'Watched',
+  'watchlist.watchedOn': 'Watched {date}',
+  'watchlist.watchedOnLabel': 'Watched on',
+  'watchlist.noMatches': 'No saved titles match these filters.',
+  'watchlist.sortAdded': 'Recently added',
+  'watchlist.sortTmdb': 'TMDB rating',
+  'watchlist.sortRelease': 'Release date',
+  'watchlist.signIn': 'Sign in to use your watchlist',
+  'watchlist.signInToAdd': 'Sign in to add {title} to your watchlist',
+  'watchlist.thisTitle': 'this title',
+  'watchlist.onWatchlist': 'On your watchlist',
+  'watchlist.add': 'Add to watchlist',
+  'watchlist.addTitle': 'Add {title} to your watchlist',
+  'watchlist.removeTitle': 'Remove {title} from your watchlist',
+  'watchlist.removeShort': 'Remove from watchlist',
+  'watchlist.remove': 'Remove',
+  'watchlist.removeEverywhere': 'Remove from watchlist and watched history',
+  'watchlist.markWatched': 'Mark as watched',
+  'watchlist.markNotWatched': 'Mark as not watched',
+  'watchlist.markTitleWatched': 'Mark {title} as watched',
+  'watchlist.markTitleNotWatched': 'Mark {title} as not watched',
+  'watchlist.notRated': 'Not rated',
+
+  'images.backdrops': 'Backdrops',
+  'images.posters': 'Posters',
+  'images.logos': 'Logos',
+  'images.backdrop': 'backdrop',
+  'images.poster': 'poster',
+  'images.logo': 'logo',
+  'images.landscape': 'Landscape',
+  'images.portrait': 'Portrait',
+  'images.square': 'Square-ish',
+  'images.noText': 'No text',
+  'images.language': 'Image language',
+  'images.allLanguages': 'All languages',
+  'images.shape': 'Image shape',
+  'images.anyShape': 'Any shape',
+  'images.open': 'Open {kind} {number} of {title}',
+  'images.noMatches': 'No images match these filters.',
+  'images.position': 'Image {number} of {total}',
+  'images.size': 'Size',
+  'images.original': 'Original',
+  'images.width': '{width}px wide',
+  'images.download': 'Download original',
+  'images.close': 'Close viewer',
+  'images.alt': '{kind} {number}',
+  'images.previous': 'Previous image',
+  'images.next': 'Next image',
+  'images.metaTitle': 'Images: {title}',
+  'images.metaDescription': 'Posters, backdrops and logos for {title} on Movie Explorer.',
+
+  'videos.title': 'Trailers & Videos',
+  'videos.play': 'Play {name}',
+  'videos.noTrailer': 'No official trailer available.',
+  'videos.noTrailerFor': "We're sorry, it looks like there isn't a trailer for {title} yet.",
+  'videos.all': 'All videos',
+  'videos.language': 'Video language',
+  'videos.noLanguage': 'No language',
+  'videos.noneInLanguage': 'No videos of this kind in {language}.',
+  'videos.trailers': 'Trailers',
+  'videos.teasers': 'Teasers',
+  'videos.clips': 'Clips',
+  'videos.featurettes': 'Featurettes',
+  'videos.behindTheScenes': 'Behind the Scenes',
+  'videos.more': 'More',
+  'videos.close': 'Close video',
+
+  'credits.creator': 'Creator',
+  'credits.creators': 'Creators',
+  'credits.director': 'Director',
+  'credits.directors': 'Directors',
+  'credits.writer': 'Writer',
+  'credits.writers': 'Writers',
+  'credits.topCast': 'Top Billed Cast',
+
+  'providers.title': 'Where to Watch',
+  'providers.stream': 'Stream',
+  'providers.free': 'Free',
+  'providers.rent': 'Rent',
+  'providers.buy': 'Buy',
+  'providers.regionFailed': 'Failed to save your region. Please try again later.',
+  'providers.yours': '{name} (one of your services)',
+  'providers.attribution': 'Availability data by JustWatch via TMDB.',
+  'providers.allOffers': 'All offers',
+  'providers.unavailable': "{title} isn't available to stream, rent or buy in {region} right now.",
+
+  'season.metaDescription': 'All episodes of {show} {season}.',
+  'season.backTo': 'Back to {show}',
+  'season.posterAlt': '{show} {season} Poster',
+  'season.episodes': 'Episodes',
+  'season.noEpisodes': 'No episodes announced yet.',
+  'season.stillAlt': '{name} Still',
+
+  'episode.backTo': 'Back to {show} Season {number}',
+  'episode.guestStars': 'Guest Stars',
+  'episode.upcoming': 'Upcoming Episode',
+  'episode.latest': 'Latest Episode',
+  'episode.airs': 'Airs {date}',
+  'episode.aired': 'Aired {date}',
+
+  'app.name': 'Movie Explorer',
+  'app.description': 'Explore movies and TV shows built with Next.js and TMDB API',
+
+  'common.notAvailable': 'N/A',
+  'common.movie': 'Movie',
+  'common.tvShow': 'TV Show',
+  'common.person': 'Person',
+  'common.untitled': 'Untitled',
+  'common.poster': 'Poster',
+  'common.profilePhoto': 'Profile photo',
+  'common.imageUnavailable': 'Image not available',
+  'common.viewDetails': 'View Details',
+};
+
+export type MessageKey = keyof typeof messages;
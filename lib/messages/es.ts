@@ -0,0 +1,454 @@
+// lib/messages/es.ts
+// Spanish UI strings. Missing keys fall back to English.
+
+import { MessageKey } from './en';
+
+export const messages: Partial<Record<MessageKey, string>> = {
+  'nav.home': 'Inicio',
+  'nav.movies': 'Películas',
+  'nav.tvShows': 'Series',
+  'nav.discover': 'Descubrir',
+  'nav.watchlist': 'Mi lista',
+  'nav.language': 'Idioma',
+  'nav.toggleSearch': 'Mostrar u ocultar la búsqueda',
+  'nav.toggleMenu': 'Abrir o cerrar el menú',
+  'nav.go': 'Ir',
+  'nav.goToResults': 'Ver los resultados de búsqueda',
+  'nav.moviesMenu': 'Listas de películas',
+  'nav.tvMenu': 'Listas de series',
+  'nav.popular': 'Populares',
+  'nav.topRated': 'Mejor valoradas',
+  'nav.upcoming': 'Próximamente',
+  'nav.airingToday': 'Se emiten hoy',
+  'nav.onTheAir': 'En emisión esta semana',
+
+  'account.signIn': 'Iniciar sesión',
+  'account.signOut': 'Cerrar sesión',
+  'account.signedInAs': 'Sesión iniciada como {username}',
+  'account.menuFor': 'Menú de la cuenta de {username}',
+  'account.myWatchlist': 'Mi lista',
+  'account.myLists': 'Mis listas',
+  'account.importExport': 'Importar y exportar',
+  'account.settings': 'Ajustes',
+  'account.settingsFor': 'Ajustes ({username})',
+
+  'pagination.previous': 'Anterior',
+  'pagination.next': 'Siguiente',
+  'pagination.previousPage': 'Página anterior',
+  'pagination.nextPage': 'Página siguiente',
+  'pagination.goToPage': 'Ir a la página {page}',
+  'pagination.label': 'Paginación',
+  'pagination.loadMore': 'Cargar más',
+  'pagination.loading': 'Cargando…',
+  'pagination.loadFailed': 'No se pudieron cargar más títulos. Inténtalo de nuevo más tarde.',
+  'pagination.retry': 'Reintentar',
+  'pagination.startOver': 'Volver a la página 1',
+  'pagination.end': 'Has llegado al final de la lista.',
+  'pagination.noNewMatches': 'Las últimas páginas no tenían coincidencias nuevas.',
+  'pagination.mode': 'Navegar con',
+  'pagination.modeFailed': 'No se pudo guardar tu elección. Inténtalo de nuevo más tarde.',
+
+  'home.trendingMovies': 'Películas en tendencia',
+  'home.trendingTv': 'Series en tendencia',
+  'home.trendingAll': 'Tendencias del momento',
+  'home.nowPlayingFailed': 'No se pudieron cargar las películas en cartelera. Inténtalo de nuevo más tarde.',
+  'home.trendingMoviesFailed': 'No se pudieron cargar las películas en tendencia. Inténtalo de nuevo más tarde.',
+  'home.trendingTvFailed': 'No se pudieron cargar las series en tendencia. Inténtalo de nuevo más tarde.',
+  'home.trendingAllFailed': 'No se pudieron cargar las tendencias. Inténtalo de nuevo más tarde.',
+  'home.noTrendingMovies': 'No hay películas en tendencia.',
+  'home.noTrendingTv': 'No hay series en tendencia.',
+  'home.noTrendingAll': 'Ahora mismo no hay nada en tendencia.',
+  'home.trendingWindow': 'Periodo de las tendencias',
+  'home.today': 'Hoy',
+  'home.thisWeek': 'Esta semana',
+  'home.allSectionsHidden': 'Todas las secciones de la página de inicio están ocultas. Elige qué mostrar en los ajustes de tu cuenta.',
+  'home.moreLikeThese': 'Más como estos',
+  'home.moreLikeTheseFailed': 'No se pudieron cargar las recomendaciones. Inténtalo de nuevo más tarde.',
+  'home.becauseOne': 'Porque viste {first}',
+  'home.becauseTwo': 'Porque viste {first} y {second}',
+  'home.becauseMany': 'Porque viste {first}, {second} y {count} más',
+  'home.aRecentTitle': 'un título reciente',
+  'home.carouselLoading': 'Cargando carrusel...',
+  'home.carouselEmpty': 'No hay películas para el carrusel.',
+
+  'popular.movies': 'Películas populares',
+  'popular.tv': 'Series populares',
+  'popular.moviesFailed': 'No se pudieron cargar las películas populares. Inténtalo de nuevo más tarde.',
+  'popular.tvFailed': 'No se pudieron cargar las series populares. Inténtalo de nuevo más tarde.',
+  'popular.noMovies': 'No hay películas populares.',
+  'popular.noTv': 'No hay series populares.',
+
+  'browse.topRatedMovies': 'Películas mejor valoradas',
+  'browse.upcomingMovies': 'Próximos estrenos',
+  'browse.topRatedTv': 'Series mejor valoradas',
+  'browse.airingTodayTv': 'Series que se emiten hoy',
+  'browse.onTheAirTv': 'En emisión esta semana',
+  'browse.topRatedMoviesFailed': 'No se pudieron cargar las películas mejor valoradas. Inténtalo de nuevo más tarde.',
+  'browse.upcomingMoviesFailed': 'No se pudieron cargar los próximos estrenos. Inténtalo de nuevo más tarde.',
+  'browse.topRatedTvFailed': 'No se pudieron cargar las series mejor valoradas. Inténtalo de nuevo más tarde.',
+  'browse.airingTodayTvFailed': 'No se pudieron cargar las series que se emiten hoy. Inténtalo de nuevo más tarde.',
+  'browse.onTheAirTvFailed': 'No se pudieron cargar las series en emisión esta semana. Inténtalo de nuevo más tarde.',
+  'browse.noTopRatedMovies': 'No hay películas mejor valoradas.',
+  'browse.noUpcomingMovies': 'No hay próximos estrenos.',
+  'browse.noTopRatedTv': 'No hay series mejor valoradas.',
+  'browse.noAiringTodayTv': 'Hoy no se emite ninguna serie.',
+  'browse.noOnTheAirTv': 'Esta semana no se emite ninguna serie.',
+
+  'search.resultsFor': 'Resultados de «{query}»',
+  'search.enterTerm': 'Escribe un término en la cabecera para buscar películas, series o personas.',
+  'search.tabAll': 'Todo',
+  'search.tabMovies': 'Películas',
+  'search.tabTv': 'Series',
+  'search.tabPeople': 'Personas',
+  'search.year': 'Año',
+  'search.anyYear': 'Cualquiera',
+  'search.includeAdult': 'Incluir títulos para adultos',
+  'search.apply': 'Aplicar',
+  'search.yearIgnored': 'TMDB solo filtra por año películas y series, así que esta pestaña lo ignora.',
+  'search.failed': 'No se pudieron cargar los resultados. Inténtalo de nuevo más tarde.',
+  'search.noResults': 'No hay resultados para «{query}». Prueba con otro término.',
+  'search.noMovies': 'No hay películas para «{query}». Prueba con otro término.',
+  'search.noTv': 'No hay series para «{query}». Prueba con otro término.',
+  'search.noPeople': 'No hay personas para «{query}». Prueba con otro término.',
+  'search.resultTypes': 'Tipos de resultado',
+
+  'discover.title': 'Descubrir',
+  'discover.moviesFound': '{count} películas encontradas',
+  'discover.tvFound': '{count} series encontradas',
+  'discover.moviesFailed': 'No se pudieron cargar las películas. Inténtalo de nuevo más tarde.',
+  'discover.tvFailed': 'No se pudieron cargar las series. Inténtalo de nuevo más tarde.',
+  'discover.noMatches': 'Nada coincide con estos filtros. Prueba a relajarlos.',
+  'discover.sortPopularity': 'Más populares',
+  'discover.sortRating': 'Mejor valorados',
+  'discover.sortDate': 'Más recientes',
+  'discover.sortTitle': 'Título (A-Z)',
+  'discover.description': 'Encuentra películas y series por género, año, valoración, duración, idioma y servicio de streaming.',
+  'discover.genres': 'Géneros',
+  'discover.genresHint': 'Haz clic una vez para exigir un género, dos para excluirlo y otra más para quitarlo.',
+  'discover.releaseYear': 'Año de estreno',
+  'discover.firstAired': 'Primera emisión',
+  'discover.from': 'Desde',
+  'discover.to': 'Hasta',
+  'discover.fromYear': 'Desde el año',
+  'discover.toYear': 'Hasta el año',
+  'discover.runtime': 'Duración (minutos)',
+  'discover.min': 'Mín.',
+  'discover.max': 'Máx.',
+  'discover.minRuntime': 'Duración mínima',
+  'discover.maxRuntime': 'Duración máxima',
+  'discover.minRating': 'Valoración mínima: {rating}',
+  'discover.any': 'Cualquiera',
+  'discover.minVotes': 'Votos mínimos',
+  'discover.onMyServices': 'Solo en mis servicios de streaming',
+  'discover.pickServices': 'Elige tus servicios en los ajustes para usar este filtro.',
+  'discover.signInForServices': 'Inicia sesión y elige tus servicios para usar este filtro.',
+  'discover.apply': 'Aplicar filtros',
+
+  'details.overview': 'Sinopsis',
+  'details.noOverview': 'No hay sinopsis disponible.',
+  'details.seasonsCount': '{count} temporadas',
+  'details.episodesCount': '{count} episodios',
+  'details.runtime': '{count} min',
+  'details.productionCompanies': 'Productoras:',
+  'details.seasons': 'Temporadas:',
+  'details.season': 'Temporada {number}',
+  'details.recommended': 'Recomendadas',
+  'details.similar': 'Similares',
+  'details.tabsLabel': 'Secciones del título',
+  'details.tabOverview': 'Resumen',
+  'details.tabImages': 'Imágenes',
+  'details.imagesFailed': 'No se pudieron cargar las imágenes. Inténtalo de nuevo más tarde.',
+  'details.failed': 'No se pudieron cargar los detalles. Inténtalo de nuevo más tarde.',
+  'details.metaDescription': 'Detalles de {title} en Movie Explorer.',
+  'details.backdropAlt': 'Fondo de {title}',
+  'details.posterAlt': 'Póster de {title}',
+
+  'grid.toolbarLabel': 'Ordenar y filtrar títulos',
+  'grid.sortBy': 'Ordenar por',
+  'grid.sortDefault': 'Orden predeterminado',
+  'grid.sortRating': 'Mejor valoradas',
+  'grid.sortVotes': 'Más votadas',
+  'grid.sortDate': 'Más recientes',
+  'grid.sortTitle': 'Título (A-Z)',
+  'grid.genre': 'Género',
+  'grid.anyGenre': 'Cualquier género',
+  'grid.minRating': 'Valoración',
+  'grid.anyRating': 'Cualquier valoración',
+  'grid.ratingAtLeast': '{rating}+',
+  'grid.year': 'Año',
+  'grid.anyYear': 'Cualquier año',
+  'grid.language': 'Idioma original',
+  'grid.anyLanguage': 'Cualquier idioma',
+  'grid.apply': 'Aplicar',
+  'grid.reset': 'Restablecer',
+  'grid.noListMatches': 'Ningún título coincide con tus filtros.',
+
+  'person.biography': 'Biografía',
+  'person.noBiography': 'No hay biografía disponible.',
+  'person.filmography': 'Filmografía',
+  'person.filmographyFailed': 'No se pudo cargar la filmografía. Inténtalo de nuevo más tarde.',
+  'person.noCredits': 'No hay créditos.',
+  'person.metaDescription': 'Filmografía de {name} en Movie Explorer.',
+
+  'notFound.title': 'Página no encontrada',
+  'notFound.message': 'No encontramos la película, serie o página que buscabas.',
+  'notFound.backHome': 'Volver al inicio',
+
+  'typeahead.placeholder': 'Busca películas, series o personas...',
+  'typeahead.suggestions': 'Sugerencias de búsqueda',
+  'typeahead.recent': 'Búsquedas recientes',
+  'typeahead.searchingFor': 'Buscando "{term}"',
+  'typeahead.seeAll': 'Ver todos los resultados de "{term}"',
+  'typeahead.removeRecent': 'Quitar "{term}" de las búsquedas recientes',
+
+  'auth.username': 'Nombre de usuario',
+  'auth.password': 'Contraseña',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.noAccount': '¿No tienes cuenta?',
+  'auth.haveAccount': '¿Ya tienes cuenta?',
+  'auth.createOne': 'Crea una',
+  'auth.invalidCredentials': 'Nombre de usuario o contraseña incorrectos.',
+  'auth.usernameTaken': 'El nombre de usuario "{username}" ya está en uso.',
+  'auth.requirements': 'El nombre de usuario debe tener de 3 a 32 letras, cifras, puntos, guiones o guiones bajos, y la contraseña al menos {min} caracteres.',
+  'auth.failed': 'Algo salió mal. Inténtalo de nuevo más tarde.',
+  'auth.signInTitle': 'Iniciar sesión',
+  'auth.signInDescription': 'Inicia sesión en tu cuenta de Movie Explorer.',
+  'auth.registerTitle': 'Crear cuenta',
+  'auth.registerDescription': 'Crea una cuenta de Movie Explorer para guardar tu propia lista y tus ajustes.',
+
+  'settings.description': 'Elige tu región, idioma, servicios de streaming, idioma de los tráileres y secciones de la página de inicio.',
+  'settings.region': 'Región',
+  'settings.language': 'Idioma',
+  'settings.featuredTrailer': 'Tráiler destacado',
+  'settings.trailerDubbed': 'En mi idioma cuando esté disponible',
+  'settings.trailerOriginal': 'En el idioma original',
+  'settings.pagination': 'Navegar por tendencias y listas',
+  'settings.paginationPages': 'Páginas numeradas',
+  'settings.paginationLoadMore': 'Un botón «Cargar más»',
+  'settings.paginationInfinite': 'Cargar más al desplazarme',
+  'settings.includeAdult': 'Mostrar títulos para adultos en la búsqueda y en Descubrir',
+  'settings.homeSections': 'Secciones de la página de inicio',
+  'settings.sectionNowPlaying': 'Carrusel de estrenos en cines',
+  'settings.sectionMoreLikeThese': 'Más como lo que viste hace poco',
+  'settings.sectionTrendingMovies': 'Películas en tendencia',
+  'settings.sectionTrendingTv': 'Series en tendencia',
+  'settings.sectionTrendingAll': 'Películas, series y personas en tendencia',
+  'settings.showSection': 'Mostrar {section}',
+  'settings.moveUp': 'Subir {section}',
+  'settings.moveDown': 'Bajar {section}',
+  'settings.streamingServices': 'Mis servicios de streaming',
+  'settings.servicesHint': 'Se destacan en las páginas de detalle y los usa el filtro «Solo en mis servicios» de Descubrir. Estos son los servicios en {region}; guarda otra región para ver los suyos.',
+  'settings.showAllServices': 'Mostrar los {count} servicios',
+  'settings.servicesFailed': 'No se pudieron cargar los servicios de streaming.',
+  'settings.save': 'Guardar ajustes',
+  'settings.saved': 'Ajustes guardados.',
+  'settings.saveFailed': 'No se pudieron guardar los ajustes. Inténtalo de nuevo más tarde.',
+
+  'import.sortFile': 'Orden del archivo',
+  'import.sortRating': 'Tu valoración',
+  'import.sortWatched': 'Vistos recientemente',
+  'import.readFailed': 'No se pudo leer el archivo. Comprueba que sea una exportación de valoraciones de Letterboxd o IMDb e inténtalo de nuevo.',
+  'import.saveFailed': 'No se pudieron guardar los títulos importados. Inténtalo de nuevo más tarde.',
+  'import.savedOne': 'Se guardó {count} título en tu registro de vistos.',
+  'import.savedMany': 'Se guardaron {count} títulos en tu registro de vistos.',
+  'import.skipped': '{count} ya no están en TMDB.',
+  'import.matching': 'Buscando coincidencias...',
+  'import.chooseFile': 'Elegir un archivo CSV',
+  'import.letterboxdHint': 'Letterboxd: Settings → Import & Export → Export your data y elige ratings.csv o diary.csv.',
+  'import.imdbHint': 'IMDb: Your Ratings → Export.',
+  'import.viewWatched': 'Ver tu registro de vistos',
+  'import.summary': 'Archivo de {format}: {matched} encontrados · {review} por revisar · {unmatched} sin encontrar',
+  'import.ignored': '{count} ignorados (episodios y otros títulos que no seguimos)',
+  'import.pickTitle': 'Elige el título correcto',
+  'import.row': 'fila {line}',
+  'import.noneOfThese': 'Ninguno de estos',
+  'import.notFoundOne': '{count} título no encontrado en TMDB',
+  'import.notFoundMany': '{count} títulos no encontrados en TMDB',
+  'import.matchedTitles': 'Títulos encontrados',
+  'import.saving': 'Guardando...',
+  'import.save': 'Guardar {count} en el registro de vistos',
+  'import.skip': 'No importar',
+  'import.skipTitle': 'No importar {title}',
+  'import.noMatches': 'Aún no hay títulos encontrados.',
+  'import.rowTitle': 'Fila {line}: {title}',
+  'import.metaTitle': 'Importar y exportar valoraciones',
+  'import.description': 'Trae tus valoraciones de Letterboxd o IMDb a tu registro de vistos, o llévatelas de vuelta.',
+  'import.title': 'Importar valoraciones',
+  'import.intro': 'Sube un CSV de valoraciones de Letterboxd o IMDb. Cada título se busca en TMDB y se guarda en tu registro de vistos con su valoración.',
+  'import.exportTitle': 'Exportar tu registro de vistos',
+  'import.exportHint': 'El archivo de Letterboxd usa el formato de importación de Letterboxd y solo incluye películas. El de IMDb tiene las columnas de la exportación de valoraciones de IMDb.',
+
+  'lists.loadFailed': 'No se pudieron cargar tus listas. Inténtalo de nuevo más tarde.',
+  'lists.updateFailed': 'No se pudo actualizar la lista. Inténtalo de nuevo más tarde.',
+  'lists.createFailed': 'No se pudo crear la lista. Inténtalo de nuevo más tarde.',
+  'lists.importFailed': 'No se pudo importar la lista. Comprueba que el archivo sea una lista exportada de Movie Explorer e inténtalo de nuevo.',
+  'lists.addToList': 'Añadir a una lista',
+  'lists.loading': 'Cargando tus listas...',
+  'lists.none': 'Todavía no tienes listas.',
+  'lists.newListName': 'Nombre de la nueva lista',
+  'lists.createWithTitle': 'Crear una lista con este título',
+  'lists.manage': 'Gestionar tus listas',
+  'lists.detailsSaved': 'Datos de la lista guardados.',
+  'lists.confirmDelete': '¿Eliminar «{name}»? Su enlace para compartir dejará de funcionar.',
+  'lists.linkCopied': 'Enlace para compartir copiado.',
+  'lists.shareLink': 'Enlace para compartir: {url}',
+  'lists.name': 'Nombre de la lista',
+  'lists.description': 'Descripción de la lista',
+  'lists.descriptionPlaceholder': 'Descripción (opcional)',
+  'lists.namePlaceholder': 'Nombre, p. ej. «Noche de terror del viernes»',
+  'lists.saveDetails': 'Guardar datos',
+  'lists.copyLink': 'Copiar enlace para compartir',
+  'lists.exportJson': 'Exportar JSON',
+  'lists.delete': 'Eliminar lista',
+  'lists.emptyEditor': 'Esta lista está vacía. Usa el botón «Añadir a una lista» de cualquier película o serie para añadirla aquí.',
+  'lists.notePlaceholder': 'Añade una nota (se guarda al salir del campo)',
+  'lists.noteFor': 'Nota sobre {title}',
+  'lists.moveUp': 'Subir {title}',
+  'lists.moveDown': 'Bajar {title}',
+  'lists.removeTitle': 'Quitar {title} de la lista',
+  'lists.importedOne': 'Se importó «{name}» con {count} título.',
+  'lists.importedMany': 'Se importó «{name}» con {count} títulos.',
+  'lists.importSkipped': '{count} no se encontraron o estaban repetidos.',
+  'lists.create': 'Crear una lista',
+  'lists.createButton': 'Crear lista',
+  'lists.importFile': 'Importar desde un archivo',
+  'lists.yourLists': 'Tus listas',
+  'lists.noListsYet': 'Aún no hay listas. Crea una arriba o usa el botón «Añadir a una lista» de cualquier película o serie.',
+  'lists.titleCountOne': '{count} título',
+  'lists.titleCountMany': '{count} títulos',
+  'lists.updated': 'Actualizada el {date}',
+  'lists.view': 'Ver',
+  'lists.edit': 'Editar',
+  'lists.viewName': 'Ver {name}',
+  'lists.editName': 'Editar {name}',
+  'lists.metaDescription': 'Tus listas de películas y series.',
+  'lists.editTitle': 'Editar lista',
+  'lists.allLists': 'Todas las listas',
+  'lists.viewSharePage': 'Ver la página para compartir',
+  'lists.metaCurated': '{count} títulos seleccionados por {owner} en Movie Explorer.',
+  'lists.by': 'Una lista de {owner}',
+  'lists.unknownOwner': 'Usuario desconocido',
+  'lists.empty': 'Esta lista está vacía.',
+
+  'watchlist.description': 'Los títulos que quieres ver y todo lo que ya viste, con tus valoraciones.',
+  'watchlist.loadFailed': 'No se pudo cargar tu lista. Inténtalo de nuevo más tarde.',
+  'watchlist.updateFailed': 'No se pudo actualizar tu lista. Inténtalo de nuevo más tarde.',
+  'watchlist.empty': 'Aún no has guardado nada. Usa los botones de marcador y de ojo de cualquier película o serie para crear tu lista.',
+  'watchlist.counts': '{toWatch} por ver · {watched} vistos',
+  'watchlist.type': 'Tipo',
+  'watchlist.status': 'Estado',
+  'watchlist.all': 'Todos',
+  'watchlist.toWatch': 'Por ver',
+  'watchlist.watched': 'Visto',
+  'watchlist.watchedOn': 'Visto el {date}',
+  'watchlist.watchedOnLabel': 'Visto el',
+  'watchlist.noMatches': 'Ningún título guardado coincide con estos filtros.',
+  'watchlist.sortAdded': 'Añadidos recientemente',
+  'watchlist.sortTmdb': 'Valoración de TMDB',
+  'watchlist.sortRelease': 'Fecha de estreno',
+  'watchlist.signIn': 'Inicia sesión para usar tu lista',
+  'watchlist.signInToAdd': 'Inicia sesión para añadir {title} a tu lista',
+  'watchlist.thisTitle': 'este título',
+  'watchlist.onWatchlist': 'En tu lista',
+  'watchlist.add': 'Añadir a mi lista',
+  'watchlist.addTitle': 'Añadir {title} a tu lista',
+  'watchlist.removeTitle': 'Quitar {title} de tu lista',
+  'watchlist.removeShort': 'Quitar de mi lista',
+  'watchlist.remove': 'Quitar',
+  'watchlist.removeEverywhere': 'Quitar de la lista y del historial de vistos',
+  'watchlist.markWatched': 'Marcar como visto',
+  'watchlist.markNotWatched': 'Marcar como no visto',
+  'watchlist.markTitleWatched': 'Marcar {title} como visto',
+  'watchlist.markTitleNotWatched': 'Marcar {title} como no visto',
+  'watchlist.notRated': 'Sin valorar',
+
+  'images.backdrops': 'Fondos',
+  'images.posters': 'Pósteres',
+  'images.logos': 'Logotipos',
+  'images.backdrop': 'fondo',
+  'images.poster': 'póster',
+  'images.logo': 'logotipo',
+  'images.landscape': 'Horizontal',
+  'images.portrait': 'Vertical',
+  'images.square': 'Casi cuadrada',
+  'images.noText': 'Sin texto',
+  'images.language': 'Idioma de la imagen',
+  'images.allLanguages': 'Todos los idiomas',
+  'images.shape': 'Forma de la imagen',
+  'images.anyShape': 'Cualquier forma',
+  'images.open': 'Abrir {kind} {number} de {title}',
+  'images.noMatches': 'Ninguna imagen coincide con estos filtros.',
+  'images.position': 'Imagen {number} de {total}',
+  'images.size': 'Tamaño',
+  'images.original': 'Original',
+  'images.width': '{width} px de ancho',
+  'images.download': 'Descargar original',
+  'images.close': 'Cerrar visor',
+  'images.alt': '{kind} {number}',
+  'images.previous': 'Imagen anterior',
+  'images.next': 'Imagen siguiente',
+  'images.metaTitle': 'Imágenes: {title}',
+  'images.metaDescription': 'Pósteres, fondos y logotipos de {title} en Movie Explorer.',
+
+  'videos.title': 'Tráileres y vídeos',
+  'videos.play': 'Reproducir {name}',
+  'videos.noTrailer': 'No hay tráiler oficial disponible.',
+  'videos.noTrailerFor': 'Lo sentimos, parece que todavía no hay tráiler de {title}.',
+  'videos.all': 'Todos los vídeos',
+  'videos.language': 'Idioma del vídeo',
+  'videos.noLanguage': 'Sin idioma',
+  'videos.noneInLanguage': 'No hay vídeos de este tipo en {language}.',
+  'videos.trailers': 'Tráileres',
+  'videos.teasers': 'Avances',
+  'videos.clips': 'Clips',
+  'videos.featurettes': 'Reportajes',
+  'videos.behindTheScenes': 'Detrás de las cámaras',
+  'videos.more': 'Más',
+  'videos.close': 'Cerrar vídeo',
+
+  'credits.creator': 'Creador',
+  'credits.creators': 'Creadores',
+  'credits.director': 'Dirección',
+  'credits.directors': 'Dirección',
+  'credits.writer': 'Guion',
+  'credits.writers': 'Guion',
+  'credits.topCast': 'Reparto principal',
+
+  'providers.title': 'Dónde ver',
+  'providers.stream': 'Streaming',
+  'providers.free': 'Gratis',
+  'providers.rent': 'Alquiler',
+  'providers.buy': 'Compra',
+  'providers.regionFailed': 'No se pudo guardar tu región. Inténtalo de nuevo más tarde.',
+  'providers.yours': '{name} (uno de tus servicios)',
+  'providers.attribution': 'Datos de disponibilidad de JustWatch a través de TMDB.',
+  'providers.allOffers': 'Todas las ofertas',
+  'providers.unavailable': '{title} no está disponible para ver, alquilar ni comprar en {region} en este momento.',
+
+  'season.metaDescription': 'Todos los episodios de {show} {season}.',
+  'season.backTo': 'Volver a {show}',
+  'season.posterAlt': 'Póster de {show} {season}',
+  'season.episodes': 'Episodios',
+  'season.noEpisodes': 'Aún no se han anunciado episodios.',
+  'season.stillAlt': 'Fotograma de {name}',
+
+  'episode.backTo': 'Volver a {show} temporada {number}',
+  'episode.guestStars': 'Estrellas invitadas',
+  'episode.upcoming': 'Próximo episodio',
+  'episode.latest': 'Último episodio',
+  'episode.airs': 'Se emite el {date}',
+  'episode.aired': 'Se emitió el {date}',
+
+  'app.name': 'Movie Explorer',
+  'app.description': 'Explora películas y series, creado con Next.js y la API de TMDB',
+
+  'common.notAvailable': 'N/D',
+  'common.movie': 'Película',
+  'common.tvShow': 'Serie',
+  'common.person': 'Persona',
+  'common.untitled': 'Sin título',
+  'common.poster': 'Póster',
+  'common.profilePhoto': 'Foto de perfil',
+  'common.imageUnavailable': 'Imagen no disponible',
+  'common.viewDetails': 'Ver detalles',
+};
@@ -0,0 +1,454 @@
+// lib/messages/fr.ts
+// French UI strings. Missing keys fall back to English.
+
+import { MessageKey } from './en';
+
+export const messages: Partial<Record<MessageKey, string>> = {
+  'nav.home': 'Accueil',
+  'nav.movies': 'Films',
+  'nav.tvShows': 'Séries',
+  'nav.discover': 'Découvrir',
+  'nav.watchlist': 'À voir',
+  'nav.language': 'Langue',
+  'nav.toggleSearch': 'Afficher ou masquer la recherche',
+  'nav.toggleMenu': 'Ouvrir ou fermer le menu',
+  'nav.go': 'OK',
+  'nav.goToResults': 'Voir les résultats de recherche',
+  'nav.moviesMenu': 'Listes de films',
+  'nav.tvMenu': 'Listes de séries',
+  'nav.popular': 'Populaires',
+  'nav.topRated': 'Les mieux notés',
+  'nav.upcoming': 'Prochainement',
+  'nav.airingToday': "Diffusées aujourd'hui",
+  'nav.onTheAir': 'Cette semaine à la télé',
+
+  'account.signIn': 'Se connecter',
+  'account.signOut': 'Se déconnecter',
+  'account.signedInAs': 'Connecté en tant que {username}',
+  'account.menuFor': 'Menu du compte de {username}',
+  'account.myWatchlist': 'Ma liste à voir',
+  'account.myLists': 'Mes listes',
+  'account.importExport': 'Importer et exporter',
+  'account.settings': 'Paramètres',
+  'account.settingsFor': 'Paramètres ({username})',
+
+  'pagination.previous': 'Précédent',
+  'pagination.next': 'Suivant',
+  'pagination.previousPage': 'Page précédente',
+  'pagination.nextPage': 'Page suivante',
+  'pagination.goToPage': 'Aller à la page {page}',
+  'pagination.label': 'Pagination',
+  'pagination.loadMore': 'Charger plus',
+  'pagination.loading': 'Chargement…',
+  'pagination.loadFailed': 'Impossible de charger plus de titres. Veuillez réessayer plus tard.',
+  'pagination.retry': 'Réessayer',
+  'pagination.startOver': 'Revenir à la page 1',
+  'pagination.end': 'Vous avez atteint la fin de la liste.',
+  'pagination.noNewMatches': 'Les dernières pages ne contenaient aucun nouveau résultat.',
+  'pagination.mode': 'Parcourir avec',
+  'pagination.modeFailed': "Impossible d'enregistrer votre choix. Veuillez réessayer plus tard.",
+
+  'home.trendingMovies': 'Films tendance',
+  'home.trendingTv': 'Séries tendance',
+  'home.trendingAll': 'Tendances du moment',
+  'home.nowPlayingFailed': "Impossible de charger les films à l'affiche. Veuillez réessayer plus tard.",
+  'home.trendingMoviesFailed': 'Impossible de charger les films tendance. Veuillez réessayer plus tard.',
+  'home.trendingTvFailed': 'Impossible de charger les séries tendance. Veuillez réessayer plus tard.',
+  'home.trendingAllFailed': 'Impossible de charger les tendances. Veuillez réessayer plus tard.',
+  'home.noTrendingMovies': 'Aucun film tendance.',
+  'home.noTrendingTv': 'Aucune série tendance.',
+  'home.noTrendingAll': "Rien n'est tendance pour le moment.",
+  'home.trendingWindow': 'Période des tendances',
+  'home.today': "Aujourd'hui",
+  'home.thisWeek': 'Cette semaine',
+  'home.allSectionsHidden': "Toutes les sections de l'accueil sont masquées. Choisissez quoi afficher dans les paramètres de votre compte.",
+  'home.moreLikeThese': 'Dans la même veine',
+  'home.moreLikeTheseFailed': 'Impossible de charger les recommandations. Veuillez réessayer plus tard.',
+  'home.becauseOne': 'Parce que vous avez consulté {first}',
+  'home.becauseTwo': 'Parce que vous avez consulté {first} et {second}',
+  'home.becauseMany': 'Parce que vous avez consulté {first}, {second} et {count} autres',
+  'home.aRecentTitle': 'un titre récent',
+  'home.carouselLoading': 'Chargement du carrousel...',
+  'home.carouselEmpty': 'Aucun film disponible pour le carrousel.',
+
+  'popular.movies': 'Films populaires',
+  'popular.tv': 'Séries populaires',
+  'popular.moviesFailed': 'Impossible de charger les films populaires. Veuillez réessayer plus tard.',
+  'popular.tvFailed': 'Impossible de charger les séries populaires. Veuillez réessayer plus tard.',
+  'popular.noMovies': 'Aucun film populaire.',
+  'popular.noTv': 'Aucune série populaire.',
+
+  'browse.topRatedMovies': 'Films les mieux notés',
+  'browse.upcomingMovies': 'Films à venir',
+  'browse.topRatedTv': 'Séries les mieux notées',
+  'browse.airingTodayTv': "Séries diffusées aujourd'hui",
+  'browse.onTheAirTv': 'Cette semaine à la télé',
+  'browse.topRatedMoviesFailed': 'Impossible de charger les films les mieux notés. Veuillez réessayer plus tard.',
+  'browse.upcomingMoviesFailed': 'Impossible de charger les films à venir. Veuillez réessayer plus tard.',
+  'browse.topRatedTvFailed': 'Impossible de charger les séries les mieux notées. Veuillez réessayer plus tard.',
+  'browse.airingTodayTvFailed': "Impossible de charger les séries diffusées aujourd'hui. Veuillez réessayer plus tard.",
+  'browse.onTheAirTvFailed': 'Impossible de charger les séries diffusées cette semaine. Veuillez réessayer plus tard.',
+  'browse.noTopRatedMovies': 'Aucun film trouvé.',
+  'browse.noUpcomingMovies': 'Aucun film à venir.',
+  'browse.noTopRatedTv': 'Aucune série trouvée.',
+  'browse.noAiringTodayTv': "Aucune série n'est diffusée aujourd'hui.",
+  'browse.noOnTheAirTv': "Aucune série n'est diffusée cette semaine.",
+
+  'search.resultsFor': 'Résultats pour « {query} »',
+  'search.enterTerm': "Saisissez un terme dans l'en-tête pour trouver des films, des séries ou des personnes.",
+  'search.tabAll': 'Tout',
+  'search.tabMovies': 'Films',
+  'search.tabTv': 'Séries',
+  'search.tabPeople': 'Personnes',
+  'search.year': 'Année',
+  'search.anyYear': 'Toutes',
+  'search.includeAdult': 'Inclure les titres pour adultes',
+  'search.apply': 'Appliquer',
+  'search.yearIgnored': "TMDB ne filtre par année que les films et les séries, cet onglet l'ignore donc.",
+  'search.failed': 'Impossible de charger les résultats. Veuillez réessayer plus tard.',
+  'search.noResults': 'Aucun résultat pour « {query} ». Essayez un autre terme.',
+  'search.noMovies': 'Aucun film pour « {query} ». Essayez un autre terme.',
+  'search.noTv': 'Aucune série pour « {query} ». Essayez un autre terme.',
+  'search.noPeople': 'Aucune personne pour « {query} ». Essayez un autre terme.',
+  'search.resultTypes': 'Types de résultats',
+
+  'discover.title': 'Découvrir',
+  'discover.moviesFound': '{count} films trouvés',
+  'discover.tvFound': '{count} séries trouvées',
+  'discover.moviesFailed': 'Impossible de charger les films. Veuillez réessayer plus tard.',
+  'discover.tvFailed': 'Impossible de charger les séries. Veuillez réessayer plus tard.',
+  'discover.noMatches': 'Aucun résultat pour ces filtres. Essayez de les assouplir.',
+  'discover.sortPopularity': 'Les plus populaires',
+  'discover.sortRating': 'Les mieux notés',
+  'discover.sortDate': 'Les plus récents',
+  'discover.sortTitle': 'Titre (A-Z)',
+  'discover.description': 'Trouvez des films et des séries par genre, année, note, durée, langue et service de streaming.',
+  'discover.genres': 'Genres',
+  'discover.genresHint': "Cliquez une fois pour exiger un genre, deux fois pour l'exclure, et encore pour l'effacer.",
+  'discover.releaseYear': 'Année de sortie',
+  'discover.firstAired': 'Première diffusion',
+  'discover.from': 'De',
+  'discover.to': 'À',
+  'discover.fromYear': "À partir de l'année",
+  'discover.toYear': "Jusqu'à l'année",
+  'discover.runtime': 'Durée (minutes)',
+  'discover.min': 'Min.',
+  'discover.max': 'Max.',
+  'discover.minRuntime': 'Durée minimale',
+  'discover.maxRuntime': 'Durée maximale',
+  'discover.minRating': 'Note minimale : {rating}',
+  'discover.any': 'Indifférent',
+  'discover.minVotes': 'Nombre de votes minimal',
+  'discover.onMyServices': 'Uniquement sur mes services de streaming',
+  'discover.pickServices': 'Choisissez vos services dans les réglages pour utiliser ce filtre.',
+  'discover.signInForServices': 'Connectez-vous et choisissez vos services pour utiliser ce filtre.',
+  'discover.apply': 'Appliquer les filtres',
+
+  'details.overview': 'Synopsis',
+  'details.noOverview': 'Aucun synopsis disponible.',
+  'details.seasonsCount': '{count} saisons',
+  'details.episodesCount': '{count} épisodes',
+  'details.runtime': '{count} min',
+  'details.productionCompanies': 'Sociétés de production :',
+  'details.seasons': 'Saisons :',
+  'details.season': 'Saison {number}',
+  'details.recommended': 'Recommandés',
+  'details.similar': 'Similaires',
+  'details.tabsLabel': 'Sections du titre',
+  'details.tabOverview': 'Aperçu',
+  'details.tabImages': 'Images',
+  'details.imagesFailed': 'Impossible de charger les images. Veuillez réessayer plus tard.',
+  'details.failed': 'Impossible de charger les détails. Veuillez réessayer plus tard.',
+  'details.metaDescription': 'Détails de {title} sur Movie Explorer.',
+  'details.backdropAlt': 'Arrière-plan de {title}',
+  'details.posterAlt': 'Affiche de {title}',
+
+  'grid.toolbarLabel': 'Trier et filtrer les titres',
+  'grid.sortBy': 'Trier par',
+  'grid.sortDefault': 'Ordre par défaut',
+  'grid.sortRating': 'Les mieux notés',
+  'grid.sortVotes': 'Les plus votés',
+  'grid.sortDate': 'Les plus récents',
+  'grid.sortTitle': 'Titre (A-Z)',
+  'grid.genre': 'Genre',
+  'grid.anyGenre': 'Tous les genres',
+  'grid.minRating': 'Note',
+  'grid.anyRating': 'Toutes les notes',
+  'grid.ratingAtLeast': '{rating}+',
+  'grid.year': 'Année',
+  'grid.anyYear': 'Toutes les années',
+  'grid.language': 'Langue originale',
+  'grid.anyLanguage': 'Toutes les langues',
+  'grid.apply': 'Appliquer',
+  'grid.reset': 'Réinitialiser',
+  'grid.noListMatches': 'Aucun titre ne correspond à vos filtres.',
+
+  'person.biography': 'Biographie',
+  'person.noBiography': 'Aucune biographie disponible.',
+  'person.filmography': 'Filmographie',
+  'person.filmographyFailed': 'Impossible de charger la filmographie. Veuillez réessayer plus tard.',
+  'person.noCredits': 'Aucun crédit.',
+  'person.metaDescription': 'Filmographie de {name} sur Movie Explorer.',
+
+  'notFound.title': 'Page introuvable',
+  'notFound.message': "Nous n'avons pas trouvé le film, la série ou la page que vous cherchiez.",
+  'notFound.backHome': "Retour à l'accueil",
+
+  'typeahead.placeholder': 'Rechercher des films, séries ou personnes...',
+  'typeahead.suggestions': 'Suggestions de recherche',
+  'typeahead.recent': 'Recherches récentes',
+  'typeahead.searchingFor': 'Recherche de « {term} »',
+  'typeahead.seeAll': 'Voir tous les résultats pour « {term} »',
+  'typeahead.removeRecent': 'Retirer « {term} » des recherches récentes',
+
+  'auth.username': "Nom d'utilisateur",
+  'auth.password': 'Mot de passe',
+  'auth.createAccount': 'Créer un compte',
+  'auth.noAccount': 'Pas encore de compte ?',
+  'auth.haveAccount': 'Vous avez déjà un compte ?',
+  'auth.createOne': 'Créez-en un',
+  'auth.invalidCredentials': "Nom d'utilisateur ou mot de passe incorrect.",
+  'auth.usernameTaken': "Le nom d'utilisateur « {username} » est déjà pris.",
+  'auth.requirements': "Le nom d'utilisateur doit compter de 3 à 32 lettres, chiffres, points, tirets ou tirets bas, et le mot de passe au moins {min} caractères.",
+  'auth.failed': 'Une erreur est survenue. Veuillez réessayer plus tard.',
+  'auth.signInTitle': 'Connexion',
+  'auth.signInDescription': 'Connectez-vous à votre compte Movie Explorer.',
+  'auth.registerTitle': 'Créer un compte',
+  'auth.registerDescription': 'Créez un compte Movie Explorer pour garder votre liste et vos réglages.',
+
+  'settings.description': "Choisissez votre région, votre langue, vos services de streaming, la langue des bandes-annonces et les sections de l'accueil.",
+  'settings.region': 'Région',
+  'settings.language': 'Langue',
+  'settings.featuredTrailer': 'Bande-annonce mise en avant',
+  'settings.trailerDubbed': 'Dans ma langue si disponible',
+  'settings.trailerOriginal': 'En version originale',
+  'settings.pagination': 'Parcourir les tendances et les listes',
+  'settings.paginationPages': 'Pages numérotées',
+  'settings.paginationLoadMore': 'Un bouton « Charger plus »',
+  'settings.paginationInfinite': 'Charger la suite en faisant défiler',
+  'settings.includeAdult': 'Afficher les titres pour adultes dans la recherche et Découvrir',
+  'settings.homeSections': "Sections de l'accueil",
+  'settings.sectionNowPlaying': "Carrousel « À l'affiche »",
+  'settings.sectionMoreLikeThese': 'Dans la lignée de vos consultations récentes',
+  'settings.sectionTrendingMovies': 'Films tendance',
+  'settings.sectionTrendingTv': 'Séries tendance',
+  'settings.sectionTrendingAll': 'Films, séries et personnalités tendance',
+  'settings.showSection': 'Afficher {section}',
+  'settings.moveUp': 'Monter {section}',
+  'settings.moveDown': 'Descendre {section}',
+  'settings.streamingServices': 'Mes services de streaming',
+  'settings.servicesHint': 'Mis en avant sur les fiches et utilisés par le filtre « Uniquement sur mes services » de Découvrir. Voici les services disponibles en {region} ; enregistrez une autre région pour voir les siens.',
+  'settings.showAllServices': 'Afficher les {count} services',
+  'settings.servicesFailed': 'Impossible de charger les services de streaming pour le moment.',
+  'settings.save': 'Enregistrer les réglages',
+  'settings.saved': 'Réglages enregistrés.',
+  'settings.saveFailed': "Impossible d'enregistrer les réglages. Veuillez réessayer plus tard.",
+
+  'import.sortFile': 'Ordre du fichier',
+  'import.sortRating': 'Votre note',
+  'import.sortWatched': 'Vus récemment',
+  'import.readFailed': "Impossible de lire le fichier. Vérifiez qu'il s'agit d'un export de notes Letterboxd ou IMDb, puis réessayez.",
+  'import.saveFailed': "Impossible d'enregistrer les titres importés. Veuillez réessayer plus tard.",
+  'import.savedOne': '{count} titre enregistré dans votre journal de visionnage.',
+  'import.savedMany': '{count} titres enregistrés dans votre journal de visionnage.',
+  'import.skipped': '{count} sont introuvables sur TMDB.',
+  'import.matching': 'Recherche des titres...',
+  'import.chooseFile': 'Choisir un fichier CSV',
+  'import.letterboxdHint': 'Letterboxd : Settings → Import & Export → Export your data, puis choisissez ratings.csv ou diary.csv.',
+  'import.imdbHint': 'IMDb : Your Ratings → Export.',
+  'import.viewWatched': 'Voir votre journal de visionnage',
+  'import.summary': 'Fichier {format} : {matched} trouvés · {review} à vérifier · {unmatched} introuvables',
+  'import.ignored': '{count} ignorés (épisodes et autres titres non suivis)',
+  'import.pickTitle': 'Choisissez le bon titre',
+  'import.row': 'ligne {line}',
+  'import.noneOfThese': 'Aucun de ceux-ci',
+  'import.notFoundOne': '{count} titre introuvable sur TMDB',
+  'import.notFoundMany': '{count} titres introuvables sur TMDB',
+  'import.matchedTitles': 'Titres trouvés',
+  'import.saving': 'Enregistrement...',
+  'import.save': 'Enregistrer {count} dans le journal de visionnage',
+  'import.skip': 'Ne pas importer',
+  'import.skipTitle': 'Ne pas importer {title}',
+  'import.noMatches': "Aucun titre trouvé pour l'instant.",
+  'import.rowTitle': 'Ligne {line} : {title}',
+  'import.metaTitle': 'Importer et exporter des notes',
+  'import.description': 'Importez vos notes Letterboxd ou IMDb dans votre journal de visionnage, ou exportez-les.',
+  'import.title': 'Importer des notes',
+  'import.intro': 'Envoyez un CSV de notes Letterboxd ou IMDb. Chaque titre est associé à TMDB et enregistré dans votre journal de visionnage avec sa note.',
+  'import.exportTitle': 'Exporter votre journal de visionnage',
+  'import.exportHint': "Le fichier Letterboxd suit le format d'import de Letterboxd et ne contient que des films. Le fichier IMDb reprend les colonnes de l'export de notes d'IMDb.",
+
+  'lists.loadFailed': 'Impossible de charger vos listes. Veuillez réessayer plus tard.',
+  'lists.updateFailed': 'Impossible de mettre à jour la liste. Veuillez réessayer plus tard.',
+  'lists.createFailed': 'Impossible de créer la liste. Veuillez réessayer plus tard.',
+  'lists.importFailed': "Impossible d'importer la liste. Vérifiez que le fichier est un export de liste Movie Explorer, puis réessayez.",
+  'lists.addToList': 'Ajouter à une liste',
+  'lists.loading': 'Chargement de vos listes...',
+  'lists.none': "Vous n'avez encore aucune liste.",
+  'lists.newListName': 'Nom de la nouvelle liste',
+  'lists.createWithTitle': 'Créer une liste avec ce titre',
+  'lists.manage': 'Gérer vos listes',
+  'lists.detailsSaved': 'Informations de la liste enregistrées.',
+  'lists.confirmDelete': 'Supprimer « {name} » ? Son lien de partage ne fonctionnera plus.',
+  'lists.linkCopied': 'Lien de partage copié.',
+  'lists.shareLink': 'Lien de partage : {url}',
+  'lists.name': 'Nom de la liste',
+  'lists.description': 'Description de la liste',
+  'lists.descriptionPlaceholder': 'Description (facultative)',
+  'lists.namePlaceholder': 'Nom, par ex. « Soirée horreur du vendredi »',
+  'lists.saveDetails': 'Enregistrer les informations',
+  'lists.copyLink': 'Copier le lien de partage',
+  'lists.exportJson': 'Exporter en JSON',
+  'lists.delete': 'Supprimer la liste',
+  'lists.emptyEditor': "Cette liste est vide. Utilisez le bouton « Ajouter à une liste » d'un film ou d'une série pour l'ajouter ici.",
+  'lists.notePlaceholder': 'Ajoutez une note (enregistrée en quittant le champ)',
+  'lists.noteFor': 'Note pour {title}',
+  'lists.moveUp': 'Monter {title}',
+  'lists.moveDown': 'Descendre {title}',
+  'lists.removeTitle': 'Retirer {title} de la liste',
+  'lists.importedOne': '« {name} » importée avec {count} titre.',
+  'lists.importedMany': '« {name} » importée avec {count} titres.',
+  'lists.importSkipped': '{count} introuvables ou en double.',
+  'lists.create': 'Créer une liste',
+  'lists.createButton': 'Créer la liste',
+  'lists.importFile': 'Importer depuis un fichier',
+  'lists.yourLists': 'Vos listes',
+  'lists.noListsYet': "Aucune liste pour l'instant. Créez-en une ci-dessus, ou utilisez le bouton « Ajouter à une liste » d'un film ou d'une série.",
+  'lists.titleCountOne': '{count} titre',
+  'lists.titleCountMany': '{count} titres',
+  'lists.updated': 'Mise à jour le {date}',
+  'lists.view': 'Voir',
+  'lists.edit': 'Modifier',
+  'lists.viewName': 'Voir {name}',
+  'lists.editName': 'Modifier {name}',
+  'lists.metaDescription': 'Vos listes de films et de séries.',
+  'lists.editTitle': 'Modifier la liste',
+  'lists.allLists': 'Toutes les listes',
+  'lists.viewSharePage': 'Voir la page de partage',
+  'lists.metaCurated': '{count} titres sélectionnés par {owner} sur Movie Explorer.',
+  'lists.by': 'Une liste de {owner}',
+  'lists.unknownOwner': 'Utilisateur inconnu',
+  'lists.empty': 'Cette liste est vide.',
+
+  'watchlist.description': 'Les titres que vous voulez voir et tout ce que vous avez vu, avec vos notes.',
+  'watchlist.loadFailed': 'Impossible de charger votre liste à voir. Veuillez réessayer plus tard.',
+  'watchlist.updateFailed': 'Impossible de mettre à jour votre liste à voir. Veuillez réessayer plus tard.',
+  'watchlist.empty': "Rien d'enregistré pour l'instant. Utilisez les boutons marque-page et œil d'un film ou d'une série pour constituer votre liste.",
+  'watchlist.counts': '{toWatch} à voir · {watched} vus',
+  'watchlist.type': 'Type',
+  'watchlist.status': 'Statut',
+  'watchlist.all': 'Tous',
+  'watchlist.toWatch': 'À voir',
+  'watchlist.watched': 'Vu',
+  'watchlist.watchedOn': 'Vu le {date}',
+  'watchlist.watchedOnLabel': 'Vu le',
+  'watchlist.noMatches': 'Aucun titre enregistré ne correspond à ces filtres.',
+  'watchlist.sortAdded': 'Ajoutés récemment',
+  'watchlist.sortTmdb': 'Note TMDB',
+  'watchlist.sortRelease': 'Date de sortie',
+  'watchlist.signIn': 'Connectez-vous pour utiliser votre liste à voir',
+  'watchlist.signInToAdd': 'Connectez-vous pour ajouter {title} à votre liste à voir',
+  'watchlist.thisTitle': 'ce titre',
+  'watchlist.onWatchlist': 'Dans votre liste à voir',
+  'watchlist.add': 'Ajouter à ma liste à voir',
+  'watchlist.addTitle': 'Ajouter {title} à votre liste à voir',
+  'watchlist.removeTitle': 'Retirer {title} de votre liste à voir',
+  'watchlist.removeShort': 'Retirer de ma liste à voir',
+  'watchlist.remove': 'Retirer',
+  'watchlist.removeEverywhere': "Retirer de la liste à voir et de l'historique",
+  'watchlist.markWatched': 'Marquer comme vu',
+  'watchlist.markNotWatched': 'Marquer comme non vu',
+  'watchlist.markTitleWatched': 'Marquer {title} comme vu',
+  'watchlist.markTitleNotWatched': 'Marquer {title} comme non vu',
+  'watchlist.notRated': 'Non noté',
+
+  'images.backdrops': 'Arrière-plans',
+  'images.posters': 'Affiches',
+  'images.logos': 'Logos',
+  'images.backdrop': 'arrière-plan',
+  'images.poster': 'affiche',
+  'images.logo': 'logo',
+  'images.landscape': 'Paysage',
+  'images.portrait': 'Portrait',
+  'images.square': 'Presque carré',
+  'images.noText': 'Sans texte',
+  'images.language': "Langue de l'image",
+  'images.allLanguages': 'Toutes les langues',
+  'images.shape': "Format de l'image",
+  'images.anyShape': 'Tous formats',
+  'images.open': 'Ouvrir {kind} {number} de {title}',
+  'images.noMatches': 'Aucune image ne correspond à ces filtres.',
+  'images.position': 'Image {number} sur {total}',
+  'images.size': 'Taille',
+  'images.original': 'Originale',
+  'images.width': '{width} px de large',
+  'images.download': "Télécharger l'original",
+  'images.close': 'Fermer la visionneuse',
+  'images.alt': '{kind} {number}',
+  'images.previous': 'Image précédente',
+  'images.next': 'Image suivante',
+  'images.metaTitle': 'Images : {title}',
+  'images.metaDescription': 'Affiches, arrière-plans et logos de {title} sur Movie Explorer.',
+
+  'videos.title': 'Bandes-annonces et vidéos',
+  'videos.play': 'Lire {name}',
+  'videos.noTrailer': 'Aucune bande-annonce officielle disponible.',
+  'videos.noTrailerFor': "Désolé, il n'y a pas encore de bande-annonce pour {title}.",
+  'videos.all': 'Toutes les vidéos',
+  'videos.language': 'Langue de la vidéo',
+  'videos.noLanguage': 'Sans langue',
+  'videos.noneInLanguage': 'Aucune vidéo de ce type en {language}.',
+  'videos.trailers': 'Bandes-annonces',
+  'videos.teasers': 'Teasers',
+  'videos.clips': 'Extraits',
+  'videos.featurettes': 'Featurettes',
+  'videos.behindTheScenes': 'Coulisses',
+  'videos.more': 'Autres',
+  'videos.close': 'Fermer la vidéo',
+
+  'credits.creator': 'Créateur',
+  'credits.creators': 'Créateurs',
+  'credits.director': 'Réalisation',
+  'credits.directors': 'Réalisation',
+  'credits.writer': 'Scénario',
+  'credits.writers': 'Scénario',
+  'credits.topCast': "Têtes d'affiche",
+
+  'providers.title': 'Où regarder',
+  'providers.stream': 'Streaming',
+  'providers.free': 'Gratuit',
+  'providers.rent': 'Location',
+  'providers.buy': 'Achat',
+  'providers.regionFailed': "Impossible d'enregistrer votre région. Veuillez réessayer plus tard.",
+  'providers.yours': '{name} (un de vos services)',
+  'providers.attribution': 'Disponibilités fournies par JustWatch via TMDB.',
+  'providers.allOffers': 'Toutes les offres',
+  'providers.unavailable': "{title} n'est actuellement pas disponible en streaming, location ou achat en {region}.",
+
+  'season.metaDescription': 'Tous les épisodes de {show} {season}.',
+  'season.backTo': 'Retour à {show}',
+  'season.posterAlt': 'Affiche de {show} {season}',
+  'season.episodes': 'Épisodes',
+  'season.noEpisodes': "Aucun épisode annoncé pour l'instant.",
+  'season.stillAlt': 'Image de {name}',
+
+  'episode.backTo': 'Retour à {show} saison {number}',
+  'episode.guestStars': 'Invités',
+  'episode.upcoming': 'Prochain épisode',
+  'episode.latest': 'Dernier épisode',
+  'episode.airs': 'Diffusion le {date}',
+  'episode.aired': 'Diffusé le {date}',
+
+  'app.name': 'Movie Explorer',
+  'app.description': "Explorez films et séries, réalisé avec Next.js et l'API TMDB",
+
+  'common.notAvailable': 'N/D',
+  'common.movie': 'Film',
+  'common.tvShow': 'Série',
+  'common.person': 'Personne',
+  'common.untitled': 'Sans titre',
+  'common.poster': 'Affiche',
+  'common.profilePhoto': 'Photo de profil',
+  'common.imageUnavailable': 'Image indisponible',
+  'common.viewDetails': 'Voir les détails',
+};
@@ -0,0 +1,29 @@
+// lib/pagination-client.ts
+// Client-side saving of the pagination mode (used by the mode picker above the browse grids).
+
+import { PAGINATION_COOKIE, REGION_COOKIE_MAX_AGE } from './account';
+import { PaginationMode, SessionUser } from './types/account';
+
+/**
+ * Remembers how the browse grids page. Signed-in users get it saved to their settings; visitors
+ * without an account get a cookie, read by getUserSettings on the server.
+ * @param mode The pagination mode, one of PAGINATION_MODES.
+ * @param user The signed-in user, or null.
+ * @returns The updated user if signed in, otherwise null.
+ * @throws An Error with the API's message if saving the settings fails.
+ */
+export async function savePaginationPreference(mode: PaginationMode, user: SessionUser | null): Promise<SessionUser | null> {
+  if (!user) {
+    document.cookie = `${PAGINATION_COOKIE}=${mode}; path=/; max-age=${REGION_COOKIE_MAX_AGE}; samesite=lax`;
+    return null;
+  }
+
+  const response = await fetch('/api/account/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...user.settings, paginationMode: mode }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || `Request failed with status ${response.status}`);
+  return data as SessionUser;
+}
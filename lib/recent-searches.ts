@@ -0,0 +1,48 @@
+// lib/recent-searches.ts
+// Recent search terms for the header typeahead, kept in the browser's localStorage.
+// Safe to call during server rendering: without `window` the history is simply empty.
+
+const STORAGE_KEY = 'movie-explorer:recent-searches';
+const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * Reads the recent search terms, most recent first.
+ * @returns The stored terms, or an empty array if there are none or storage is unavailable.
+ */
+export function getRecentSearches(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((term): term is string => typeof term === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearches(terms: string[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(terms));
+  } catch {
+    // Storage can be full or disabled (e.g., private browsing); history is a nice-to-have.
+  }
+}
+
+/**
+ * Moves a term to the front of the history, dropping duplicates (case-insensitively) and the oldest entries.
+ * @param term The search term to record.
+ */
+export function addRecentSearch(term: string) {
+  const trimmed = term.trim();
+  if (!trimmed || typeof window === 'undefined') return;
+  const rest = getRecentSearches().filter(existing => existing.toLowerCase() !== trimmed.toLowerCase());
+  saveRecentSearches([trimmed, ...rest].slice(0, MAX_RECENT_SEARCHES));
+}
+
+/**
+ * Removes a single term from the history.
+ * @param term The search term to forget.
+ */
+export function removeRecentSearch(term: string) {
+  if (typeof window === 'undefined') return;
+  saveRecentSearches(getRecentSearches().filter(existing => existing !== term));
+}
@@ -0,0 +1,51 @@
+// lib/recently-viewed.ts
+// Titles recently opened in this browser, kept in localStorage. They seed the home page's "More like these" row.
+// Safe to call during server rendering: without `window` the history is simply empty.
+
+const STORAGE_KEY = 'movie-explorer:recently-viewed';
+const MAX_RECENTLY_VIEWED = 10;
+
+export interface RecentlyViewedTitle {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  title: string;
+}
+
+/**
+ * Builds the key identifying a recently viewed title (e.g., "movie-438631"), as sent to /api/recommendations.
+ */
+export const getRecentlyViewedKey = (title: { mediaType: 'movie' | 'tv'; id: number }) => `${title.mediaType}-${title.id}`;
+
+/**
+ * Reads the recently viewed titles, most recent first.
+ * @returns The stored titles, or an empty array if there are none or storage is unavailable.
+ */
+export function getRecentlyViewed(): RecentlyViewedTitle[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is RecentlyViewedTitle =>
+          (entry?.mediaType === 'movie' || entry?.mediaType === 'tv') &&
+          Number.isInteger(entry.id) &&
+          typeof entry.title === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Moves a title to the front of the history, dropping its older entry and the oldest titles.
+ * @param title The title that was just opened.
+ */
+export function addRecentlyViewed(title: RecentlyViewedTitle) {
+  if (typeof window === 'undefined') return;
+  const key = getRecentlyViewedKey(title);
+  const rest = getRecentlyViewed().filter(existing => getRecentlyViewedKey(existing) !== key);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify([title, ...rest].slice(0, MAX_RECENTLY_VIEWED)));
+  } catch {
+    // Storage can be full or disabled (e.g., private browsing); suggestions are a nice-to-have.
+  }
+}
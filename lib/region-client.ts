@@ -0,0 +1,29 @@
+// lib/region-client.ts
+// Client-side saving of the region preference (used by the where-to-watch section).
+
+import { REGION_COOKIE, REGION_COOKIE_MAX_AGE } from './account';
+import { SessionUser } from './types/account';
+
+/**
+ * Remembers a region across sessions. Signed-in users get it saved to their settings (which also
+ * changes the region of everything fetched from TMDB); visitors without an account get a cookie.
+ * @param region The ISO 3166-1 region code, one of REGIONS.
+ * @param user The signed-in user, or null.
+ * @returns The updated user if signed in, otherwise null.
+ * @throws An Error with the API's message if saving the settings fails.
+ */
+export async function saveRegionPreference(region: string, user: SessionUser | null): Promise<SessionUser | null> {
+  if (!user) {
+    document.cookie = `${REGION_COOKIE}=${region}; path=/; max-age=${REGION_COOKIE_MAX_AGE}; samesite=lax`;
+    return null;
+  }
+
+  const response = await fetch('/api/account/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...user.settings, region }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || `Request failed with status ${response.status}`);
+  return data as SessionUser;
+}
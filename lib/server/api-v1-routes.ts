@@ -0,0 +1,158 @@
+// lib/server/api-v1-routes.ts
+// Declarations of the public /api/v1 routes. Each app/api/v1/**/route.ts exports createApiHandler
+// of one of these, and API_V1_ROUTES feeds the OpenAPI document served at /api/v1/openapi.json.
+import 'server-only';
+
+import { z } from 'zod';
+import { DISCOVER_LANGUAGES, DISCOVER_SORT_OPTIONS } from '../discover';
+import { DiscoverSort, TmdbMovieDetails, TmdbTvShowDetails } from '../types/tmdb';
+import { AnyApiRoute, defineApiRoute, tmdbOptionsQuery, toTmdbOptions } from './api-v1';
+import { mediaPageSchema, movieSchema, toMediaPage, toMovie, toTvShow, tvShowSchema } from './api-v1-schemas';
+import {
+  discoverMedia,
+  getMediaDetails,
+  getTrendingAll,
+  getTrendingMovies,
+  getTrendingTvShows,
+  searchMovies,
+  searchMulti,
+  searchPeople,
+  searchTvShows,
+} from './tmdb-api';
+
+// TMDB serves at most 500 pages of any list.
+const page = z.coerce.number().int().min(1).max(500).default(1).describe('Page number, 20 results per page');
+
+const idParams = z.object({
+  id: z.string().regex(/^\d+$/, 'Expected a numeric TMDB ID.').describe('TMDB ID'),
+});
+
+const year = z.coerce.number().int().min(1870).max(2100);
+
+const idList = z.string().regex(/^\d+(,\d+)*$/, 'Expected comma-separated genre IDs such as "28,12".')
+  .transform(value => [...new Set(value.split(',').map(Number))]);
+
+export const movieRoute = defineApiRoute({
+  path: '/movies/{id}',
+  operationId: 'getMovie',
+  summary: 'Get a movie',
+  description: 'Details of a movie by its TMDB ID.',
+  tag: 'Titles',
+  params: idParams,
+  query: z.object(tmdbOptionsQuery),
+  response: movieSchema,
+  maxAge: 3600,
+  async handler({ params, query }) {
+    return toMovie(await getMediaDetails('movie', params.id, toTmdbOptions(query)) as TmdbMovieDetails);
+  },
+});
+
+export const tvShowRoute = defineApiRoute({
+  path: '/tv/{id}',
+  operationId: 'getTvShow',
+  summary: 'Get a TV show',
+  description: 'Details of a TV show by its TMDB ID, including its seasons and next episode.',
+  tag: 'Titles',
+  params: idParams,
+  query: z.object(tmdbOptionsQuery),
+  response: tvShowSchema,
+  maxAge: 3600,
+  async handler({ params, query }) {
+    return toTvShow(await getMediaDetails('tv', params.id, toTmdbOptions(query)) as TmdbTvShowDetails);
+  },
+});
+
+export const searchRoute = defineApiRoute({
+  path: '/search',
+  operationId: 'search',
+  summary: 'Search titles and people',
+  description: 'Searches movies, TV shows and people by name. `year` only applies to movie and TV searches.',
+  tag: 'Lists',
+  params: z.object({}),
+  query: z.object({
+    query: z.string().trim().min(1, 'A search query is required.').max(200).describe('The text to search for'),
+    type: z.enum(['multi', 'movie', 'tv', 'person']).default('multi').describe('What to search; multi searches everything'),
+    year: year.optional().describe('Release year (movies) or first air year (TV)'),
+    page,
+    ...tmdbOptionsQuery,
+  }),
+  response: mediaPageSchema,
+  maxAge: 300,
+  async handler({ query }) {
+    const options = toTmdbOptions(query);
+    switch (query.type) {
+      case 'movie': return toMediaPage(await searchMovies(query.query, query.page, { ...options, year: query.year }));
+      case 'tv': return toMediaPage(await searchTvShows(query.query, query.page, { ...options, year: query.year }));
+      case 'person': return toMediaPage(await searchPeople(query.query, query.page, options));
+      default: return toMediaPage(await searchMulti(query.query, query.page, options));
+    }
+  },
+});
+
+export const trendingRoute = defineApiRoute({
+  path: '/trending',
+  operationId: 'getTrending',
+  summary: 'Trending titles',
+  description: 'Trending movies, TV shows, or everything including people, over the last day or week.',
+  tag: 'Lists',
+  params: z.object({}),
+  query: z.object({
+    type: z.enum(['movie', 'tv', 'all']).default('movie').describe('What to list; all mixes movies, TV shows and people'),
+    window: z.enum(['day', 'week']).default('week').describe('Rank by the last day or the last week'),
+    page,
+    ...tmdbOptionsQuery,
+  }),
+  response: mediaPageSchema,
+  maxAge: 900,
+  async handler({ query }) {
+    const fetchTrending = query.type === 'all' ? getTrendingAll : query.type === 'tv' ? getTrendingTvShows : getTrendingMovies;
+    return toMediaPage(await fetchTrending(query.page, toTmdbOptions(query), query.window));
+  },
+});
+
+export const discoverRoute = defineApiRoute({
+  path: '/discover',
+  operationId: 'discover',
+  summary: 'Discover titles by filters',
+  description: 'Movies or TV shows matching every given filter, the same filters as the site\'s Discover page.',
+  tag: 'Lists',
+  params: z.object({}),
+  query: z.object({
+    type: z.enum(['movie', 'tv']).default('movie'),
+    genres: idList.optional().describe('Comma-separated genre IDs; titles must have all of them'),
+    excludeGenres: idList.optional().describe('Comma-separated genre IDs; titles must have none of them'),
+    yearFrom: year.optional().describe('Earliest release (or first air) year, inclusive'),
+    yearTo: year.optional().describe('Latest release (or first air) year, inclusive'),
+    minRating: z.coerce.number().min(0).max(10).optional().describe('Minimum vote average, 0-10'),
+    minVotes: z.coerce.number().int().min(0).optional().describe('Minimum vote count'),
+    minRuntime: z.coerce.number().int().min(0).max(1000).optional().describe('In minutes'),
+    maxRuntime: z.coerce.number().int().min(0).max(1000).optional().describe('In minutes'),
+    originalLanguage: z.enum(DISCOVER_LANGUAGES.map(({ code }) => code) as [string, ...string[]]).optional()
+      .describe('ISO 639-1 original language'),
+    sort: z.enum(DISCOVER_SORT_OPTIONS.map(({ value }) => value) as [DiscoverSort, ...DiscoverSort[]]).default('popularity'),
+    page,
+    ...tmdbOptionsQuery,
+  }),
+  response: mediaPageSchema,
+  maxAge: 900,
+  async handler({ query }) {
+    const filters = {
+      mediaType: query.type,
+      includeGenres: query.genres ?? [],
+      excludeGenres: query.excludeGenres ?? [],
+      yearFrom: query.yearFrom,
+      yearTo: query.yearTo,
+      minRating: query.minRating,
+      minVotes: query.minVotes,
+      minRuntime: query.minRuntime,
+      maxRuntime: query.maxRuntime,
+      language: query.originalLanguage,
+      onMyServices: false, // Needs a signed-in user's services, which the API doesn't know about
+      sort: query.sort,
+    };
+    return toMediaPage(await discoverMedia(filters, query.page, toTmdbOptions(query)));
+  },
+});
+
+// In the order they appear in the OpenAPI document.
+export const API_V1_ROUTES: AnyApiRoute[] = [movieRoute, tvShowRoute, searchRoute, trendingRoute, discoverRoute];
@@ -0,0 +1,212 @@
+// lib/server/api-v1-schemas.ts
+// Response shapes of the public /api/v1 routes and the mappers from TMDB's responses to them.
+// Unlike TMDB's snake_case payloads, these are camelCase, flattened and stable: fields TMDB adds
+// or renames don't leak through. Every named shape is registered in apiSchemas, which is where
+// the OpenAPI document's components come from (see openapi.ts).
+import 'server-only';
+
+import { z } from 'zod';
+import { PaginatedResponse, TmdbMediaItem, TmdbMovieDetails, TmdbTvShowDetails } from '../types/tmdb';
+
+// Named schemas, emitted as components/schemas in the OpenAPI document.
+export const apiSchemas = z.registry<{ id: string }>();
+
+const imagePath = (description: string) =>
+  z.string().nullable().describe(`${description}. A TMDB image path: prepend https://image.tmdb.org/t/p/{size}`);
+
+// --- Shared pieces ---
+
+export const apiErrorSchema = z.object({
+  error: z.object({
+    code: z.enum(['invalid_request', 'not_found', 'rate_limited', 'upstream_error']),
+    message: z.string(),
+    issues: z.array(z.object({
+      path: z.string().describe('The parameter that failed validation, e.g. "page"'),
+      message: z.string(),
+    })).optional().describe('Only for invalid_request errors'),
+  }),
+}).describe('The body of every error response').register(apiSchemas, { id: 'Error' });
+
+const ratingSchema = z.object({
+  average: z.number().describe('Vote average, 0-10'),
+  count: z.number(),
+}).register(apiSchemas, { id: 'Rating' });
+
+const genreSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+}).register(apiSchemas, { id: 'Genre' });
+
+export const mediaSummarySchema = z.object({
+  id: z.number().describe('TMDB ID'),
+  mediaType: z.enum(['movie', 'tv', 'person']),
+  title: z.string().describe('Movie title, TV show name or person name'),
+  originalTitle: z.string().nullable(),
+  overview: z.string(),
+  releaseDate: z.string().nullable().describe('Release date (movies) or first air date (TV) as YYYY-MM-DD; null for people and undated titles'),
+  year: z.number().nullable(),
+  posterPath: imagePath('Poster, or the profile photo for people'),
+  backdropPath: imagePath('Backdrop'),
+  originalLanguage: z.string().nullable().describe('ISO 639-1 code'),
+  rating: ratingSchema,
+  popularity: z.number(),
+  knownForDepartment: z.string().nullable().describe('For people only, e.g. "Acting"'),
+}).describe('A movie, TV show or person as it appears in lists and search results').register(apiSchemas, { id: 'MediaSummary' });
+
+export const mediaPageSchema = z.object({
+  page: z.number(),
+  totalPages: z.number(),
+  totalResults: z.number(),
+  results: z.array(mediaSummarySchema),
+}).describe('One page of a list or search').register(apiSchemas, { id: 'MediaPage' });
+
+// --- Details ---
+
+const detailsFields = {
+  ...mediaSummarySchema.shape,
+  tagline: z.string().nullable(),
+  status: z.string().describe('e.g. "Released" or "Returning Series"'),
+  genres: z.array(genreSchema),
+  homepage: z.string().nullable(),
+  spokenLanguages: z.array(z.string()).describe('ISO 639-1 codes'),
+};
+
+export const movieSchema = z.object({
+  ...detailsFields,
+  mediaType: z.literal('movie'),
+  runtime: z.number().nullable().describe('In minutes'),
+  budget: z.number().nullable().describe('In US dollars; null when unknown'),
+  revenue: z.number().nullable().describe('In US dollars; null when unknown'),
+  imdbId: z.string().nullable(),
+  collection: z.object({ id: z.number(), name: z.string() }).nullable().describe('The franchise the movie belongs to'),
+  productionCompanies: z.array(z.string()),
+}).describe('A movie with its details').register(apiSchemas, { id: 'Movie' });
+
+export const tvShowSchema = z.object({
+  ...detailsFields,
+  mediaType: z.literal('tv'),
+  lastAirDate: z.string().nullable(),
+  inProduction: z.boolean(),
+  episodeRuntime: z.number().nullable().describe('Typical episode length in minutes'),
+  numberOfSeasons: z.number(),
+  numberOfEpisodes: z.number(),
+  networks: z.array(z.string()),
+  createdBy: z.array(z.string()),
+  seasons: z.array(z.object({
+    seasonNumber: z.number().describe('0 for specials'),
+    name: z.string(),
+    episodeCount: z.number(),
+    airDate: z.string().nullable(),
+    posterPath: imagePath('Season poster'),
+  })),
+  nextEpisode: z.object({
+    seasonNumber: z.number(),
+    episodeNumber: z.number(),
+    name: z.string(),
+    airDate: z.string().nullable(),
+  }).nullable().describe('The next episode scheduled to air, if any'),
+}).describe('A TV show with its details').register(apiSchemas, { id: 'TvShow' });
+
+export type ApiMediaSummary = z.infer<typeof mediaSummarySchema>;
+export type ApiMediaPage = z.infer<typeof mediaPageSchema>;
+export type ApiMovie = z.infer<typeof movieSchema>;
+export type ApiTvShow = z.infer<typeof tvShowSchema>;
+
+// --- Mappers ---
+
+/**
+ * Converts a list or search result to the v1 summary shape.
+ * @param item A movie, TV show or person from a TMDB list endpoint.
+ * @returns The summary, with movie and TV field names unified.
+ */
+export function toMediaSummary(item: TmdbMediaItem): ApiMediaSummary {
+  const isPerson = item.media_type === 'person';
+  const releaseDate = (item.media_type === 'movie' ? item.release_date : item.first_air_date) || null;
+  return {
+    id: item.id,
+    mediaType: item.media_type,
+    title: (item.media_type === 'movie' ? item.title : item.name) || 'Untitled',
+    originalTitle: (item.media_type === 'movie' ? item.original_title : item.original_name) || null,
+    overview: item.overview,
+    releaseDate: isPerson ? null : releaseDate,
+    year: !isPerson && releaseDate ? parseInt(releaseDate.slice(0, 4), 10) : null,
+    posterPath: (isPerson ? item.profile_path : item.poster_path) ?? null,
+    backdropPath: item.backdrop_path,
+    originalLanguage: item.original_language || null,
+    rating: { average: item.vote_average, count: item.vote_count },
+    popularity: item.popularity,
+    knownForDepartment: isPerson ? item.known_for_department || null : null,
+  };
+}
+
+/**
+ * Converts a TMDB paginated response to the v1 page shape.
+ * @param data The TMDB response.
+ * @returns The page, with every result converted by toMediaSummary.
+ */
+export function toMediaPage(data: PaginatedResponse<TmdbMediaItem>): ApiMediaPage {
+  return {
+    page: data.page,
+    totalPages: data.total_pages,
+    totalResults: data.total_results,
+    results: data.results.map(toMediaSummary),
+  };
+}
+
+/**
+ * Converts TMDB's movie details to the v1 movie shape.
+ * @param movie The response of /movie/{id}.
+ * @returns The movie. A budget or revenue of 0 (TMDB's "unknown") becomes null.
+ */
+export function toMovie(movie: TmdbMovieDetails): ApiMovie {
+  return {
+    ...toMediaSummary(movie),
+    mediaType: 'movie',
+    tagline: movie.tagline || null,
+    status: movie.status,
+    genres: movie.genres.map(({ id, name }) => ({ id, name })),
+    homepage: movie.homepage || null,
+    spokenLanguages: movie.spoken_languages.map(language => language.iso_639_1),
+    runtime: movie.runtime || null,
+    budget: movie.budget || null,
+    revenue: movie.revenue || null,
+    imdbId: movie.imdb_id || null,
+    collection: movie.belongs_to_collection ? { id: movie.belongs_to_collection.id, name: movie.belongs_to_collection.name } : null,
+    productionCompanies: movie.production_companies.map(company => company.name),
+  };
+}
+
+/**
+ * Converts TMDB's TV show details to the v1 TV show shape.
+ * @param show The response of /tv/{id}.
+ * @returns The TV show.
+ */
+export function toTvShow(show: TmdbTvShowDetails): ApiTvShow {
+  const next = show.next_episode_to_air;
+  return {
+    ...toMediaSummary(show),
+    mediaType: 'tv',
+    tagline: show.tagline || null,
+    status: show.status,
+    genres: show.genres.map(({ id, name }) => ({ id, name })),
+    homepage: show.homepage || null,
+    spokenLanguages: show.spoken_languages.map(language => language.iso_639_1),
+    lastAirDate: show.last_air_date,
+    inProduction: show.in_production,
+    episodeRuntime: show.episode_run_time[0] ?? null,
+    numberOfSeasons: show.number_of_seasons,
+    numberOfEpisodes: show.number_of_episodes,
+    networks: show.networks.map(network => network.name),
+    createdBy: show.created_by.map(creator => creator.name),
+    seasons: show.seasons.map(season => ({
+      seasonNumber: season.season_number,
+      name: season.name,
+      episodeCount: season.episode_count,
+      airDate: season.air_date,
+      posterPath: season.poster_path,
+    })),
+    nextEpisode: next
+      ? { seasonNumber: next.season_number, episodeNumber: next.episode_number, name: next.name, airDate: next.air_date }
+      : null,
+  };
+}
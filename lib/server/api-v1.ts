@@ -0,0 +1,120 @@
+// lib/server/api-v1.ts
+// Plumbing shared by the public /api/v1 routes. Each route is declared once with defineApiRoute
+// (path, parameter schemas, response schema, handler); createApiHandler turns the declaration into
+// a Next.js route handler and openapi.ts turns the same declarations into the OpenAPI document.
+import 'server-only';
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { TmdbRequestOptions } from '../types/tmdb';
+import { TMDB_RATE_LIMIT_MESSAGE, TmdbNotFoundError, TmdbRateLimitError, getRetryAfterHeaders } from './tmdb-errors';
+
+export const API_V1_BASE_PATH = '/api/v1';
+
+type ApiErrorCode = 'invalid_request' | 'not_found' | 'rate_limited' | 'upstream_error';
+
+export interface ApiRoute<P extends z.ZodObject, Q extends z.ZodObject, R extends z.ZodType> {
+  path: string; // Relative to API_V1_BASE_PATH, with OpenAPI-style parameters, e.g. "/movies/{id}"
+  operationId: string;
+  summary: string;
+  description: string;
+  tag: string;
+  params: P; // Path parameters, one field per {placeholder}
+  query: Q;
+  response: R; // Must be registered in apiSchemas (see api-v1-schemas.ts)
+  maxAge: number; // Seconds clients and CDNs may reuse a response for
+  handler(input: { params: z.output<P>; query: z.output<Q> }): Promise<z.output<R>>;
+}
+
+export type AnyApiRoute = ApiRoute<z.ZodObject, z.ZodObject, z.ZodType>;
+
+/**
+ * Declares a v1 route. Only an identity function, so TypeScript infers the handler's input and output types.
+ * @param route The route declaration.
+ * @returns The same declaration.
+ */
+export function defineApiRoute<P extends z.ZodObject, Q extends z.ZodObject, R extends z.ZodType>(route: ApiRoute<P, Q, R>): ApiRoute<P, Q, R> {
+  return route;
+}
+
+// Query parameters every TMDB-backed route accepts. The API ignores the caller's session and
+// site settings, so the same URL always returns the same response and can be cached publicly.
+export const tmdbOptionsQuery = {
+  language: z.string().regex(/^[a-z]{2}-[A-Z]{2}$/, 'Expected a language tag such as "fr-FR".').optional()
+    .describe('Language for titles and overviews, e.g. "fr-FR". Defaults to English.'),
+  region: z.string().regex(/^[A-Z]{2}$/, 'Expected an ISO 3166-1 country code such as "GB".').optional()
+    .describe('ISO 3166-1 country code, used for release dates'),
+};
+
+/**
+ * Picks the TMDB request options out of a parsed query (see tmdbOptionsQuery).
+ */
+export function toTmdbOptions(query: { language?: string; region?: string }): TmdbRequestOptions {
+  return { language: query.language, region: query.region };
+}
+
+/**
+ * Builds an error response in the v1 envelope (see apiErrorSchema).
+ */
+function apiError(status: number, code: ApiErrorCode, message: string, extra: { issues?: z.core.$ZodIssue[]; headers?: Record<string, string> } = {}) {
+  const issues = extra.issues?.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+  return NextResponse.json(
+    { error: { code, message, ...(issues ? { issues } : {}) } },
+    { status, headers: { 'Cache-Control': 'no-store', ...extra.headers } }
+  );
+}
+
+/**
+ * Checks whether an If-None-Match header matches an ETag. Weak comparison, as RFC 9110 asks for GET.
+ */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  return ifNoneMatch.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+}
+
+/**
+ * Turns a route declaration into a Next.js GET handler: validates the path and query parameters,
+ * runs the handler, and sends the result with ETag and Cache-Control headers (or a 304 when the
+ * client's copy is current). TMDB failures are mapped onto the error envelope.
+ * @param route The route declaration.
+ * @returns The handler to export as GET from the route's route.ts.
+ */
+export function createApiHandler(route: AnyApiRoute) {
+  return async function GET(request: Request, { params }: { params: Promise<Record<string, string>> }) {
+    const parsedParams = route.params.safeParse((await params) ?? {}); // Routes without dynamic segments get no params
+    if (!parsedParams.success) {
+      return apiError(400, 'invalid_request', 'Invalid path parameters.', { issues: parsedParams.error.issues });
+    }
+    const { searchParams } = new URL(request.url);
+    const parsedQuery = route.query.safeParse(Object.fromEntries(searchParams));
+    if (!parsedQuery.success) {
+      return apiError(400, 'invalid_request', 'Invalid query parameters.', { issues: parsedQuery.error.issues });
+    }
+
+    let body: string;
+    try {
+      body = JSON.stringify(await route.handler({ params: parsedParams.data, query: parsedQuery.data }));
+    } catch (error) {
+      if (error instanceof TmdbNotFoundError) {
+        return apiError(404, 'not_found', 'Nothing was found at this URL on TMDB.');
+      }
+      if (error instanceof TmdbRateLimitError) {
+        return apiError(503, 'rate_limited', TMDB_RATE_LIMIT_MESSAGE, { headers: getRetryAfterHeaders(error) });
+      }
+      console.error(`API v1 Error in ${route.operationId} (${request.url}):`, error);
+      return apiError(502, 'upstream_error', 'Failed to fetch data from TMDB. Please try again later.');
+    }
+
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    const headers = {
+      ETag: etag,
+      'Cache-Control': `public, max-age=${route.maxAge}, stale-while-revalidate=${route.maxAge}`,
+    };
+    if (matchesETag(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return new NextResponse(body, { headers: { ...headers, 'Content-Type': 'application/json' } });
+  };
+}
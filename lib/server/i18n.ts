@@ -0,0 +1,36 @@
+// lib/server/i18n.ts
+// The active locale for server components and route handlers, as set by the middleware.
+
+import 'server-only';
+import { cache } from 'react';
+import { headers } from 'next/headers';
+import { DEFAULT_LOCALE, LOCALE_HEADER, Locale, Translate, createTranslator, getLocaleLanguage, isSupportedLocale, localizePath } from '../i18n';
+
+/**
+ * Returns the locale of the current request: the URL prefix for pages (see middleware.ts), or the
+ * locale header client components send with API calls. Defaults to English.
+ */
+export const getLocale = cache(async (): Promise<Locale> => {
+  const locale = (await headers()).get(LOCALE_HEADER);
+  return isSupportedLocale(locale) ? locale : DEFAULT_LOCALE;
+});
+
+/**
+ * Everything a server component needs to render in the active locale.
+ * @returns The locale, its language tag (for formatDate and friends), the message lookup and
+ *   a helper adding the locale prefix to links.
+ */
+export async function getTranslator(): Promise<{
+  locale: Locale;
+  language: string;
+  t: Translate;
+  localize: (path: string) => string;
+}> {
+  const locale = await getLocale();
+  return {
+    locale,
+    language: getLocaleLanguage(locale),
+    t: createTranslator(locale),
+    localize: (path: string) => localizePath(path, locale),
+  };
+}
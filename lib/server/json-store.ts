@@ -0,0 +1,80 @@
+// lib/server/json-store.ts
+// A tiny persistent store backed by a JSON file in DATA_DIR (default ./data). Good enough for a
+// single deployment's personal data; every write replaces the file atomically.
+import 'server-only';
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface JsonStore<T> {
+  /** Reads the current contents, or the default value if nothing has been saved yet. */
+  read(): Promise<T>;
+  /**
+   * Applies a change and saves it. Updates to the same file run one at a time, so concurrent
+   * requests can't overwrite each other's changes.
+   * @param mutate Receives the current contents to modify in place; its return value is passed through.
+   */
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+// Pending writes per file. Shared across bundles and hot reloads, like the TMDB cache, so that
+// route handlers and server components queue behind each other.
+const globalForJsonStore = globalThis as unknown as { jsonStoreQueues?: Map<string, Promise<unknown>> };
+
+function getQueues(): Map<string, Promise<unknown>> {
+  if (!globalForJsonStore.jsonStoreQueues) {
+    globalForJsonStore.jsonStoreQueues = new Map();
+  }
+  return globalForJsonStore.jsonStoreQueues;
+}
+
+/**
+ * Returns the directory that holds the JSON stores, from DATA_DIR.
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || 'data');
+}
+
+/**
+ * Creates a store for one JSON file.
+ * @param fileName The file name inside the data directory (e.g., "watchlist.json").
+ * @param createDefault Builds the initial contents when the file doesn't exist yet.
+ * @returns The store.
+ */
+export function createJsonStore<T>(fileName: string, createDefault: () => T): JsonStore<T> {
+  const getFilePath = () => path.join(getDataDir(), fileName);
+
+  async function read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(getFilePath(), 'utf8')) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return createDefault();
+      throw error;
+    }
+  }
+
+  async function write(data: T) {
+    const filePath = getFilePath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temporary file and rename it over the old one, so a crash never leaves half a file.
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2) + '\n');
+    await fs.rename(tempPath, filePath);
+  }
+
+  function update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    const queues = getQueues();
+    const key = getFilePath();
+    const run = (queues.get(key) ?? Promise.resolve()).then(async () => {
+      const data = await read();
+      const result = await mutate(data);
+      await write(data);
+      return result;
+    });
+    // Keep the queue going even if this update fails.
+    queues.set(key, run.catch(() => undefined));
+    return run;
+  }
+
+  return { read, update };
+}
@@ -0,0 +1,299 @@
+// lib/server/list-store.ts
+// Server-side persistence for user-curated lists, stored in data/lists.json.
+import 'server-only';
+
+import { randomBytes, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { TmdbMovieDetails, TmdbTvShowDetails } from '../types/tmdb';
+import { CustomList, ListDetailsUpdate, ListExport, ListItem, ListItemUpdate, PublicList } from '../types/lists';
+import {
+  LIST_EXPORT_FORMAT,
+  MAX_LIST_DESCRIPTION_LENGTH,
+  MAX_LIST_ITEMS,
+  MAX_LIST_NAME_LENGTH,
+  MAX_LIST_NOTE_LENGTH,
+  getListItemKey,
+} from '../lists';
+import { getMediaDetails } from './tmdb-api';
+import { TmdbNotFoundError } from './tmdb-errors';
+import { createJsonStore } from './json-store';
+import { getUserById } from './user-store';
+
+interface ListsData {
+  version: 1;
+  lists: Record<string, CustomList>; // Keyed by list ID
+}
+
+const store = createJsonStore<ListsData>('lists.json', () => ({ version: 1, lists: {} }));
+
+/**
+ * A change the list can't accept, such as a reorder that doesn't name every item or adding to a full list.
+ * API routes answer it with 400.
+ */
+export class ListUpdateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListUpdateError';
+  }
+}
+
+const name = z.string().trim().min(1, 'Give the list a name.').max(MAX_LIST_NAME_LENGTH);
+const description = z.string().trim().max(MAX_LIST_DESCRIPTION_LENGTH);
+const note = z.string().trim().max(MAX_LIST_NOTE_LENGTH);
+
+export const listCreateSchema = z.object({
+  name,
+  description: description.optional(),
+});
+
+export const listDetailsUpdateSchema = z.object({
+  name: name.optional(),
+  description: description.optional(),
+  order: z.array(z.string()).max(MAX_LIST_ITEMS).optional(),
+}) satisfies z.ZodType<ListDetailsUpdate>;
+
+export const listItemUpdateSchema = z.object({
+  note: note.optional(),
+}) satisfies z.ZodType<ListItemUpdate>;
+
+export const listExportSchema = z.object({
+  format: z.literal(LIST_EXPORT_FORMAT),
+  version: z.literal(1),
+  name,
+  description: description.default(''),
+  items: z
+    .array(z.object({
+      mediaType: z.enum(['movie', 'tv']),
+      id: z.number().int().positive(),
+      note: note.default(''),
+    }))
+    .max(MAX_LIST_ITEMS),
+}) satisfies z.ZodType<ListExport, unknown>;
+
+/**
+ * Turns a list name into a URL slug, with a random suffix so names can repeat and share links can't be guessed.
+ */
+function createSlug(listName: string): string {
+  const base = listName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  const suffix = randomBytes(4).toString('hex');
+  return base ? `${base}-${suffix}` : suffix;
+}
+
+/**
+ * Fetches a title from TMDB and copies its display fields into a list item.
+ * @throws A TmdbNotFoundError if the title doesn't exist on TMDB.
+ */
+async function createListItem(mediaType: 'movie' | 'tv', id: number, itemNote: string): Promise<ListItem> {
+  const media = await getMediaDetails(mediaType, String(id));
+  const isMovie = mediaType === 'movie';
+  return {
+    mediaType,
+    id,
+    note: itemNote,
+    addedAt: new Date().toISOString(),
+    title: (isMovie ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name) || 'Untitled',
+    posterPath: media.poster_path,
+    releaseDate: (isMovie ? (media as TmdbMovieDetails).release_date : (media as TmdbTvShowDetails).first_air_date) || null,
+    voteAverage: media.vote_average,
+  };
+}
+
+/**
+ * Finds a list owned by the given user, or null if it doesn't exist or belongs to someone else.
+ */
+const findOwnedList = (data: ListsData, userId: string, listId: string): CustomList | null => {
+  const list = data.lists[listId];
+  return list && list.ownerId === userId ? list : null;
+};
+
+const touch = (list: CustomList) => {
+  list.updatedAt = new Date().toISOString();
+};
+
+/**
+ * Lists a user's lists, most recently updated first.
+ * @param userId The ID of the signed-in user.
+ */
+export async function listUserLists(userId: string): Promise<CustomList[]> {
+  const { lists } = await store.read();
+  return Object.values(lists)
+    .filter(list => list.ownerId === userId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Reads one of a user's lists.
+ * @returns The list, or null if it doesn't exist or belongs to someone else.
+ */
+export async function getUserList(userId: string, listId: string): Promise<CustomList | null> {
+  return findOwnedList(await store.read(), userId, listId);
+}
+
+/**
+ * Reads a list by its public slug, for the read-only share page.
+ * @returns The list with its owner's username instead of their ID, or null if no list has this slug.
+ */
+export async function getPublicList(slug: string): Promise<PublicList | null> {
+  const { lists } = await store.read();
+  const list = Object.values(lists).find(candidate => candidate.slug === slug);
+  if (!list) return null;
+
+  const { ownerId, ...rest } = list;
+  const owner = await getUserById(ownerId);
+  return { ...rest, ownerName: owner?.username ?? null };
+}
+
+/**
+ * Creates a list.
+ * @param userId The ID of the signed-in user.
+ * @param details The list's name and optional description.
+ * @param items The initial items, for imports.
+ * @returns The new list.
+ */
+export async function createList(userId: string, details: { name: string; description?: string }, items: ListItem[] = []): Promise<CustomList> {
+  const now = new Date().toISOString();
+  const list: CustomList = {
+    id: randomUUID(),
+    slug: createSlug(details.name),
+    ownerId: userId,
+    name: details.name,
+    description: details.description ?? '',
+    createdAt: now,
+    updatedAt: now,
+    items,
+  };
+  return store.update(data => {
+    data.lists[list.id] = list;
+    return list;
+  });
+}
+
+/**
+ * Renames a list, changes its description or reorders its items. The slug never changes, so share links keep working.
+ * @param update The fields to change. `order` must contain every item key exactly once.
+ * @returns The updated list, or null if it doesn't exist or belongs to someone else.
+ * @throws A ListUpdateError if the order doesn't match the list's items.
+ */
+export async function updateList(userId: string, listId: string, update: ListDetailsUpdate): Promise<CustomList | null> {
+  return store.update(data => {
+    const list = findOwnedList(data, userId, listId);
+    if (!list) return null;
+
+    if (update.order) {
+      const byKey = new Map(list.items.map(item => [getListItemKey(item), item]));
+      const reordered = update.order.map(key => byKey.get(key));
+      if (update.order.length !== list.items.length || new Set(update.order).size !== list.items.length || reordered.some(item => !item)) {
+        throw new ListUpdateError('The new order must list every item exactly once. Reload the list and try again.');
+      }
+      list.items = reordered as ListItem[];
+    }
+    if (update.name !== undefined) list.name = update.name;
+    if (update.description !== undefined) list.description = update.description;
+    touch(list);
+    return list;
+  });
+}
+
+/**
+ * Deletes a list.
+ * @returns true if the list existed and belonged to the user.
+ */
+export async function deleteList(userId: string, listId: string): Promise<boolean> {
+  return store.update(data => {
+    if (!findOwnedList(data, userId, listId)) return false;
+    delete data.lists[listId];
+    return true;
+  });
+}
+
+/**
+ * Adds a title to the end of a list, or updates its note if it's already there.
+ * @param update The note to set; leaving it out keeps the existing note.
+ * @returns The updated list, or null if it doesn't exist or belongs to someone else.
+ * @throws A TmdbNotFoundError if the title doesn't exist on TMDB, or a ListUpdateError if the list is full.
+ */
+export async function saveListItem(
+  userId: string,
+  listId: string,
+  mediaType: 'movie' | 'tv',
+  id: number,
+  update: ListItemUpdate
+): Promise<CustomList | null> {
+  const existing = (await getUserList(userId, listId))?.items.find(item => item.mediaType === mediaType && item.id === id);
+  // Only new titles need a TMDB lookup; a note edit shouldn't fail because TMDB is down.
+  const created = existing ? null : await createListItem(mediaType, id, update.note ?? '');
+
+  return store.update(data => {
+    const list = findOwnedList(data, userId, listId);
+    if (!list) return null;
+
+    const item = list.items.find(candidate => candidate.mediaType === mediaType && candidate.id === id);
+    if (item) {
+      if (update.note !== undefined) item.note = update.note;
+    } else if (created) {
+      if (list.items.length >= MAX_LIST_ITEMS) {
+        throw new ListUpdateError(`Lists can hold up to ${MAX_LIST_ITEMS} titles.`);
+      }
+      list.items.push(created);
+    }
+    touch(list);
+    return list;
+  });
+}
+
+/**
+ * Removes a title from a list.
+ * @returns The updated list, null if the list doesn't exist or belongs to someone else, or false if the title wasn't on it.
+ */
+export async function removeListItem(userId: string, listId: string, mediaType: 'movie' | 'tv', id: number): Promise<CustomList | null | false> {
+  return store.update(data => {
+    const list = findOwnedList(data, userId, listId);
+    if (!list) return null;
+
+    const index = list.items.findIndex(item => item.mediaType === mediaType && item.id === id);
+    if (index < 0) return false;
+    list.items.splice(index, 1);
+    touch(list);
+    return list;
+  });
+}
+
+/**
+ * Converts a list to the export file format.
+ */
+export function exportList(list: CustomList): ListExport {
+  return {
+    format: LIST_EXPORT_FORMAT,
+    version: 1,
+    name: list.name,
+    description: list.description,
+    items: list.items.map(({ mediaType, id, note: itemNote }) => ({ mediaType, id, note: itemNote })),
+  };
+}
+
+/**
+ * Creates a new list from an export file. Titles are looked up on TMDB again, so the display fields are current;
+ * titles TMDB no longer has are skipped, as are duplicates.
+ * @param userId The ID of the signed-in user.
+ * @param file A validated export (see listExportSchema).
+ * @returns The new list and how many titles were skipped.
+ */
+export async function importList(userId: string, file: ListExport): Promise<{ list: CustomList; skipped: number }> {
+  const unique = [...new Map(file.items.map(item => [getListItemKey(item), item])).values()];
+
+  const results = await Promise.allSettled(unique.map(item => createListItem(item.mediaType, item.id, item.note)));
+  const items: ListItem[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled') items.push(result.value);
+    else if (!(result.reason instanceof TmdbNotFoundError)) throw result.reason;
+  }
+
+  const list = await createList(userId, { name: file.name, description: file.description }, items);
+  return { list, skipped: file.items.length - items.length };
+}
@@ -0,0 +1,108 @@
+// lib/server/media-lists.ts
+// The TMDB lists behind the browse grids, by the key the grids use to fetch further pages from
+// /api/media-list/{list}. Each entry must match what the page renders server-side for page 1.
+import 'server-only';
+
+import { hasGridFilters } from '../grid-filters';
+import { DiscoverFilters, DiscoverSort, GridFilters, MediaListKey, PaginatedResponse, TmdbMediaItem, TmdbRequestOptions } from '../types/tmdb';
+import {
+  discoverMedia,
+  getAiringTodayTvShows,
+  getOnTheAirTvShows,
+  getPopularMovies,
+  getPopularTvShows,
+  getTopRatedMovies,
+  getTopRatedTvShows,
+  getTrendingAll,
+  getTrendingMovies,
+  getTrendingTvShows,
+  getUpcomingMovies,
+} from './tmdb-api';
+
+type MediaListFetcher = (page: number, options: TmdbRequestOptions) => Promise<PaginatedResponse<TmdbMediaItem>>;
+
+export const MEDIA_LISTS: Record<MediaListKey, MediaListFetcher> = {
+  'trending-movies': getTrendingMovies,
+  'trending-movies-day': (page, options) => getTrendingMovies(page, options, 'day'),
+  'trending-tv': getTrendingTvShows,
+  'trending-tv-day': (page, options) => getTrendingTvShows(page, options, 'day'),
+  'trending-all': getTrendingAll,
+  'trending-all-day': (page, options) => getTrendingAll(page, options, 'day'),
+  'popular-movies': getPopularMovies,
+  'top-rated-movies': getTopRatedMovies,
+  'upcoming-movies': getUpcomingMovies,
+  'popular-tv': getPopularTvShows,
+  'top-rated-tv': getTopRatedTvShows,
+  'airing-today-tv': getAiringTodayTvShows,
+  'on-the-air-tv': getOnTheAirTvShows,
+};
+
+// Vote floor of the top rated lists when they come from discover, roughly TMDB's own cutoff for them.
+const TOP_RATED_MIN_VOTES = 200;
+
+interface DiscoverEquivalent {
+  mediaType: 'movie' | 'tv';
+  sort: DiscoverSort; // The order the list is in
+  minVotes?: number;
+  days?: [number, number]; // Date window in days from today, inclusive (see DiscoverFilters.dateFrom)
+}
+
+// Lists discover can reproduce. With a sort or filter set, these are fetched from discover so the whole list
+// is sorted and filtered. Trending has no equivalent, so its grids don't offer sorting or filters.
+const DISCOVER_EQUIVALENTS: Partial<Record<MediaListKey, DiscoverEquivalent>> = {
+  'popular-movies': { mediaType: 'movie', sort: 'popularity' },
+  'top-rated-movies': { mediaType: 'movie', sort: 'rating', minVotes: TOP_RATED_MIN_VOTES },
+  'upcoming-movies': { mediaType: 'movie', sort: 'popularity', days: [1, 28] },
+  'popular-tv': { mediaType: 'tv', sort: 'popularity' },
+  'top-rated-tv': { mediaType: 'tv', sort: 'rating', minVotes: TOP_RATED_MIN_VOTES },
+  'airing-today-tv': { mediaType: 'tv', sort: 'popularity', days: [0, 0] },
+  'on-the-air-tv': { mediaType: 'tv', sort: 'popularity', days: [0, 6] },
+};
+
+// The date a number of days from today, as YYYY-MM-DD.
+const daysFromToday = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Checks that a route param names one of the MEDIA_LISTS.
+ */
+export const isMediaListKey = (value: string): value is MediaListKey => Object.hasOwn(MEDIA_LISTS, value);
+
+/**
+ * Checks whether a list can be sorted and filtered, i.e. has a discover equivalent.
+ */
+export const isFilterable = (list: MediaListKey) => Object.hasOwn(DISCOVER_EQUIVALENTS, list);
+
+/**
+ * Fetches one page of a browse list with the grid's sort and filters. With any set, lists with a discover
+ * equivalent are sorted and filtered as a whole by TMDB; the others ignore them.
+ * @param list The list to fetch.
+ * @param page The page number to fetch.
+ * @param filters The grid's sort and filters (see parseGridParams).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns The page, with total_pages and total_results of the filtered list.
+ */
+export async function getMediaListPage(
+  list: MediaListKey,
+  page: number,
+  filters: GridFilters,
+  options: TmdbRequestOptions
+): Promise<PaginatedResponse<TmdbMediaItem>> {
+  const equivalent = DISCOVER_EQUIVALENTS[list];
+  if (!equivalent || !hasGridFilters(filters)) return MEDIA_LISTS[list](page, options);
+
+  const discoverFilters: DiscoverFilters = {
+    mediaType: equivalent.mediaType,
+    includeGenres: filters.genre !== undefined ? [filters.genre] : [],
+    excludeGenres: [],
+    yearFrom: filters.year,
+    yearTo: filters.year,
+    dateFrom: equivalent.days && daysFromToday(equivalent.days[0]),
+    dateTo: equivalent.days && daysFromToday(equivalent.days[1]),
+    minRating: filters.minRating,
+    minVotes: equivalent.minVotes,
+    language: filters.language,
+    onMyServices: false,
+    sort: filters.sort === 'default' ? equivalent.sort : filters.sort,
+  };
+  return discoverMedia(discoverFilters, page, options);
+}
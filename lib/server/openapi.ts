@@ -0,0 +1,109 @@
+// lib/server/openapi.ts
+// Builds the OpenAPI 3.0 document for /api/v1 from the route declarations in api-v1-routes.ts,
+// so the document can't drift from what the routes actually accept and return.
+import 'server-only';
+
+import { z } from 'zod';
+import { API_V1_BASE_PATH, AnyApiRoute } from './api-v1';
+import { API_V1_ROUTES } from './api-v1-routes';
+import { apiSchemas } from './api-v1-schemas';
+
+const schemaRef = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: schemaRef('Error') } },
+});
+
+/**
+ * Converts a parameter schema (a z.object) into OpenAPI parameter objects.
+ * @param schema The route's params or query schema.
+ * @param location Where the parameters go.
+ * @returns One parameter object per field, described by its input JSON Schema.
+ */
+function toParameters(schema: z.ZodObject, location: 'path' | 'query') {
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const { description, ...fieldSchema } = z.toJSONSchema(field as z.ZodType, {
+      target: 'openapi-3.0',
+      io: 'input', // What the caller sends, before coercion and defaults
+      unrepresentable: 'any',
+    });
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !(field as z.ZodType).safeParse(undefined).success,
+      ...(description ? { description } : {}),
+      schema: fieldSchema,
+    };
+  });
+}
+
+/**
+ * Describes one route as an OpenAPI operation.
+ */
+function toOperation(route: AnyApiRoute) {
+  const responseId = apiSchemas.get(route.response)?.id;
+  if (!responseId) {
+    throw new Error(`The response schema of ${route.operationId} is not registered in apiSchemas.`);
+  }
+  const hasPathParams = Object.keys(route.params.shape).length > 0;
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    description: route.description,
+    tags: [route.tag],
+    parameters: [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')],
+    responses: {
+      200: {
+        description: 'OK',
+        headers: {
+          ETag: { description: 'Send it back in If-None-Match to get a 304 while the response is unchanged', schema: { type: 'string' } },
+          'Cache-Control': { description: `public, max-age=${route.maxAge}`, schema: { type: 'string' } },
+        },
+        content: { 'application/json': { schema: schemaRef(responseId) } },
+      },
+      304: { description: 'Not modified: the ETag in If-None-Match still matches' },
+      400: errorResponse('A path or query parameter is invalid (code invalid_request)'),
+      ...(hasPathParams ? { 404: errorResponse('TMDB has nothing with this ID (code not_found)') } : {}),
+      502: errorResponse('TMDB failed or is unreachable (code upstream_error)'),
+      503: errorResponse('TMDB is rate limiting us; retry after the Retry-After header (code rate_limited)'),
+    },
+  };
+}
+
+/**
+ * Builds the OpenAPI document describing every /api/v1 route.
+ * @returns The document, ready to be served as JSON.
+ */
+export function buildOpenApiDocument() {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    target: 'openapi-3.0',
+    io: 'output',
+    uri: id => `#/components/schemas/${id}`,
+  }) as { schemas: Record<string, Record<string, unknown>> };
+  // Drop the $id zod stamps on each schema, which OpenAPI 3.0 doesn't allow.
+  const components = Object.fromEntries(Object.entries(schemas).map(([id, { $id, ...schema }]) => [id, schema]));
+
+  const paths: Record<string, { get: ReturnType<typeof toOperation> }> = {};
+  for (const route of API_V1_ROUTES) {
+    paths[route.path] = { get: toOperation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Movie Explorer API',
+      version: '1.0.0',
+      description: 'Read-only access to the movie and TV data behind Movie Explorer, in stable camelCase shapes. ' +
+        'Responses do not depend on the caller\'s session, so they carry public Cache-Control headers and ETags.',
+    },
+    servers: [{ url: API_V1_BASE_PATH }],
+    tags: [
+      { name: 'Titles', description: 'Single movies and TV shows' },
+      { name: 'Lists', description: 'Paginated lists: search, trending and discover' },
+    ],
+    paths,
+    components: { schemas: components },
+  };
+}
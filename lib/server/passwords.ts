@@ -0,0 +1,34 @@
+// lib/server/passwords.ts
+// Password hashing with scrypt from Node's crypto module, so no native dependencies are needed.
+import 'server-only';
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Hashes a password with a random salt.
+ * @returns A string of the form "scrypt$<salt>$<hash>" (base64), safe to store.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Checks a password against a hash from hashPassword, in constant time.
+ * @returns true if the password matches.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
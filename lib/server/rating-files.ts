@@ -0,0 +1,248 @@
+// lib/server/rating-files.ts
+// Reading and writing Letterboxd and IMDb rating CSV files. Parsing only turns rows into RatingFileRows;
+// matching them to TMDB titles happens in rating-import.ts.
+import 'server-only';
+
+import { RatingFileFormat, RatingFileRow } from '../types/import';
+
+// Files larger than this are rejected before parsing. A ratings export with thousands of titles is well under it.
+export const MAX_RATING_FILE_BYTES = 2 * 1024 * 1024;
+// Every row costs a TMDB lookup, so very large files are cut off.
+export const MAX_RATING_FILE_ROWS = 1000;
+
+/**
+ * The file couldn't be read as a Letterboxd or IMDb rating file. API routes answer it with 400.
+ */
+export class RatingFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RatingFileError';
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may contain commas, quotes and newlines).
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break.
+ */
+const toCsvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Joins rows into CSV text, with a header row.
+ */
+function toCsv(header: string[], rows: (string | number | null)[][]): string {
+  return [header, ...rows].map(fields => fields.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const IMDB_ID_PATTERN = /^tt\d+$/;
+
+const parseDate = (value: string | undefined) => (value && DATE_PATTERN.test(value.trim()) ? value.trim() : null);
+
+const parseYear = (value: string | undefined) => {
+  const year = parseInt(value ?? '', 10);
+  return year >= 1870 && year <= 2100 ? year : null;
+};
+
+/**
+ * Reads a rating on a 1-10 scale; `scale` converts from other scales (2 for Letterboxd's 0.5-5 stars).
+ */
+const parseRating = (value: string | undefined, scale = 1) => {
+  const rating = parseFloat(value ?? '');
+  return Number.isFinite(rating) && rating > 0 ? Math.min(10, Math.max(1, Math.round(rating * scale))) : null;
+};
+
+// IMDb "Title Type" values for what we track. Episodes, video games and the like are ignored.
+const IMDB_TITLE_TYPES: Record<string, 'movie' | 'tv'> = {
+  'movie': 'movie',
+  'tv movie': 'movie',
+  'tvmovie': 'movie',
+  'short': 'movie',
+  'tv short': 'movie',
+  'tvshort': 'movie',
+  'video': 'movie',
+  'tv special': 'movie',
+  'tvspecial': 'movie',
+  'tv series': 'tv',
+  'tvseries': 'tv',
+  'tv mini series': 'tv',
+  'tv mini-series': 'tv',
+  'tvminiseries': 'tv',
+};
+
+/**
+ * Works out which kind of file this is from its header row.
+ * Letterboxd's own exports use Name/Year/Letterboxd URI; its import format (which our exports use) uses Title/Rating10.
+ */
+function detectFormat(columns: Set<string>): RatingFileFormat | null {
+  if (columns.has('const') && columns.has('your rating')) return 'imdb';
+  if (columns.has('letterboxd uri') || (columns.has('name') && columns.has('year'))) return 'letterboxd';
+  if (columns.has('title') && (columns.has('rating10') || columns.has('tmdbid') || columns.has('watcheddate'))) return 'letterboxd';
+  return null;
+}
+
+/**
+ * Parses a Letterboxd (ratings, diary, watched or import-format) or IMDb ratings CSV file.
+ * When a title appears more than once (e.g., rewatches in a Letterboxd diary), the latest watch wins.
+ * @param text The file contents.
+ * @returns The detected format, the rows for movies and TV shows, and how many rows were ignored.
+ * @throws A RatingFileError if the file isn't a recognized rating file or has too many rows.
+ */
+export function parseRatingFile(text: string): { format: RatingFileFormat; rows: RatingFileRow[]; ignored: number } {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, '')); // Strip a byte order mark
+  if (!header) throw new RatingFileError('The file is empty.');
+
+  const columnNames = header.map(name => name.trim().toLowerCase());
+  const format = detectFormat(new Set(columnNames));
+  if (!format) {
+    throw new RatingFileError('This doesn\'t look like a Letterboxd or IMDb ratings export. Check that the first line is the CSV header.');
+  }
+  if (records.length > MAX_RATING_FILE_ROWS) {
+    throw new RatingFileError(`The file has ${records.length} rows; imports are limited to ${MAX_RATING_FILE_ROWS}. Split it into smaller files.`);
+  }
+
+  const rows = new Map<string, RatingFileRow>();
+  let ignored = 0;
+
+  records.forEach((fields, index) => {
+    const get = (...names: string[]) => {
+      for (const name of names) {
+        const column = columnNames.indexOf(name);
+        if (column >= 0 && fields[column]?.trim()) return fields[column].trim();
+      }
+      return undefined;
+    };
+
+    const title = get('title', 'name');
+    let row: RatingFileRow | null = null;
+
+    if (format === 'imdb') {
+      const mediaType = IMDB_TITLE_TYPES[(get('title type') ?? 'movie').toLowerCase()];
+      const imdbId = get('const');
+      if (mediaType && title) {
+        row = {
+          line: index + 2,
+          title,
+          year: parseYear(get('year')),
+          mediaType,
+          imdbId: imdbId && IMDB_ID_PATTERN.test(imdbId) ? imdbId : null,
+          tmdbId: null,
+          rating: parseRating(get('your rating')),
+          watchedAt: parseDate(get('date rated')),
+        };
+      }
+    } else if (title) {
+      const imdbId = get('imdbid');
+      const tmdbId = parseInt(get('tmdbid') ?? '', 10);
+      row = {
+        line: index + 2,
+        title,
+        year: parseYear(get('year')),
+        mediaType: 'movie',
+        imdbId: imdbId && IMDB_ID_PATTERN.test(imdbId) ? imdbId : null,
+        tmdbId: tmdbId > 0 ? tmdbId : null,
+        rating: get('rating10') ? parseRating(get('rating10')) : parseRating(get('rating'), 2),
+        // Diary rows carry the watch date; ratings.csv only has the date the rating was logged.
+        watchedAt: parseDate(get('watched date', 'watcheddate')) ?? parseDate(get('date')),
+      };
+    }
+
+    if (!row) {
+      ignored++;
+      return;
+    }
+    const key = row.tmdbId ? `tmdb-${row.tmdbId}` : row.imdbId ?? `${row.mediaType}-${row.title.toLowerCase()}-${row.year}`;
+    const existing = rows.get(key);
+    if (!existing || (row.watchedAt ?? '') >= (existing.watchedAt ?? '')) {
+      rows.set(key, { ...row, rating: row.rating ?? existing?.rating ?? null });
+    }
+  });
+
+  return { format, rows: [...rows.values()], ignored };
+}
+
+// A watched title ready to be written out
+export interface RatingFileEntry {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  imdbId: string | null;
+  title: string;
+  releaseDate: string | null;
+  rating: number | null;
+  watchedAt: string | null;
+}
+
+/**
+ * Writes watched titles as a CSV file in Letterboxd's import format. Letterboxd only tracks films, so TV shows are left out.
+ */
+export function toLetterboxdCsv(entries: RatingFileEntry[]): string {
+  return toCsv(
+    ['tmdbID', 'imdbID', 'Title', 'Year', 'Rating10', 'WatchedDate'],
+    entries
+      .filter(entry => entry.mediaType === 'movie')
+      .map(entry => [entry.id, entry.imdbId, entry.title, entry.releaseDate?.slice(0, 4) ?? null, entry.rating, entry.watchedAt])
+  );
+}
+
+/**
+ * Writes watched titles as a CSV file with the columns of IMDb's ratings export.
+ * Titles without an IMDb ID keep an empty Const, so re-importing them falls back to a title search.
+ */
+export function toImdbCsv(entries: RatingFileEntry[]): string {
+  return toCsv(
+    ['Const', 'Your Rating', 'Date Rated', 'Title', 'URL', 'Title Type', 'Year'],
+    entries.map(entry => [
+      entry.imdbId,
+      entry.rating,
+      entry.watchedAt,
+      entry.title,
+      entry.imdbId ? `https://www.imdb.com/title/${entry.imdbId}/` : null,
+      entry.mediaType === 'movie' ? 'Movie' : 'TV Series',
+      entry.releaseDate?.slice(0, 4) ?? null,
+    ])
+  );
+}
@@ -0,0 +1,186 @@
+// lib/server/rating-import.ts
+// Matches rows of Letterboxd and IMDb rating files to TMDB titles, and exports the watched log back to those formats.
+import 'server-only';
+
+import { z } from 'zod';
+import { TmdbMediaItem, TmdbRequestOptions } from '../types/tmdb';
+import { ImportMatch, ImportResolution, ImportReview, ImportSaveItem, RatingFileFormat, RatingFileRow } from '../types/import';
+import { findByImdbId, getMediaDetails, getMediaExternalIds, searchMovies, searchTvShows } from './tmdb-api';
+import { TmdbNotFoundError } from './tmdb-errors';
+import { listWatchlistEntries, saveWatchlistEntries } from './watchlist-store';
+import { MAX_RATING_FILE_ROWS, RatingFileEntry, parseRatingFile, toImdbCsv, toLetterboxdCsv } from './rating-files';
+
+// How many search results to offer when a title+year search isn't conclusive
+const MAX_CANDIDATES = 5;
+
+export const importSaveSchema = z.object({
+  items: z
+    .array(z.object({
+      mediaType: z.enum(['movie', 'tv']),
+      id: z.number().int().positive(),
+      rating: z.number().int().min(1).max(10).nullable(),
+      watchedAt: z.iso.date().nullable(),
+    }))
+    .min(1)
+    .max(MAX_RATING_FILE_ROWS),
+}) satisfies z.ZodType<{ items: ImportSaveItem[] }>;
+
+/**
+ * Normalizes a title for comparison: case, accents, punctuation and a leading article don't matter.
+ */
+function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/^(the|a|an) /, '')
+    .trim();
+}
+
+const getYear = (item: TmdbMediaItem) => {
+  const date = item.media_type === 'movie' ? item.release_date : item.first_air_date;
+  return date ? Number(date.slice(0, 4)) : null;
+};
+
+/**
+ * Keeps only what the import page needs from a TMDB item, so the response stays small.
+ */
+const toCandidate = (item: TmdbMediaItem): TmdbMediaItem => ({
+  adult: item.adult,
+  backdrop_path: null,
+  id: item.id,
+  original_language: item.original_language,
+  overview: '',
+  popularity: item.popularity,
+  poster_path: item.poster_path,
+  vote_average: item.vote_average,
+  vote_count: item.vote_count,
+  media_type: item.media_type,
+  title: item.title,
+  release_date: item.release_date,
+  name: item.name,
+  first_air_date: item.first_air_date,
+});
+
+type RowResult = { match: TmdbMediaItem } | { candidates: TmdbMediaItem[] } | null;
+
+/**
+ * Matches a row by title and year. One result whose title and year agree is a match; otherwise
+ * the closest results go to the review queue.
+ */
+async function searchForRow(row: RatingFileRow, options: TmdbRequestOptions): Promise<RowResult> {
+  const search = row.mediaType === 'movie' ? searchMovies : searchTvShows;
+  let { results } = await search(row.title, 1, { ...options, year: row.year ?? undefined });
+  // The year in the file can be off by one from TMDB's release date (festival vs. theatrical release).
+  if (results.length === 0 && row.year) ({ results } = await search(row.title, 1, options));
+  if (results.length === 0) return null;
+
+  const title = normalizeTitle(row.title);
+  const yearMatches = (item: TmdbMediaItem) => !row.year || Math.abs((getYear(item) ?? 0) - row.year) <= 1;
+  const titleMatches = (item: TmdbMediaItem) =>
+    [item.title, item.original_title, item.name, item.original_name].some(candidate => candidate && normalizeTitle(candidate) === title);
+
+  const exact = results.filter(item => titleMatches(item) && yearMatches(item));
+  const sameYear = exact.filter(item => !row.year || getYear(item) === row.year);
+  if (exact.length === 1) return { match: exact[0] };
+  if (sameYear.length === 1) return { match: sameYear[0] };
+
+  // Exact title matches first, then TMDB's own relevance order
+  const ranked = [...exact, ...results.filter(item => !exact.includes(item))];
+  return { candidates: ranked.slice(0, MAX_CANDIDATES) };
+}
+
+/**
+ * Matches one row to a TMDB title: by TMDB ID if the file has one, then by IMDb ID, then by title and year.
+ */
+async function resolveRow(row: RatingFileRow, options: TmdbRequestOptions): Promise<RowResult> {
+  if (row.tmdbId) {
+    try {
+      return { match: await getMediaDetails(row.mediaType, String(row.tmdbId), options) };
+    } catch (error) {
+      if (!(error instanceof TmdbNotFoundError)) throw error;
+    }
+  }
+  if (row.imdbId) {
+    const found = await findByImdbId(row.imdbId, options);
+    // Prefer the type the file says, but IMDb and TMDB don't always agree on what's a TV movie.
+    const [preferred, other] = row.mediaType === 'movie' ? [found.movie_results, found.tv_results] : [found.tv_results, found.movie_results];
+    const match = preferred[0] ?? other[0];
+    if (match) return { match };
+  }
+  return searchForRow(row, options);
+}
+
+/**
+ * Parses a rating file and matches every row to TMDB.
+ * @param text The CSV file contents.
+ * @param options The user's TMDB request options, so titles come back in their language.
+ * @returns Rows sorted into matched, needing review and unmatched.
+ * @throws A RatingFileError if the file can't be read, or a TmdbRateLimitError/TmdbUpstreamError if TMDB can't be reached.
+ */
+export async function resolveRatingFile(text: string, options: TmdbRequestOptions = {}): Promise<ImportResolution> {
+  const { format, rows, ignored } = parseRatingFile(text);
+  const results = await Promise.all(
+    rows.map(row =>
+      resolveRow(row, options).catch(error => {
+        if (error instanceof TmdbNotFoundError) return null;
+        throw error;
+      })
+    )
+  );
+
+  const matched: ImportMatch[] = [];
+  const review: ImportReview[] = [];
+  const unmatched: RatingFileRow[] = [];
+  results.forEach((result, index) => {
+    const row = rows[index];
+    if (!result) unmatched.push(row);
+    else if ('match' in result) matched.push({ row, item: toCandidate(result.match) });
+    else review.push({ row, candidates: result.candidates.map(toCandidate) });
+  });
+
+  return { format, matched, review, unmatched, ignored };
+}
+
+/**
+ * Saves confirmed titles to the user's watched log with the ratings and dates from the file.
+ * Ratings and dates missing from the file keep whatever the user had saved before.
+ * @returns How many titles were saved and how many TMDB no longer has.
+ */
+export async function saveImportedRatings(userId: string, items: ImportSaveItem[]): Promise<{ saved: number; skipped: number }> {
+  const { entries, skipped } = await saveWatchlistEntries(
+    userId,
+    items.map(({ mediaType, id, rating, watchedAt }) => ({
+      mediaType,
+      id,
+      update: { status: 'watched' as const, rating: rating ?? undefined, watchedAt: watchedAt ?? undefined },
+    }))
+  );
+  return { saved: entries.length, skipped };
+}
+
+/**
+ * Writes the user's watched log as a Letterboxd or IMDb CSV file, oldest watch first.
+ * IMDb IDs are looked up on TMDB, since the watchlist doesn't store them.
+ * @throws A TmdbRateLimitError or TmdbUpstreamError if TMDB can't be reached.
+ */
+export async function exportWatchedLog(userId: string, format: RatingFileFormat): Promise<string> {
+  const watched = (await listWatchlistEntries(userId))
+    .filter(entry => entry.status === 'watched' && (format === 'imdb' || entry.mediaType === 'movie'))
+    .sort((a, b) => (a.watchedAt ?? '').localeCompare(b.watchedAt ?? ''));
+
+  const entries: RatingFileEntry[] = await Promise.all(
+    watched.map(async entry => {
+      let imdbId: string | null = null;
+      try {
+        imdbId = (await getMediaExternalIds(entry.mediaType, String(entry.id))).imdb_id;
+      } catch (error) {
+        if (!(error instanceof TmdbNotFoundError)) throw error;
+      }
+      return { ...entry, imdbId };
+    })
+  );
+  return format === 'letterboxd' ? toLetterboxdCsv(entries) : toImdbCsv(entries);
+}
@@ -0,0 +1,69 @@
+// lib/server/recommendations.ts
+// Blends TMDB's recommendations for several titles into one "More like these" row.
+import 'server-only';
+
+import { getMediaRecommendations } from './tmdb-api';
+import { BlendedRecommendation, TmdbRequestOptions } from '../types/tmdb';
+
+// Only the most recently viewed titles are used, which keeps it to a handful of TMDB calls.
+export const MAX_RECOMMENDATION_SEEDS = 5;
+const MAX_BLENDED_RECOMMENDATIONS = 20;
+
+export interface RecommendationSeed {
+  mediaType: 'movie' | 'tv';
+  id: number;
+}
+
+/**
+ * Reads seed titles from a comma-separated list of keys such as "movie-438631,tv-1399".
+ * Malformed keys and duplicates are dropped, and only the first MAX_RECOMMENDATION_SEEDS are kept.
+ */
+export function parseRecommendationSeeds(value: string | null): RecommendationSeed[] {
+  const seeds = new Map<string, RecommendationSeed>();
+  for (const key of (value ?? '').split(',')) {
+    const match = key.trim().match(/^(movie|tv)-(\d+)$/);
+    if (match) seeds.set(match[0], { mediaType: match[1] as 'movie' | 'tv', id: Number(match[2]) });
+  }
+  return [...seeds.values()].slice(0, MAX_RECOMMENDATION_SEEDS);
+}
+
+/**
+ * Fetches recommendations for each seed and merges them. Lists are interleaved rank by rank, so every seed
+ * is represented near the front; a title recommended for several seeds appears once and moves ahead of
+ * titles recommended for only one. The seeds themselves are left out.
+ * @param seeds The titles to base the row on, most recent first.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns Up to MAX_BLENDED_RECOMMENDATIONS titles, each with the keys of the seeds that led to it.
+ * @throws The first seed's error if every seed's recommendations failed to load.
+ */
+export async function blendRecommendations(seeds: RecommendationSeed[], options: TmdbRequestOptions = {}): Promise<BlendedRecommendation[]> {
+  if (seeds.length === 0) return [];
+
+  const results = await Promise.allSettled(
+    seeds.map(seed => getMediaRecommendations(seed.mediaType, String(seed.id), 1, options))
+  );
+  // One missing or failing title shouldn't empty the row, but if nothing loaded the caller should know why.
+  if (results.every(result => result.status === 'rejected')) throw (results[0] as PromiseRejectedResult).reason;
+
+  const seedKeys = seeds.map(seed => `${seed.mediaType}-${seed.id}`);
+  const lists = results.map(result => (result.status === 'fulfilled' ? result.value.results : []));
+  const blended = new Map<string, BlendedRecommendation>();
+
+  const longest = Math.max(...lists.map(list => list.length));
+  for (let rank = 0; rank < longest; rank++) {
+    lists.forEach((list, seedIndex) => {
+      const item = list[rank];
+      if (!item) return;
+      const key = `${item.media_type}-${item.id}`;
+      if (seedKeys.includes(key)) return;
+      const existing = blended.get(key);
+      if (existing) existing.because.push(seedKeys[seedIndex]);
+      else blended.set(key, { item, because: [seedKeys[seedIndex]] });
+    });
+  }
+
+  // Array.prototype.sort is stable, so titles with the same number of seeds keep their interleaved order.
+  return [...blended.values()]
+    .sort((a, b) => b.because.length - a.because.length)
+    .slice(0, MAX_BLENDED_RECOMMENDATIONS);
+}
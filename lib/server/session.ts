@@ -0,0 +1,131 @@
+// lib/server/session.ts
+// Cookie sessions for local accounts. The cookie holds a random token; only its SHA-256 hash is
+// stored (in data/sessions.json), so a leaked data directory can't be used to sign in.
+import 'server-only';
+
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { createHash, randomBytes } from 'crypto';
+import { SessionUser, UserSettings } from '../types/account';
+import { TmdbRequestOptions } from '../types/tmdb';
+import { DEFAULT_USER_SETTINGS, PAGINATION_COOKIE, REGION_COOKIE, SESSION_COOKIE, isPaginationMode, isSupportedRegion } from '../account';
+import { DEFAULT_LOCALE, LOCALE_HEADER, getLocaleLanguage } from '../i18n';
+import { getLocale } from './i18n';
+import { createJsonStore } from './json-store';
+import { getUserById } from './user-store';
+
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface StoredSession {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface SessionsData {
+  version: 1;
+  sessions: Record<string, StoredSession>; // Keyed by token hash
+}
+
+const store = createJsonStore<SessionsData>('sessions.json', () => ({ version: 1, sessions: {} }));
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Starts a session for a user and sets the session cookie. Call from a route handler.
+ * @param userId The ID of the signed-in user.
+ */
+export async function createSession(userId: string): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_DURATION_MS);
+
+  await store.update(data => {
+    // Drop expired sessions while we're here, so the file doesn't grow forever.
+    for (const [hash, session] of Object.entries(data.sessions)) {
+      if (Date.parse(session.expiresAt) <= now) delete data.sessions[hash];
+    }
+    data.sessions[hashToken(token)] = { userId, createdAt: new Date(now).toISOString(), expiresAt: expiresAt.toISOString() };
+  });
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Ends the current session, if any, and clears the session cookie. Call from a route handler.
+ */
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await store.update(data => {
+      delete data.sessions[hashToken(token)];
+    });
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * Returns the signed-in user for the current request, or null for anonymous visitors and expired sessions.
+ * Cached per request, so the layout, pages and metadata can all call it.
+ */
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const { sessions } = await store.read();
+  const session = sessions[hashToken(token)];
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+
+  return getUserById(session.userId);
+});
+
+/**
+ * Returns the current user's settings, or the defaults for anonymous visitors
+ * (with the region and pagination mode from their cookies, if they picked them).
+ * On a locale-prefixed page (/fr/...) the content language follows the page's locale instead of the setting.
+ */
+export async function getUserSettings(): Promise<UserSettings> {
+  const [user, locale] = await Promise.all([getCurrentUser(), getLocale()]);
+  let settings = user?.settings;
+  if (!settings) {
+    const cookieStore = await cookies();
+    const region = cookieStore.get(REGION_COOKIE)?.value;
+    const paginationMode = cookieStore.get(PAGINATION_COOKIE)?.value;
+    settings = {
+      ...DEFAULT_USER_SETTINGS,
+      ...(isSupportedRegion(region) && { region }),
+      ...(isPaginationMode(paginationMode) && { paginationMode }),
+    };
+  }
+  return locale === DEFAULT_LOCALE ? settings : { ...settings, language: getLocaleLanguage(locale) };
+}
+
+/**
+ * Turns user settings into TMDB request options. Values matching TMDB's own defaults are left out,
+ * so most visitors share cache entries (and the offline fixtures still match).
+ */
+export function getTmdbOptions(settings: UserSettings): TmdbRequestOptions {
+  const options: TmdbRequestOptions = {};
+  if (settings.language !== DEFAULT_USER_SETTINGS.language) options.language = settings.language;
+  if (settings.region !== DEFAULT_USER_SETTINGS.region) options.region = settings.region;
+  if (settings.includeAdult) options.includeAdult = true;
+  return options;
+}
+
+/**
+ * Shorthand for the TMDB request options of the current user.
+ */
+export async function getCurrentTmdbOptions(): Promise<TmdbRequestOptions> {
+  return getTmdbOptions(await getUserSettings());
+}
+
+// Vary header for cacheable API responses built from getUserSettings: they follow the locale header the
+// client sends (LOCALE_HEADER) and the session and region cookies, so the browser mustn't reuse them across those.
+export const USER_SETTINGS_VARY = `${LOCALE_HEADER}, Cookie`;
@@ -2,17 +2,52 @@
 // This file contains server-side API fetching logic and MUST NOT be imported by client components.
 import 'server-only';
 
-const TMDB_BASE_URL = "https://api.themoviedb.org/3";
-
-// Ensure TMDB_API_KEY is defined in the environment
-if (!process.env.TMDB_API_KEY) {
-  throw new Error("TMDB_API_KEY is not defined in environment variables. Please check your .env.local file.");
-}
-
-const API_KEY = process.env.TMDB_API_KEY;
-
 // Import core TMDB types from the types file
-import { TmdbMediaItem, TmdbMovieDetails, TmdbTvShowDetails, PaginatedResponse } from '../types/tmdb';
+import {
+  TmdbMediaItem,
+  TmdbMovieDetails,
+  TmdbTvShowDetails,
+  TmdbGenre,
+  TmdbCredits,
+  TmdbPersonDetails,
+  TmdbPersonCombinedCredits,
+  TmdbSeasonDetails,
+  TmdbEpisodeDetails,
+  TmdbImages,
+  TmdbFindResults,
+  TmdbExternalIds,
+  TmdbWatchProvider,
+  TmdbWatchProviders,
+  WatchProviderFilter,
+  DiscoverFilters,
+  SearchOptions,
+  TmdbRequestOptions,
+  TrendingWindow,
+  PaginatedResponse,
+} from '../types/tmdb';
+import { getTmdbProvider } from './tmdb-provider';
+import { withTmdbCache } from './tmdb-cache';
+import { withTmdbResilience } from './tmdb-resilience';
+import {
+  parseTmdbResponse,
+  mediaItemSchema,
+  paginatedSchema,
+  movieDetailsSchema,
+  tvShowDetailsSchema,
+  videoResponseSchema,
+  imagesSchema,
+  genreListSchema,
+  creditsSchema,
+  personDetailsSchema,
+  personCombinedCreditsSchema,
+  seasonDetailsSchema,
+  episodeDetailsSchema,
+  findResultsSchema,
+  externalIdsSchema,
+  watchProvidersSchema,
+  watchProviderListSchema,
+} from './tmdb-schemas';
+import type { z } from 'zod';
 
 // --- Interfaces for Video Data ---
 // These interfaces define the structure of video objects returned by the TMDB API.
@@ -35,143 +70,520 @@ export interface TmdbVideoResponse {
 }
 // --- End Video Interfaces ---
 
+// Schemas for the list endpoints, which omit media_type on everything except /trending.
+const movieListSchema = paginatedSchema(mediaItemSchema('movie'));
+const tvListSchema = paginatedSchema(mediaItemSchema('tv'));
+const personListSchema = paginatedSchema(mediaItemSchema('person'));
+const multiListSchema = paginatedSchema(mediaItemSchema());
+
 /**
  * Generic function to fetch data from the TMDB API.
- * Handles API key injection and robust error handling.
+ * Delegates to the configured data provider (live API, recorded fixtures or record mode; see tmdb-provider.ts).
+ * Responses are validated and normalized against a schema (see tmdb-schemas.ts) before being cached
+ * in-process with per-endpoint TTLs (see tmdb-cache.ts). Cache misses are rate limited, retried and
+ * guarded by a circuit breaker (see tmdb-resilience.ts).
  * @param endpoint The TMDB API endpoint (e.g., "/trending/movie/week").
+ * @param schema The schema the response is expected to match.
  * @param params Optional query parameters to append to the URL.
- * @returns A Promise that resolves to the parsed JSON response from the API.
- * @throws An Error if the network request fails or the API returns an error status.
+ * @param options Language, region and adult-content preferences, sent as TMDB's own query parameters.
+ * @returns A Promise that resolves to the validated response.
+ * @throws A TmdbNotFoundError, TmdbRateLimitError, TmdbUpstreamError or TmdbSchemaError (see tmdb-errors.ts) if the request fails.
  */
-async function fetchFromTmdb(endpoint: string, params: Record<string, string> = {}) {
-  const url = new URL(`${TMDB_BASE_URL}${endpoint}`);
-  url.searchParams.append("api_key", API_KEY);
+async function fetchFromTmdb<T>(
+  endpoint: string,
+  schema: z.ZodType<T>,
+  params: Record<string, string> = {},
+  options: TmdbRequestOptions = {}
+): Promise<T> {
+  params = { ...params };
+  if (options.language) params.language = options.language;
+  if (options.region) params.region = options.region;
+  if (options.includeAdult) params.include_adult = 'true';
 
-  for (const key in params) {
-    url.searchParams.append(key, params[key]);
+  try {
+    return await withTmdbCache(endpoint, params, async () => {
+      const data = await withTmdbResilience(endpoint, () => getTmdbProvider().fetch(endpoint, params));
+      return parseTmdbResponse(endpoint, schema, data);
+    });
+  } catch (error) {
+    console.error("Error fetching from TMDB:", error);
+    throw error;
   }
+}
 
+/**
+ * Fills in text TMDB has no translation for from the English version of the same resource. TMDB sends
+ * untranslated overviews, taglines and biographies as empty strings rather than falling back itself.
+ * Costs a second (cached) request only when a non-English response actually has gaps.
+ * @param data The response in the requested language.
+ * @param fields The translatable text fields to check.
+ * @param options The options `data` was fetched with.
+ * @param fetchEnglish Fetches the same resource with the given options.
+ * @returns The response with empty fields taken from English, or unchanged if the English request fails.
+ */
+async function withEnglishFallback<T extends object>(
+  data: T,
+  fields: (keyof T)[],
+  options: TmdbRequestOptions,
+  fetchEnglish: (options: TmdbRequestOptions) => Promise<T>
+): Promise<T> {
+  if (!options.language || options.language.startsWith('en-') || fields.every(field => data[field])) return data;
   try {
-    const response = await fetch(url.toString());
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ status_message: "Unknown error from TMDB" }));
-      console.error(`TMDB API Error (${response.status} ${response.statusText}):`, errorData);
-      throw new Error(`Failed to fetch data from TMDB: ${errorData.status_message || response.statusText}`);
+    const english = await fetchEnglish({ ...options, language: undefined });
+    const filled = { ...data };
+    for (const field of fields) {
+      if (!filled[field]) filled[field] = english[field];
     }
-
-    return response.json();
+    return filled;
   } catch (error) {
-    console.error("Error fetching from TMDB:", error);
-    throw error;
+    console.error("Failed to fetch the English fallback:", error);
+    return data;
   }
 }
 
 /**
- * Fetches trending movies for the week.
+ * Fetches trending movies.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @param timeWindow Whether to rank by the last day or the last week (defaults to "week").
  * @returns A PaginatedResponse containing trending movie items.
  */
-export async function getTrendingMovies(page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  return fetchFromTmdb("/trending/movie/week", { page: String(page) });
+export async function getTrendingMovies(page: number = 1, options: TmdbRequestOptions = {}, timeWindow: TrendingWindow = 'week'): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb(`/trending/movie/${timeWindow}`, movieListSchema, { page: String(page) }, options);
 }
 
 /**
- * Fetches trending TV shows for the week.
+ * Fetches trending TV shows.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @param timeWindow Whether to rank by the last day or the last week (defaults to "week").
  * @returns A PaginatedResponse containing trending TV show items.
  */
-export async function getTrendingTvShows(page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  return fetchFromTmdb("/trending/tv/week", { page: String(page) });
+export async function getTrendingTvShows(page: number = 1, options: TmdbRequestOptions = {}, timeWindow: TrendingWindow = 'week'): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb(`/trending/tv/${timeWindow}`, tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches trending movies, TV shows and people in a single ranking.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @param timeWindow Whether to rank by the last day or the last week (defaults to "week").
+ * @returns A PaginatedResponse of mixed items; each carries its media_type.
+ */
+export async function getTrendingAll(page: number = 1, options: TmdbRequestOptions = {}, timeWindow: TrendingWindow = 'week'): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb(`/trending/all/${timeWindow}`, multiListSchema, { page: String(page) }, options);
+}
+
+const EMPTY_PAGE: PaginatedResponse<TmdbMediaItem> = { page: 1, results: [], total_pages: 0, total_results: 0 };
+
+/**
+ * Builds the query params shared by the search endpoints.
+ * @param yearParam The name of the endpoint's year filter, if it has one.
+ */
+function getSearchParams(query: string, page: number, options: SearchOptions, yearParam?: string): Record<string, string> {
+  const params: Record<string, string> = { query, page: String(page) };
+  if (yearParam && options.year !== undefined) params[yearParam] = String(options.year);
+  return params;
 }
 
 /**
  * Searches for movies based on a query.
  * @param query The search term.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Optional release year filter, plus language, region and adult-content preferences.
  * @returns A PaginatedResponse containing matching movie items. Returns an empty response if query is empty.
  */
-export async function searchMovies(query: string, page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  if (!query) return { page: 1, results: [], total_pages: 0, total_results: 0 };
-  return fetchFromTmdb("/search/movie", { query, page: String(page) });
+export async function searchMovies(query: string, page: number = 1, options: SearchOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  if (!query) return EMPTY_PAGE;
+  return fetchFromTmdb("/search/movie", movieListSchema, getSearchParams(query, page, options, 'primary_release_year'), options);
 }
 
 /**
  * Searches for TV shows based on a query.
  * @param query The search term.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Optional first air year filter, plus language, region and adult-content preferences.
  * @returns A PaginatedResponse containing matching TV show items. Returns an empty response if query is empty.
  */
-export async function searchTvShows(query: string, page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  if (!query) return { page: 1, results: [], total_pages: 0, total_results: 0 };
-  return fetchFromTmdb("/search/tv", { query, page: String(page) });
+export async function searchTvShows(query: string, page: number = 1, options: SearchOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  if (!query) return EMPTY_PAGE;
+  return fetchFromTmdb("/search/tv", tvListSchema, getSearchParams(query, page, options, 'first_air_date_year'), options);
+}
+
+/**
+ * Searches for people (actors, directors, etc.) based on a query.
+ * @param query The search term.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences. TMDB has no year filter for people, so `year` is ignored.
+ * @returns A PaginatedResponse containing matching people. Returns an empty response if query is empty.
+ */
+export async function searchPeople(query: string, page: number = 1, options: SearchOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  if (!query) return EMPTY_PAGE;
+  return fetchFromTmdb("/search/person", personListSchema, getSearchParams(query, page, options), options);
+}
+
+/**
+ * Searches movies, TV shows and people at once, ranked together by TMDB.
+ * @param query The search term.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences. TMDB's multi search has no year filter, so `year` is ignored.
+ * @returns A PaginatedResponse of mixed items, each with its media_type set. Returns an empty response if query is empty.
+ */
+export async function searchMulti(query: string, page: number = 1, options: SearchOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  if (!query) return EMPTY_PAGE;
+  return fetchFromTmdb("/search/multi", multiListSchema, getSearchParams(query, page, options), options);
 }
 
 /**
  * Fetches detailed information for a specific movie or TV show.
  * @param mediaType The type of media ("movie" or "tv").
  * @param id The ID of the movie or TV show.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions). Overviews and
+ *   taglines missing in the requested language are filled in from English.
  * @returns A Promise that resolves to either TmdbMovieDetails or TmdbTvShowDetails.
  * @throws An Error if mediaType or id are missing.
  */
-export async function getMediaDetails(mediaType: "movie" | "tv", id: string): Promise<TmdbMovieDetails | TmdbTvShowDetails> {
+export async function getMediaDetails(mediaType: "movie" | "tv", id: string, options: TmdbRequestOptions = {}): Promise<TmdbMovieDetails | TmdbTvShowDetails> {
   if (!mediaType || !id) throw new Error("mediaType and id are required to get media details.");
-  return fetchFromTmdb(`/${mediaType}/${id}`);
+  const fetchDetails = (options: TmdbRequestOptions): Promise<TmdbMovieDetails | TmdbTvShowDetails> =>
+    mediaType === 'movie'
+      ? fetchFromTmdb(`/movie/${id}`, movieDetailsSchema, {}, options)
+      : fetchFromTmdb(`/tv/${id}`, tvShowDetailsSchema, {}, options);
+  return withEnglishFallback(await fetchDetails(options), ['overview', 'tagline'], options, fetchDetails);
 }
 
 /**
  * Fetches videos (trailers, teasers, etc.) for a specific movie or TV show.
  * @param mediaType The type of media ("movie" or "tv").
  * @param id The ID of the movie or TV show.
+ * @param languages ISO 639-1 codes of the video languages to include ("null" for videos without one).
+ *   Without them TMDB decides, which usually means English only.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions). Which videos come
+ *   back is decided by `languages` (TMDB's include_video_language); the language option only adds itself to them.
  * @returns A TmdbVideoResponse containing an array of video objects.
  * @throws An Error if mediaType or id are missing.
  */
-export async function getMediaVideos(mediaType: "movie" | "tv", id: string): Promise<TmdbVideoResponse> {
+export async function getMediaVideos(mediaType: "movie" | "tv", id: string, languages: string[] = [], options: TmdbRequestOptions = {}): Promise<TmdbVideoResponse> {
   if (!mediaType || !id) throw new Error("mediaType and id are required to get media videos.");
-  return fetchFromTmdb(`/${mediaType}/${id}/videos`);
+  const params: Record<string, string> = languages.length ? { include_video_language: languages.join(',') } : {};
+  return fetchFromTmdb(`/${mediaType}/${id}/videos`, videoResponseSchema, params, options);
+}
+
+/**
+ * Fetches every poster, backdrop and logo of a movie or TV show.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The ID of the movie or TV show.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions). The language
+ *   option isn't sent: TMDB would then return only images in that language, while the gallery has its
+ *   own language filter and needs them all (and those without text).
+ * @returns A TmdbImages object with the images grouped by kind.
+ * @throws An Error if mediaType or id are missing.
+ */
+export async function getMediaImages(mediaType: "movie" | "tv", id: string, options: TmdbRequestOptions = {}): Promise<TmdbImages> {
+  if (!mediaType || !id) throw new Error("mediaType and id are required to get media images.");
+  return fetchFromTmdb(`/${mediaType}/${id}/images`, imagesSchema, {}, { ...options, language: undefined });
+}
+
+/**
+ * Fetches the cast and crew for a specific movie or TV show.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The ID of the movie or TV show.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A TmdbCredits object; cast is sorted by billing order.
+ * @throws An Error if mediaType or id are missing.
+ */
+export async function getMediaCredits(mediaType: "movie" | "tv", id: string, options: TmdbRequestOptions = {}): Promise<TmdbCredits> {
+  if (!mediaType || !id) throw new Error("mediaType and id are required to get media credits.");
+  return fetchFromTmdb(`/${mediaType}/${id}/credits`, creditsSchema, {}, options);
+}
+
+/**
+ * Fetches TMDB's recommendations for a movie or TV show, based on what people who liked it also watched.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The ID of the movie or TV show.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse of recommended titles of the same media type.
+ * @throws An Error if mediaType or id are missing.
+ */
+export async function getMediaRecommendations(mediaType: "movie" | "tv", id: string, page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  if (!mediaType || !id) throw new Error("mediaType and id are required to get recommendations.");
+  return fetchFromTmdb(`/${mediaType}/${id}/recommendations`, mediaType === 'movie' ? movieListSchema : tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches titles similar to a movie or TV show, matched by TMDB on genres and keywords.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The ID of the movie or TV show.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse of similar titles of the same media type.
+ * @throws An Error if mediaType or id are missing.
+ */
+export async function getSimilarMedia(mediaType: "movie" | "tv", id: string, page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  if (!mediaType || !id) throw new Error("mediaType and id are required to get similar titles.");
+  return fetchFromTmdb(`/${mediaType}/${id}/similar`, mediaType === 'movie' ? movieListSchema : tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches a single season of a TV show, including every episode.
+ * @param id The ID of the TV show.
+ * @param seasonNumber The season number (0 is "Specials" for many shows).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A Promise that resolves to TmdbSeasonDetails.
+ * @throws An Error if id is missing.
+ */
+export async function getTvSeasonDetails(id: string, seasonNumber: number, options: TmdbRequestOptions = {}): Promise<TmdbSeasonDetails> {
+  if (!id) throw new Error("id is required to get season details.");
+  const fetchSeason = (options: TmdbRequestOptions) =>
+    fetchFromTmdb(`/tv/${id}/season/${seasonNumber}`, seasonDetailsSchema, {}, options);
+  return withEnglishFallback(await fetchSeason(options), ['overview'], options, fetchSeason);
+}
+
+/**
+ * Fetches a single episode of a TV show, including its crew and guest stars.
+ * @param id The ID of the TV show.
+ * @param seasonNumber The season number.
+ * @param episodeNumber The episode number within the season.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A Promise that resolves to TmdbEpisodeDetails.
+ * @throws An Error if id is missing.
+ */
+export async function getTvEpisodeDetails(id: string, seasonNumber: number, episodeNumber: number, options: TmdbRequestOptions = {}): Promise<TmdbEpisodeDetails> {
+  if (!id) throw new Error("id is required to get episode details.");
+  const fetchEpisode = (options: TmdbRequestOptions) =>
+    fetchFromTmdb(`/tv/${id}/season/${seasonNumber}/episode/${episodeNumber}`, episodeDetailsSchema, {}, options);
+  return withEnglishFallback(await fetchEpisode(options), ['overview'], options, fetchEpisode);
+}
+
+/**
+ * Fetches biography and personal details for a person (actor, director, etc.).
+ * @param id The ID of the person.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A Promise that resolves to TmdbPersonDetails.
+ * @throws An Error if id is missing.
+ */
+export async function getPersonDetails(id: string, options: TmdbRequestOptions = {}): Promise<TmdbPersonDetails> {
+  if (!id) throw new Error("id is required to get person details.");
+  const fetchPerson = (options: TmdbRequestOptions) => fetchFromTmdb(`/person/${id}`, personDetailsSchema, {}, options);
+  return withEnglishFallback(await fetchPerson(options), ['biography'], options, fetchPerson);
+}
+
+/**
+ * Fetches every movie and TV show a person appeared in or worked on.
+ * @param id The ID of the person.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A TmdbPersonCombinedCredits object with separate cast and crew credits.
+ * @throws An Error if id is missing.
+ */
+export async function getPersonCombinedCredits(id: string, options: TmdbRequestOptions = {}): Promise<TmdbPersonCombinedCredits> {
+  if (!id) throw new Error("id is required to get person credits.");
+  return fetchFromTmdb(`/person/${id}/combined_credits`, personCombinedCreditsSchema, {}, options);
 }
 
 /**
  * Fetches movies that are currently playing in theaters.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
  * @returns A PaginatedResponse containing now playing movie items.
  */
-export async function getNowPlayingMovies(page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  return fetchFromTmdb("/movie/now_playing", { page: String(page) });
+export async function getNowPlayingMovies(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/movie/now_playing", movieListSchema, { page: String(page) }, options);
 }
 
 /**
  * Fetches popular movies.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
  * @returns A PaginatedResponse containing popular movie items.
  */
-export async function getPopularMovies(page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  return fetchFromTmdb("/movie/popular", { page: String(page) });
+export async function getPopularMovies(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/movie/popular", movieListSchema, { page: String(page) }, options);
 }
 
 /**
  * Fetches popular TV shows.
  * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
  * @returns A PaginatedResponse containing popular TV show items.
  */
-export async function getPopularTvShows(page: number = 1): Promise<PaginatedResponse<TmdbMediaItem>> {
-  return fetchFromTmdb("/tv/popular", { page: String(page) });
+export async function getPopularTvShows(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/tv/popular", tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches the highest rated movies.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse containing top rated movie items.
+ */
+export async function getTopRatedMovies(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/movie/top_rated", movieListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches movies coming soon to theaters in the region (see TmdbRequestOptions.region).
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse containing upcoming movie items.
+ */
+export async function getUpcomingMovies(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/movie/upcoming", movieListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches the highest rated TV shows.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse containing top rated TV show items.
+ */
+export async function getTopRatedTvShows(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/tv/top_rated", tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches TV shows with an episode airing today.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse containing TV show items.
+ */
+export async function getAiringTodayTvShows(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/tv/airing_today", tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Fetches TV shows with an episode airing in the next seven days.
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A PaginatedResponse containing TV show items.
+ */
+export async function getOnTheAirTvShows(page: number = 1, options: TmdbRequestOptions = {}): Promise<PaginatedResponse<TmdbMediaItem>> {
+  return fetchFromTmdb("/tv/on_the_air", tvListSchema, { page: String(page) }, options);
+}
+
+/**
+ * Looks up the movies and TV shows with an IMDb ID.
+ * @param imdbId The IMDb ID (e.g., "tt0816692").
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns The matching movies and TV shows; both lists are empty if TMDB doesn't know the ID.
+ */
+export async function findByImdbId(imdbId: string, options: TmdbRequestOptions = {}): Promise<TmdbFindResults> {
+  return fetchFromTmdb(`/find/${encodeURIComponent(imdbId)}`, findResultsSchema, { external_source: 'imdb_id' }, options);
+}
+
+/**
+ * Fetches a movie's or TV show's IDs on other sites, such as IMDb.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The TMDB ID of the title.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns A Promise that resolves to the external IDs.
+ */
+export async function getMediaExternalIds(mediaType: "movie" | "tv", id: string, options: TmdbRequestOptions = {}): Promise<TmdbExternalIds> {
+  return fetchFromTmdb(`/${mediaType}/${id}/external_ids`, externalIdsSchema, {}, options);
+}
+
+/**
+ * Fetches where a movie or TV show can be streamed, rented or bought, in every region TMDB has data for.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The ID of the movie or TV show.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions). Every region
+ *   is returned whatever the region option says.
+ * @returns The providers per region; regions where the title isn't available are missing.
+ * @throws An Error if mediaType or id are missing.
+ */
+export async function getMediaWatchProviders(mediaType: "movie" | "tv", id: string, options: TmdbRequestOptions = {}): Promise<TmdbWatchProviders> {
+  if (!mediaType || !id) throw new Error("mediaType and id are required to get watch providers.");
+  return fetchFromTmdb(`/${mediaType}/${id}/watch/providers`, watchProvidersSchema, {}, options);
+}
+
+/**
+ * Fetches the streaming services, stores and rental services operating in a region, for movies and TV combined.
+ * @param region The ISO 3166-1 region code (e.g., "US").
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @returns Each provider once, most prominent first.
+ */
+export async function getWatchProviders(region: string, options: TmdbRequestOptions = {}): Promise<TmdbWatchProvider[]> {
+  const params = { watch_region: region };
+  const [movie, tv] = await Promise.all([
+    fetchFromTmdb("/watch/providers/movie", watchProviderListSchema, params, options),
+    fetchFromTmdb("/watch/providers/tv", watchProviderListSchema, params, options),
+  ]);
+  const providers = new Map([...movie.results, ...tv.results].map(provider => [provider.provider_id, provider]));
+  return [...providers.values()].sort((a, b) => a.display_priority - b.display_priority);
 }
 
 /**
  * Fetches a list of movie genres.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
  * @returns A Promise that resolves to an array of movie genre objects.
  */
-export async function getMovieGenres() {
-  const data = await fetchFromTmdb("/genre/movie/list");
+export async function getMovieGenres(options: TmdbRequestOptions = {}): Promise<TmdbGenre[]> {
+  const data = await fetchFromTmdb("/genre/movie/list", genreListSchema, {}, options);
   return data.genres;
 }
 
 /**
  * Fetches a list of TV show genres.
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
  * @returns A Promise that resolves to an array of TV show genre objects.
  */
-export async function getTvGenres() {
-  const data = await fetchFromTmdb("/genre/tv/list");
+export async function getTvGenres(options: TmdbRequestOptions = {}): Promise<TmdbGenre[]> {
+  const data = await fetchFromTmdb("/genre/tv/list", genreListSchema, {}, options);
   return data.genres;
 }
+
+// TMDB sort keys for each DiscoverSort, per media type.
+const DISCOVER_SORT_KEYS = {
+  movie: { popularity: 'popularity.desc', rating: 'vote_average.desc', votes: 'vote_count.desc', date: 'primary_release_date.desc', title: 'title.asc' },
+  tv: { popularity: 'popularity.desc', rating: 'vote_average.desc', votes: 'vote_count.desc', date: 'first_air_date.desc', title: 'name.asc' },
+} as const;
+
+// Without a vote floor, "Highest Rated" is dominated by obscure titles with a single 10/10 vote.
+const DEFAULT_MIN_VOTES_FOR_RATING_SORT = 200;
+
+// Offer types that count as "on my services": subscriptions and free streaming, but not rentals or purchases.
+const STREAMING_MONETIZATION_TYPES = 'flatrate|free|ads';
+
+// TMDB refuses to serve discover results past page 500.
+const DISCOVER_MAX_PAGE = 500;
+
+/**
+ * Finds movies or TV shows matching a set of filters, via /discover/movie or /discover/tv.
+ * @param filters The filters to apply (see lib/discover.ts for how they are read from the URL).
+ * @param page The page number to fetch (defaults to 1).
+ * @param options Language, region and adult-content preferences (see TmdbRequestOptions).
+ * @param watchProviders If given, only titles streaming on one of these providers in the region are returned.
+ * @returns A PaginatedResponse of matching items, with total_pages capped at what TMDB will serve.
+ */
+export async function discoverMedia(filters: DiscoverFilters, page: number = 1, options: TmdbRequestOptions = {}, watchProviders?: WatchProviderFilter): Promise<PaginatedResponse<TmdbMediaItem>> {
+  const { mediaType } = filters;
+  const dateField = mediaType === 'movie' ? 'primary_release_date' : 'first_air_date';
+  const minVotes = filters.minVotes ?? (filters.sort === 'rating' ? DEFAULT_MIN_VOTES_FOR_RATING_SORT : undefined);
+
+  const params: Record<string, string> = {
+    page: String(Math.min(page, DISCOVER_MAX_PAGE)),
+    sort_by: DISCOVER_SORT_KEYS[mediaType][filters.sort],
+  };
+  if (filters.includeGenres.length) params.with_genres = filters.includeGenres.join(','); // comma = AND
+  if (filters.excludeGenres.length) params.without_genres = filters.excludeGenres.join(',');
+  if (filters.yearFrom !== undefined) params[`${dateField}.gte`] = `${filters.yearFrom}-01-01`;
+  if (filters.yearTo !== undefined) params[`${dateField}.lte`] = `${filters.yearTo}-12-31`;
+  // Movies: theatrical releases (limited or wide) in the region, like /movie/upcoming. TV: any episode airing.
+  const windowField = mediaType === 'movie' ? 'release_date' : 'air_date';
+  if (filters.dateFrom) params[`${windowField}.gte`] = filters.dateFrom;
+  if (filters.dateTo) params[`${windowField}.lte`] = filters.dateTo;
+  if (mediaType === 'movie' && (filters.dateFrom || filters.dateTo)) params.with_release_type = '2|3';
+  if (filters.minRating !== undefined) params['vote_average.gte'] = String(filters.minRating);
+  if (minVotes !== undefined) params['vote_count.gte'] = String(minVotes);
+  if (filters.minRuntime !== undefined) params['with_runtime.gte'] = String(filters.minRuntime);
+  if (filters.maxRuntime !== undefined) params['with_runtime.lte'] = String(filters.maxRuntime);
+  if (filters.language) params.with_original_language = filters.language;
+  if (watchProviders?.providerIds.length) {
+    params.with_watch_providers = watchProviders.providerIds.join('|'); // pipe = OR
+    params.watch_region = watchProviders.region;
+    params.with_watch_monetization_types = STREAMING_MONETIZATION_TYPES;
+  }
+
+  const data = await fetchFromTmdb(`/discover/${mediaType}`, mediaType === 'movie' ? movieListSchema : tvListSchema, params, options);
+  return { ...data, total_pages: Math.min(data.total_pages, DISCOVER_MAX_PAGE) };
+}
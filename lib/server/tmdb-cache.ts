@@ -0,0 +1,193 @@
+// lib/server/tmdb-cache.ts
+// In-process response cache for TMDB calls: per-endpoint TTLs, stale-while-revalidate,
+// and coalescing of concurrent identical requests.
+import 'server-only';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Upper bound on cached responses; the least recently used entry is evicted first.
+const MAX_ENTRIES = 500;
+
+interface CachePolicy {
+  // How long a response is served as fresh.
+  ttl: number;
+  // How long after expiring it may still be served while a refresh runs in the background.
+  staleWhileRevalidate: number;
+}
+
+// First matching rule wins. Endpoints are matched without query params.
+const CACHE_POLICIES: { pattern: RegExp; policy: CachePolicy }[] = [
+  { pattern: /^\/genre\//, policy: { ttl: DAY, staleWhileRevalidate: 7 * DAY } },
+  { pattern: /^\/trending\//, policy: { ttl: HOUR, staleWhileRevalidate: 6 * HOUR } },
+  { pattern: /^\/watch\/providers\//, policy: { ttl: DAY, staleWhileRevalidate: 7 * DAY } }, // Which services exist in a region
+  { pattern: /^\/find\//, policy: { ttl: DAY, staleWhileRevalidate: 7 * DAY } }, // IMDb -> TMDB mappings rarely change
+  { pattern: /^\/search\//, policy: { ttl: 5 * MINUTE, staleWhileRevalidate: 30 * MINUTE } },
+  { pattern: /^\/(movie|tv|person)\/\d+/, policy: { ttl: 10 * MINUTE, staleWhileRevalidate: HOUR } },
+];
+
+const DEFAULT_POLICY: CachePolicy = { ttl: 30 * MINUTE, staleWhileRevalidate: 2 * HOUR };
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export interface TmdbCacheStats {
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  coalesced: number;
+  revalidations: number;
+  errors: number;
+  inFlight: number;
+}
+
+interface TmdbCacheState {
+  entries: Map<string, CacheEntry>;
+  inFlight: Map<string, Promise<unknown>>;
+  stats: Omit<TmdbCacheStats, 'enabled' | 'size' | 'maxEntries' | 'inFlight'>;
+}
+
+// Kept on globalThis so route handlers and pages (which Next.js may bundle separately)
+// share one cache, and so it survives hot reloads in development.
+const globalForCache = globalThis as unknown as { tmdbCache?: TmdbCacheState };
+
+function getState(): TmdbCacheState {
+  if (!globalForCache.tmdbCache) {
+    globalForCache.tmdbCache = {
+      entries: new Map(),
+      inFlight: new Map(),
+      stats: { hits: 0, staleHits: 0, misses: 0, coalesced: 0, revalidations: 0, errors: 0 },
+    };
+  }
+  return globalForCache.tmdbCache;
+}
+
+/**
+ * The cache can be turned off with TMDB_CACHE=off (e.g., while recording fixtures).
+ */
+function isCacheEnabled(): boolean {
+  return process.env.TMDB_CACHE !== 'off';
+}
+
+/**
+ * Builds a stable cache key from an endpoint and its query params (sorted, so param order doesn't matter).
+ */
+export function getCacheKey(endpoint: string, params: Record<string, string> = {}): string {
+  const query = Object.keys(params)
+    .sort()
+    .map(key => `${key}=${params[key]}`)
+    .join('&');
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/**
+ * Looks up the caching policy for an endpoint.
+ */
+export function getCachePolicy(endpoint: string): CachePolicy {
+  return CACHE_POLICIES.find(({ pattern }) => pattern.test(endpoint))?.policy ?? DEFAULT_POLICY;
+}
+
+/**
+ * Runs the loader once per key at a time and stores its result. Concurrent callers share the same promise.
+ */
+function load<T>(state: TmdbCacheState, key: string, endpoint: string, loader: () => Promise<T>): Promise<T> {
+  const pending = state.inFlight.get(key);
+  if (pending) {
+    state.stats.coalesced++;
+    return pending as Promise<T>;
+  }
+
+  const promise = loader()
+    .then(value => {
+      const { ttl, staleWhileRevalidate } = getCachePolicy(endpoint);
+      const now = Date.now();
+      state.entries.delete(key);
+      state.entries.set(key, { value, expiresAt: now + ttl, staleUntil: now + ttl + staleWhileRevalidate });
+      if (state.entries.size > MAX_ENTRIES) {
+        const oldestKey = state.entries.keys().next().value;
+        if (oldestKey !== undefined) state.entries.delete(oldestKey);
+      }
+      return value;
+    })
+    .catch(error => {
+      state.stats.errors++;
+      throw error;
+    })
+    .finally(() => {
+      state.inFlight.delete(key);
+    });
+
+  state.inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Returns a cached TMDB response, or calls the loader and caches its result.
+ * - Fresh entries are returned directly.
+ * - Stale entries (past their TTL but inside the stale-while-revalidate window) are returned
+ *   immediately while a single background refresh updates them.
+ * - Failed loads are not cached; a failed background refresh keeps serving the stale entry.
+ * @param endpoint The TMDB API endpoint, used for the key and the TTL policy.
+ * @param params The query params of the request, used for the key.
+ * @param loader Fetches the response when the cache can't answer.
+ * @returns A Promise that resolves to the (possibly cached) response.
+ */
+export async function withTmdbCache<T>(endpoint: string, params: Record<string, string>, loader: () => Promise<T>): Promise<T> {
+  if (!isCacheEnabled()) return loader();
+
+  const state = getState();
+  const key = getCacheKey(endpoint, params);
+  const entry = state.entries.get(key);
+  const now = Date.now();
+
+  if (entry && now < entry.expiresAt) {
+    state.stats.hits++;
+    // Re-insert to mark the entry as recently used.
+    state.entries.delete(key);
+    state.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  if (entry && now < entry.staleUntil) {
+    state.stats.staleHits++;
+    if (!state.inFlight.has(key)) {
+      state.stats.revalidations++;
+      load(state, key, endpoint, loader).catch(error => {
+        console.error(`Background refresh of TMDB cache entry ${key} failed:`, error);
+      });
+    }
+    return entry.value as T;
+  }
+
+  // Requests joining an in-flight load count as coalesced rather than as misses.
+  if (!state.inFlight.has(key)) state.stats.misses++;
+  return load(state, key, endpoint, loader);
+}
+
+/**
+ * Returns hit/miss counters and the current size of the TMDB cache.
+ */
+export function getTmdbCacheStats(): TmdbCacheStats {
+  const state = getState();
+  return {
+    enabled: isCacheEnabled(),
+    size: state.entries.size,
+    maxEntries: MAX_ENTRIES,
+    inFlight: state.inFlight.size,
+    ...state.stats,
+  };
+}
+
+/**
+ * Drops every cached response and resets the counters.
+ */
+export function clearTmdbCache(): void {
+  globalForCache.tmdbCache = undefined;
+}
@@ -0,0 +1,123 @@
+// lib/server/tmdb-errors.ts
+// Typed errors thrown by the TMDB data layer, so callers can tell "this title doesn't exist"
+// apart from "TMDB is rate limiting us" or "TMDB is down", and the responses the API routes pass them on with.
+
+import { NextResponse } from 'next/server';
+
+/**
+ * Base class for every error raised while talking to TMDB.
+ */
+export class TmdbError extends Error {
+  /** HTTP status returned by TMDB, or undefined for network failures. */
+  readonly status?: number;
+  /** The TMDB endpoint that failed (e.g., "/movie/123"). */
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string, status?: number) {
+    super(message);
+    this.name = 'TmdbError';
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+/**
+ * The requested resource doesn't exist (HTTP 404). Never retried.
+ */
+export class TmdbNotFoundError extends TmdbError {
+  constructor(message: string, endpoint: string) {
+    super(message, endpoint, 404);
+    this.name = 'TmdbNotFoundError';
+  }
+}
+
+/**
+ * TMDB rejected the request because of rate limiting (HTTP 429).
+ */
+export class TmdbRateLimitError extends TmdbError {
+  /** How long TMDB asked us to wait, from the Retry-After header, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, endpoint: string, retryAfterMs?: number) {
+    super(message, endpoint, 429);
+    this.name = 'TmdbRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * TMDB is failing or unreachable: 5xx responses, network errors, or an open circuit breaker.
+ */
+export class TmdbUpstreamError extends TmdbError {
+  constructor(message: string, endpoint: string, status?: number) {
+    super(message, endpoint, status);
+    this.name = 'TmdbUpstreamError';
+  }
+}
+
+/**
+ * A TMDB response didn't match the expected schema (see tmdb-schemas.ts). Only thrown in strict validation mode.
+ */
+export class TmdbSchemaError extends TmdbError {
+  /** Where the response deviated from the schema, e.g. "results.3.vote_average". */
+  readonly issues: { path: string; message: string }[];
+
+  constructor(endpoint: string, issues: { path: string; message: string }[]) {
+    super(
+      `TMDB response from ${endpoint} does not match the expected schema: ` +
+        issues.map(({ path, message }) => `${path} (${message})`).join('; '),
+      endpoint
+    );
+    this.name = 'TmdbSchemaError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ * @param header The raw header value.
+ * @returns The delay in milliseconds, or undefined if the header is missing or malformed.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Maps a non-OK TMDB response to the matching error class.
+ * @param endpoint The TMDB endpoint that was called.
+ * @param status The HTTP status code.
+ * @param message The status_message from TMDB, or the status text.
+ * @param retryAfter The raw Retry-After header, if any.
+ * @returns A TmdbError subclass describing the failure.
+ */
+export function createTmdbError(endpoint: string, status: number, message: string, retryAfter: string | null = null): TmdbError {
+  if (status === 404) return new TmdbNotFoundError(message, endpoint);
+  if (status === 429) return new TmdbRateLimitError(message, endpoint, parseRetryAfter(retryAfter));
+  if (status >= 500) return new TmdbUpstreamError(message, endpoint, status);
+  return new TmdbError(message, endpoint, status);
+}
+
+// Error message of the 503 the API routes answer with while TMDB is rate limiting us.
+export const TMDB_RATE_LIMIT_MESSAGE = 'TMDB rate limit reached. Please try again shortly.';
+
+/**
+ * Passes TMDB's Retry-After on to a client, in whole seconds (1 if TMDB didn't say).
+ */
+export function getRetryAfterHeaders(error: TmdbRateLimitError): Record<string, string> {
+  return { 'Retry-After': String(Math.ceil((error.retryAfterMs ?? 1000) / 1000)) };
+}
+
+/**
+ * The API routes' response to a TMDB rate limit: 503 with a Retry-After header.
+ */
+export function tmdbRateLimitResponse(error: TmdbRateLimitError): NextResponse {
+  return NextResponse.json({ error: TMDB_RATE_LIMIT_MESSAGE }, { status: 503, headers: getRetryAfterHeaders(error) });
+}
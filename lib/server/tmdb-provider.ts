@@ -0,0 +1,186 @@
+// lib/server/tmdb-provider.ts
+// Data-source layer behind fetchFromTmdb. Selects between the live TMDB API, a local directory
+// of recorded fixtures, or a recording proxy, based on environment variables.
+import 'server-only';
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createTmdbError, TmdbNotFoundError, TmdbUpstreamError } from './tmdb-errors';
+
+const DEFAULT_TMDB_BASE_URL = "https://api.themoviedb.org/3";
+const DEFAULT_FIXTURES_DIR = "fixtures/tmdb";
+
+export type TmdbProviderMode = 'http' | 'fixtures' | 'record';
+
+/**
+ * A source of TMDB responses. Every function in tmdb-api.ts goes through a provider,
+ * so swapping the provider swaps where the whole app gets its data from.
+ */
+export interface TmdbProvider {
+  mode: TmdbProviderMode;
+  fetch(endpoint: string, params?: Record<string, string>): Promise<any>;
+}
+
+/**
+ * Builds the fixture file path for a request. Query params are sorted so the same request
+ * always maps to the same file, e.g. `/search/movie?query=dune&page=1` becomes
+ * `<dir>/search/movie/page=1&query=dune.json`.
+ * @param fixturesDir The root directory holding recorded fixtures.
+ * @param endpoint The TMDB API endpoint (e.g., "/trending/movie/week").
+ * @param params Query parameters of the request (the API key is never part of it).
+ * @returns The absolute path of the fixture file.
+ */
+export function getFixturePath(fixturesDir: string, endpoint: string, params: Record<string, string> = {}): string {
+  const query = Object.keys(params)
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
+    .join('&');
+  const segments = endpoint.split('/').filter(Boolean);
+  return path.resolve(fixturesDir, ...segments, `${query || 'index'}.json`);
+}
+
+/**
+ * Creates a provider that calls the TMDB HTTP API (or anything that speaks it, such as a local fixture server).
+ * @param baseUrl The API root, without a trailing slash.
+ * @param apiKey The TMDB API key appended to every request.
+ * @returns A TmdbProvider backed by fetch().
+ */
+export function createHttpProvider(baseUrl: string, apiKey: string): TmdbProvider {
+  return {
+    mode: 'http',
+    async fetch(endpoint, params = {}) {
+      const url = new URL(`${baseUrl}${endpoint}`);
+      url.searchParams.append("api_key", apiKey);
+
+      for (const key in params) {
+        url.searchParams.append(key, params[key]);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url.toString());
+      } catch (error: any) {
+        throw new TmdbUpstreamError(`Could not reach TMDB: ${error?.message || 'network error'}`, endpoint);
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ status_message: "Unknown error from TMDB" }));
+        console.error(`TMDB API Error (${response.status} ${response.statusText}):`, errorData);
+        throw createTmdbError(
+          endpoint,
+          response.status,
+          `Failed to fetch data from TMDB: ${errorData.status_message || response.statusText}`,
+          response.headers.get('Retry-After'),
+        );
+      }
+
+      return response.json();
+    },
+  };
+}
+
+/**
+ * Creates a provider that answers every request from recorded JSON files on disk. No network is used.
+ * @param fixturesDir The root directory holding recorded fixtures.
+ * @returns A TmdbProvider backed by the fixture directory.
+ * @throws A TmdbNotFoundError from fetch() naming the expected file if no fixture was recorded for a request.
+ */
+export function createFixtureProvider(fixturesDir: string): TmdbProvider {
+  return {
+    mode: 'fixtures',
+    async fetch(endpoint, params = {}) {
+      const fixturePath = getFixturePath(fixturesDir, endpoint, params);
+      try {
+        return JSON.parse(await readFile(fixturePath, 'utf8'));
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          throw new TmdbNotFoundError(`No TMDB fixture recorded for ${endpoint} (expected ${fixturePath}). Run with TMDB_PROVIDER=record to capture it.`, endpoint);
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Creates a provider that forwards requests to another provider and writes each successful
+ * response to the fixture directory, so it can later be replayed by createFixtureProvider.
+ * @param upstream The provider that produces the real responses.
+ * @param fixturesDir The root directory to write fixtures into.
+ * @returns A TmdbProvider that records as a side effect.
+ */
+export function createRecordingProvider(upstream: TmdbProvider, fixturesDir: string): TmdbProvider {
+  return {
+    mode: 'record',
+    async fetch(endpoint, params = {}) {
+      const data = await upstream.fetch(endpoint, params);
+      const fixturePath = getFixturePath(fixturesDir, endpoint, params);
+      try {
+        await mkdir(path.dirname(fixturePath), { recursive: true });
+        await writeFile(fixturePath, `${JSON.stringify(data, null, 2)}\n`);
+      } catch (error) {
+        // Recording is best-effort: a read-only filesystem must not break the page being rendered.
+        console.error(`Failed to record TMDB fixture ${fixturePath}:`, error);
+      }
+      return data;
+    },
+  };
+}
+
+/**
+ * Reads the TMDB API key, failing only when a provider actually needs it.
+ * @throws An Error if TMDB_API_KEY is not set.
+ */
+function requireApiKey(): string {
+  const apiKey = process.env.TMDB_API_KEY;
+  if (!apiKey) {
+    throw new Error("TMDB_API_KEY is not defined in environment variables. Please check your .env.local file, or set TMDB_PROVIDER=fixtures to run offline.");
+  }
+  return apiKey;
+}
+
+/**
+ * Builds the provider described by the environment:
+ * - TMDB_PROVIDER: "http" (default), "fixtures" or "record".
+ * - TMDB_BASE_URL: API root for the http and record modes (defaults to the public TMDB API).
+ * - TMDB_FIXTURES_DIR: fixture directory for the fixtures and record modes (defaults to fixtures/tmdb).
+ * @returns The configured TmdbProvider.
+ * @throws An Error if TMDB_PROVIDER has an unknown value, or if TMDB_API_KEY is missing for a mode that calls TMDB.
+ */
+export function createProviderFromEnv(): TmdbProvider {
+  const mode = process.env.TMDB_PROVIDER || 'http';
+  const baseUrl = (process.env.TMDB_BASE_URL || DEFAULT_TMDB_BASE_URL).replace(/\/+$/, '');
+  const fixturesDir = path.resolve(process.cwd(), process.env.TMDB_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+
+  switch (mode) {
+    case 'http':
+      return createHttpProvider(baseUrl, requireApiKey());
+    case 'fixtures':
+      return createFixtureProvider(fixturesDir);
+    case 'record':
+      return createRecordingProvider(createHttpProvider(baseUrl, requireApiKey()), fixturesDir);
+    default:
+      throw new Error(`Unknown TMDB_PROVIDER "${mode}". Expected "http", "fixtures" or "record".`);
+  }
+}
+
+let activeProvider: TmdbProvider | null = null;
+
+/**
+ * Returns the provider used by tmdb-api.ts, creating it from the environment on first use.
+ */
+export function getTmdbProvider(): TmdbProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replaces the provider used by tmdb-api.ts (e.g., to point it at an in-process mock).
+ * Passing null makes the next call re-read the environment.
+ * @param provider The provider to use, or null to reset.
+ */
+export function setTmdbProvider(provider: TmdbProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,174 @@
+// lib/server/tmdb-resilience.ts
+// Guards around upstream TMDB calls: a client-side token-bucket rate limiter, Retry-After-aware
+// retries with jittered exponential backoff, and a circuit breaker that fails fast while TMDB is down.
+import 'server-only';
+
+import { TmdbError, TmdbRateLimitError, TmdbUpstreamError } from './tmdb-errors';
+
+// TMDB allows roughly 40 requests per second per IP; stay just under it.
+const RATE_LIMIT_CAPACITY = 40;
+const RATE_LIMIT_REFILL_PER_SECOND = 35;
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 5000;
+
+// Consecutive upstream failures that open the circuit, and how long it stays open.
+const FAILURE_THRESHOLD = 5;
+const OPEN_DURATION_MS = 30 * 1000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// --- Token bucket ---
+
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+}
+
+/**
+ * Waits until a request token is available, refilling the bucket based on elapsed time.
+ */
+async function takeToken(bucket: TokenBucket): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    const refill = ((now - bucket.lastRefill) / 1000) * RATE_LIMIT_REFILL_PER_SECOND;
+    bucket.tokens = Math.min(RATE_LIMIT_CAPACITY, bucket.tokens + refill);
+    bucket.lastRefill = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await sleep(Math.ceil(((1 - bucket.tokens) / RATE_LIMIT_REFILL_PER_SECOND) * 1000));
+  }
+}
+
+// --- Circuit breaker ---
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+}
+
+export interface TmdbCircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  retryAt: string | null;
+}
+
+interface ResilienceState {
+  bucket: TokenBucket;
+  breaker: CircuitBreaker;
+}
+
+// Shared across bundles and hot reloads, like the response cache.
+const globalForResilience = globalThis as unknown as { tmdbResilience?: ResilienceState };
+
+function getState(): ResilienceState {
+  if (!globalForResilience.tmdbResilience) {
+    globalForResilience.tmdbResilience = {
+      bucket: { tokens: RATE_LIMIT_CAPACITY, lastRefill: Date.now() },
+      breaker: { state: 'closed', consecutiveFailures: 0, openedAt: 0 },
+    };
+  }
+  return globalForResilience.tmdbResilience;
+}
+
+/**
+ * Only rate limiting and upstream failures are worth retrying; a 404 or 401 will not change.
+ */
+function isRetryable(error: unknown): error is TmdbRateLimitError | TmdbUpstreamError {
+  return error instanceof TmdbRateLimitError || error instanceof TmdbUpstreamError;
+}
+
+/**
+ * Computes the delay before the next attempt: the server's Retry-After when given,
+ * otherwise exponential backoff with full jitter.
+ * @param attempt The zero-based index of the attempt that just failed.
+ * @param error The error that attempt failed with.
+ */
+function getBackoffDelay(attempt: number, error: TmdbError): number {
+  if (error instanceof TmdbRateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+  }
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function recordSuccess(breaker: CircuitBreaker) {
+  breaker.state = 'closed';
+  breaker.consecutiveFailures = 0;
+}
+
+/**
+ * Counts an upstream failure and opens the circuit if needed.
+ * @returns true if the circuit is now open.
+ */
+function recordFailure(breaker: CircuitBreaker): boolean {
+  breaker.consecutiveFailures++;
+  if (breaker.state === 'half-open' || breaker.consecutiveFailures >= FAILURE_THRESHOLD) {
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+  }
+  return breaker.state === 'open';
+}
+
+/**
+ * Runs an upstream TMDB call through the rate limiter, retry loop and circuit breaker.
+ * - While the circuit is open, fails immediately with a TmdbUpstreamError instead of calling TMDB.
+ * - After the open period, lets calls through again (half-open); the first failure reopens the circuit.
+ * - Retries rate-limit and upstream errors up to MAX_RETRIES times; other errors are rethrown at once.
+ * @param endpoint The TMDB endpoint, used in error messages.
+ * @param call The upstream call to make.
+ * @returns A Promise that resolves to the call's result.
+ */
+export async function withTmdbResilience<T>(endpoint: string, call: () => Promise<T>): Promise<T> {
+  const { bucket, breaker } = getState();
+
+  if (breaker.state === 'open') {
+    if (Date.now() - breaker.openedAt < OPEN_DURATION_MS) {
+      throw new TmdbUpstreamError(`TMDB circuit is open after repeated failures; skipping ${endpoint}.`, endpoint);
+    }
+    breaker.state = 'half-open';
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await takeToken(bucket);
+    try {
+      const result = await call();
+      recordSuccess(breaker);
+      return result;
+    } catch (error) {
+      if (!isRetryable(error)) {
+        // The request reached TMDB and got a definitive answer, so TMDB itself is healthy.
+        if (error instanceof TmdbError) recordSuccess(breaker);
+        throw error;
+      }
+
+      // Rate limiting means TMDB is up but busy, so only upstream failures count towards opening the circuit.
+      const circuitOpened = error instanceof TmdbUpstreamError && recordFailure(breaker);
+      if (attempt >= MAX_RETRIES || circuitOpened) throw error;
+
+      const delay = getBackoffDelay(attempt, error);
+      console.warn(`TMDB request ${endpoint} failed (${error.message}); retrying in ${Math.round(delay)}ms.`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Returns the circuit breaker's current state, for debugging.
+ */
+export function getTmdbCircuitStatus(): TmdbCircuitStatus {
+  const { breaker } = getState();
+  return {
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    retryAt: breaker.state === 'open' ? new Date(breaker.openedAt + OPEN_DURATION_MS).toISOString() : null,
+  };
+}
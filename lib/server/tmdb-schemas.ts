@@ -0,0 +1,418 @@
+// lib/server/tmdb-schemas.ts
+// Runtime schemas for TMDB responses, checked at the fetch boundary in tmdb-api.ts.
+// They mirror the interfaces in lib/types/tmdb.ts and also normalize responses: fields TMDB
+// omits on some endpoints get defaults, and list endpoints fill in the item's media_type.
+import 'server-only';
+
+import { z } from 'zod';
+import {
+  TmdbMediaItem,
+  TmdbMovieDetails,
+  TmdbTvShowDetails,
+  TmdbVideoResponse,
+  TmdbImage,
+  TmdbImages,
+  TmdbGenre,
+  TmdbCredits,
+  TmdbPersonDetails,
+  TmdbPersonCombinedCredits,
+  TmdbSeasonDetails,
+  TmdbEpisodeDetails,
+  TmdbFindResults,
+  TmdbExternalIds,
+  TmdbWatchProvider,
+  TmdbWatchProviders,
+  PaginatedResponse,
+} from '../types/tmdb';
+import { TmdbSchemaError } from './tmdb-errors';
+
+type MediaType = TmdbMediaItem['media_type'];
+
+const MEDIA_TYPES = ['movie', 'tv', 'person'] as const;
+
+// --- Building blocks ---
+
+export const genreSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+}) satisfies z.ZodType<TmdbGenre>;
+
+const collectionSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  poster_path: z.string().nullable().default(null),
+  backdrop_path: z.string().nullable().default(null),
+});
+
+const episodeSchema = z.looseObject({
+  id: z.number(),
+  name: z.string().default(''),
+  overview: z.string().default(''),
+  vote_average: z.number().default(0),
+  vote_count: z.number().default(0),
+  air_date: z.string().nullable().default(null),
+  episode_number: z.number(),
+  episode_type: z.string().optional(),
+  production_code: z.string().default(''),
+  runtime: z.number().nullable().default(null),
+  season_number: z.number(),
+  show_id: z.number(),
+  still_path: z.string().nullable().default(null),
+});
+
+const companySchema = z.looseObject({
+  id: z.number(),
+  logo_path: z.string().nullable().default(null),
+  name: z.string(),
+  origin_country: z.string().default(''),
+});
+
+const spokenLanguageSchema = z.looseObject({
+  english_name: z.string().default(''),
+  iso_639_1: z.string(),
+  name: z.string().default(''),
+});
+
+/**
+ * Fields shared by every movie, TV show and person in list responses.
+ * @param mediaType The media_type to assume when the endpoint doesn't send one
+ * (e.g., /search/movie or /movie/popular); undefined means the response must carry it.
+ */
+function mediaItemFields(mediaType?: MediaType) {
+  return {
+    adult: z.boolean().default(false),
+    backdrop_path: z.string().nullable().default(null),
+    id: z.number(),
+    original_language: z.string().default(''),
+    overview: z.string().default(''),
+    popularity: z.number().default(0),
+    poster_path: z.string().nullable().default(null),
+    vote_average: z.number().default(0),
+    vote_count: z.number().default(0),
+    media_type: mediaType ? z.enum(MEDIA_TYPES).default(mediaType) : z.enum(MEDIA_TYPES),
+    genre_ids: z.array(z.number()).optional(),
+
+    title: z.string().optional(),
+    original_title: z.string().optional(),
+    release_date: z.string().optional(),
+
+    name: z.string().optional(),
+    original_name: z.string().optional(),
+    first_air_date: z.string().optional(),
+
+    gender: z.number().optional(),
+    known_for_department: z.string().optional(),
+    profile_path: z.string().nullable().optional(),
+  };
+}
+
+/**
+ * Schema for a single item in a list response.
+ * @param mediaType The media_type to fill in when the endpoint doesn't send one.
+ */
+export function mediaItemSchema(mediaType?: MediaType) {
+  return z.looseObject({
+    ...mediaItemFields(mediaType),
+    known_for: z.array(z.looseObject(mediaItemFields())).optional(),
+  }) satisfies z.ZodType<TmdbMediaItem>;
+}
+
+/**
+ * Schema for TMDB's paginated envelope around a list of items.
+ * @param itemSchema The schema for each entry in `results`.
+ */
+export function paginatedSchema<T>(itemSchema: z.ZodType<T>) {
+  return z.looseObject({
+    page: z.number(),
+    results: z.array(itemSchema),
+    total_pages: z.number(),
+    total_results: z.number(),
+  }) satisfies z.ZodType<PaginatedResponse<T>>;
+}
+
+// --- Endpoint schemas ---
+
+export const movieDetailsSchema = z.looseObject({
+  ...mediaItemFields('movie'),
+  media_type: z.literal('movie').default('movie'),
+  belongs_to_collection: collectionSchema.nullable().default(null),
+  budget: z.number().default(0),
+  genres: z.array(genreSchema).default([]),
+  homepage: z.string().nullable().default(null),
+  imdb_id: z.string().nullable().default(null),
+  production_companies: z.array(companySchema).default([]),
+  production_countries: z.array(z.looseObject({ iso_3166_1: z.string(), name: z.string() })).default([]),
+  revenue: z.number().default(0),
+  runtime: z.number().nullable().default(null),
+  spoken_languages: z.array(spokenLanguageSchema).default([]),
+  status: z.string().default(''),
+  tagline: z.string().nullable().default(null),
+}) satisfies z.ZodType<TmdbMovieDetails>;
+
+export const tvShowDetailsSchema = z.looseObject({
+  ...mediaItemFields('tv'),
+  media_type: z.literal('tv').default('tv'),
+  created_by: z.array(z.looseObject({
+    id: z.number(),
+    credit_id: z.string(),
+    name: z.string(),
+    gender: z.number().default(0),
+    profile_path: z.string().nullable().default(null),
+  })).default([]),
+  episode_run_time: z.array(z.number()).default([]),
+  genres: z.array(genreSchema).default([]),
+  homepage: z.string().default(''),
+  in_production: z.boolean().default(false),
+  languages: z.array(z.string()).default([]),
+  last_air_date: z.string().nullable().default(null),
+  last_episode_to_air: episodeSchema.nullable().default(null),
+  next_episode_to_air: episodeSchema.nullable().default(null),
+  networks: z.array(companySchema).default([]),
+  number_of_episodes: z.number().default(0),
+  number_of_seasons: z.number().default(0),
+  origin_country: z.array(z.string()).default([]),
+  seasons: z.array(z.looseObject({
+    air_date: z.string().nullable().default(null),
+    episode_count: z.number().default(0),
+    id: z.number(),
+    name: z.string(),
+    overview: z.string().default(''),
+    poster_path: z.string().nullable().default(null),
+    season_number: z.number(),
+    vote_average: z.number().default(0),
+  })).default([]),
+  spoken_languages: z.array(spokenLanguageSchema).default([]),
+  status: z.string().default(''),
+  tagline: z.string().default(''),
+  type: z.string().default(''),
+}) satisfies z.ZodType<TmdbTvShowDetails>;
+
+export const videoResponseSchema = z.looseObject({
+  id: z.number(),
+  results: z.array(z.looseObject({
+    iso_639_1: z.string(),
+    iso_3166_1: z.string(),
+    name: z.string(),
+    key: z.string(),
+    site: z.string(),
+    size: z.number(),
+    type: z.string(),
+    official: z.boolean().default(false),
+    published_at: z.string(),
+    id: z.string(),
+  })),
+}) satisfies z.ZodType<TmdbVideoResponse>;
+
+const imageSchema = z.looseObject({
+  file_path: z.string(),
+  width: z.number(),
+  height: z.number(),
+  aspect_ratio: z.number(),
+  iso_639_1: z.string().nullable().default(null),
+  vote_average: z.number().default(0),
+  vote_count: z.number().default(0),
+}) satisfies z.ZodType<TmdbImage>;
+
+export const imagesSchema = z.looseObject({
+  id: z.number(),
+  backdrops: z.array(imageSchema).default([]),
+  posters: z.array(imageSchema).default([]),
+  logos: z.array(imageSchema).default([]),
+}) satisfies z.ZodType<TmdbImages>;
+
+export const genreListSchema = z.looseObject({
+  genres: z.array(genreSchema),
+});
+
+const castMemberSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  character: z.string().default(''),
+  credit_id: z.string(),
+  order: z.number().default(0),
+  profile_path: z.string().nullable().default(null),
+  known_for_department: z.string().optional(),
+});
+
+const crewMemberSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  job: z.string(),
+  department: z.string(),
+  credit_id: z.string(),
+  profile_path: z.string().nullable().default(null),
+});
+
+export const creditsSchema = z.looseObject({
+  id: z.number(),
+  cast: z.array(castMemberSchema).default([]),
+  crew: z.array(crewMemberSchema).default([]),
+}) satisfies z.ZodType<TmdbCredits>;
+
+export const episodeDetailsSchema = episodeSchema.extend({
+  crew: z.array(crewMemberSchema).default([]),
+  guest_stars: z.array(castMemberSchema).default([]),
+}) satisfies z.ZodType<TmdbEpisodeDetails>;
+
+export const seasonDetailsSchema = z.looseObject({
+  id: z.number(),
+  air_date: z.string().nullable().default(null),
+  name: z.string(),
+  overview: z.string().default(''),
+  poster_path: z.string().nullable().default(null),
+  season_number: z.number(),
+  vote_average: z.number().default(0),
+  episodes: z.array(episodeDetailsSchema).default([]),
+}) satisfies z.ZodType<TmdbSeasonDetails>;
+
+export const personDetailsSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  biography: z.string().default(''),
+  birthday: z.string().nullable().default(null),
+  deathday: z.string().nullable().default(null),
+  place_of_birth: z.string().nullable().default(null),
+  profile_path: z.string().nullable().default(null),
+  known_for_department: z.string().default(''),
+  also_known_as: z.array(z.string()).default([]),
+  imdb_id: z.string().nullable().default(null),
+  homepage: z.string().nullable().default(null),
+}) satisfies z.ZodType<TmdbPersonDetails>;
+
+const personCreditSchema = z.looseObject({
+  ...mediaItemFields(),
+  credit_id: z.string(),
+  character: z.string().optional(),
+  job: z.string().optional(),
+  department: z.string().optional(),
+});
+
+export const personCombinedCreditsSchema = z.looseObject({
+  id: z.number(),
+  cast: z.array(personCreditSchema).default([]),
+  crew: z.array(personCreditSchema).default([]),
+}) satisfies z.ZodType<TmdbPersonCombinedCredits>;
+
+export const findResultsSchema = z.looseObject({
+  movie_results: z.array(mediaItemSchema('movie')).default([]),
+  tv_results: z.array(mediaItemSchema('tv')).default([]),
+}) satisfies z.ZodType<TmdbFindResults>;
+
+export const externalIdsSchema = z.looseObject({
+  id: z.number(),
+  imdb_id: z.string().nullable().default(null),
+}) satisfies z.ZodType<TmdbExternalIds>;
+
+const watchProviderSchema = z.looseObject({
+  provider_id: z.number(),
+  provider_name: z.string(),
+  logo_path: z.string().nullable().default(null),
+  display_priority: z.number().default(0),
+}) satisfies z.ZodType<TmdbWatchProvider>;
+
+export const watchProvidersSchema = z.looseObject({
+  id: z.number(),
+  // Each kind of offer is only present in a region when at least one provider has it
+  results: z.record(z.string(), z.looseObject({
+    link: z.string(),
+    flatrate: z.array(watchProviderSchema).default([]),
+    free: z.array(watchProviderSchema).default([]),
+    ads: z.array(watchProviderSchema).default([]),
+    rent: z.array(watchProviderSchema).default([]),
+    buy: z.array(watchProviderSchema).default([]),
+  })).default({}),
+}) satisfies z.ZodType<TmdbWatchProviders>;
+
+export const watchProviderListSchema = z.looseObject({
+  results: z.array(watchProviderSchema),
+});
+
+// --- Validation ---
+
+/**
+ * How schema mismatches are handled, from TMDB_SCHEMA_VALIDATION:
+ * - "warn" (default): log the drift and return the response normalized as far as it can be.
+ * - "strict": throw a TmdbSchemaError (useful in CI to catch drift early).
+ * - "off": like "warn", without the log.
+ */
+function getValidationMode(): 'warn' | 'strict' | 'off' {
+  const mode = process.env.TMDB_SCHEMA_VALIDATION;
+  return mode === 'strict' || mode === 'off' ? mode : 'warn';
+}
+
+// Passes of dropInvalidValues before a drifted response is given up on and returned as it came.
+const MAX_REPAIR_PASSES = 5;
+
+const REMOVED = Symbol('removed');
+
+/**
+ * Drops the values a failed parse reported, so the rest of the response can still be normalized:
+ * an invalid field is removed (its default applies, if it has one), and a required field that is
+ * missing removes the innermost list entry holding it (e.g. one result of a page).
+ * @returns A repaired copy, or null if an issue can't be repaired this way (e.g. at the root).
+ */
+function dropInvalidValues(data: unknown, issues: z.core.$ZodIssue[]): unknown {
+  const copy = structuredClone(data);
+  const trimmed = new Set<unknown[]>();
+
+  for (const { path } of issues) {
+    if (path.length === 0) return null;
+    // containers[i] holds the value at path[i]
+    const containers: any[] = [copy];
+    for (const key of path.slice(0, -1)) containers.push(containers.at(-1)?.[key]);
+    const parent = containers.at(-1);
+    const key = path.at(-1)!;
+    if (parent === null || typeof parent !== 'object') return null;
+
+    if (!Array.isArray(parent) && parent[key] !== undefined) {
+      delete parent[key];
+      continue;
+    }
+    const entry = path.findLastIndex(segment => typeof segment === 'number');
+    if (entry === -1) return null;
+    containers[entry][path[entry]] = REMOVED;
+    trimmed.add(containers[entry]);
+  }
+
+  for (const list of trimmed) list.splice(0, list.length, ...list.filter(item => item !== REMOVED));
+  return copy;
+}
+
+/**
+ * Validates and normalizes a TMDB response.
+ * @param endpoint The TMDB endpoint the response came from, used in drift reports.
+ * @param schema The schema the response should match.
+ * @param data The parsed JSON response.
+ * @returns The normalized response. If it didn't match (and validation isn't strict), the invalid values
+ *   are dropped and the rest normalized; the raw response only comes back if that fails too.
+ * @throws A TmdbSchemaError listing the offending paths, in strict mode.
+ */
+export function parseTmdbResponse<T>(endpoint: string, schema: z.ZodType<T>, data: unknown): T {
+  const mode = getValidationMode();
+  let result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map(issue => ({
+    path: issue.path.map(String).join('.') || '(root)',
+    message: issue.message,
+  }));
+
+  if (mode === 'strict') {
+    throw new TmdbSchemaError(endpoint, issues);
+  }
+
+  if (mode === 'warn') {
+    console.warn(
+      `TMDB schema drift in ${endpoint}:\n` + issues.map(({ path, message }) => `  - ${path}: ${message}`).join('\n')
+    );
+  }
+
+  let repaired: unknown = data;
+  for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+    repaired = dropInvalidValues(repaired, result.error.issues);
+    if (repaired === null) break;
+    result = schema.safeParse(repaired);
+    if (result.success) return result.data;
+  }
+  return data as T;
+}
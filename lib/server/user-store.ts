@@ -0,0 +1,124 @@
+// lib/server/user-store.ts
+// Local user accounts and their settings, stored in data/users.json.
+import 'server-only';
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { SessionUser, UserSettings } from '../types/account';
+import {
+  DEFAULT_USER_SETTINGS,
+  HOME_SECTIONS,
+  LANGUAGES,
+  MAX_STREAMING_SERVICES,
+  MIN_PASSWORD_LENGTH,
+  PAGINATION_MODES,
+  REGIONS,
+  TRAILER_LANGUAGES,
+  USERNAME_PATTERN,
+} from '../account';
+import { createJsonStore } from './json-store';
+import { hashPassword, verifyPassword } from './passwords';
+
+interface StoredUser extends SessionUser {
+  passwordHash: string;
+  createdAt: string;
+}
+
+interface UsersData {
+  version: 1;
+  users: StoredUser[];
+}
+
+const store = createJsonStore<UsersData>('users.json', () => ({ version: 1, users: [] }));
+
+export const credentialsSchema = z.object({
+  username: z.string().trim().regex(USERNAME_PATTERN, 'Use 3-32 letters, digits, dots, dashes or underscores.'),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters.`).max(200),
+});
+
+const codes = <T extends { code: string }>(list: T[]) => list.map(({ code }) => code) as [string, ...string[]];
+
+export const userSettingsSchema = z.object({
+  region: z.enum(codes(REGIONS)),
+  language: z.enum(codes(LANGUAGES)),
+  includeAdult: z.boolean(),
+  homeSections: z
+    .array(z.enum(HOME_SECTIONS.map(({ value }) => value) as [UserSettings['homeSections'][number]]))
+    .refine(sections => new Set(sections).size === sections.length, 'Each section can only be listed once.'),
+  streamingServices: z
+    .array(z.number().int().positive())
+    .max(MAX_STREAMING_SERVICES)
+    .refine(ids => new Set(ids).size === ids.length, 'Each service can only be listed once.'),
+  trailerLanguage: z.enum(TRAILER_LANGUAGES.map(({ value }) => value) as [UserSettings['trailerLanguage']]),
+  paginationMode: z.enum(PAGINATION_MODES.map(({ value }) => value) as [UserSettings['paginationMode']]),
+}) satisfies z.ZodType<UserSettings>;
+
+// Verified against when the username doesn't exist, so failed logins take the same time either way.
+const DUMMY_PASSWORD_HASH = hashPassword('not-a-real-password');
+
+const toSessionUser = ({ id, username, settings }: StoredUser): SessionUser => ({
+  id,
+  username,
+  // Fill in settings added after the account was created
+  settings: { ...DEFAULT_USER_SETTINGS, ...settings },
+});
+
+const findByUsername = (data: UsersData, username: string) =>
+  data.users.find(user => user.username.toLowerCase() === username.toLowerCase());
+
+/**
+ * Creates an account with default settings.
+ * @param username A username matching USERNAME_PATTERN.
+ * @param password The plain-text password; only its hash is stored.
+ * @returns The new user, and whether it's the first account (decided under the store's lock, so two
+ *   registrations at once can't both or neither be first), or null if the username is taken.
+ */
+export async function createUser(username: string, password: string): Promise<{ user: SessionUser; isFirstUser: boolean } | null> {
+  const passwordHash = await hashPassword(password);
+  return store.update(data => {
+    if (findByUsername(data, username)) return null;
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      passwordHash,
+      createdAt: new Date().toISOString(),
+      settings: DEFAULT_USER_SETTINGS,
+    };
+    data.users.push(user);
+    return { user: toSessionUser(user), isFirstUser: data.users.length === 1 };
+  });
+}
+
+/**
+ * Checks a username and password.
+ * @returns The user if the credentials are valid, otherwise null.
+ */
+export async function verifyCredentials(username: string, password: string): Promise<SessionUser | null> {
+  const { users } = await store.read();
+  const user = findByUsername({ version: 1, users }, username);
+  const matches = await verifyPassword(password, user?.passwordHash ?? (await DUMMY_PASSWORD_HASH));
+  return user && matches ? toSessionUser(user) : null;
+}
+
+/**
+ * Looks up a user by ID.
+ * @returns The user, or null if the account no longer exists.
+ */
+export async function getUserById(id: string): Promise<SessionUser | null> {
+  const { users } = await store.read();
+  const user = users.find(candidate => candidate.id === id);
+  return user ? toSessionUser(user) : null;
+}
+
+/**
+ * Replaces a user's settings.
+ * @returns The updated user, or null if the account no longer exists.
+ */
+export async function updateUserSettings(id: string, settings: UserSettings): Promise<SessionUser | null> {
+  return store.update(data => {
+    const user = data.users.find(candidate => candidate.id === id);
+    if (!user) return null;
+    user.settings = settings;
+    return toSessionUser(user);
+  });
+}
@@ -0,0 +1,167 @@
+// lib/server/watchlist-store.ts
+// Server-side persistence for each user's watchlist and watched log, stored in data/watchlist.json.
+import 'server-only';
+
+import { z } from 'zod';
+import { TmdbMovieDetails, TmdbTvShowDetails } from '../types/tmdb';
+import { WatchlistEntry, WatchlistUpdate } from '../types/watchlist';
+import { getMediaDetails } from './tmdb-api';
+import { TmdbNotFoundError } from './tmdb-errors';
+import { createJsonStore } from './json-store';
+
+type Entries = Record<string, WatchlistEntry>; // Keyed by getEntryKey
+
+interface WatchlistData {
+  version: 2;
+  users: Record<string, Entries>; // Keyed by user ID
+  unclaimed?: Entries; // Entries saved before accounts existed, see claimUnclaimedWatchlist
+}
+
+// Before accounts, the file held a single shared watchlist.
+interface LegacyWatchlistData {
+  version: 1;
+  entries: Entries;
+}
+
+const store = createJsonStore<WatchlistData | LegacyWatchlistData>('watchlist.json', () => ({ version: 2, users: {} }));
+
+/**
+ * Upgrades the stored data to the current version, in place.
+ */
+function upgrade(data: WatchlistData | LegacyWatchlistData): WatchlistData {
+  if (data.version === 1) {
+    const legacy = data as Partial<LegacyWatchlistData>;
+    const unclaimed = legacy.entries;
+    delete legacy.entries;
+    Object.assign(data, { version: 2, users: {}, unclaimed });
+  }
+  return data as WatchlistData;
+}
+
+const getUserEntries = (data: WatchlistData, userId: string): Entries => (data.users[userId] ??= {});
+
+export const watchlistUpdateSchema = z.object({
+  status: z.enum(['watchlist', 'watched']),
+  watchedAt: z.iso.date().nullable().optional(),
+  rating: z.number().int().min(1).max(10).nullable().optional(),
+}) satisfies z.ZodType<WatchlistUpdate>;
+
+const getEntryKey = (mediaType: 'movie' | 'tv', id: number) => `${mediaType}-${id}`;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Lists a user's saved titles, most recently added first.
+ * @param userId The ID of the signed-in user.
+ */
+export async function listWatchlistEntries(userId: string): Promise<WatchlistEntry[]> {
+  const entries = upgrade(await store.read()).users[userId] ?? {};
+  return Object.values(entries).sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+/**
+ * Gives the watchlist saved before accounts existed to a user. Called when the first account is created.
+ * @param userId The ID of the new user.
+ */
+export async function claimUnclaimedWatchlist(userId: string): Promise<void> {
+  await store.update(raw => {
+    const data = upgrade(raw);
+    if (!data.unclaimed) return;
+    Object.assign(getUserEntries(data, userId), data.unclaimed);
+    delete data.unclaimed;
+  });
+}
+
+/**
+ * Builds the stored entry for a title from its TMDB details and a status update.
+ * @param existing The title's current entry, if it's already saved.
+ */
+function buildEntry(
+  mediaType: 'movie' | 'tv',
+  id: number,
+  media: TmdbMovieDetails | TmdbTvShowDetails,
+  update: WatchlistUpdate,
+  existing: WatchlistEntry | undefined
+): WatchlistEntry {
+  const isMovie = mediaType === 'movie';
+  const watched = update.status === 'watched';
+  return {
+    mediaType,
+    id,
+    status: update.status,
+    addedAt: existing?.addedAt ?? new Date().toISOString(),
+    // Keep the previous date and rating unless new ones are given; they only apply to watched titles.
+    watchedAt: watched ? (update.watchedAt !== undefined ? update.watchedAt : existing?.watchedAt) || today() : null,
+    rating: watched ? (update.rating !== undefined ? update.rating : existing?.rating ?? null) : null,
+    title: (isMovie ? (media as TmdbMovieDetails).title : (media as TmdbTvShowDetails).name) || 'Untitled',
+    posterPath: media.poster_path,
+    releaseDate: (isMovie ? (media as TmdbMovieDetails).release_date : (media as TmdbTvShowDetails).first_air_date) || null,
+    genres: media.genres ?? [],
+    voteAverage: media.vote_average,
+  };
+}
+
+/**
+ * Adds a title to the watchlist or watched log, or updates its status, date or rating.
+ * The title's display fields are refreshed from TMDB on every save.
+ * @param userId The ID of the signed-in user.
+ * @param mediaType The type of media ("movie" or "tv").
+ * @param id The TMDB ID of the title.
+ * @param update The new status, plus the watched date and rating for watched titles.
+ * @returns The saved entry.
+ * @throws A TmdbNotFoundError if the title doesn't exist on TMDB.
+ */
+export async function saveWatchlistEntry(userId: string, mediaType: 'movie' | 'tv', id: number, update: WatchlistUpdate): Promise<WatchlistEntry> {
+  const media = await getMediaDetails(mediaType, String(id));
+
+  return store.update(raw => {
+    const entries = getUserEntries(upgrade(raw), userId);
+    const key = getEntryKey(mediaType, id);
+    const entry = buildEntry(mediaType, id, media, update, entries[key]);
+    entries[key] = entry;
+    return entry;
+  });
+}
+
+/**
+ * Saves many titles at once, e.g. from an imported ratings file, in a single write.
+ * Titles TMDB doesn't know are skipped.
+ * @param userId The ID of the signed-in user.
+ * @param updates The titles and their new status, watched date and rating.
+ * @returns The saved entries and how many titles were skipped.
+ * @throws A TmdbRateLimitError or TmdbUpstreamError if TMDB can't be reached.
+ */
+export async function saveWatchlistEntries(
+  userId: string,
+  updates: { mediaType: 'movie' | 'tv'; id: number; update: WatchlistUpdate }[]
+): Promise<{ entries: WatchlistEntry[]; skipped: number }> {
+  const results = await Promise.allSettled(updates.map(({ mediaType, id }) => getMediaDetails(mediaType, String(id))));
+  const found: { mediaType: 'movie' | 'tv'; id: number; update: WatchlistUpdate; media: TmdbMovieDetails | TmdbTvShowDetails }[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') found.push({ ...updates[index], media: result.value });
+    else if (!(result.reason instanceof TmdbNotFoundError)) throw result.reason;
+  });
+
+  const saved = await store.update(raw => {
+    const entries = getUserEntries(upgrade(raw), userId);
+    return found.map(({ mediaType, id, update, media }) => {
+      const key = getEntryKey(mediaType, id);
+      return (entries[key] = buildEntry(mediaType, id, media, update, entries[key]));
+    });
+  });
+  return { entries: saved, skipped: updates.length - saved.length };
+}
+
+/**
+ * Removes a title from a user's watchlist and watched log.
+ * @returns true if the title was saved before.
+ */
+export async function removeWatchlistEntry(userId: string, mediaType: 'movie' | 'tv', id: number): Promise<boolean> {
+  return store.update(raw => {
+    const entries = getUserEntries(upgrade(raw), userId);
+    const key = getEntryKey(mediaType, id);
+    const existed = key in entries;
+    delete entries[key];
+    return existed;
+  });
+}
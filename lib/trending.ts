@@ -0,0 +1,62 @@
+// lib/trending.ts
+// Time windows of the home page's trending sections, shared by the page (server) and the window
+// toggle (client). The choice is kept in the URL (?movieWindow=day), so the view can be shared, and
+// in a cookie per section, so the server-rendered home page remembers it on the next visit.
+
+import { MessageKey } from './messages/en';
+import { MediaListKey, TrendingWindow } from './types/tmdb';
+
+// The trending sections, by the prefix of their query params (see getGridParamName): movies, TV shows and everything
+export type TrendingFeed = 'movie' | 'tv' | 'all';
+
+export const TRENDING_WINDOWS: { value: TrendingWindow; label: MessageKey }[] = [
+  { value: 'day', label: 'home.today' },
+  { value: 'week', label: 'home.thisWeek' },
+];
+
+export const DEFAULT_TRENDING_WINDOW: TrendingWindow = 'week';
+
+export const TRENDING_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // In seconds
+
+// The MEDIA_LISTS entry behind each section and window, for fetching further pages.
+const TRENDING_LISTS: Record<TrendingFeed, Record<TrendingWindow, MediaListKey>> = {
+  movie: { day: 'trending-movies-day', week: 'trending-movies' },
+  tv: { day: 'trending-tv-day', week: 'trending-tv' },
+  all: { day: 'trending-all-day', week: 'trending-all' },
+};
+
+/**
+ * Returns the query param holding a section's window, e.g. "movieWindow".
+ */
+export const getTrendingWindowParam = (feed: TrendingFeed) => `${feed}Window`;
+
+/**
+ * Returns the cookie remembering a section's window, e.g. "movie_explorer_trending_movie".
+ */
+export const getTrendingCookieName = (feed: TrendingFeed) => `movie_explorer_trending_${feed}`;
+
+/**
+ * Returns the list key a section pages through for a window.
+ */
+export const getTrendingList = (feed: TrendingFeed, timeWindow: TrendingWindow) => TRENDING_LISTS[feed][timeWindow];
+
+const isTrendingWindow = (value: unknown): value is TrendingWindow => TRENDING_WINDOWS.some(({ value: known }) => known === value);
+
+/**
+ * Picks a section's window: the URL wins, then the cookie, then the default. Invalid values are ignored.
+ * @param param The section's query param value (see getTrendingWindowParam).
+ * @param cookie The section's cookie value (see getTrendingCookieName).
+ * @returns The window to show.
+ */
+export function resolveTrendingWindow(param: string | string[] | undefined, cookie: string | undefined): TrendingWindow {
+  const fromUrl = Array.isArray(param) ? param[0] : param;
+  if (isTrendingWindow(fromUrl)) return fromUrl;
+  return isTrendingWindow(cookie) ? cookie : DEFAULT_TRENDING_WINDOW;
+}
+
+/**
+ * Remembers a section's window in its cookie. Client-side only.
+ */
+export function saveTrendingWindow(feed: TrendingFeed, timeWindow: TrendingWindow) {
+  document.cookie = `${getTrendingCookieName(feed)}=${timeWindow}; path=/; max-age=${TRENDING_COOKIE_MAX_AGE}; samesite=lax`;
+}
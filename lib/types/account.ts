@@ -0,0 +1,28 @@
+// lib/types/account.ts
+// Types for local user accounts and their settings, shared by the API routes and the client.
+
+// Sections of the home page a user can turn on or off
+export type HomeSection = 'nowPlaying' | 'moreLikeThese' | 'trendingMovies' | 'trendingTv' | 'trendingAll';
+
+// Which trailer to feature when it exists in both: dubbed into the user's language, or the original language
+export type TrailerLanguage = 'dubbed' | 'original';
+
+// How long title grids (trending, popular) page: numbered pages, a "Load more" button, or loading as you scroll
+export type PaginationMode = 'pages' | 'loadMore' | 'infinite';
+
+export interface UserSettings {
+  region: string; // ISO 3166-1 country code, e.g. "US"
+  language: string; // TMDB language tag, e.g. "en-US"
+  includeAdult: boolean; // Show adult titles in search and discover
+  homeSections: HomeSection[]; // Home page sections, in display order
+  streamingServices: number[]; // TMDB watch provider IDs the user subscribes to, for "on my services" filters
+  trailerLanguage: TrailerLanguage;
+  paginationMode: PaginationMode;
+}
+
+// What the client gets to know about the signed-in user (never the password hash)
+export interface SessionUser {
+  id: string;
+  username: string;
+  settings: UserSettings;
+}
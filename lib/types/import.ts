@@ -0,0 +1,47 @@
+// lib/types/import.ts
+// Types for importing and exporting Letterboxd and IMDb rating files, shared by the API routes and the client.
+
+import { TmdbMediaItem } from './tmdb';
+
+export type RatingFileFormat = 'letterboxd' | 'imdb';
+
+// One title read from a rating file, before it's matched to TMDB
+export interface RatingFileRow {
+  line: number; // 1-based row number in the file, counting the header as row 1, for messages
+  title: string;
+  year: number | null;
+  mediaType: 'movie' | 'tv'; // Letterboxd only has films; IMDb's "Title Type" tells them apart
+  imdbId: string | null;
+  tmdbId: number | null; // Present in Letterboxd import-format files, including our own exports
+  rating: number | null; // 1-10; Letterboxd's 0.5-5 stars are doubled
+  watchedAt: string | null; // YYYY-MM-DD
+}
+
+// A row matched to a single TMDB title
+export interface ImportMatch {
+  row: RatingFileRow;
+  item: TmdbMediaItem;
+}
+
+// A row with several plausible TMDB titles, waiting for the user to pick one
+export interface ImportReview {
+  row: RatingFileRow;
+  candidates: TmdbMediaItem[];
+}
+
+// The response of POST /api/import
+export interface ImportResolution {
+  format: RatingFileFormat;
+  matched: ImportMatch[];
+  review: ImportReview[];
+  unmatched: RatingFileRow[];
+  ignored: number; // Rows for things we don't track, like IMDb episode or video game ratings
+}
+
+// A confirmed title, as sent to POST /api/import/save
+export interface ImportSaveItem {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  rating: number | null;
+  watchedAt: string | null;
+}
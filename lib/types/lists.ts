@@ -0,0 +1,53 @@
+// lib/types/lists.ts
+// Types for user-curated lists, shared by the API routes, the share page and the client.
+
+// A title on a list. Like watchlist entries, the display fields are copied from TMDB when the
+// title is added, so a list renders without refetching every title.
+export interface ListItem {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  note: string; // The owner's note about this title on this list, may be empty
+  addedAt: string; // ISO timestamp
+
+  title: string;
+  posterPath: string | null;
+  releaseDate: string | null;
+  voteAverage: number;
+}
+
+export interface CustomList {
+  id: string;
+  slug: string; // Public URL: /lists/{slug}
+  ownerId: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+  items: ListItem[]; // In the owner's chosen order
+}
+
+// A list as shown to other people on its share page (no owner ID)
+export interface PublicList extends Omit<CustomList, 'ownerId'> {
+  ownerName: string | null; // Null if the owner's account is gone
+}
+
+// The body accepted by POST /api/lists and PATCH /api/lists/[listId]
+export interface ListDetailsUpdate {
+  name?: string;
+  description?: string;
+  order?: string[]; // Item keys ("movie-603") in the new order; must name every item once
+}
+
+// The body accepted by PUT /api/lists/[listId]/items/[mediaType]/[id]
+export interface ListItemUpdate {
+  note?: string;
+}
+
+// The file format of list exports and imports
+export interface ListExport {
+  format: 'movie-explorer-list';
+  version: 1;
+  name: string;
+  description: string;
+  items: { mediaType: 'movie' | 'tv'; id: number; note: string }[];
+}
@@ -12,6 +12,7 @@ export interface TmdbMediaItem {
   vote_average: number;
   vote_count: number;
   media_type: 'movie' | 'tv' | 'person'; // TMDB trending can also return 'person'
+  genre_ids?: number[]; // Sent by list and search endpoints, not by details
 
   // Conditional properties based on media_type
   title?: string; // For movies
@@ -29,12 +30,43 @@ export interface TmdbMediaItem {
   known_for?: TmdbMediaItem[];
 }
 
+// A genre as returned by the genre list endpoints and embedded in details responses
+export interface TmdbGenre {
+  id: number;
+  name: string;
+}
+
+// The collection (franchise) a movie belongs to, e.g. "Dune Collection"
+export interface TmdbCollection {
+  id: number;
+  name: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+}
+
+// A single episode, as embedded in TV show details (last/next episode to air)
+export interface TmdbEpisode {
+  id: number;
+  name: string;
+  overview: string;
+  vote_average: number;
+  vote_count: number;
+  air_date: string | null;
+  episode_number: number;
+  episode_type?: string; // e.g., "standard", "finale"
+  production_code: string;
+  runtime: number | null;
+  season_number: number;
+  show_id: number;
+  still_path: string | null;
+}
+
 // Extend TmdbMediaItem for more specific movie details
 export interface TmdbMovieDetails extends TmdbMediaItem {
   media_type: 'movie'; // Narrow type for movies
-  belongs_to_collection: any | null;
+  belongs_to_collection: TmdbCollection | null;
   budget: number;
-  genres: { id: number; name: string }[];
+  genres: TmdbGenre[];
   homepage: string | null;
   imdb_id: string | null;
   production_companies: { id: number; logo_path: string | null; name: string; origin_country: string }[];
@@ -51,19 +83,19 @@ export interface TmdbTvShowDetails extends TmdbMediaItem {
   media_type: 'tv'; // Narrow type for TV shows
   created_by: { id: number; credit_id: string; name: string; gender: number; profile_path: string | null }[];
   episode_run_time: number[];
-  genres: { id: number; name: string }[];
+  genres: TmdbGenre[];
   homepage: string;
   in_production: boolean;
   languages: string[];
-  last_air_date: string;
-  last_episode_to_air: any;
-  next_episode_to_air: any | null;
+  last_air_date: string | null; // null for shows that haven't aired yet
+  last_episode_to_air: TmdbEpisode | null;
+  next_episode_to_air: TmdbEpisode | null;
   networks: { id: number; logo_path: string | null; name: string; origin_country: string }[];
   number_of_episodes: number;
   number_of_seasons: number;
   origin_country: string[];
   seasons: {
-    air_date: string;
+    air_date: string | null;
     episode_count: number;
     id: number;
     name: string;
@@ -103,4 +135,221 @@ export interface TmdbVideo {
 export interface TmdbVideoResponse {
   id: number;
   results: TmdbVideo[];
-}
\ No newline at end of file
+}
+// INTERFACES FOR IMAGE DATA
+export interface TmdbImage {
+  file_path: string;
+  width: number; // Of the original, in pixels
+  height: number;
+  aspect_ratio: number; // width / height
+  iso_639_1: string | null; // Language of any text in the image; null for textless images
+  vote_average: number;
+  vote_count: number;
+}
+
+// From /movie/{id}/images and /tv/{id}/images
+export interface TmdbImages {
+  id: number;
+  backdrops: TmdbImage[];
+  posters: TmdbImage[];
+  logos: TmdbImage[];
+}
+
+// INTERFACES FOR CREDITS AND PEOPLE
+export interface TmdbCastMember {
+  id: number; // The person's ID
+  name: string;
+  character: string;
+  credit_id: string;
+  order: number; // Billing order, 0 is top-billed
+  profile_path: string | null;
+  known_for_department?: string;
+}
+
+export interface TmdbCrewMember {
+  id: number; // The person's ID
+  name: string;
+  job: string; // e.g., "Director", "Screenplay"
+  department: string; // e.g., "Directing", "Writing"
+  credit_id: string;
+  profile_path: string | null;
+}
+
+export interface TmdbCredits {
+  id: number;
+  cast: TmdbCastMember[];
+  crew: TmdbCrewMember[];
+}
+
+export interface TmdbPersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  profile_path: string | null;
+  known_for_department: string;
+  also_known_as: string[];
+  imdb_id: string | null;
+  homepage: string | null;
+}
+
+// A title a person worked on, from /person/{id}/combined_credits.
+// Cast credits carry `character`, crew credits carry `job` and `department`.
+export type TmdbPersonCredit = TmdbMediaItem & {
+  credit_id: string;
+  character?: string;
+  job?: string;
+  department?: string;
+};
+
+export interface TmdbPersonCombinedCredits {
+  id: number;
+  cast: TmdbPersonCredit[];
+  crew: TmdbPersonCredit[];
+}
+
+// INTERFACES FOR TV SEASONS AND EPISODES
+// An episode as returned by the season and episode endpoints, with its crew and guest cast
+export interface TmdbEpisodeDetails extends TmdbEpisode {
+  crew: TmdbCrewMember[];
+  guest_stars: TmdbCastMember[];
+}
+
+export interface TmdbSeasonDetails {
+  id: number;
+  air_date: string | null;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  season_number: number;
+  vote_average: number;
+  episodes: TmdbEpisodeDetails[];
+}
+
+// INTERFACES FOR EXTERNAL IDS
+// Titles matching an external ID, from /find/{external_id}
+export interface TmdbFindResults {
+  movie_results: TmdbMediaItem[];
+  tv_results: TmdbMediaItem[];
+}
+
+// A title's IDs on other sites, from /movie/{id}/external_ids and /tv/{id}/external_ids
+export interface TmdbExternalIds {
+  id: number;
+  imdb_id: string | null;
+}
+
+// INTERFACES FOR WATCH PROVIDERS (streaming availability; TMDB sources it from JustWatch)
+export interface TmdbWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number; // Lower comes first
+}
+
+// How a title can be watched in one region
+export interface TmdbWatchProviderRegion {
+  link: string; // TMDB's "where to watch" page for the title in this region
+  flatrate: TmdbWatchProvider[]; // Included in a subscription
+  free: TmdbWatchProvider[];
+  ads: TmdbWatchProvider[]; // Free with ads
+  rent: TmdbWatchProvider[];
+  buy: TmdbWatchProvider[];
+}
+
+// From /movie/{id}/watch/providers and /tv/{id}/watch/providers, keyed by ISO 3166-1 region code
+export interface TmdbWatchProviders {
+  id: number;
+  results: Record<string, TmdbWatchProviderRegion>;
+}
+
+// Only titles available on these providers in this region, for /discover
+export interface WatchProviderFilter {
+  region: string;
+  providerIds: number[];
+}
+
+// PER-REQUEST PREFERENCES FORWARDED TO TMDB (usually from the signed-in user's settings)
+export interface TmdbRequestOptions {
+  language?: string; // e.g. "fr-FR"; titles and overviews come back translated where TMDB has a translation
+  region?: string; // ISO 3166-1 country code, e.g. "GB"; affects release dates and what's "now playing"
+  includeAdult?: boolean; // Include adult titles in lists, search and discover
+}
+
+// OPTIONAL FILTERS FOR THE SEARCH ENDPOINTS
+export interface SearchOptions extends TmdbRequestOptions {
+  year?: number; // Release year (movies) or first air year (TV); not supported by people or multi search
+}
+
+// A compact search match returned by /api/search-suggestions for the header typeahead
+export interface SearchSuggestion {
+  id: number;
+  mediaType: 'movie' | 'tv' | 'person';
+  title: string;
+  year: string | null; // Release or first air year; null for people and undated titles
+  imagePath: string | null; // Poster for titles, profile photo for people
+  department: string | null; // Known-for department, for people only
+  href: string;
+}
+
+// A title on the home page's "More like these" row, returned by /api/recommendations
+export interface BlendedRecommendation {
+  item: TmdbMediaItem;
+  because: string[]; // Keys of the recently viewed titles it was recommended for (e.g. "movie-438631"), most recent first
+}
+
+// Period TMDB's trending lists cover: the last day or the last week
+export type TrendingWindow = 'day' | 'week';
+
+// Title lists whose further pages the browse grids load from /api/media-list/{list} ("load more" and infinite scroll).
+// Trending lists without a "-day" suffix cover the week.
+export type MediaListKey =
+  | 'trending-movies'
+  | 'trending-movies-day'
+  | 'trending-tv'
+  | 'trending-tv-day'
+  | 'trending-all'
+  | 'trending-all-day'
+  | 'popular-movies'
+  | 'top-rated-movies'
+  | 'upcoming-movies'
+  | 'popular-tv'
+  | 'top-rated-tv'
+  | 'airing-today-tv'
+  | 'on-the-air-tv';
+
+// FILTERS FOR THE DISCOVER ENDPOINTS
+// 'votes' isn't offered on /discover (see DISCOVER_SORT_OPTIONS); the browse grids use it for their "Most votes" sort.
+export type DiscoverSort = 'popularity' | 'rating' | 'votes' | 'date' | 'title';
+
+export interface DiscoverFilters {
+  mediaType: 'movie' | 'tv';
+  includeGenres: number[]; // Titles must have all of these genres
+  excludeGenres: number[]; // Titles must have none of these genres
+  yearFrom?: number; // Release year (movies) or first air year (TV), inclusive
+  yearTo?: number;
+  // Date window, YYYY-MM-DD, inclusive: a theatrical release in the user's region (movies) or an episode airing (TV)
+  dateFrom?: string;
+  dateTo?: string;
+  minRating?: number; // Minimum vote average, 0-10
+  minVotes?: number; // Minimum vote count
+  minRuntime?: number; // In minutes
+  maxRuntime?: number;
+  language?: string; // ISO 639-1 original language, e.g. "ko"
+  onMyServices: boolean; // Only titles streaming on the user's services (UserSettings.streamingServices) in their region
+  sort: DiscoverSort;
+}
+
+// SORTING AND FILTERS FOR THE BROWSE GRIDS (the list pages), via the list's discover equivalent (see
+// lib/server/media-lists.ts); trending has none, so its grids have no toolbar
+export type GridSort = 'default' | 'rating' | 'votes' | 'date' | 'title';
+
+export interface GridFilters {
+  sort: GridSort; // 'default' keeps TMDB's order (trending or popularity)
+  genre?: number; // Genre ID the title must have
+  minRating?: number; // Minimum vote average, 0-10
+  year?: number; // Release year (movies) or first air year (TV)
+  language?: string; // ISO 639-1 original language, e.g. "ko"
+}
@@ -0,0 +1,30 @@
+// lib/types/watchlist.ts
+// Types for the personal watchlist and watched log, shared by the API routes and the client.
+
+import { TmdbGenre } from './tmdb';
+
+export type WatchStatus = 'watchlist' | 'watched';
+
+// A saved title. Display fields are copied from TMDB when the entry is saved, so the
+// /watchlist page can render without refetching every title.
+export interface WatchlistEntry {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  status: WatchStatus;
+  addedAt: string; // ISO timestamp of when the title was first saved
+  watchedAt: string | null; // YYYY-MM-DD, for watched titles only
+  rating: number | null; // Personal rating, 1-10, for watched titles only
+
+  title: string;
+  posterPath: string | null;
+  releaseDate: string | null;
+  genres: TmdbGenre[];
+  voteAverage: number;
+}
+
+// The body accepted by PUT /api/watchlist/[mediaType]/[id]
+export interface WatchlistUpdate {
+  status: WatchStatus;
+  watchedAt?: string | null;
+  rating?: number | null;
+}
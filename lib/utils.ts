@@ -0,0 +1,93 @@
+// lib/utils.ts
+// Small formatting helpers shared by server and client components.
+
+import { TmdbMediaItem } from './types/tmdb';
+
+// TMDB serves at most 500 pages of any list.
+export const TMDB_MAX_PAGE = 500;
+
+/**
+ * Reads a page number from a query param, clamped to a whole number from 1 to `max`. Missing or junk values read as page 1.
+ */
+export function parsePageParam(value: string | string[] | undefined, max: number = TMDB_MAX_PAGE): number {
+  const page = parseInt((Array.isArray(value) ? value[0] : value) || '1', 10);
+  return Number.isInteger(page) ? Math.min(max, Math.max(1, page)) : 1;
+}
+
+/**
+ * Formats a TMDB date string ("YYYY-MM-DD") for display, e.g. "Apr 17, 2011".
+ * The date is formatted in UTC so a "2011-04-17" air date never shows up as April 16.
+ * @param date The date string from TMDB.
+ * @param month "short" (Apr) or "long" (April).
+ * @param language The language tag to format for (see getLocaleLanguage), e.g. "fr-FR" gives "17 avr. 2011".
+ * @returns The formatted date, or null if the date is missing or invalid.
+ */
+export function formatDate(date: string | null | undefined, month: 'short' | 'long' = 'short', language: string = 'en-US'): string | null {
+  if (!date) return null;
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toLocaleDateString(language, { year: 'numeric', month, day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Formats the year of a TMDB date string, in UTC like formatDate.
+ * @returns The year, or null if the date is missing or invalid.
+ */
+export function formatYear(date: string | null | undefined, language: string = 'en-US'): string | null {
+  if (!date) return null;
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toLocaleDateString(language, { year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Formats a number with the language's separators, e.g. 12345 -> "12,345" (en-US) or "12 345" (fr-FR).
+ * @param options Extra Intl options, e.g. fixed fraction digits for ratings.
+ */
+export function formatNumber(value: number, language: string = 'en-US', options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(language, options);
+}
+
+/**
+ * Formats a 0-10 vote average with one decimal, e.g. 7.8 (en-US) or 7,8 (fr-FR).
+ */
+export const formatRating = (value: number, language: string = 'en-US'): string =>
+  formatNumber(value, language, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Formats an episode code, e.g. S01E05.
+ */
+export function formatEpisodeCode(seasonNumber: number, episodeNumber: number): string {
+  return `S${String(seasonNumber).padStart(2, '0')}E${String(episodeNumber).padStart(2, '0')}`;
+}
+
+// The display fields that watchlist entries and list items copy from TMDB
+interface SavedTitle {
+  mediaType: 'movie' | 'tv';
+  id: number;
+  title: string;
+  posterPath: string | null;
+  releaseDate: string | null;
+  voteAverage: number;
+}
+
+/**
+ * Adapts a saved title (a watchlist entry or list item) to the shape MediaCard expects.
+ */
+export function toMediaItem(saved: SavedTitle): TmdbMediaItem {
+  return {
+    adult: false,
+    backdrop_path: null,
+    id: saved.id,
+    original_language: '',
+    overview: '',
+    popularity: 0,
+    poster_path: saved.posterPath,
+    vote_average: saved.voteAverage,
+    vote_count: 0,
+    media_type: saved.mediaType,
+    ...(saved.mediaType === 'movie'
+      ? { title: saved.title, release_date: saved.releaseDate ?? undefined }
+      : { name: saved.title, first_air_date: saved.releaseDate ?? undefined }),
+  };
+}
@@ -0,0 +1,96 @@
+// lib/videos.ts
+// Video helpers shared by the detail page (server) and the video gallery (client): grouping by type,
+// picking the featured trailer, and building the privacy-friendly embed and thumbnail URLs.
+
+import { MessageKey } from './messages/en';
+import { TmdbVideo } from './types/tmdb';
+import { TrailerLanguage } from './types/account';
+
+// Gallery groups in display order. TMDB's other types (Bloopers, Opening Credits, ...) go under "More".
+export const VIDEO_GROUPS = ['Trailer', 'Teaser', 'Clip', 'Featurette', 'Behind the Scenes', 'More'] as const;
+
+export type VideoGroup = (typeof VIDEO_GROUPS)[number];
+
+export const VIDEO_GROUP_LABELS: Record<VideoGroup, MessageKey> = {
+  Trailer: 'videos.trailers',
+  Teaser: 'videos.teasers',
+  Clip: 'videos.clips',
+  Featurette: 'videos.featurettes',
+  'Behind the Scenes': 'videos.behindTheScenes',
+  More: 'videos.more',
+};
+
+// Sites we can embed. TMDB also lists a few videos on other sites, which are skipped.
+const PLAYABLE_SITES = ['YouTube', 'Vimeo'];
+
+/**
+ * Checks that a video is hosted somewhere the player can embed.
+ */
+export const isPlayable = (video: TmdbVideo) => PLAYABLE_SITES.includes(video.site);
+
+/**
+ * Returns the gallery group a video belongs in.
+ */
+export const getVideoGroup = (video: TmdbVideo): VideoGroup =>
+  (VIDEO_GROUPS as readonly string[]).includes(video.type) ? (video.type as VideoGroup) : 'More';
+
+/**
+ * Groups playable videos by type, newest first within each group, skipping empty groups.
+ * @param videos The videos from TMDB.
+ * @returns The groups in VIDEO_GROUPS order.
+ */
+export function groupVideos(videos: TmdbVideo[]): { group: VideoGroup; videos: TmdbVideo[] }[] {
+  const sorted = videos.filter(isPlayable).sort((a, b) => b.published_at.localeCompare(a.published_at));
+  return VIDEO_GROUPS
+    .map(group => ({ group, videos: sorted.filter(video => getVideoGroup(video) === group) }))
+    .filter(({ videos }) => videos.length > 0);
+}
+
+/**
+ * Picks the trailer to feature, trying the preferred language first: the user's language for "dubbed",
+ * the title's original language for "original". Within a language, official trailers beat other
+ * trailers, which beat teasers.
+ * @param videos The videos from TMDB.
+ * @param preference The user's trailer language preference.
+ * @param userLanguage The user's ISO 639-1 language code, e.g. "fr".
+ * @param originalLanguage The title's ISO 639-1 original language, e.g. "ja".
+ * @returns The featured video, or undefined if there is no playable trailer or teaser.
+ */
+export function pickFeaturedTrailer(
+  videos: TmdbVideo[],
+  preference: TrailerLanguage,
+  userLanguage: string,
+  originalLanguage: string
+): TmdbVideo | undefined {
+  const playable = videos.filter(isPlayable);
+  const languages = preference === 'dubbed' ? [userLanguage, originalLanguage] : [originalLanguage, userLanguage];
+  const pick = (candidates: TmdbVideo[]) =>
+    candidates.find(v => v.type === 'Trailer' && v.official) ||
+    candidates.find(v => v.type === 'Trailer') ||
+    candidates.find(v => v.type === 'Teaser');
+
+  for (const language of languages) {
+    const match = pick(playable.filter(video => video.iso_639_1 === language));
+    if (match) return match;
+  }
+  return pick(playable);
+}
+
+/**
+ * Builds the embed URL for a video, using YouTube's no-cookie domain and Vimeo's do-not-track flag.
+ * Only loaded once the user presses play.
+ */
+export function getVideoEmbedUrl(video: TmdbVideo): string {
+  return video.site === 'Vimeo'
+    ? `https://player.vimeo.com/video/${video.key}?autoplay=1&dnt=1`
+    : `https://www.youtube-nocookie.com/embed/${video.key}?autoplay=1&modestbranding=1&rel=0`;
+}
+
+/**
+ * Builds a thumbnail URL for a video. Vimeo thumbnails need an API call, so they get a placeholder.
+ */
+export function getVideoThumbnailUrl(video: TmdbVideo): string {
+  return video.site === 'YouTube'
+    ? `https://i.ytimg.com/vi/${video.key}/hqdefault.jpg`
+    : `https://placehold.co/png/480x270/1f2937/FFFFFF?text=${encodeURIComponent(video.site)}`;
+}
@@ -0,0 +1,99 @@
+// lib/watchlist-client.ts
+// Client-side access to the watchlist API. Every component using useWatchlist shares one copy of the
+// entries, loaded once per page session, so toggling a title updates every card that shows it.
+
+import { useSyncExternalStore } from 'react';
+import { WatchlistEntry, WatchlistUpdate } from './types/watchlist';
+
+type Entries = ReadonlyMap<string, WatchlistEntry>;
+
+let entries: Entries | null = null; // null until the first load finishes
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const getEntryKey = (mediaType: 'movie' | 'tv', id: number) => `${mediaType}-${id}`;
+
+function setEntries(next: Entries) {
+  entries = next;
+  listeners.forEach(listener => listener());
+}
+
+function load() {
+  loadPromise ??= fetch('/api/watchlist')
+    .then(response => {
+      if (!response.ok) throw new Error(`Watchlist request failed with status ${response.status}`);
+      return response.json();
+    })
+    .then((data: { entries: WatchlistEntry[] }) => {
+      setEntries(new Map(data.entries.map(entry => [getEntryKey(entry.mediaType, entry.id), entry])));
+    })
+    .catch(error => {
+      console.error("Failed to load the watchlist:", error);
+      loadPromise = null; // Try again the next time a component subscribes
+    });
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  if (!entries) load();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Reads an error message from a failed API response.
+ */
+async function getErrorMessage(response: Response): Promise<string> {
+  const data = await response.json().catch(() => null);
+  return data?.error || `Request failed with status ${response.status}`;
+}
+
+/**
+ * Saves a title's watchlist status (and watched date and rating).
+ * @returns The saved entry.
+ * @throws An Error with the API's message if the request fails.
+ */
+export async function saveToWatchlist(mediaType: 'movie' | 'tv', id: number, update: WatchlistUpdate): Promise<WatchlistEntry> {
+  const response = await fetch(`/api/watchlist/${mediaType}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  if (!response.ok) throw new Error(await getErrorMessage(response));
+
+  const entry: WatchlistEntry = await response.json();
+  setEntries(new Map(entries ?? []).set(getEntryKey(mediaType, id), entry));
+  return entry;
+}
+
+/**
+ * Removes a title from the watchlist and watched log.
+ * @throws An Error with the API's message if the request fails.
+ */
+export async function removeFromWatchlist(mediaType: 'movie' | 'tv', id: number): Promise<void> {
+  const response = await fetch(`/api/watchlist/${mediaType}/${id}`, { method: 'DELETE' });
+  // A 404 means it was already gone, which is what we wanted.
+  if (!response.ok && response.status !== 404) throw new Error(await getErrorMessage(response));
+
+  const next = new Map(entries ?? []);
+  next.delete(getEntryKey(mediaType, id));
+  setEntries(next);
+}
+
+/**
+ * Subscribes a component to the saved entries.
+ * @returns The entries keyed by "mediaType-id", or null while they're loading (and during server rendering).
+ */
+export function useWatchlistEntries(): Entries | null {
+  return useSyncExternalStore(subscribe, () => entries, () => null);
+}
+
+/**
+ * Subscribes a component to a single title's entry.
+ * @returns The entry, undefined if the title isn't saved, or null while loading.
+ */
+export function useWatchlistEntry(mediaType: 'movie' | 'tv', id: number): WatchlistEntry | undefined | null {
+  const all = useWatchlistEntries();
+  return all ? all.get(getEntryKey(mediaType, id)) : null;
+}
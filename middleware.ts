@@ -0,0 +1,52 @@
+// middleware.ts
+// Resolves the locale prefix (/fr/movie/1 renders /movie/1 in French) and sends visitors without a
+// session cookie away from account pages: to the login page, or a 401 for API routes.
+// The session check only looks for the cookie; pages and routes still validate the session itself
+// with getCurrentUser, since the session store lives on disk and middleware runs on the edge.
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/account';
+import { DEFAULT_LOCALE, LOCALE_HEADER, localizePath, splitLocalePath } from '@/lib/i18n';
+
+// List share pages (/lists/{slug}) stay public; only the overview and editors need a session.
+const PROTECTED_PATHS = [
+  /^\/watchlist(\/|$)/,
+  /^\/account(\/|$)/,
+  /^\/lists$/,
+  /^\/lists\/[^/]+\/edit$/,
+  /^\/import$/,
+  /^\/api\/(watchlist|account|lists|import)(\/|$)/,
+];
+
+export function middleware(request: NextRequest) {
+  const { pathname: requestPath, search } = request.nextUrl;
+  const isApi = requestPath.startsWith('/api/');
+  const { locale: prefix, pathname } = isApi ? { locale: null, pathname: requestPath } : splitLocalePath(requestPath);
+  const locale = prefix ?? DEFAULT_LOCALE;
+
+  // English lives at the unprefixed paths, so /en/... redirects there to keep one URL per page.
+  if (prefix === DEFAULT_LOCALE) {
+    return NextResponse.redirect(new URL(pathname + search, request.url));
+  }
+
+  if (!request.cookies.has(SESSION_COOKIE) && PROTECTED_PATHS.some(pattern => pattern.test(pathname))) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Sign in required.' }, { status: 401 });
+    }
+    const loginUrl = new URL(localizePath('/login', locale), request.url);
+    loginUrl.searchParams.set('next', requestPath + search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // API calls keep the locale header the client sent; pages always get it from the path.
+  if (isApi) return NextResponse.next();
+  const headers = new Headers(request.headers);
+  headers.set(LOCALE_HEADER, locale);
+  if (!prefix) return NextResponse.next({ request: { headers } });
+  return NextResponse.rewrite(new URL(pathname + search, request.url), { request: { headers } });
+}
+
+export const config = {
+  // Everything except Next's own assets and files in public/ (anything with an extension)
+  matcher: ['/((?!_next/|.*\\.[^/]+$).*)'],
+};
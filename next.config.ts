@@ -11,6 +11,13 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/t/p/**',
       },
+      // YouTube thumbnails for the video gallery
+      {
+        protocol: 'https',
+        hostname: 'i.ytimg.com',
+        port: '',
+        pathname: '/vi/**',
+      },
       // If you used a placeholder image from placehold.co, you might also add it:
       {
         protocol: 'https',
@@ -0,0 +1,41 @@
+// playwright.config.ts
+// Headless smoke suite (tests/smoke) against a production build served by `next start`, with TMDB
+// replaced by the fixture server (scripts/tmdb-fixture-server.mjs), so it runs without network access.
+import { defineConfig, devices } from '@playwright/test';
+
+const APP_PORT = 3100;
+const FIXTURES_PORT = 4010;
+
+export default defineConfig({
+  testDir: 'tests/smoke',
+  fullyParallel: false,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  workers: 1,
+  reporter: process.env.CI ? 'line' : 'list',
+  use: {
+    baseURL: `http://localhost:${APP_PORT}`,
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: [
+    {
+      command: 'npm run fixtures:serve',
+      url: `http://localhost:${FIXTURES_PORT}/genre/movie/list`,
+      env: { PORT: String(FIXTURES_PORT) },
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: `npm run build && npm run start -- --port ${APP_PORT}`,
+      url: `http://localhost:${APP_PORT}`,
+      env: {
+        TMDB_BASE_URL: `http://localhost:${FIXTURES_PORT}`,
+        TMDB_API_KEY: 'fixtures',
+        TMDB_CACHE: 'off',
+        DATA_DIR: 'tests/.data',
+      },
+      timeout: 300_000, // The production build is part of the start-up
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
+});
@@ -0,0 +1,44 @@
+// scripts/tmdb-fixture-server.mjs
+// Minimal HTTP server that replays recorded TMDB fixtures, so the app can run with
+// TMDB_BASE_URL=http://localhost:4010 and no network access.
+// Fixture files follow the same layout as getFixturePath in lib/server/tmdb-provider.ts.
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const port = Number(process.env.PORT || 4010);
+const fixturesDir = path.resolve(process.cwd(), process.env.TMDB_FIXTURES_DIR || 'fixtures/tmdb');
+
+/**
+ * Maps a request URL to its fixture file. The api_key param is ignored, the rest are sorted.
+ * @param {URL} url The incoming request URL.
+ * @returns {string} The absolute path of the fixture file.
+ */
+function getFixturePath(url) {
+  url.searchParams.delete('api_key');
+  const query = [...url.searchParams.keys()]
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(url.searchParams.get(key))}`)
+    .join('&');
+  const segments = url.pathname.split('/').filter(Boolean);
+  return path.resolve(fixturesDir, ...segments, `${query || 'index'}.json`);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  const fixturePath = getFixturePath(url);
+
+  try {
+    const body = await readFile(fixturePath, 'utf8');
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(body);
+  } catch {
+    // Same error shape as TMDB, so the app's error handling is exercised as in production.
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, status_code: 34, status_message: `No fixture recorded at ${path.relative(fixturesDir, fixturePath)}` }));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Serving TMDB fixtures from ${fixturesDir} on http://localhost:${port}`);
+});
@@ -0,0 +1,41 @@
+// tests/helpers/mock-tmdb.ts
+// In-process mock TMDB for the integration tests: answers from the recorded fixtures in fixtures/tmdb,
+// records every request, and lets a test replace the response of an endpoint.
+import path from 'node:path';
+import { createFixtureProvider, setTmdbProvider } from '@/lib/server/tmdb-provider';
+
+export interface MockTmdb {
+  requests: { endpoint: string; params: Record<string, string> }[];
+  /** Answers every request to `endpoint` with `response`, or rejects with it if it's an Error. */
+  respond(endpoint: string, response: unknown): void;
+  /** Returns the params of the requests made to `endpoint`. */
+  paramsOf(endpoint: string): Record<string, string>[];
+}
+
+/**
+ * Points tmdb-api.ts at a fresh mock. Call from beforeEach; nothing reaches the network.
+ */
+export function installMockTmdb(): MockTmdb {
+  const fixtures = createFixtureProvider(path.resolve('fixtures/tmdb'));
+  const overrides = new Map<string, unknown>();
+  const requests: MockTmdb['requests'] = [];
+
+  setTmdbProvider({
+    mode: 'fixtures',
+    async fetch(endpoint, params = {}) {
+      requests.push({ endpoint, params });
+      if (overrides.has(endpoint)) {
+        const response = overrides.get(endpoint);
+        if (response instanceof Error) throw response;
+        return structuredClone(response);
+      }
+      return fixtures.fetch(endpoint, params);
+    },
+  });
+
+  return {
+    requests,
+    respond: (endpoint, response) => void overrides.set(endpoint, response),
+    paramsOf: endpoint => requests.filter(request => request.endpoint === endpoint).map(request => request.params),
+  };
+}
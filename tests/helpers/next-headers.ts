@@ -0,0 +1,28 @@
+// tests/helpers/next-headers.ts
+// Replaces next/headers in tests (vi.mock('next/headers', () => import(...))) with an anonymous request
+// whose headers and cookies the tests can set.
+import { LOCALE_HEADER } from '@/lib/i18n';
+export const request = {
+  headers: new Headers(),
+  cookies: new Map<string, string>(),
+};
+
+/**
+ * Starts a fresh anonymous request, optionally in a locale (the header the middleware sets for /fr/... pages).
+ */
+export function resetRequest(locale?: string) {
+  request.headers = new Headers(locale ? { [LOCALE_HEADER]: locale } : {});
+  request.cookies = new Map();
+}
+
+export async function headers() {
+  return request.headers;
+}
+
+export async function cookies() {
+  return {
+    get: (name: string) => (request.cookies.has(name) ? { name, value: request.cookies.get(name)! } : undefined),
+    set: (name: string, value: string) => void request.cookies.set(name, value),
+    delete: (name: string) => void request.cookies.delete(name),
+  };
+}
@@ -0,0 +1,35 @@
+// tests/helpers/next-navigation.ts
+// Replaces next/navigation in tests (vi.mock('next/navigation', () => import(...))): the hooks read the
+// `navigation` state below, and notFound()/redirect() throw errors the tests can assert on.
+import { vi } from 'vitest';
+
+export const navigation = {
+  pathname: '/',
+  searchParams: new URLSearchParams(),
+  router: { push: vi.fn(), replace: vi.fn(), refresh: vi.fn(), back: vi.fn(), forward: vi.fn(), prefetch: vi.fn() },
+};
+
+/**
+ * Points the hooks at a URL, e.g. setNavigation('/search?query=dune').
+ */
+export function setNavigation(url: string) {
+  const { pathname, searchParams } = new URL(url, 'http://localhost');
+  navigation.pathname = pathname;
+  navigation.searchParams = searchParams;
+}
+
+export const usePathname = () => navigation.pathname;
+export const useSearchParams = () => navigation.searchParams;
+export const useRouter = () => navigation.router;
+export const useParams = () => ({});
+
+export class NotFoundError extends Error {}
+export class RedirectError extends Error {}
+
+export function notFound(): never {
+  throw new NotFoundError('notFound() was called.');
+}
+
+export function redirect(url: string): never {
+  throw new RedirectError(`redirect(${url}) was called.`);
+}
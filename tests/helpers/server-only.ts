@@ -0,0 +1,3 @@
+// tests/helpers/server-only.ts
+// Stands in for the "server-only" package under Vitest (see vitest.config.mts).
+export {};
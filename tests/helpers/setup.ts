@@ -0,0 +1,14 @@
+// tests/helpers/setup.ts
+// Runs before every test file: fills in browser APIs jsdom lacks and unmounts rendered components between tests.
+import { afterEach } from 'vitest';
+
+if (typeof Element !== 'undefined') {
+  // Pagination scrolls its section into view; jsdom doesn't lay out pages, so there's nothing to scroll.
+  Element.prototype.scrollIntoView ??= () => {};
+}
+
+afterEach(async () => {
+  if (typeof document === 'undefined') return;
+  const { cleanup } = await import('@testing-library/react');
+  cleanup();
+});
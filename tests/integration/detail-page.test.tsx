@@ -0,0 +1,88 @@
+// tests/integration/detail-page.test.tsx
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import MediaDetailPage from '@/app/[mediaType]/[id]/page';
+import LocaleProvider from '@/components/layout/LocaleProvider';
+import { Locale } from '@/lib/i18n';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { installMockTmdb, MockTmdb } from '../helpers/mock-tmdb';
+import { resetRequest } from '../helpers/next-headers';
+import { NotFoundError, setNavigation } from '../helpers/next-navigation';
+
+vi.mock('next/headers', () => import('../helpers/next-headers'));
+vi.mock('next/navigation', () => import('../helpers/next-navigation'));
+
+let tmdb: MockTmdb;
+
+async function renderDetail(mediaType: string, id: string, locale: Locale = 'en') {
+  resetRequest(locale === 'en' ? undefined : locale);
+  setNavigation(`/${mediaType}/${id}`);
+  const page = await MediaDetailPage({ params: Promise.resolve({ mediaType, id }) });
+  render(<LocaleProvider locale={locale}>{page}</LocaleProvider>);
+}
+
+describe('detail page', () => {
+  beforeEach(() => {
+    tmdb = installMockTmdb();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('renders a movie with its cast, providers and related titles', async () => {
+    await renderDetail('movie', '438631');
+
+    expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('Dune');
+    expect(screen.getByText(/^Paul Atreides, a brilliant and gifted young man/)).toBeTruthy();
+    expect(screen.getByRole('heading', { name: 'Top Billed Cast' })).toBeTruthy();
+    expect(screen.getAllByText('Timothée Chalamet').length).toBeGreaterThan(0);
+    expect(screen.getByRole('heading', { name: 'Where to Watch' })).toBeTruthy();
+    expect(screen.getByAltText('Max')).toBeTruthy(); // Streaming in the default region, US
+    expect(screen.getByRole('heading', { name: 'Recommended' })).toBeTruthy();
+  });
+
+  it('renders a TV show with its seasons', async () => {
+    await renderDetail('tv', '1399');
+
+    expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('Game of Thrones');
+    expect(screen.getByRole('heading', { name: 'Seasons:' })).toBeTruthy();
+  });
+
+  it('asks for the videos in the user and original languages', async () => {
+    await renderDetail('movie', '438631');
+
+    expect(tmdb.paramsOf('/movie/438631/videos')).toEqual([{ include_video_language: 'en,null' }]);
+  });
+
+  it('sends the locale language with every request of a translated page', async () => {
+    await renderDetail('movie', '438631', 'fr');
+
+    expect(screen.getByRole('heading', { name: 'Synopsis' })).toBeTruthy();
+    for (const endpoint of ['/movie/438631', '/movie/438631/credits', '/movie/438631/watch/providers', '/movie/438631/recommendations']) {
+      expect(tmdb.paramsOf(endpoint)[0], endpoint).toMatchObject({ language: 'fr-FR' });
+    }
+    expect(tmdb.paramsOf('/movie/438631/videos')).toEqual([{ include_video_language: 'fr,en,null', language: 'fr-FR' }]);
+    // TMDB has no French overview, so the English one fills in
+    expect(screen.getByText(/^Paul Atreides, a brilliant and gifted young man/)).toBeTruthy();
+  });
+
+  it('still renders when the optional sections fail', async () => {
+    tmdb.respond('/movie/438631/credits', new TmdbNotFoundError('Gone', '/movie/438631/credits'));
+    tmdb.respond('/movie/438631/recommendations', new TmdbNotFoundError('Gone', '/movie/438631/recommendations'));
+
+    await renderDetail('movie', '438631');
+
+    expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('Dune');
+    expect(screen.queryByRole('heading', { name: 'Top Billed Cast' })).toBeNull();
+    expect(screen.queryByRole('heading', { name: 'Recommended' })).toBeNull();
+  });
+
+  it('is a 404 for titles TMDB does not know', async () => {
+    await expect(renderDetail('movie', '999999999')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('is a 404 for unknown media types and IDs without calling TMDB', async () => {
+    await expect(renderDetail('person', '1190668')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(renderDetail('movie', 'dune')).rejects.toBeInstanceOf(NotFoundError);
+    expect(tmdb.requests).toEqual([]);
+  });
+});
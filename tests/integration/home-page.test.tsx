@@ -0,0 +1,105 @@
+// tests/integration/home-page.test.tsx
+// @vitest-environment jsdom
+import { render, screen, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import HomePage from '@/app/page';
+import { PAGINATION_COOKIE } from '@/lib/account';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { installMockTmdb, MockTmdb } from '../helpers/mock-tmdb';
+import { request, resetRequest } from '../helpers/next-headers';
+import { setNavigation } from '../helpers/next-navigation';
+
+vi.mock('next/headers', () => import('../helpers/next-headers'));
+vi.mock('next/navigation', () => import('../helpers/next-navigation'));
+
+let tmdb: MockTmdb;
+
+async function renderHome(query: string = '') {
+  setNavigation(`/?${query}`);
+  const searchParams = Object.fromEntries(new URLSearchParams(query));
+  render(await HomePage({ searchParams: Promise.resolve(searchParams) }));
+}
+
+const section = (heading: string) => screen.getByRole('heading', { name: heading }).closest('section')!;
+
+describe('home page', () => {
+  beforeEach(() => {
+    tmdb = installMockTmdb();
+    resetRequest();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('renders the trending sections from TMDB', async () => {
+    await renderHome();
+
+    expect(within(section('Trending Movies')).getByRole('heading', { name: 'Oppenheimer' })).toBeTruthy();
+    expect(within(section('Trending TV Shows')).getByRole('heading', { name: 'Breaking Bad' })).toBeTruthy();
+    // The mixed feed shows people with their own cards
+    expect(within(section('Trending Now')).getByText('Timothée Chalamet')).toBeTruthy();
+  });
+
+  it('asks TMDB for the first page of the weekly lists in its default language', async () => {
+    await renderHome();
+
+    expect(tmdb.paramsOf('/trending/movie/week')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/trending/tv/week')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/trending/all/week')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/movie/now_playing')).toEqual([{ page: '1' }]);
+  });
+
+  it('follows the page of each section in the URL', async () => {
+    tmdb.respond('/trending/movie/week', { page: 3, results: [], total_pages: 1, total_results: 0 });
+
+    await renderHome('moviePage=3');
+
+    expect(tmdb.paramsOf('/trending/movie/week')).toEqual([{ page: '3' }]);
+    expect(tmdb.paramsOf('/trending/tv/week')).toEqual([{ page: '1' }]);
+  });
+
+  it('follows the window of each section in the URL', async () => {
+    await renderHome('movieWindow=day&tvWindow=day');
+
+    expect(tmdb.paramsOf('/trending/movie/day')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/trending/tv/day')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/trending/all/week')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/trending/movie/week')).toEqual([]);
+  });
+
+  it('clamps page params to whole numbers from 1 to 500', async () => {
+    tmdb.respond('/trending/movie/week', { page: 500, results: [], total_pages: 1, total_results: 0 });
+
+    await renderHome('moviePage=9999&tvPage=abc&allPage=-3');
+
+    expect(tmdb.paramsOf('/trending/movie/week')).toEqual([{ page: '500' }]);
+    expect(tmdb.paramsOf('/trending/tv/week')).toEqual([{ page: '1' }]);
+    expect(tmdb.paramsOf('/trending/all/week')).toEqual([{ page: '1' }]);
+  });
+
+  it('pages the grids the way an anonymous visitor picked, from their cookie', async () => {
+    request.cookies.set(PAGINATION_COOKIE, 'loadMore');
+    tmdb.respond('/trending/movie/week', { page: 1, results: [{ id: 872585, title: 'Oppenheimer' }], total_pages: 3, total_results: 60 });
+
+    await renderHome();
+
+    const movies = within(section('Trending Movies'));
+    expect(movies.getByRole('button', { name: 'Load more' })).toBeTruthy();
+    expect(movies.getByRole<HTMLSelectElement>('combobox', { name: 'Browse by' }).value).toBe('loadMore');
+  });
+
+  it('keeps the other sections when one list fails', async () => {
+    tmdb.respond('/trending/tv/week', new TmdbNotFoundError('Gone', '/trending/tv/week'));
+
+    await renderHome();
+
+    expect(screen.getByText('Failed to fetch trending TV shows. Please try again later.')).toBeTruthy();
+    expect(within(section('Trending Movies')).getByRole('heading', { name: 'Oppenheimer' })).toBeTruthy();
+  });
+
+  it('has no sort or filter toolbar, since trending cannot be sorted or filtered as a whole', async () => {
+    await renderHome('movieSort=title&movieYear=2023');
+
+    expect(screen.queryByRole('form', { name: 'Sort and filter titles' })).toBeNull();
+    const titles = within(section('Trending Movies')).getAllByRole('heading', { level: 3 }).map(heading => heading.textContent);
+    expect(titles.length).toBeGreaterThan(1);
+  });
+});
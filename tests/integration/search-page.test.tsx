@@ -0,0 +1,79 @@
+// tests/integration/search-page.test.tsx
+// @vitest-environment jsdom
+import { render, screen, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import SearchPage from '@/app/search/page';
+import { TmdbNotFoundError } from '@/lib/server/tmdb-errors';
+import { installMockTmdb, MockTmdb } from '../helpers/mock-tmdb';
+import { resetRequest } from '../helpers/next-headers';
+import { setNavigation } from '../helpers/next-navigation';
+
+vi.mock('next/headers', () => import('../helpers/next-headers'));
+vi.mock('next/navigation', () => import('../helpers/next-navigation'));
+
+let tmdb: MockTmdb;
+
+async function renderSearch(query: string) {
+  setNavigation(`/search?${query}`);
+  const searchParams = Object.fromEntries(new URLSearchParams(query));
+  render(await SearchPage({ searchParams: Promise.resolve(searchParams) }));
+}
+
+const resultTitles = () => screen.queryAllByRole('heading', { level: 3 }).map(heading => heading.textContent);
+
+describe('search page', () => {
+  beforeEach(() => {
+    tmdb = installMockTmdb();
+    resetRequest();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('asks for a search term without calling TMDB', async () => {
+    await renderSearch('');
+
+    expect(screen.getByText('Enter a search term in the header to find movies, TV shows or people.')).toBeTruthy();
+    expect(tmdb.requests).toEqual([]);
+  });
+
+  it('shows every result type on the All tab, with a count per tab', async () => {
+    await renderSearch('query=dune');
+
+    expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('Search Results for "dune"');
+    expect(resultTitles()).toEqual(['Dune: Part Two', 'Dune', 'Dune: Prophecy']);
+
+    const tabs = within(screen.getByRole('navigation', { name: 'Result types' }));
+    const allTab = tabs.getByRole('link', { name: /^All/ });
+    const moviesTab = tabs.getByRole('link', { name: /^Movies/ });
+    expect(allTab.getAttribute('aria-current')).toBe('page');
+    expect(within(allTab).getByText('3')).toBeTruthy();
+    expect(within(moviesTab).getByText('2')).toBeTruthy();
+    expect(moviesTab.getAttribute('href')).toBe('/search?query=dune&type=movie');
+  });
+
+  it('shows one result type on its tab', async () => {
+    await renderSearch('query=dune&type=movie');
+
+    expect(resultTitles()).toEqual(['Dune', 'Dune: Part Two']);
+    expect(tmdb.paramsOf('/search/movie')).toEqual([{ query: 'dune', page: '1' }]);
+  });
+
+  it('requests the page in the URL for the active tab only, clamped to what TMDB serves', async () => {
+    tmdb.respond('/search/movie', { page: 500, results: [], total_pages: 1, total_results: 0 });
+
+    await renderSearch('query=dune&type=movie&page=12345');
+
+    expect(tmdb.paramsOf('/search/movie')).toEqual([{ query: 'dune', page: '500' }]);
+    expect(tmdb.paramsOf('/search/tv')).toEqual([{ query: 'dune', page: '1' }]);
+    expect(screen.getByText('No movies found for "dune". Try a different search term.')).toBeTruthy();
+  });
+
+  it('shows an error when the active tab fails and keeps the other counts', async () => {
+    tmdb.respond('/search/multi', new TmdbNotFoundError('Gone', '/search/multi'));
+
+    await renderSearch('query=dune');
+
+    expect(screen.getByText('Failed to fetch search results. Please try again later.')).toBeTruthy();
+    expect(within(screen.getByRole('link', { name: /^Movies/ })).getByText('2')).toBeTruthy();
+    expect(within(screen.getByRole('link', { name: /^All/ })).queryByText('3')).toBeNull();
+  });
+});
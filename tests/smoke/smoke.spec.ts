@@ -0,0 +1,66 @@
+// tests/smoke/smoke.spec.ts
+// End-to-end checks of the main routes of a production build, with TMDB answered from fixtures/tmdb.
+import { expect, test } from '@playwright/test';
+
+test('home page shows the trending sections', async ({ page }) => {
+  await page.goto('/');
+
+  await expect(page.locator('html')).toHaveAttribute('lang', 'en');
+  const trendingMovies = page.locator('section', { has: page.getByRole('heading', { name: 'Trending Movies' }) });
+  await expect(trendingMovies.getByRole('heading', { name: 'Oppenheimer' })).toBeVisible();
+  await expect(page.getByRole('heading', { name: 'Trending TV Shows' })).toBeVisible();
+});
+
+test('movie details open with cast and watch providers', async ({ page }) => {
+  await page.goto('/movie/438631');
+
+  await expect(page.getByRole('heading', { level: 1, name: 'Dune' })).toBeVisible();
+  await expect(page.getByRole('heading', { name: 'Where to Watch' })).toBeVisible();
+  await expect(page.getByText('Timothée Chalamet').first()).toBeVisible();
+});
+
+test('header search suggests titles and submits to the search page', async ({ page }) => {
+  await page.goto('/');
+
+  const input = page.getByPlaceholder('Search movies, TV shows or people...').filter({ visible: true });
+  await input.fill('dune');
+  await expect(page.getByRole('option', { name: /Dune/ }).first()).toBeVisible();
+
+  await input.press('Enter');
+  await expect(page).toHaveURL(/\/search\?query=dune/);
+  await expect(page.getByRole('heading', { name: 'Search Results for "dune"' })).toBeVisible();
+});
+
+test('locale prefix renders the page in that language', async ({ page }) => {
+  await page.goto('/fr/movie/438631');
+
+  await expect(page.locator('html')).toHaveAttribute('lang', 'fr');
+  await expect(page.getByRole('heading', { name: 'Synopsis' })).toBeVisible();
+});
+
+test('unknown titles get the 404 page', async ({ page }) => {
+  const response = await page.goto('/movie/999999999');
+
+  expect(response?.status()).toBe(404);
+  await expect(page.getByRole('heading', { name: 'Page not found' })).toBeVisible();
+});
+
+test('v1 API serves a movie and validates its params', async ({ request }) => {
+  const response = await request.get('/api/v1/movies/438631');
+  expect(response.status()).toBe(200);
+  expect((await response.json()).title).toBe('Dune');
+
+  expect((await request.get('/api/v1/movies/abc')).status()).toBe(400);
+  expect((await request.get('/api/v1/movies/999999999')).status()).toBe(404);
+});
+
+test('media list API serves a page and validates its params', async ({ request }) => {
+  const response = await request.get('/api/media-list/popular-movies?page=1');
+  expect(response.status()).toBe(200);
+  const body = await response.json();
+  expect(body.page).toBe(1);
+  expect(body.results.length).toBeGreaterThan(0);
+
+  expect((await request.get('/api/media-list/popular-movies?page=501')).status()).toBe(400);
+  expect((await request.get('/api/media-list/not-a-list')).status()).toBe(404);
+});
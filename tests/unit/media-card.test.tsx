@@ -0,0 +1,75 @@
+// tests/unit/media-card.test.tsx
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import MediaCard from '@/components/common/MediaCard';
+import LocaleProvider from '@/components/layout/LocaleProvider';
+import { TmdbMediaItem } from '@/lib/types/tmdb';
+
+vi.mock('next/navigation', () => import('../helpers/next-navigation'));
+
+const baseItem: TmdbMediaItem = {
+  adult: false,
+  backdrop_path: null,
+  id: 438631,
+  original_language: 'en',
+  overview: '',
+  popularity: 100,
+  poster_path: '/poster.jpg',
+  vote_average: 7.8,
+  vote_count: 12000,
+  media_type: 'movie',
+};
+
+describe('MediaCard', () => {
+  it('shows a movie by its title and release year', () => {
+    render(<MediaCard item={{ ...baseItem, title: 'Dune', release_date: '2021-09-15' }} />);
+
+    expect(screen.getByRole('heading', { name: 'Dune' })).toBeTruthy();
+    expect(screen.getByText('(2021)')).toBeTruthy();
+    expect(screen.getByRole('link').getAttribute('href')).toBe('/movie/438631');
+  });
+
+  it('shows a TV show by its name and first air date', () => {
+    render(<MediaCard item={{ ...baseItem, id: 1399, media_type: 'tv', name: 'Game of Thrones', first_air_date: '2011-04-17' }} />);
+
+    expect(screen.getByRole('heading', { name: 'Game of Thrones' })).toBeTruthy();
+    expect(screen.getByText('(2011)')).toBeTruthy();
+    expect(screen.getByRole('link').getAttribute('href')).toBe('/tv/1399');
+  });
+
+  it('ignores the fields of the other media type', () => {
+    render(
+      <MediaCard
+        item={{ ...baseItem, title: 'Movie title', name: 'Show name', release_date: '2021-09-15', first_air_date: '1999-01-01' }}
+      />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Movie title' })).toBeTruthy();
+    expect(screen.getByText('(2021)')).toBeTruthy();
+    expect(screen.queryByText('Show name')).toBeNull();
+  });
+
+  it('leaves out the year when the date is missing or invalid', () => {
+    const { container } = render(<MediaCard item={{ ...baseItem, title: 'Untitled Project', release_date: '' }} />);
+    expect(container.textContent).not.toMatch(/\(\d{4}\)/);
+  });
+
+  it('shows N/A without a rating and falls back to a generic alt text without a title', () => {
+    render(<MediaCard item={{ ...baseItem, vote_average: 0 }} />);
+
+    expect(screen.getByText('N/A')).toBeTruthy();
+    expect(screen.getByRole('img').getAttribute('alt')).toBe('Poster');
+  });
+
+  it('localizes the link, rating and year in other locales', () => {
+    render(
+      <LocaleProvider locale="fr">
+        <MediaCard item={{ ...baseItem, title: 'Dune', release_date: '2021-09-15' }} />
+      </LocaleProvider>
+    );
+
+    expect(screen.getByRole('link').getAttribute('href')).toBe('/fr/movie/438631');
+    expect(screen.getByText('7,8')).toBeTruthy();
+  });
+});
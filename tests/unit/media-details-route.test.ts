@@ -0,0 +1,87 @@
+// tests/unit/media-details-route.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/media-details/route';
+import { getMediaDetails, getMediaVideos } from '@/lib/server/tmdb-api';
+import { TmdbNotFoundError, TmdbRateLimitError, TmdbUpstreamError } from '@/lib/server/tmdb-errors';
+
+vi.mock('@/lib/server/tmdb-api', () => ({
+  getMediaDetails: vi.fn(),
+  getMediaVideos: vi.fn(),
+}));
+
+const request = (query: string) => GET(new Request(`http://localhost/api/media-details?${query}`));
+
+describe('GET /api/media-details', () => {
+  beforeEach(() => {
+    vi.mocked(getMediaDetails).mockReset();
+    vi.mocked(getMediaVideos).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it.each(['', 'mediaType=movie', 'id=438631', 'mediaType=&id=438631'])('rejects a request without mediaType and id (%s)', async query => {
+    const response = await request(query);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'mediaType and id parameters are required.' });
+    expect(getMediaDetails).not.toHaveBeenCalled();
+  });
+
+  it('rejects a mediaType other than movie or tv', async () => {
+    const response = await request('mediaType=person&id=1190668');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid mediaType. Must be "movie" or "tv".' });
+    expect(getMediaDetails).not.toHaveBeenCalled();
+  });
+
+  it('returns the details with the deprecation headers', async () => {
+    vi.mocked(getMediaDetails).mockResolvedValue({ id: 438631, title: 'Dune' } as never);
+
+    const response = await request('mediaType=movie&id=438631');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 438631, title: 'Dune' });
+    expect(getMediaDetails).toHaveBeenCalledWith('movie', '438631');
+    expect(response.headers.get('Deprecation')).toBe('true');
+    expect(response.headers.get('Link')).toBe('</api/v1/movies/438631>; rel="successor-version"');
+  });
+
+  it('returns the videos instead with videos=true', async () => {
+    vi.mocked(getMediaVideos).mockResolvedValue({ id: 1399, results: [] });
+
+    const response = await request('mediaType=tv&id=1399&videos=true');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 1399, results: [] });
+    expect(getMediaVideos).toHaveBeenCalledWith('tv', '1399');
+    expect(getMediaDetails).not.toHaveBeenCalled();
+    expect(response.headers.get('Link')).toBe('</api/v1/tv/1399>; rel="successor-version"');
+  });
+
+  it('answers 404 when TMDB has no such title', async () => {
+    vi.mocked(getMediaDetails).mockRejectedValue(new TmdbNotFoundError('Not found', '/movie/1'));
+
+    const response = await request('mediaType=movie&id=1');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No movie found with id 1.' });
+  });
+
+  it('answers 503 with Retry-After when TMDB rate limits', async () => {
+    vi.mocked(getMediaDetails).mockRejectedValue(new TmdbRateLimitError('Too many requests', '/movie/438631', 2500));
+
+    const response = await request('mediaType=movie&id=438631');
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('3');
+  });
+
+  it('answers 502 for other upstream failures', async () => {
+    vi.mocked(getMediaDetails).mockRejectedValue(new TmdbUpstreamError('Bad gateway', '/movie/438631', 502));
+
+    const response = await request('mediaType=movie&id=438631');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Failed to fetch media details or videos.' });
+  });
+});
@@ -0,0 +1,64 @@
+// tests/unit/media-lists.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GRID_FILTERS } from '@/lib/grid-filters';
+import { getMediaListPage } from '@/lib/server/media-lists';
+import { installMockTmdb, MockTmdb } from '../helpers/mock-tmdb';
+
+let tmdb: MockTmdb;
+
+const emptyPage = { page: 1, results: [], total_pages: 1, total_results: 0 };
+
+describe('getMediaListPage', () => {
+  beforeEach(() => {
+    tmdb = installMockTmdb();
+    for (const endpoint of ['/discover/movie', '/discover/tv', '/movie/upcoming', '/trending/movie/week']) tmdb.respond(endpoint, emptyPage);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fetches the list itself without sort or filters', async () => {
+    await getMediaListPage('upcoming-movies', 2, DEFAULT_GRID_FILTERS, {});
+
+    expect(tmdb.paramsOf('/movie/upcoming')).toEqual([expect.objectContaining({ page: '2' })]);
+    expect(tmdb.paramsOf('/discover/movie')).toEqual([]);
+  });
+
+  it('sorts and filters upcoming movies through discover, within the next four weeks of releases in the region', async () => {
+    await getMediaListPage('upcoming-movies', 2, { sort: 'rating', genre: 28 }, { region: 'GB' });
+
+    expect(tmdb.paramsOf('/discover/movie')).toEqual([expect.objectContaining({
+      page: '2',
+      sort_by: 'vote_average.desc',
+      with_genres: '28',
+      'release_date.gte': '2026-10-20',
+      'release_date.lte': '2026-11-16',
+      with_release_type: '2|3',
+      region: 'GB',
+    })]);
+  });
+
+  it.each([
+    ['airing-today-tv', '2026-10-19', '2026-10-19'],
+    ['on-the-air-tv', '2026-10-19', '2026-10-25'],
+  ] as const)('filters %s through discover by episode air date', async (list, from, to) => {
+    await getMediaListPage(list, 1, { sort: 'default', minRating: 7 }, {});
+
+    expect(tmdb.paramsOf('/discover/tv')).toEqual([expect.objectContaining({
+      sort_by: 'popularity.desc',
+      'vote_average.gte': '7',
+      'air_date.gte': from,
+      'air_date.lte': to,
+    })]);
+  });
+
+  it('ignores sort and filters on trending, which discover cannot reproduce', async () => {
+    await getMediaListPage('trending-movies', 1, { sort: 'title', year: 2023 }, {});
+
+    expect(tmdb.paramsOf('/trending/movie/week')).toHaveLength(1);
+    expect(tmdb.paramsOf('/discover/movie')).toEqual([]);
+  });
+});
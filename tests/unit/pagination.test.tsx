@@ -0,0 +1,59 @@
+// tests/unit/pagination.test.tsx
+// @vitest-environment jsdom
+import { render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import PaginationControls from '@/components/common/PaginationControls';
+
+vi.mock('next/navigation', () => import('../helpers/next-navigation'));
+
+/**
+ * Renders the controls and returns the page numbers they offer, with '...' for the gaps.
+ */
+function pageNumbers(currentPage: number, totalPages: number) {
+  const { container } = render(<PaginationControls currentPage={currentPage} totalPages={totalPages} />);
+  const controls = container.firstElementChild;
+  if (!controls) return [];
+  // The first and last controls are Previous and Next.
+  return [...controls.children].slice(1, -1).map(el => (el.textContent === '...' ? '...' : Number(el.textContent)));
+}
+
+describe('PaginationControls page numbers', () => {
+  it('renders nothing for a single page or an empty list', () => {
+    expect(pageNumbers(1, 0)).toEqual([]);
+    expect(pageNumbers(1, 1)).toEqual([]);
+  });
+
+  it('lists every page when there are at most seven', () => {
+    expect(pageNumbers(1, 2)).toEqual([1, 2]);
+    expect(pageNumbers(4, 7)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('starts at page 1 with the last page after an ellipsis', () => {
+    expect(pageNumbers(1, 20)).toEqual([1, 2, 3, 4, 5, 6, 7, '...', 20]);
+    expect(pageNumbers(3, 20)).toEqual([1, 2, 3, 4, 5, 6, 7, '...', 20]);
+  });
+
+  it('ends at the last page with the first page before an ellipsis, mirroring the start', () => {
+    expect(pageNumbers(20, 20)).toEqual([1, '...', 14, 15, 16, 17, 18, 19, 20]);
+    expect(pageNumbers(18, 20)).toEqual([1, '...', 14, 15, 16, 17, 18, 19, 20]);
+  });
+
+  it('leaves out the ellipsis when the window is one page from either end', () => {
+    expect(pageNumbers(5, 20)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, '...', 20]);
+    expect(pageNumbers(16, 20)).toEqual([1, '...', 13, 14, 15, 16, 17, 18, 19, 20]);
+  });
+
+  it('centres the window on the current page in the middle of a long list', () => {
+    expect(pageNumbers(10, 20)).toEqual([1, '...', 7, 8, 9, 10, 11, 12, 13, '...', 20]);
+    expect(pageNumbers(250, 500)).toEqual([1, '...', 247, 248, 249, 250, 251, 252, 253, '...', 500]);
+  });
+
+  it('treats a current page past the end as the last page', () => {
+    expect(pageNumbers(30, 20)).toEqual(pageNumbers(20, 20));
+  });
+
+  it('marks the current page', () => {
+    const { getByRole } = render(<PaginationControls currentPage={3} totalPages={20} />);
+    expect(getByRole('link', { name: 'Go to page 3' }).getAttribute('aria-current')).toBe('page');
+  });
+});
@@ -0,0 +1,65 @@
+// tests/unit/tmdb-schemas.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mediaItemSchema, paginatedSchema, parseTmdbResponse } from '@/lib/server/tmdb-schemas';
+import { TmdbSchemaError } from '@/lib/server/tmdb-errors';
+
+const movieListSchema = paginatedSchema(mediaItemSchema('movie'));
+
+// A page of /movie/popular where TMDB sent a null vote_average and dropped the ID of one result.
+const driftedPage = () => ({
+  page: 1,
+  results: [
+    { id: 872585, title: 'Oppenheimer', vote_average: null, vote_count: 9000 },
+    { title: 'No ID' },
+    { id: 438631, title: 'Dune', vote_average: 7.8, vote_count: 12000, genre_ids: [878, 'adventure'] },
+  ],
+  total_pages: 3,
+  total_results: 60,
+});
+
+describe('parseTmdbResponse', () => {
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('throws on drift in strict mode', () => {
+    vi.stubEnv('TMDB_SCHEMA_VALIDATION', 'strict');
+
+    expect(() => parseTmdbResponse('/movie/popular', movieListSchema, driftedPage())).toThrow(TmdbSchemaError);
+  });
+
+  it.each(['warn', 'off'])('still normalizes a drifted response in %s mode', mode => {
+    vi.stubEnv('TMDB_SCHEMA_VALIDATION', mode);
+
+    const data = parseTmdbResponse('/movie/popular', movieListSchema, driftedPage());
+
+    expect(data.total_pages).toBe(3);
+    expect(data.results.map(item => item.id)).toEqual([872585, 438631]);
+    expect(data.results.every(item => item.media_type === 'movie')).toBe(true);
+    expect(data.results[0]).toMatchObject({ vote_average: 0, overview: '', poster_path: null });
+    expect(data.results[1].genre_ids).toEqual([878]);
+  });
+
+  it('logs the drift in warn mode only', () => {
+    vi.stubEnv('TMDB_SCHEMA_VALIDATION', 'warn');
+    parseTmdbResponse('/movie/popular', movieListSchema, driftedPage());
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('results.0.vote_average'));
+
+    warn.mockClear();
+    vi.stubEnv('TMDB_SCHEMA_VALIDATION', 'off');
+    parseTmdbResponse('/movie/popular', movieListSchema, driftedPage());
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('returns the raw response when the drift is at the root', () => {
+    vi.stubEnv('TMDB_SCHEMA_VALIDATION', 'warn');
+
+    expect(parseTmdbResponse('/movie/popular', movieListSchema, 'Service unavailable')).toBe('Service unavailable');
+  });
+});
@@ -0,0 +1,27 @@
+// vitest.config.mts
+// Unit tests (tests/unit) and integration tests rendering pages against an in-process mock TMDB
+// (tests/integration). The smoke suite in tests/smoke runs against `next start` with Playwright instead.
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+const root = fileURLToPath(new URL('.', import.meta.url));
+
+export default defineConfig({
+  esbuild: { jsx: 'automatic' },
+  // Stylesheets (e.g. Swiper's) are imported but never styled in jsdom; skip the Tailwind PostCSS setup.
+  css: { postcss: {} },
+  resolve: {
+    alias: {
+      '@/': root,
+      // The real package throws outside a React Server Components build; the tests import server modules directly.
+      'server-only': `${root}tests/helpers/server-only.ts`,
+    },
+  },
+  test: {
+    include: ['tests/unit/**/*.test.{ts,tsx}', 'tests/integration/**/*.test.{ts,tsx}'],
+    environment: 'node',
+    setupFiles: ['tests/helpers/setup.ts'],
+    // Every test starts from an empty response cache and strict schemas, so fixture drift fails loudly.
+    env: { TMDB_CACHE: 'off', TMDB_SCHEMA_VALIDATION: 'strict', DATA_DIR: 'tests/.data' },
+  },
+});